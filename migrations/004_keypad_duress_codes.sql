@@ -0,0 +1,40 @@
+-- Duress PIN codes for keypad users
+-- A duress PIN behaves like a normal PIN on the keypad but raises a silent alarm.
+-- Only a keyed hash of the PIN is stored, never the PIN itself.
+
+CREATE TABLE IF NOT EXISTS keypad_duress_codes (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  user_id         TEXT    NOT NULL,
+  user_name       TEXT,
+
+  -- HMAC-SHA256 of organization ID + duress PIN
+  pin_hash        TEXT    NOT NULL,
+
+  -- Timestamps
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT keypad_duress_codes_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_duress_codes_user_check CHECK (user_id != ''),
+
+  -- One duress code per user, and no two users may share one
+  UNIQUE(organization_id, user_id),
+  UNIQUE(organization_id, pin_hash)
+);
+
+-- Lookup index used on every PIN validation
+CREATE INDEX IF NOT EXISTS idx_keypad_duress_codes_org_hash
+  ON keypad_duress_codes(organization_id, pin_hash);
+
+-- Silent events (e.g. duress) are filtered out of keypad queries by category
+CREATE INDEX IF NOT EXISTS idx_fusion_events_org_category
+  ON fusion_events(organization_id, category, received_at DESC);
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE keypad_duress_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON keypad_duress_codes
+  FOR ALL USING (true);
@@ -0,0 +1,39 @@
+-- Failed PIN attempts, used to lock out brute-force attempts
+-- Attempts are counted per API key organization and the address the request came
+-- from. Keypad IDs are picked by the client, so they only label lockout events.
+-- The lockout policy itself lives in src/lib/pin-lockout.ts.
+
+CREATE TABLE IF NOT EXISTS keypad_pin_attempts (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  client_address  TEXT    NOT NULL,
+
+  -- Failures since the last lockout or successful PIN
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  -- Lockouts since the last successful PIN (drives the escalating cooldown)
+  lockout_count   INTEGER NOT NULL DEFAULT 0,
+  locked_until    TIMESTAMPTZ,
+  last_failed_at  TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT keypad_pin_attempts_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_pin_attempts_client_address_check CHECK (client_address != ''),
+  CONSTRAINT keypad_pin_attempts_counts_check CHECK (failed_attempts >= 0 AND lockout_count >= 0),
+
+  UNIQUE(organization_id, client_address)
+);
+
+-- Lookup index used on every PIN validation
+CREATE INDEX IF NOT EXISTS idx_keypad_pin_attempts_org_client
+  ON keypad_pin_attempts(organization_id, client_address);
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE keypad_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON keypad_pin_attempts
+  FOR ALL USING (true);
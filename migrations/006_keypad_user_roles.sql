@@ -0,0 +1,59 @@
+-- Keypad user roles
+-- keypad_users lists everyone who has signed in at a keypad so admins can assign
+-- roles to them; keypad_user_roles holds the assignments. Role permissions live
+-- in src/lib/permissions.ts.
+
+CREATE TABLE IF NOT EXISTS keypad_users (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  user_id         TEXT    NOT NULL,
+  user_name       TEXT,
+  last_seen_at    TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Timestamps
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT keypad_users_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_users_user_check CHECK (user_id != ''),
+
+  UNIQUE(organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS keypad_user_roles (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  user_id         TEXT    NOT NULL,
+  -- '*' applies the role at every location; a location ID overrides it there
+  location_id     TEXT    NOT NULL DEFAULT '*',
+  role            TEXT    NOT NULL,
+  assigned_by     TEXT,
+
+  -- Timestamps
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT keypad_user_roles_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_user_roles_user_check CHECK (user_id != ''),
+  CONSTRAINT keypad_user_roles_location_check CHECK (location_id != ''),
+  CONSTRAINT keypad_user_roles_role_check CHECK (role IN ('viewer', 'arm_only', 'operator', 'admin')),
+
+  UNIQUE(organization_id, user_id, location_id)
+);
+
+-- Lookup index used on every PIN validation
+CREATE INDEX IF NOT EXISTS idx_keypad_user_roles_org_user
+  ON keypad_user_roles(organization_id, user_id);
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE keypad_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE keypad_user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON keypad_users
+  FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for service role" ON keypad_user_roles
+  FOR ALL USING (true);
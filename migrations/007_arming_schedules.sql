@@ -0,0 +1,88 @@
+-- Scheduled arming
+-- Fusion only tells us which schedule a location uses (Location.activeArmingScheduleId);
+-- the schedule itself is stored here under that ID. Postponements move a single
+-- scheduled arm, and runs record what the scheduler has already done so a restart
+-- never arms or disarms twice. Schedule evaluation lives in src/lib/armingSchedule.ts.
+
+CREATE TABLE IF NOT EXISTS arming_schedules (
+  -- Same ID as Location.activeArmingScheduleId in Fusion
+  id              TEXT    PRIMARY KEY,
+  organization_id TEXT    NOT NULL,
+  name            TEXT    NOT NULL DEFAULT '',
+  enabled         BOOLEAN NOT NULL DEFAULT true,
+  windows         JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  exceptions      JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  -- Empty means every zone at the location
+  zone_ids        JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  warning_minutes INTEGER NOT NULL DEFAULT 5,
+  updated_by      TEXT,
+
+  -- Timestamps
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT arming_schedules_org_check CHECK (organization_id != ''),
+  CONSTRAINT arming_schedules_warning_check CHECK (warning_minutes >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS arming_schedule_postponements (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  location_id     TEXT    NOT NULL,
+  schedule_id     TEXT    NOT NULL,
+  scheduled_at    TIMESTAMPTZ NOT NULL,
+  postponed_until TIMESTAMPTZ NOT NULL,
+  user_id         TEXT,
+  user_name       TEXT,
+
+  -- Timestamps
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT arming_schedule_postponements_org_check CHECK (organization_id != ''),
+  CONSTRAINT arming_schedule_postponements_until_check CHECK (postponed_until > scheduled_at),
+
+  UNIQUE(location_id, scheduled_at)
+);
+
+CREATE TABLE IF NOT EXISTS arming_schedule_runs (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  location_id     TEXT    NOT NULL,
+  schedule_id     TEXT    NOT NULL,
+  action          TEXT    NOT NULL,
+  scheduled_at    TIMESTAMPTZ NOT NULL,
+  ran_at          TIMESTAMPTZ DEFAULT NOW(),
+  -- Claimed until the transition has been applied or has failed
+  status          TEXT    NOT NULL DEFAULT 'claimed',
+  error           TEXT,
+  completed_at    TIMESTAMPTZ,
+
+  -- Constraints
+  CONSTRAINT arming_schedule_runs_org_check CHECK (organization_id != ''),
+  CONSTRAINT arming_schedule_runs_action_check CHECK (action IN ('arm', 'disarm', 'warn')),
+  CONSTRAINT arming_schedule_runs_status_check CHECK (status IN ('claimed', 'applied', 'failed')),
+
+  UNIQUE(location_id, action, scheduled_at)
+);
+
+-- Postponements are read for every location on every scheduler tick
+CREATE INDEX IF NOT EXISTS idx_arming_schedule_postponements_location
+  ON arming_schedule_postponements(location_id, scheduled_at DESC);
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE arming_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arming_schedule_postponements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arming_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON arming_schedules
+  FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for service role" ON arming_schedule_postponements
+  FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for service role" ON arming_schedule_runs
+  FOR ALL USING (true);
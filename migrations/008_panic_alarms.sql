@@ -0,0 +1,41 @@
+-- Keypad panic alarms
+-- One row per police, fire or medical panic pressed at a keypad. Escalation
+-- re-notifies responders while status is still 'active'.
+
+CREATE TABLE IF NOT EXISTS panic_alarms (
+  id               TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id  TEXT    NOT NULL,
+  location_id      TEXT    NOT NULL,
+  -- For notification text when escalation resumes after a restart
+  location_name    TEXT,
+  panic_type       TEXT    NOT NULL,
+  keypad_id        TEXT,
+  status           TEXT    NOT NULL DEFAULT 'active',
+  escalation_level INTEGER NOT NULL DEFAULT 0,
+  acknowledged_at  TIMESTAMPTZ,
+  acknowledged_by  TEXT,
+
+  -- Timestamps
+  created_at       TIMESTAMPTZ DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT panic_alarms_org_check CHECK (organization_id != ''),
+  CONSTRAINT panic_alarms_type_check CHECK (panic_type IN ('police', 'fire', 'medical')),
+  CONSTRAINT panic_alarms_status_check CHECK (status IN ('active', 'acknowledged'))
+);
+
+-- Open alarms are looked up per location on every press
+CREATE INDEX IF NOT EXISTS idx_panic_alarms_location_status
+  ON panic_alarms(organization_id, location_id, status, created_at DESC);
+
+-- Escalation of every open alarm is picked up again when the server starts
+CREATE INDEX IF NOT EXISTS idx_panic_alarms_active
+  ON panic_alarms(status) WHERE status = 'active';
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE panic_alarms ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON panic_alarms
+  FOR ALL USING (true);
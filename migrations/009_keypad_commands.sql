@@ -0,0 +1,56 @@
+-- Keypad command queue
+-- Arm, disarm and device state commands are recorded here before they are sent to
+-- Fusion. A command moves from 'pending' to 'sent' once Fusion accepts it, then to
+-- 'confirmed' when live events show every target in the requested state, or to
+-- 'timed_out' if they never do. 'failed' means Fusion rejected every attempt.
+-- Status rules live in src/lib/keypadCommands.ts.
+
+CREATE TABLE IF NOT EXISTS keypad_commands (
+  id                   TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id      TEXT    NOT NULL,
+  location_id          TEXT,
+  keypad_id            TEXT,
+  requested_by         TEXT,
+  -- Generated by the keypad once per action; a repeat returns the original command
+  idempotency_key      TEXT    NOT NULL,
+  command_type         TEXT    NOT NULL,
+  target_ids           JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  state                TEXT,
+  label                TEXT    NOT NULL DEFAULT '',
+  status               TEXT    NOT NULL DEFAULT 'pending',
+  attempts             INTEGER NOT NULL DEFAULT 0,
+  last_error           TEXT,
+  -- Fusion's response, returned again when the command is resubmitted
+  result               JSONB,
+  confirmed_target_ids JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  sent_at              TIMESTAMPTZ,
+  confirmed_at         TIMESTAMPTZ,
+  expires_at           TIMESTAMPTZ NOT NULL,
+
+  -- Timestamps
+  created_at           TIMESTAMPTZ DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT keypad_commands_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_commands_idempotency_unique UNIQUE (organization_id, idempotency_key),
+  CONSTRAINT keypad_commands_type_check CHECK (command_type IN ('arm_devices', 'disarm_devices', 'device_state', 'zone_arm_state')),
+  CONSTRAINT keypad_commands_status_check CHECK (status IN ('pending', 'sent', 'confirmed', 'failed', 'timed_out')),
+  CONSTRAINT keypad_commands_attempts_check CHECK (attempts >= 0)
+);
+
+-- Keypads list a location's recent commands
+CREATE INDEX IF NOT EXISTS idx_keypad_commands_location
+  ON keypad_commands(organization_id, location_id, created_at DESC);
+
+-- Unfinished commands are swept once they expire
+CREATE INDEX IF NOT EXISTS idx_keypad_commands_open
+  ON keypad_commands(status, expires_at)
+  WHERE status IN ('pending', 'sent');
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE keypad_commands ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON keypad_commands
+  FOR ALL USING (true);
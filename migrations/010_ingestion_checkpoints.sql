@@ -0,0 +1,25 @@
+-- Background ingestion checkpoints
+-- The last event the background service processed from each organization's bridge
+-- stream. After a restart or dropped connection the service resumes with
+-- Last-Event-ID and backfills everything since last_event_timestamp.
+-- Checkpoint rules live in src/lib/eventIngestion.ts.
+
+CREATE TABLE IF NOT EXISTS ingestion_checkpoints (
+  organization_id      TEXT    PRIMARY KEY,
+  last_event_id        TEXT,
+  last_event_timestamp TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at           TIMESTAMPTZ DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT ingestion_checkpoints_org_check CHECK (organization_id != '')
+);
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE ingestion_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON ingestion_checkpoints
+  FOR ALL USING (true);
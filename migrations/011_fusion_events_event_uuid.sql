@@ -0,0 +1,51 @@
+-- Stable event identity for fusion_events
+-- Every stored event gets an event_uuid: the bridge's eventUuid, an identity built
+-- from the device, time and type when the bridge sent none, or a fresh UUID for
+-- events raised by the keypad itself. Events are upserted on
+-- (organization_id, event_uuid), so redeliveries, reconnect backfills and service
+-- restarts can't store the same event twice.
+-- Identity rules live in src/lib/eventIngestion.ts.
+
+ALTER TABLE fusion_events
+ADD COLUMN IF NOT EXISTS event_uuid TEXT;
+
+-- Existing rows get the identity getEventIdentity would have given them: the
+-- eventUuid where one was stored, otherwise derived:<device>:<ms>:<type> from the
+-- raw bridge event, or from the stored columns for rows saved without one. String
+-- timestamps are read from event_timestamp, which holds the same instant.
+UPDATE fusion_events
+SET event_uuid = COALESCE(
+  NULLIF(event_data->>'eventUuid', ''),
+  NULLIF(raw_event_data->>'eventUuid', ''),
+  'derived:'
+    || COALESCE(NULLIF(raw_event_data->>'deviceId', ''), NULLIF(raw_event_data->>'deviceName', ''),
+                CASE WHEN raw_event_data IS NULL THEN COALESCE(NULLIF(device_id, ''), NULLIF(device_name, '')) END,
+                'unknown')
+    || ':'
+    || CASE
+         WHEN jsonb_typeof(raw_event_data->'timestamp') = 'number' THEN raw_event_data->>'timestamp'
+         WHEN jsonb_typeof(raw_event_data->'timestamp') = 'string' OR raw_event_data IS NULL
+           THEN COALESCE(FLOOR(EXTRACT(EPOCH FROM event_timestamp) * 1000)::BIGINT::TEXT, 'unknown')
+         ELSE 'unknown'
+       END
+    || ':'
+    || COALESCE(NULLIF(raw_event_data->'event'->>'type', ''), NULLIF(raw_event_data->>'eventType', ''),
+                NULLIF(raw_event_data->>'type', ''),
+                CASE WHEN raw_event_data IS NULL THEN NULLIF(event_type, '') END,
+                'unknown')
+)
+WHERE event_uuid IS NULL;
+
+-- Remove copies of the same event saved before this column existed, keeping the first
+DELETE FROM fusion_events a
+USING fusion_events b
+WHERE a.organization_id = b.organization_id
+  AND a.event_uuid = b.event_uuid
+  AND (a.received_at, a.id) > (b.received_at, b.id);
+
+ALTER TABLE fusion_events
+ALTER COLUMN event_uuid SET NOT NULL;
+
+-- Constraints
+ALTER TABLE fusion_events
+ADD CONSTRAINT fusion_events_event_uuid_unique UNIQUE (organization_id, event_uuid);
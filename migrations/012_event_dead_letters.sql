@@ -0,0 +1,38 @@
+-- Event dead letters
+-- Events the background service or an API route couldn't write to fusion_events,
+-- either because the database kept failing through every retry, rejected the row
+-- outright, or the write queue was full. event_row holds the complete row, so an
+-- operator can replay it through /api/events/dead-letters once the cause is fixed.
+-- Replayed entries are deleted; ones that fail again stay with the new error.
+-- Write pipeline rules live in src/lib/eventWriter.ts.
+
+CREATE TABLE IF NOT EXISTS event_dead_letters (
+  id                TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id   TEXT    NOT NULL,
+  event_uuid        TEXT    NOT NULL,
+  event_row         JSONB   NOT NULL,
+  error             TEXT,
+  -- Write attempts before the event was dead-lettered
+  attempts          INTEGER NOT NULL DEFAULT 0,
+  replay_count      INTEGER NOT NULL DEFAULT 0,
+  last_replayed_at  TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at        TIMESTAMPTZ DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT event_dead_letters_attempts_check CHECK (attempts >= 0),
+  CONSTRAINT event_dead_letters_replay_count_check CHECK (replay_count >= 0)
+);
+
+-- Operators list and replay an organization's entries oldest first
+CREATE INDEX IF NOT EXISTS idx_event_dead_letters_org_created
+  ON event_dead_letters(organization_id, created_at);
+
+-- Enable Row Level Security for multi-tenancy
+ALTER TABLE event_dead_letters ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for API access
+CREATE POLICY "Enable all access for service role" ON event_dead_letters
+  FOR ALL USING (true);
@@ -23,10 +23,12 @@ CREATE TABLE IF NOT EXISTS fusion_events (
   display_state   TEXT,
   event_data      JSONB, -- Small metadata only
   caption         TEXT, -- Object detection caption (e.g., "Intrusion - Vehicle -")
+  event_uuid      TEXT NOT NULL, -- Bridge eventUuid or derived identity; events are upserted on it
   
   -- Performance indexes
   CONSTRAINT fusion_events_org_check CHECK (organization_id != ''),
-  CONSTRAINT fusion_events_type_check CHECK (event_type != '')
+  CONSTRAINT fusion_events_type_check CHECK (event_type != ''),
+  CONSTRAINT fusion_events_event_uuid_unique UNIQUE (organization_id, event_uuid)
 );
 
 -- Performance indexes for multi-tenant queries
@@ -42,6 +44,10 @@ CREATE INDEX IF NOT EXISTS idx_fusion_events_received_at
 CREATE INDEX IF NOT EXISTS idx_fusion_events_device 
   ON fusion_events(organization_id, device_name, received_at DESC);
 
+-- Silent events (e.g. duress) are filtered out of keypad queries by category
+CREATE INDEX IF NOT EXISTS idx_fusion_events_org_category
+  ON fusion_events(organization_id, category, received_at DESC);
+
 -- Enable Row Level Security for multi-tenancy
 ALTER TABLE fusion_events ENABLE ROW LEVEL SECURITY;
 
@@ -55,4 +61,283 @@ SELECT *
 FROM fusion_events
 WHERE received_at >= NOW() - INTERVAL '24 hours'
 ORDER BY received_at DESC
-LIMIT 1000; 
\ No newline at end of file
+LIMIT 1000;
+
+-- Duress PIN codes: a keyed hash of each user's duress PIN, never the PIN itself
+CREATE TABLE IF NOT EXISTS keypad_duress_codes (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  user_id         TEXT    NOT NULL,
+  user_name       TEXT,
+  pin_hash        TEXT    NOT NULL, -- HMAC-SHA256 of organization ID + duress PIN
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT keypad_duress_codes_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_duress_codes_user_check CHECK (user_id != ''),
+  UNIQUE(organization_id, user_id),
+  UNIQUE(organization_id, pin_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_keypad_duress_codes_org_hash
+  ON keypad_duress_codes(organization_id, pin_hash);
+
+ALTER TABLE keypad_duress_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON keypad_duress_codes
+  FOR ALL USING (true);
+
+-- Failed PIN attempts per organization and client address; the lockout policy
+-- lives in src/lib/pin-lockout.ts
+CREATE TABLE IF NOT EXISTS keypad_pin_attempts (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  client_address  TEXT    NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0, -- Since the last lockout or successful PIN
+  lockout_count   INTEGER NOT NULL DEFAULT 0, -- Since the last successful PIN
+  locked_until    TIMESTAMPTZ,
+  last_failed_at  TIMESTAMPTZ,
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT keypad_pin_attempts_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_pin_attempts_client_address_check CHECK (client_address != ''),
+  CONSTRAINT keypad_pin_attempts_counts_check CHECK (failed_attempts >= 0 AND lockout_count >= 0),
+  UNIQUE(organization_id, client_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_keypad_pin_attempts_org_client
+  ON keypad_pin_attempts(organization_id, client_address);
+
+ALTER TABLE keypad_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON keypad_pin_attempts
+  FOR ALL USING (true);
+
+-- Keypad users and their roles; role permissions live in src/lib/permissions.ts
+CREATE TABLE IF NOT EXISTS keypad_users (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  user_id         TEXT    NOT NULL,
+  user_name       TEXT,
+  last_seen_at    TIMESTAMPTZ DEFAULT NOW(),
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT keypad_users_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_users_user_check CHECK (user_id != ''),
+  UNIQUE(organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS keypad_user_roles (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  user_id         TEXT    NOT NULL,
+  location_id     TEXT    NOT NULL DEFAULT '*', -- '*' applies at every location
+  role            TEXT    NOT NULL,
+  assigned_by     TEXT,
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT keypad_user_roles_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_user_roles_user_check CHECK (user_id != ''),
+  CONSTRAINT keypad_user_roles_location_check CHECK (location_id != ''),
+  CONSTRAINT keypad_user_roles_role_check CHECK (role IN ('viewer', 'arm_only', 'operator', 'admin')),
+  UNIQUE(organization_id, user_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_keypad_user_roles_org_user
+  ON keypad_user_roles(organization_id, user_id);
+
+ALTER TABLE keypad_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE keypad_user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON keypad_users
+  FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for service role" ON keypad_user_roles
+  FOR ALL USING (true);
+
+-- Arming schedules, keyed by Location.activeArmingScheduleId in Fusion, with
+-- postponed arms and the runs the scheduler has claimed
+CREATE TABLE IF NOT EXISTS arming_schedules (
+  id              TEXT    PRIMARY KEY,
+  organization_id TEXT    NOT NULL,
+  name            TEXT    NOT NULL DEFAULT '',
+  enabled         BOOLEAN NOT NULL DEFAULT true,
+  windows         JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  exceptions      JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  zone_ids        JSONB   NOT NULL DEFAULT '[]'::jsonb, -- Empty means every zone at the location
+  warning_minutes INTEGER NOT NULL DEFAULT 5,
+  updated_by      TEXT,
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT arming_schedules_org_check CHECK (organization_id != ''),
+  CONSTRAINT arming_schedules_warning_check CHECK (warning_minutes >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS arming_schedule_postponements (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  location_id     TEXT    NOT NULL,
+  schedule_id     TEXT    NOT NULL,
+  scheduled_at    TIMESTAMPTZ NOT NULL,
+  postponed_until TIMESTAMPTZ NOT NULL,
+  user_id         TEXT,
+  user_name       TEXT,
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT arming_schedule_postponements_org_check CHECK (organization_id != ''),
+  CONSTRAINT arming_schedule_postponements_until_check CHECK (postponed_until > scheduled_at),
+  UNIQUE(location_id, scheduled_at)
+);
+
+CREATE TABLE IF NOT EXISTS arming_schedule_runs (
+  id              TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id TEXT    NOT NULL,
+  location_id     TEXT    NOT NULL,
+  schedule_id     TEXT    NOT NULL,
+  action          TEXT    NOT NULL,
+  scheduled_at    TIMESTAMPTZ NOT NULL,
+  ran_at          TIMESTAMPTZ DEFAULT NOW(),
+  status          TEXT    NOT NULL DEFAULT 'claimed',
+  error           TEXT,
+  completed_at    TIMESTAMPTZ,
+
+  CONSTRAINT arming_schedule_runs_org_check CHECK (organization_id != ''),
+  CONSTRAINT arming_schedule_runs_action_check CHECK (action IN ('arm', 'disarm', 'warn')),
+  CONSTRAINT arming_schedule_runs_status_check CHECK (status IN ('claimed', 'applied', 'failed')),
+  UNIQUE(location_id, action, scheduled_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_arming_schedule_postponements_location
+  ON arming_schedule_postponements(location_id, scheduled_at DESC);
+
+ALTER TABLE arming_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arming_schedule_postponements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE arming_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON arming_schedules
+  FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for service role" ON arming_schedule_postponements
+  FOR ALL USING (true);
+
+CREATE POLICY "Enable all access for service role" ON arming_schedule_runs
+  FOR ALL USING (true);
+
+-- Panic alarms pressed at a keypad; escalation re-notifies while still active
+CREATE TABLE IF NOT EXISTS panic_alarms (
+  id               TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id  TEXT    NOT NULL,
+  location_id      TEXT    NOT NULL,
+  location_name    TEXT,
+  panic_type       TEXT    NOT NULL,
+  keypad_id        TEXT,
+  status           TEXT    NOT NULL DEFAULT 'active',
+  escalation_level INTEGER NOT NULL DEFAULT 0,
+  acknowledged_at  TIMESTAMPTZ,
+  acknowledged_by  TEXT,
+  created_at       TIMESTAMPTZ DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT panic_alarms_org_check CHECK (organization_id != ''),
+  CONSTRAINT panic_alarms_type_check CHECK (panic_type IN ('police', 'fire', 'medical')),
+  CONSTRAINT panic_alarms_status_check CHECK (status IN ('active', 'acknowledged'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_panic_alarms_location_status
+  ON panic_alarms(organization_id, location_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_panic_alarms_active
+  ON panic_alarms(status) WHERE status = 'active';
+
+ALTER TABLE panic_alarms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON panic_alarms
+  FOR ALL USING (true);
+
+-- Keypad command queue; status rules live in src/lib/keypadCommands.ts
+CREATE TABLE IF NOT EXISTS keypad_commands (
+  id                   TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id      TEXT    NOT NULL,
+  location_id          TEXT,
+  keypad_id            TEXT,
+  requested_by         TEXT,
+  idempotency_key      TEXT    NOT NULL,
+  command_type         TEXT    NOT NULL,
+  target_ids           JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  state                TEXT,
+  label                TEXT    NOT NULL DEFAULT '',
+  status               TEXT    NOT NULL DEFAULT 'pending',
+  attempts             INTEGER NOT NULL DEFAULT 0,
+  last_error           TEXT,
+  result               JSONB,
+  confirmed_target_ids JSONB   NOT NULL DEFAULT '[]'::jsonb,
+  sent_at              TIMESTAMPTZ,
+  confirmed_at         TIMESTAMPTZ,
+  expires_at           TIMESTAMPTZ NOT NULL,
+  created_at           TIMESTAMPTZ DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT keypad_commands_org_check CHECK (organization_id != ''),
+  CONSTRAINT keypad_commands_idempotency_unique UNIQUE (organization_id, idempotency_key),
+  CONSTRAINT keypad_commands_type_check CHECK (command_type IN ('arm_devices', 'disarm_devices', 'device_state', 'zone_arm_state')),
+  CONSTRAINT keypad_commands_status_check CHECK (status IN ('pending', 'sent', 'confirmed', 'failed', 'timed_out')),
+  CONSTRAINT keypad_commands_attempts_check CHECK (attempts >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_keypad_commands_location
+  ON keypad_commands(organization_id, location_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_keypad_commands_open
+  ON keypad_commands(status, expires_at)
+  WHERE status IN ('pending', 'sent');
+
+ALTER TABLE keypad_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON keypad_commands
+  FOR ALL USING (true);
+
+-- Last event the background service processed from each organization's stream
+CREATE TABLE IF NOT EXISTS ingestion_checkpoints (
+  organization_id      TEXT    PRIMARY KEY,
+  last_event_id        TEXT,
+  last_event_timestamp TIMESTAMPTZ,
+  created_at           TIMESTAMPTZ DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT ingestion_checkpoints_org_check CHECK (organization_id != '')
+);
+
+ALTER TABLE ingestion_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON ingestion_checkpoints
+  FOR ALL USING (true);
+
+-- Events that couldn't be written to fusion_events, kept for replay
+CREATE TABLE IF NOT EXISTS event_dead_letters (
+  id                TEXT    PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  organization_id   TEXT    NOT NULL,
+  event_uuid        TEXT    NOT NULL,
+  event_row         JSONB   NOT NULL,
+  error             TEXT,
+  attempts          INTEGER NOT NULL DEFAULT 0,
+  replay_count      INTEGER NOT NULL DEFAULT 0,
+  last_replayed_at  TIMESTAMPTZ,
+  created_at        TIMESTAMPTZ DEFAULT NOW(),
+  updated_at        TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT event_dead_letters_attempts_check CHECK (attempts >= 0),
+  CONSTRAINT event_dead_letters_replay_count_check CHECK (replay_count >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_dead_letters_org_created
+  ON event_dead_letters(organization_id, created_at);
+
+ALTER TABLE event_dead_letters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for service role" ON event_dead_letters
+  FOR ALL USING (true);
@@ -0,0 +1,65 @@
+import { AlarmZone, Camera, Device } from '@/lib/api'
+import { describeAlarmTrigger } from '@/lib/alarmTrigger'
+
+const zone = (overrides: Partial<AlarmZone> = {}): AlarmZone => ({
+  id: 'zone-1',
+  name: 'Ground Floor',
+  locationId: 'location-1',
+  description: null,
+  armedState: 'TRIGGERED',
+  lastArmedStateChangeReason: null,
+  triggerBehavior: 'standard',
+  locationName: 'Office',
+  createdAt: '2025-01-15T08:00:00.000Z',
+  updatedAt: '2025-01-15T12:00:00.000Z',
+  deviceIds: ['device-1'],
+  ...overrides,
+})
+
+const devices: Device[] = [
+  { id: 'device-1', name: 'Front Door', type: 'Door Sensor', spaceId: 'space-1' },
+  { id: 'device-2', name: 'Garage Door', type: 'Door Sensor', spaceId: 'space-2' },
+]
+
+const cameras: Camera[] = [
+  { id: 'camera-2', name: 'Garage', spaceId: 'space-2', thumbnailUrl: 'https://cam/garage.jpg', isActive: true },
+  { id: 'camera-1', name: 'Lobby', spaceId: 'space-1', thumbnailUrl: 'https://cam/lobby.jpg', isActive: true },
+]
+
+describe('Alarm trigger', () => {
+  it('is null when no zone is triggered', () => {
+    expect(describeAlarmTrigger([zone({ armedState: 'ARMED_AWAY' })], devices, cameras, [])).toBeNull()
+  })
+
+  it('uses the latest event from a device in the triggered zone', () => {
+    const events = [
+      { deviceName: 'Garage Door', timestamp: '2025-01-15T12:02:00.000Z' },
+      { deviceName: 'Front Door', timestamp: '2025-01-15T12:01:00.000Z' },
+      { deviceName: 'Front Door', timestamp: '2025-01-15T12:00:00.000Z' },
+    ]
+
+    expect(describeAlarmTrigger([zone()], devices, cameras, events)).toEqual({
+      zoneIds: ['zone-1'],
+      zoneNames: ['Ground Floor'],
+      deviceName: 'Front Door',
+      triggeredAt: '2025-01-15T12:01:00.000Z',
+      snapshotUrl: 'https://cam/lobby.jpg',
+    })
+  })
+
+  it('prefers the recorded trigger and its snapshot', () => {
+    const recorded = {
+      'zone-1': { deviceName: 'Front Door', timestamp: '2025-01-15T11:59:00.000Z', imageUrl: 'https://event/front.jpg' },
+    }
+    const trigger = describeAlarmTrigger([zone()], devices, cameras, [{ deviceName: 'Front Door' }], recorded)
+
+    expect(trigger?.triggeredAt).toBe('2025-01-15T11:59:00.000Z')
+    expect(trigger?.snapshotUrl).toBe('https://event/front.jpg')
+  })
+
+  it('falls back to the zone update time without a snapshot', () => {
+    const trigger = describeAlarmTrigger([zone()], devices, [], [])
+
+    expect(trigger).toMatchObject({ deviceName: null, triggeredAt: '2025-01-15T12:00:00.000Z', snapshotUrl: null })
+  })
+})
@@ -0,0 +1,92 @@
+import {
+  ArmingSchedule,
+  getNextTransition,
+  getScheduledTransitions,
+  isInWarningWindow,
+  zonedTimeToUtc,
+} from '@/lib/armingSchedule'
+
+const schedule = (overrides: Partial<ArmingSchedule> = {}): ArmingSchedule => ({
+  id: 'schedule-1',
+  organizationId: 'org-1',
+  name: 'Weeknights',
+  enabled: true,
+  // Monday to Friday, arm at 22:00 and disarm at 06:00 the next morning
+  windows: [{ days: [1, 2, 3, 4, 5], armAt: '22:00', disarmAt: '06:00' }],
+  exceptions: [],
+  zoneIds: [],
+  warningMinutes: 5,
+  ...overrides,
+})
+
+describe('Arming schedules', () => {
+  it('converts local times in the location time zone', () => {
+    expect(zonedTimeToUtc('2025-01-15', '22:00', 'America/New_York').toISOString()).toBe('2025-01-16T03:00:00.000Z')
+    expect(zonedTimeToUtc('2025-07-15', '22:00', 'America/New_York').toISOString()).toBe('2025-07-16T02:00:00.000Z')
+  })
+
+  it('moves times skipped by daylight saving forward', () => {
+    // Clocks jump from 02:00 to 03:00 on 9 March 2025 in New York
+    expect(zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z')
+  })
+
+  it('finds the next arm on a weekday evening', () => {
+    // Wednesday 15 January 2025, 12:00 in New York
+    const now = new Date('2025-01-15T17:00:00.000Z')
+    const next = getNextTransition(schedule(), 'America/New_York', now)
+
+    expect(next).toMatchObject({ action: 'arm', at: '2025-01-16T03:00:00.000Z', localDate: '2025-01-15' })
+  })
+
+  it('disarms the morning after an overnight window', () => {
+    const now = new Date('2025-01-16T04:00:00.000Z')
+    const next = getNextTransition(schedule(), 'America/New_York', now)
+
+    expect(next).toMatchObject({ action: 'disarm', at: '2025-01-16T11:00:00.000Z', localDate: '2025-01-16' })
+  })
+
+  it('skips the weekend', () => {
+    // Saturday 18 January 2025, 12:00 in New York
+    const now = new Date('2025-01-18T17:00:00.000Z')
+    const next = getNextTransition(schedule(), 'America/New_York', now, 'arm')
+
+    expect(next?.localDate).toBe('2025-01-20')
+  })
+
+  it('skips arms on holiday exceptions', () => {
+    const now = new Date('2025-01-15T17:00:00.000Z')
+    const next = getNextTransition(
+      schedule({ exceptions: [{ date: '2025-01-15', skip: 'arm' }] }),
+      'America/New_York',
+      now,
+      'arm'
+    )
+
+    expect(next?.localDate).toBe('2025-01-16')
+  })
+
+  it('applies postponements to the arm they were made for', () => {
+    const from = new Date('2025-01-16T02:50:00.000Z')
+    const to = new Date('2025-01-16T03:40:00.000Z')
+    const postponements = [{ scheduledAt: '2025-01-16T03:00:00.000Z', postponedUntil: '2025-01-16T03:30:00.000Z' }]
+
+    const transitions = getScheduledTransitions(schedule(), 'America/New_York', from, to, postponements)
+
+    expect(transitions).toEqual([
+      { action: 'arm', scheduledAt: '2025-01-16T03:00:00.000Z', at: '2025-01-16T03:30:00.000Z', localDate: '2025-01-15' },
+    ])
+  })
+
+  it('warns only inside the warning window', () => {
+    const next = getNextTransition(schedule(), 'America/New_York', new Date('2025-01-15T17:00:00.000Z'))
+
+    expect(isInWarningWindow(schedule(), next, new Date('2025-01-16T02:50:00.000Z'))).toBe(false)
+    expect(isInWarningWindow(schedule(), next, new Date('2025-01-16T02:56:00.000Z'))).toBe(true)
+  })
+
+  it('does nothing while disabled', () => {
+    const now = new Date('2025-01-15T17:00:00.000Z')
+
+    expect(getNextTransition(schedule({ enabled: false }), 'America/New_York', now)).toBeNull()
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import {
+  getBackgroundSSEStatus,
+  listBackgroundSSEWorkers,
+  startBackgroundSSE,
+  stopBackgroundSSE,
+} from '@/lib/background-sse'
+
+jest.mock('@/lib/db', () => ({ insertEvent: jest.fn() }))
+jest.mock('@/lib/ingestion-checkpoint', () => ({
+  loadCheckpoint: jest.fn(async () => ({ lastEventId: null, lastEventTimestamp: null })),
+  saveCheckpoint: jest.fn(async () => undefined),
+}))
+jest.mock('@/lib/fusion-server', () => ({
+  FUSION_SERVER_BASE_URL: 'https://fusion.test',
+  fusionServerFetch: jest.fn(async () => ({ data: { data: [] } })),
+}))
+
+// Streams that stay open without sending anything until the worker aborts them
+const fetchMock = jest.fn((_url: string, _init: RequestInit) => new Promise<Response>(() => {}))
+
+// The API key each organization's stream was opened with, in order
+const streamKeys = () => fetchMock.mock.calls.map(([url, init]) => [
+  new URL(url).searchParams.get('organizationId'),
+  (init.headers as Record<string, string>)['x-api-key'],
+])
+
+describe('Ingestion workers', () => {
+  beforeAll(() => {
+    global.fetch = fetchMock as unknown as typeof fetch
+  })
+
+  beforeEach(() => {
+    fetchMock.mockClear()
+  })
+
+  afterEach(() => {
+    listBackgroundSSEWorkers().forEach(worker => stopBackgroundSSE(worker.organizationId))
+  })
+
+  it('runs one worker per organization with its own API key', async () => {
+    await startBackgroundSSE('org-b', 'key-b')
+    await startBackgroundSSE('org-a', 'key-a')
+
+    expect(streamKeys()).toEqual([['org-b', 'key-b'], ['org-a', 'key-a']])
+    expect(listBackgroundSSEWorkers().map(worker => [worker.organizationId, worker.isRunning])).toEqual([
+      ['org-a', true],
+      ['org-b', true],
+    ])
+  })
+
+  it('stops one organization without touching the others', async () => {
+    await startBackgroundSSE('org-a', 'key-a')
+    await startBackgroundSSE('org-b', 'key-b')
+
+    expect(stopBackgroundSSE('org-a')?.isRunning).toBe(false)
+    expect(getBackgroundSSEStatus('org-b').isRunning).toBe(true)
+  })
+
+  it('restarts a stopped worker with the key it last used', async () => {
+    await startBackgroundSSE('org-a', 'key-a')
+    stopBackgroundSSE('org-a')
+
+    expect((await startBackgroundSSE('org-a'))?.isRunning).toBe(true)
+    expect(streamKeys()).toEqual([['org-a', 'key-a'], ['org-a', 'key-a']])
+  })
+
+  it('reconnects with a new API key', async () => {
+    await startBackgroundSSE('org-a', 'key-a')
+    await startBackgroundSSE('org-a', 'key-a2')
+
+    expect(streamKeys()).toEqual([['org-a', 'key-a'], ['org-a', 'key-a2']])
+  })
+
+  it('needs an API key to start an organization it has never run', async () => {
+    expect(await startBackgroundSSE('org-new')).toBeNull()
+    expect(getBackgroundSSEStatus('org-new').isRunning).toBe(false)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,63 @@
+import { AlarmZone, Device } from '@/lib/api'
+import { DEFAULT_CHIME_SETTINGS, getChimeDevice, getChimeSettings, isInQuietHours, saveChimeSettings } from '@/lib/chime'
+
+const devices: Device[] = [
+  { id: 'device-1', name: 'Front Door', type: 'Door Sensor', spaceId: 'space-1' },
+  { id: 'device-2', name: 'Hall Motion', type: 'Motion Sensor', spaceId: 'space-1' },
+  { id: 'device-3', name: 'Garage Door', type: 'Contact', spaceId: 'space-2' },
+]
+
+const zone = (armedState: AlarmZone['armedState']): AlarmZone => ({
+  id: 'zone-1',
+  name: 'Ground Floor',
+  locationId: 'location-1',
+  description: null,
+  armedState,
+  lastArmedStateChangeReason: null,
+  triggerBehavior: 'standard',
+  locationName: 'Office',
+  createdAt: '2025-01-15T08:00:00.000Z',
+  updatedAt: '2025-01-15T08:00:00.000Z',
+  deviceIds: ['device-1', 'device-2'],
+})
+
+const enabled = { ...DEFAULT_CHIME_SETTINGS, enabled: true }
+const noon = new Date(2025, 0, 15, 12, 0)
+
+describe('Chime mode', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('chimes when a contact sensor opens in a disarmed zone', () => {
+    expect(getChimeDevice({ deviceName: 'Front Door', displayState: 'Open' }, devices, [zone('DISARMED')], enabled, noon)?.id).toBe('device-1')
+    expect(getChimeDevice({ deviceName: 'Front Door', displayState: 'Open' }, devices, [zone('ARMED_STAY')], enabled, noon)).toBeNull()
+  })
+
+  it('ignores closings, other device types and chime mode being off', () => {
+    expect(getChimeDevice({ deviceName: 'Front Door', displayState: 'Closed' }, devices, [], enabled, noon)).toBeNull()
+    expect(getChimeDevice({ deviceName: 'Hall Motion', displayState: 'Open' }, devices, [], enabled, noon)).toBeNull()
+    expect(getChimeDevice({ deviceName: 'Front Door', displayState: 'Open' }, devices, [], DEFAULT_CHIME_SETTINGS, noon)).toBeNull()
+  })
+
+  it('only chimes for the selected spaces', () => {
+    const settings = { ...enabled, spaceIds: ['space-2'] }
+
+    expect(getChimeDevice({ deviceId: 'device-1', displayState: 'opened' }, devices, [], settings, noon)).toBeNull()
+    expect(getChimeDevice({ deviceId: 'device-3', displayState: 'opened' }, devices, [], settings, noon)?.name).toBe('Garage Door')
+  })
+
+  it('stays quiet during quiet hours, including overnight ones', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '07:00' }
+
+    expect(isInQuietHours(quietHours, new Date(2025, 0, 15, 23, 30))).toBe(true)
+    expect(isInQuietHours(quietHours, new Date(2025, 0, 15, 6, 59))).toBe(true)
+    expect(isInQuietHours(quietHours, new Date(2025, 0, 15, 7, 0))).toBe(false)
+    expect(getChimeDevice({ deviceName: 'Front Door', displayState: 'Open' }, devices, [], { ...enabled, quietHours }, new Date(2025, 0, 15, 23, 0))).toBeNull()
+  })
+
+  it('falls back to defaults for invalid stored settings', () => {
+    localStorage.setItem('fusion_chime_settings', JSON.stringify({ enabled: true, sound: 'siren', quietHours: { enabled: true, start: '25:00' } }))
+
+    expect(getChimeSettings()).toEqual({ ...enabled, quietHours: { ...DEFAULT_CHIME_SETTINGS.quietHours, enabled: true } })
+    expect(saveChimeSettings({ sound: 'soft' }).sound).toBe('soft')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { insertEvent } from '@/lib/db'
+
+// In-memory fusion_events with the (organization_id, event_uuid) unique constraint
+const mockRows: Record<string, any>[] = []
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => ({
+      upsert: (rows: Record<string, any>[], options: { onConflict: string; ignoreDuplicates: boolean }) => {
+        const keys = options.onConflict.split(',')
+        const added = rows.filter(row => {
+          const exists = mockRows.some(existing => keys.every(key => existing[key] === row[key]))
+          if (exists && options.ignoreDuplicates) return false
+          mockRows.push({ ...row, id: String(mockRows.length + 1) })
+          return true
+        })
+        return {
+          select: async () => ({
+            data: added.map(row => ({ organization_id: row.organization_id, event_uuid: row.event_uuid })),
+            error: null,
+          }),
+        }
+      },
+    }),
+  }),
+}))
+
+// A stream as the bridge sends it: one event without an eventUuid
+const stream = [
+  { eventUuid: 'evt-1', organizationId: 'org-1', deviceId: 'door-1', deviceName: 'Front Door', type: 'Open', timestamp: '2025-01-15T08:00:00.000Z' },
+  { eventUuid: 'evt-2', organizationId: 'org-1', deviceId: 'door-1', deviceName: 'Front Door', type: 'Closed', timestamp: '2025-01-15T08:00:05.000Z' },
+  { organizationId: 'org-1', deviceId: 'motion-1', deviceName: 'Hall Motion', type: 'Motion', timestamp: '2025-01-15T08:01:00.000Z' },
+]
+
+// Events from one delivery arrive together and are written as a batch
+const replay = (events: Record<string, any>[]) =>
+  Promise.all(events.map(event => insertEvent(event, event)))
+
+describe('insertEvent', () => {
+  beforeEach(() => {
+    mockRows.length = 0
+  })
+
+  it('stores each event from a stream once however often it is replayed', async () => {
+    const first = await replay(stream)
+    const second = await replay(stream)
+
+    expect(first.map(result => result.inserted)).toEqual([true, true, true])
+    expect(second.map(result => result.inserted)).toEqual([false, false, false])
+    expect(mockRows).toHaveLength(3)
+  })
+
+  it('treats a backfilled copy with an epoch timestamp as the same event', async () => {
+    await replay(stream)
+    const backfilled = stream.map(event => ({ ...event, timestamp: Date.parse(event.timestamp) }))
+
+    expect((await replay(backfilled)).some(result => result.inserted)).toBe(false)
+    expect(mockRows).toHaveLength(3)
+  })
+
+  it('keeps the same event apart between organizations', async () => {
+    await replay(stream)
+    await replay(stream.map(event => ({ ...event, organizationId: 'org-2' })))
+
+    expect(mockRows).toHaveLength(6)
+  })
+
+  it('gives events raised by the keypad their own identity', async () => {
+    const panic = { organizationId: 'org-1', type: 'Panic', deviceName: 'Keypad', timestamp: '2025-01-15T08:00:00.000Z' }
+    await insertEvent(panic)
+    await insertEvent(panic)
+
+    expect(mockRows).toHaveLength(2)
+    expect(mockRows[0].event_uuid).not.toBe(mockRows[1].event_uuid)
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+import { findDuressCode, hashDuressPin, saveDuressCode } from '@/lib/duress'
+import { POST as validatePin } from '@/app/api/keypad/validate-pin/route'
+import { fusionServerFetch } from '@/lib/fusion-server'
+import { insertEvent } from '@/lib/db'
+
+// In-memory keypad_duress_codes with its (organization_id, user_id) unique constraint
+const mockDuressCodes: Record<string, any>[] = []
+
+jest.mock('@/lib/db', () => ({
+  SILENT_EVENT_CATEGORY: 'silent_alarm',
+  insertEvent: jest.fn(async () => ({ inserted: true })),
+  supabase: {
+    from: () => {
+      const filters: [string, unknown][] = []
+      const builder: Record<string, any> = {
+        select: () => builder,
+        eq: (column: string, value: unknown) => { filters.push([column, value]); return builder },
+        maybeSingle: async () => ({
+          data: mockDuressCodes.find(row => filters.every(([column, value]) => row[column] === value)) ?? null,
+          error: null,
+        }),
+        upsert: async (row: Record<string, any>) => {
+          const index = mockDuressCodes.findIndex(existing =>
+            existing.organization_id === row.organization_id && existing.user_id === row.user_id)
+          if (index === -1) mockDuressCodes.push(row)
+          else mockDuressCodes[index] = row
+          return { error: null }
+        },
+      }
+      return builder
+    },
+  },
+}))
+jest.mock('@/lib/notifications', () => ({ sendAlarmNotification: jest.fn(async () => true) }))
+jest.mock('@/lib/server-auth', () => ({
+  resolveOrganization: jest.fn(async () => 'org-1'),
+  createKeypadUserToken: (organizationId: string, userId: string) => ({ token: `${organizationId}:${userId}` }),
+}))
+jest.mock('@/lib/pin-attempts', () => ({
+  getRequestClientAddress: () => 'ip:10.0.0.5',
+  getRequestKeypadId: () => 'keypad-1',
+  getActiveLockout: jest.fn(async () => null),
+  registerPinFailure: jest.fn(async () => ({ lockedOut: false, attemptsRemaining: 4 })),
+  registerPinSuccess: jest.fn(async () => undefined),
+}))
+jest.mock('@/lib/roles', () => ({
+  getUserRole: jest.fn(async () => 'operator'),
+  recordKeypadUser: jest.fn(async () => undefined),
+}))
+// Fusion knows Sam's normal PIN and nothing about duress PINs
+jest.mock('@/lib/fusion-server', () => ({
+  fusionServerFetch: jest.fn(async (_path: string, _apiKey: string, options: { body: string }) => {
+    const { pin } = JSON.parse(options.body)
+    return {
+      data: {
+        success: true,
+        data: pin === '1234' ? { valid: true, userId: 'user-1', userName: 'Sam' } : { valid: false },
+      },
+    }
+  }),
+}))
+
+const sam = { organizationId: 'org-1', userId: 'user-1', userName: 'Sam' }
+
+const enter = async (pin: string) => {
+  const response = await validatePin(new Request('http://keypad/api/keypad/validate-pin', {
+    method: 'POST',
+    headers: { 'x-api-key': 'key-1' },
+    body: JSON.stringify({ pin, locationId: 'office', locationName: 'Office' }),
+  }))
+  return { status: response.status, body: await response.json() }
+}
+
+beforeEach(() => {
+  process.env.KEYPAD_PIN_SECRET = 'test-secret'
+  mockDuressCodes.length = 0
+  jest.clearAllMocks()
+})
+
+afterEach(() => {
+  delete process.env.KEYPAD_PIN_SECRET
+})
+
+describe('hashDuressPin', () => {
+  it('keys the hash on the secret and the organization', () => {
+    const hash = hashDuressPin('org-1', '9999')
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashDuressPin('org-1', '9999')).toBe(hash)
+    expect(hashDuressPin('org-2', '9999')).not.toBe(hash)
+
+    process.env.KEYPAD_PIN_SECRET = 'another-secret'
+    expect(hashDuressPin('org-1', '9999')).not.toBe(hash)
+  })
+
+  it('refuses to hash without a secret', () => {
+    delete process.env.KEYPAD_PIN_SECRET
+    expect(hashDuressPin('org-1', '9999')).toBeNull()
+  })
+})
+
+describe('findDuressCode', () => {
+  it('stores only the hash and finds the user by PIN', async () => {
+    expect(await saveDuressCode(sam, '9999')).toBe(true)
+
+    expect(JSON.stringify(mockDuressCodes)).not.toContain('9999')
+    expect(await findDuressCode('org-1', '9999')).toEqual(sam)
+    expect(await findDuressCode('org-1', '1111')).toBeNull()
+    expect(await findDuressCode('org-2', '9999')).toBeNull()
+  })
+
+  it('replaces an earlier duress PIN for the same user', async () => {
+    await saveDuressCode(sam, '9999')
+    await saveDuressCode(sam, '8888')
+
+    expect(await findDuressCode('org-1', '9999')).toBeNull()
+    expect(await findDuressCode('org-1', '8888')).toEqual(sam)
+  })
+})
+
+describe('validate-pin with a duress PIN', () => {
+  it('answers exactly as for the normal PIN and raises a silent alarm', async () => {
+    await saveDuressCode(sam, '9999')
+
+    const normal = await enter('1234')
+    expect(insertEvent).not.toHaveBeenCalled()
+
+    const duress = await enter('9999')
+    expect(duress).toEqual(normal)
+    expect(duress.body.data).toMatchObject({ valid: true, userId: 'user-1', userName: 'Sam', role: 'operator' })
+
+    await new Promise(resolve => setImmediate(resolve))
+    expect(insertEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'Duress Alarm', category: 'silent_alarm' }))
+  })
+
+  it('still makes the Fusion round trip for a duress PIN', async () => {
+    await saveDuressCode(sam, '9999')
+    await enter('9999')
+    expect(fusionServerFetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,59 @@
+import { getEntryZone, getNewEntryEvents, getZoneToTrigger } from '@/lib/entryDelay'
+import type { AlarmZone } from '@/lib/api'
+
+const now = new Date('2025-01-01T12:00:00.000Z').getTime()
+
+const zone = (overrides: Partial<AlarmZone> = {}): AlarmZone => ({
+  id: 'zone-1',
+  name: 'Front',
+  locationId: 'office',
+  armedState: 'ARMED_AWAY',
+  deviceIds: ['door-1'],
+  ...overrides,
+} as AlarmZone)
+
+const opened = (overrides = {}) => ({
+  id: 'event-1',
+  deviceId: 'door-1',
+  displayState: 'Open',
+  timestamp: new Date(now - 5_000).toISOString(),
+  ...overrides,
+})
+
+describe('getNewEntryEvents', () => {
+  it('only looks at the newest event the first time', () => {
+    expect(getNewEntryEvents([{ id: 'b' }, { id: 'a' }], null)).toEqual([{ id: 'b' }])
+  })
+
+  it('returns the events since the last one seen', () => {
+    expect(getNewEntryEvents([{ id: 'c' }, { id: 'b' }, { id: 'a' }], 'a')).toEqual([{ id: 'c' }, { id: 'b' }])
+    expect(getNewEntryEvents([{ id: 'a' }], 'a')).toEqual([])
+  })
+})
+
+describe('getEntryZone', () => {
+  it('finds the armed-away zone a door opened in', () => {
+    expect(getEntryZone(opened(), [zone()], now)?.id).toBe('zone-1')
+  })
+
+  it('ignores zones armed stay or disarmed', () => {
+    expect(getEntryZone(opened(), [zone({ armedState: 'ARMED_STAY' })], now)).toBeNull()
+    expect(getEntryZone(opened(), [zone({ armedState: 'DISARMED' })], now)).toBeNull()
+  })
+
+  it('ignores closing doors and old events', () => {
+    expect(getEntryZone(opened({ displayState: 'Closed' }), [zone()], now)).toBeNull()
+    expect(getEntryZone(opened({ timestamp: new Date(now - 120_000).toISOString() }), [zone()], now)).toBeNull()
+  })
+})
+
+describe('getZoneToTrigger', () => {
+  it('triggers a zone still armed away when the delay runs out', () => {
+    expect(getZoneToTrigger('zone-1', [zone()])?.id).toBe('zone-1')
+  })
+
+  it('does nothing if the zone was disarmed during the countdown', () => {
+    expect(getZoneToTrigger('zone-1', [zone({ armedState: 'DISARMED' })])).toBeNull()
+    expect(getZoneToTrigger('zone-1', [])).toBeNull()
+  })
+})
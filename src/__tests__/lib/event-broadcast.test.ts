@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import {
+  addConnection,
+  broadcastEvent,
+  getActiveConnectionCount,
+  removeConnection,
+} from '@/lib/event-broadcast'
+
+const connect = (organizationId: string) => {
+  const controller = { enqueue: jest.fn() } as unknown as ReadableStreamDefaultController & { enqueue: jest.Mock }
+  addConnection(controller, { organizationId })
+  return controller
+}
+
+const received = (controller: { enqueue: jest.Mock }) =>
+  controller.enqueue.mock.calls.map(([chunk]) => JSON.parse(new TextDecoder().decode(chunk).replace(/^data: /, '')))
+
+describe('broadcastEvent', () => {
+  let acme: ReturnType<typeof connect>
+  let globex: ReturnType<typeof connect>
+
+  beforeEach(() => {
+    acme = connect('org-acme')
+    globex = connect('org-globex')
+  })
+
+  afterEach(() => {
+    removeConnection(acme)
+    removeConnection(globex)
+  })
+
+  it('only delivers an event to its own organization', () => {
+    broadcastEvent('org-acme', { id: 'e1', type: 'Door Opened' })
+
+    expect(received(acme)).toEqual([{ id: 'e1', type: 'Door Opened' }])
+    expect(globex.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('keeps each tenant to its own events when both are active', () => {
+    broadcastEvent('org-acme', { id: 'e1' })
+    broadcastEvent('org-globex', { id: 'e2' })
+    broadcastEvent('org-acme', { id: 'e3' })
+
+    expect(received(acme).map(event => event.id)).toEqual(['e1', 'e3'])
+    expect(received(globex).map(event => event.id)).toEqual(['e2'])
+  })
+
+  it('drops events that have no organization', () => {
+    broadcastEvent(null, { id: 'e1' })
+    broadcastEvent('', { id: 'e2' })
+
+    expect(acme.enqueue).not.toHaveBeenCalled()
+    expect(globex.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('drops connections that have closed', () => {
+    acme.enqueue.mockImplementation(() => {
+      throw new Error('closed')
+    })
+
+    broadcastEvent('org-acme', { id: 'e1' })
+
+    expect(getActiveConnectionCount('org-acme')).toBe(0)
+    expect(getActiveConnectionCount('org-globex')).toBe(1)
+  })
+})
@@ -0,0 +1,94 @@
+import {
+  EMPTY_CHECKPOINT,
+  MAX_BACKFILL_HOURS,
+  RECONNECT_MAX_DELAY_MS,
+  advanceCheckpoint,
+  getBackfillSinceHours,
+  getEventIdentity,
+  getReconnectDelay,
+  selectBackfillEvents,
+} from '@/lib/eventIngestion'
+
+const checkpoint = { lastEventId: 'evt-2', lastEventTimestamp: '2025-01-15T08:00:00.000Z' }
+const at = (iso: string) => Date.parse(iso)
+
+describe('getReconnectDelay', () => {
+  it('backs off exponentially within a jittered range', () => {
+    expect(getReconnectDelay(1, () => 0)).toBe(500)
+    expect(getReconnectDelay(1, () => 1)).toBe(1000)
+    expect(getReconnectDelay(3, () => 0)).toBe(2000)
+    expect(getReconnectDelay(3, () => 1)).toBe(4000)
+  })
+
+  it('is capped however long the outage lasts', () => {
+    expect(getReconnectDelay(50, () => 1)).toBe(RECONNECT_MAX_DELAY_MS)
+    expect(getReconnectDelay(50, () => 0)).toBe(RECONNECT_MAX_DELAY_MS / 2)
+  })
+})
+
+describe('advanceCheckpoint', () => {
+  it('moves forward to newer events', () => {
+    expect(advanceCheckpoint(checkpoint, 'evt-3', '2025-01-15T08:05:00.000Z')).toEqual({
+      lastEventId: 'evt-3',
+      lastEventTimestamp: '2025-01-15T08:05:00.000Z',
+    })
+  })
+
+  it('never moves back for events processed out of order', () => {
+    expect(advanceCheckpoint(checkpoint, 'evt-1', '2025-01-15T07:59:00.000Z')).toBe(checkpoint)
+  })
+
+  it('accepts epoch milliseconds and ignores missing timestamps', () => {
+    expect(advanceCheckpoint(EMPTY_CHECKPOINT, 'evt-1', at('2025-01-15T08:00:00.000Z')).lastEventTimestamp)
+      .toBe('2025-01-15T08:00:00.000Z')
+    expect(advanceCheckpoint(checkpoint, 'evt-3', undefined)).toBe(checkpoint)
+  })
+})
+
+describe('getBackfillSinceHours', () => {
+  it('covers the gap in whole hours', () => {
+    expect(getBackfillSinceHours(checkpoint, at('2025-01-15T08:10:00.000Z'))).toBe(1)
+    expect(getBackfillSinceHours(checkpoint, at('2025-01-15T10:30:00.000Z'))).toBe(3)
+  })
+
+  it('is limited for long outages and skipped with no checkpoint', () => {
+    expect(getBackfillSinceHours(checkpoint, at('2025-01-20T08:00:00.000Z'))).toBe(MAX_BACKFILL_HOURS)
+    expect(getBackfillSinceHours(EMPTY_CHECKPOINT)).toBeNull()
+  })
+})
+
+describe('selectBackfillEvents', () => {
+  const events = [
+    { eventUuid: 'evt-5', timestamp: at('2025-01-15T08:03:00.000Z') },
+    { eventUuid: 'evt-1', timestamp: at('2025-01-15T07:58:00.000Z') },
+    { eventUuid: 'evt-2', timestamp: at('2025-01-15T08:00:00.000Z') },
+    { eventUuid: 'evt-4', timestamp: at('2025-01-15T08:00:00.000Z') },
+  ]
+
+  it('keeps events after the checkpoint, oldest first', () => {
+    expect(selectBackfillEvents(events, checkpoint).map(event => event.eventUuid)).toEqual(['evt-4', 'evt-5'])
+  })
+
+  it('skips events that were already processed', () => {
+    const processed = new Set(['evt-4'])
+    expect(selectBackfillEvents(events, checkpoint, event => processed.has(event.eventUuid)).map(event => event.eventUuid))
+      .toEqual(['evt-5'])
+  })
+
+  it('backfills nothing without a checkpoint', () => {
+    expect(selectBackfillEvents(events, EMPTY_CHECKPOINT)).toEqual([])
+  })
+})
+
+describe('getEventIdentity', () => {
+  it('uses the bridge eventUuid when there is one', () => {
+    expect(getEventIdentity({ eventUuid: 'evt-1', deviceId: 'd1' })).toBe('evt-1')
+  })
+
+  it('builds the same identity for stream and backfilled copies of an event', () => {
+    const streamed = { deviceId: 'd1', event: { type: 'Open' }, timestamp: '2025-01-15T08:00:00.000Z' }
+    const backfilled = { deviceId: 'd1', eventType: 'Open', timestamp: at('2025-01-15T08:00:00.000Z') }
+    expect(getEventIdentity(streamed)).toBe(getEventIdentity(backfilled))
+    expect(getEventIdentity({ ...streamed, timestamp: '2025-01-15T08:00:01.000Z' })).not.toBe(getEventIdentity(streamed))
+  })
+})
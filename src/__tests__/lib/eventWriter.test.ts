@@ -0,0 +1,153 @@
+import {
+  DeadLetter,
+  EventBatchWriteResult,
+  EventWriter,
+  getWriteRetryDelay,
+  isTransientWriteError,
+} from '@/lib/eventWriter'
+
+interface Row {
+  id: string
+}
+
+const setup = (options: { batchSize?: number; maxQueueSize?: number } = {}) => {
+  const stored = new Set<string>()
+  const deadLetters: DeadLetter<Row>[] = []
+  const write = jest.fn(async (rows: Row[]): Promise<EventBatchWriteResult> => {
+    const insertedKeys = rows.map(row => row.id).filter(id => !stored.has(id))
+    insertedKeys.forEach(id => stored.add(id))
+    return { insertedKeys }
+  })
+  const writer = new EventWriter<Row>({
+    getKey: row => row.id,
+    write,
+    deadLetter: async entries => {
+      deadLetters.push(...entries)
+    },
+    batchSize: options.batchSize ?? 3,
+    flushIntervalMs: 100,
+    maxAttempts: 3,
+    maxQueueSize: options.maxQueueSize,
+  })
+  return { writer, write, stored, deadLetters }
+}
+
+const unavailable = { insertedKeys: [], error: { message: 'connection refused' } }
+
+describe('EventWriter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('writes a full batch straight away', async () => {
+    const { writer, write } = setup()
+    const results = Promise.all(['a', 'b', 'c'].map(id => writer.write({ id })))
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(write).toHaveBeenCalledTimes(1)
+    expect(write.mock.calls[0][0]).toHaveLength(3)
+    expect(await results).toEqual([{ inserted: true }, { inserted: true }, { inserted: true }])
+  })
+
+  it('writes a partial batch once the flush interval passes', async () => {
+    const { writer, write } = setup()
+    const result = writer.write({ id: 'a' })
+
+    await jest.advanceTimersByTimeAsync(99)
+    expect(write).not.toHaveBeenCalled()
+    await jest.advanceTimersByTimeAsync(1)
+    expect(write).toHaveBeenCalledTimes(1)
+    expect(await result).toEqual({ inserted: true })
+  })
+
+  it('answers a row queued twice with a single write', async () => {
+    const { writer, write } = setup()
+    const results = Promise.all([writer.write({ id: 'a' }), writer.write({ id: 'a' })])
+    await jest.advanceTimersByTimeAsync(100)
+
+    expect(write.mock.calls[0][0]).toEqual([{ id: 'a' }])
+    expect(await results).toEqual([{ inserted: true }, { inserted: false }])
+  })
+
+  it('retries transient failures with backoff', async () => {
+    const { writer, write, stored } = setup()
+    write.mockResolvedValueOnce(unavailable)
+    const result = writer.write({ id: 'a' })
+
+    await jest.advanceTimersByTimeAsync(100)
+    expect(write).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(getWriteRetryDelay(1))
+    expect(write).toHaveBeenCalledTimes(2)
+
+    expect(await result).toEqual({ inserted: true })
+    expect(stored.has('a')).toBe(true)
+    expect(writer.getStats()).toMatchObject({ retries: 1, written: 1, deadLettered: 0 })
+  })
+
+  it('dead-letters a batch that keeps failing', async () => {
+    const { writer, write, deadLetters } = setup()
+    write.mockResolvedValue(unavailable)
+    const results = Promise.all([writer.write({ id: 'a' }), writer.write({ id: 'b' })])
+
+    await jest.advanceTimersByTimeAsync(100 + getWriteRetryDelay(1) + getWriteRetryDelay(2))
+
+    expect(write).toHaveBeenCalledTimes(3)
+    expect(await results).toEqual([
+      { inserted: false, error: 'connection refused' },
+      { inserted: false, error: 'connection refused' },
+    ])
+    expect(deadLetters).toEqual([
+      { row: { id: 'a' }, error: 'connection refused', attempts: 3 },
+      { row: { id: 'b' }, error: 'connection refused', attempts: 3 },
+    ])
+    expect(writer.getStats().queued).toBe(0)
+  })
+
+  it('retries a batch with a bad row one row at a time', async () => {
+    const { writer, write, deadLetters } = setup()
+    const defaultWrite = write.getMockImplementation()!
+    write.mockImplementation(async rows =>
+      rows.some(row => row.id === 'bad')
+        ? { insertedKeys: [], error: { message: 'value too long', code: '22001' } }
+        : defaultWrite(rows)
+    )
+    const results = Promise.all(['a', 'bad', 'c'].map(id => writer.write({ id })))
+    await jest.advanceTimersByTimeAsync(0)
+
+    expect(await results).toEqual([
+      { inserted: true },
+      { inserted: false, error: 'value too long' },
+      { inserted: true },
+    ])
+    expect(write).toHaveBeenCalledTimes(4)
+    expect(deadLetters).toEqual([{ row: { id: 'bad' }, error: 'value too long', attempts: 2 }])
+  })
+
+  it('turns events away once the queue is full', async () => {
+    const { writer, write, deadLetters } = setup({ batchSize: 10, maxQueueSize: 2 })
+    write.mockResolvedValue(unavailable)
+    writer.write({ id: 'a' })
+    writer.write({ id: 'b' })
+
+    expect(await writer.write({ id: 'c' })).toEqual({ inserted: false, error: 'Event write queue is full' })
+    expect(deadLetters).toEqual([{ row: { id: 'c' }, error: 'Event write queue is full', attempts: 0 }])
+    expect(writer.getStats()).toMatchObject({ queued: 2, rejected: 1 })
+  })
+})
+
+describe('isTransientWriteError', () => {
+  it('retries connection problems and timeouts but not bad data', () => {
+    expect(isTransientWriteError({ message: 'fetch failed' })).toBe(true)
+    expect(isTransientWriteError({ message: 'canceling statement due to statement timeout', code: '57014' })).toBe(true)
+    expect(isTransientWriteError({ message: 'deadlock detected', code: '40P01' })).toBe(true)
+    expect(isTransientWriteError({ message: 'value too long', code: '22001' })).toBe(false)
+    expect(isTransientWriteError({ message: 'null value in column', code: '23502' })).toBe(false)
+  })
+})
@@ -0,0 +1,123 @@
+import {
+  KeypadCommand,
+  UntrustedCommandRequest,
+  getCommandArmState,
+  getConfirmedTargets,
+  getRetryDelay,
+  isRetryableCommandError,
+  mergeCommand,
+  validateCommandRequest,
+} from '@/lib/keypadCommands'
+
+const command = (overrides: Partial<KeypadCommand> = {}): KeypadCommand => ({
+  id: 'cmd-1',
+  organizationId: 'org-1',
+  locationId: 'office',
+  keypadId: 'keypad-1',
+  requestedBy: 'user-1',
+  idempotencyKey: 'key-12345678',
+  type: 'zone_arm_state',
+  targetIds: ['zone-1'],
+  state: 'ARMED',
+  label: 'Arm Perimeter',
+  status: 'sent',
+  attempts: 1,
+  lastError: null,
+  confirmedTargetIds: [],
+  createdAt: '2025-01-15T08:00:00.000Z',
+  sentAt: '2025-01-15T08:00:01.000Z',
+  confirmedAt: null,
+  expiresAt: '2025-01-15T08:00:31.000Z',
+  ...overrides,
+})
+
+describe('validateCommandRequest', () => {
+  const request = { idempotencyKey: 'key-12345678', type: 'arm_devices' as const, targetIds: ['d1'], state: 'ARMED_AWAY', label: '' }
+
+  it('accepts a well-formed request', () => {
+    expect(validateCommandRequest(request)).toBeNull()
+  })
+
+  it('requires an idempotency key', () => {
+    expect(validateCommandRequest({ ...request, idempotencyKey: '' })).toMatch(/idempotency key/)
+  })
+
+  it('rejects unknown types and missing targets', () => {
+    const unknownType: UntrustedCommandRequest = { ...request, type: 'reboot' }
+    expect(validateCommandRequest(unknownType)).toBe('Unknown command type')
+    expect(validateCommandRequest({ ...request, targetIds: [] })).toMatch(/target/)
+  })
+
+  it('checks the state each type needs', () => {
+    expect(validateCommandRequest({ ...request, state: 'DISARMED' })).toMatch(/armed away or stay/)
+    expect(validateCommandRequest({ ...request, type: 'zone_arm_state', state: 'ARMED_AWAY' })).toMatch(/zone/)
+    expect(validateCommandRequest({ ...request, type: 'zone_arm_state', state: 'ARMED' })).toBeNull()
+    expect(validateCommandRequest({ ...request, type: 'disarm_devices', state: null })).toBeNull()
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('waits longer after each failed attempt', () => {
+    expect(getRetryDelay(1)).toBe(500)
+    expect(getRetryDelay(2)).toBe(2000)
+    expect(getRetryDelay(5)).toBe(2000)
+  })
+
+  it('retries only failures that may pass', () => {
+    expect(isRetryableCommandError(undefined)).toBe(true)
+    expect(isRetryableCommandError(503)).toBe(true)
+    expect(isRetryableCommandError(408)).toBe(true)
+    expect(isRetryableCommandError(400)).toBe(false)
+    expect(isRetryableCommandError(403)).toBe(false)
+  })
+})
+
+describe('getCommandArmState', () => {
+  it('treats disarm commands and DISARMED states as disarming', () => {
+    expect(getCommandArmState({ type: 'disarm_devices', state: null })).toBe('DISARMED')
+    expect(getCommandArmState({ type: 'zone_arm_state', state: 'DISARMED' })).toBe('DISARMED')
+    expect(getCommandArmState({ type: 'device_state', state: 'disarmed' })).toBe('DISARMED')
+  })
+
+  it('keeps triggering a zone apart', () => {
+    expect(getCommandArmState({ type: 'zone_arm_state', state: 'TRIGGERED' })).toBe('TRIGGERED')
+  })
+
+  it('treats everything else as arming', () => {
+    expect(getCommandArmState({ type: 'arm_devices', state: 'ARMED_STAY' })).toBe('ARMED')
+    expect(getCommandArmState({ type: 'device_state', state: 'TRIGGERED' })).toBe('ARMED')
+  })
+})
+
+describe('getConfirmedTargets', () => {
+  it('confirms a zone once it reports either arm mode', () => {
+    expect(getConfirmedTargets(command(), { alarmZoneId: 'zone-1', armedState: 'ARMED_STAY' })).toEqual(['zone-1'])
+    expect(getConfirmedTargets(command(), { alarmZoneId: 'zone-1', armedState: 'DISARMED' })).toEqual([])
+    expect(getConfirmedTargets(command(), { alarmZoneId: 'zone-2', armedState: 'ARMED' })).toEqual([])
+  })
+
+  it('confirms disarmed devices one at a time', () => {
+    const disarm = command({ type: 'disarm_devices', targetIds: ['d1', 'd2'], state: null, confirmedTargetIds: ['d1'] })
+    expect(getConfirmedTargets(disarm, { deviceId: 'd2', type: 'Disarmed' })).toEqual(['d2'])
+    expect(getConfirmedTargets(disarm, { deviceId: 'd1', type: 'Disarmed' })).toEqual([])
+  })
+
+  it('matches device states by display state', () => {
+    const lock = command({ type: 'device_state', targetIds: ['lock-1'], state: 'lock' })
+    expect(getConfirmedTargets(lock, { deviceId: 'lock-1', displayState: 'Locked' })).toEqual(['lock-1'])
+    expect(getConfirmedTargets(lock, { deviceId: 'lock-1', displayState: 'Unlocked' })).toEqual([])
+  })
+})
+
+describe('mergeCommand', () => {
+  it('adds new commands first', () => {
+    const existing = [command()]
+    expect(mergeCommand(existing, command({ id: 'cmd-2' })).map(c => c.id)).toEqual(['cmd-2', 'cmd-1'])
+  })
+
+  it('never moves a command back to an earlier status', () => {
+    const confirmed = [command({ status: 'confirmed' })]
+    expect(mergeCommand(confirmed, command({ status: 'sent' }))).toBe(confirmed)
+    expect(mergeCommand([command({ status: 'pending' })], command())[0].status).toBe('sent')
+  })
+})
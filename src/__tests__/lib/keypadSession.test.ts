@@ -0,0 +1,44 @@
+import {
+  DEFAULT_SESSION_SETTINGS,
+  getSessionDeadline,
+  getSessionSettings,
+} from '@/lib/keypadSession'
+
+const start = new Date('2025-01-01T12:00:00.000Z').getTime()
+
+describe('Keypad sessions', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('expires after the idle timeout since the last activity', () => {
+    const deadline = getSessionDeadline(
+      { startedAt: start, lastActivityAt: start + 60_000 },
+      { idleTimeoutSeconds: 120, warningSeconds: 20, maxSessionMinutes: 0 }
+    )
+
+    expect(deadline).toEqual({ expiresAt: start + 180_000, reason: 'idle' })
+  })
+
+  it('caps the session at its maximum lifetime', () => {
+    const deadline = getSessionDeadline(
+      { startedAt: start, lastActivityAt: start + 14 * 60_000 },
+      { idleTimeoutSeconds: 300, warningSeconds: 20, maxSessionMinutes: 15 }
+    )
+
+    expect(deadline).toEqual({ expiresAt: start + 15 * 60_000, reason: 'lifetime' })
+  })
+
+  it('falls back to defaults when nothing is stored', () => {
+    expect(getSessionSettings()).toEqual(DEFAULT_SESSION_SETTINGS)
+  })
+
+  it('keeps the warning shorter than the idle timeout', () => {
+    localStorage.setItem(
+      'fusion_session_settings',
+      JSON.stringify({ idleTimeoutSeconds: 30, warningSeconds: 60, maxSessionMinutes: 10 })
+    )
+
+    expect(getSessionSettings()).toEqual({ idleTimeoutSeconds: 30, warningSeconds: 25, maxSessionMinutes: 10 })
+  })
+})
@@ -0,0 +1,79 @@
+import { AlarmZone, Device } from '@/lib/api'
+import { getLiveStateChanges, parseArmedState, reconcileLiveEvent, liveStateKey } from '@/lib/liveState'
+
+const devices: Device[] = [
+  { id: 'device-1', name: 'Front Door', type: 'Door Sensor', armedState: 'DISARMED', status: 'online' },
+  { id: 'device-2', name: 'Hall Motion', type: 'Motion', armedState: 'DISARMED', status: 'online' },
+]
+
+const zone: AlarmZone = {
+  id: 'zone-1',
+  name: 'Ground Floor',
+  locationId: 'location-1',
+  description: null,
+  armedState: 'DISARMED',
+  lastArmedStateChangeReason: null,
+  triggerBehavior: 'standard',
+  locationName: 'Office',
+  createdAt: '2025-01-15T08:00:00.000Z',
+  updatedAt: '2025-01-15T08:00:00.000Z',
+  deviceIds: ['device-1', 'device-2'],
+}
+
+const state = { devices, alarmZones: [zone] }
+
+describe('Live state', () => {
+  it('parses arm states without mistaking alarms for arming', () => {
+    expect(parseArmedState('Armed Stay')).toBe('ARMED_STAY')
+    expect(parseArmedState('ARMED_AWAY')).toBe('ARMED_AWAY')
+    expect(parseArmedState('disarmed')).toBe('DISARMED')
+    expect(parseArmedState('Alarm Triggered')).toBe('TRIGGERED')
+    expect(parseArmedState('alarm')).toBeNull()
+  })
+
+  it('finds devices by ID or name', () => {
+    expect(getLiveStateChanges({ deviceName: 'Front Door', displayState: 'Open' }, devices, [zone])).toEqual([
+      { kind: 'device_state', deviceId: 'device-1', displayState: 'Open' },
+    ])
+    expect(getLiveStateChanges({ deviceId: 'device-2', type: 'Device Offline' }, devices, [zone])).toEqual([
+      { kind: 'device_connectivity', deviceId: 'device-2', online: false },
+    ])
+  })
+
+  it('arms the zone when one of its devices arms and disarms it once none are armed', () => {
+    const armed = reconcileLiveEvent(state, { deviceId: 'device-1', type: 'Armed', timestamp: '2025-01-15T12:00:00.000Z' }, {})
+    expect(armed.state.alarmZones[0].armedState).toBe('ARMED_AWAY')
+
+    const disarmed = reconcileLiveEvent(armed.state, { deviceId: 'device-1', type: 'Disarmed', timestamp: '2025-01-15T12:01:00.000Z' }, armed.versions)
+    expect(disarmed.state.alarmZones[0].armedState).toBe('DISARMED')
+  })
+
+  it('applies zone events directly', () => {
+    const result = reconcileLiveEvent(state, { alarmZoneId: 'zone-1', armedState: 'ARMED_STAY', timestamp: '2025-01-15T12:00:00.000Z' }, {})
+
+    expect(result.state.alarmZones[0].armedState).toBe('ARMED_STAY')
+    expect(result.versions[liveStateKey('zone_armed', 'zone-1')]).toBe(Date.parse('2025-01-15T12:00:00.000Z'))
+  })
+
+  it('drops events older than the state they would overwrite', () => {
+    const armed = reconcileLiveEvent(state, { alarmZoneId: 'zone-1', armedState: 'ARMED', timestamp: '2025-01-15T12:05:00.000Z' }, {})
+    const late = reconcileLiveEvent(armed.state, { alarmZoneId: 'zone-1', armedState: 'DISARMED', timestamp: '2025-01-15T12:00:00.000Z' }, armed.versions)
+
+    expect(late.changed).toBe(false)
+    expect(late.state.alarmZones[0].armedState).toBe('ARMED_AWAY')
+  })
+
+  it('keeps fields independent when ordering events', () => {
+    const offline = reconcileLiveEvent(state, { deviceId: 'device-1', type: 'Offline', timestamp: '2025-01-15T12:05:00.000Z' }, {})
+    const opened = reconcileLiveEvent(offline.state, { deviceId: 'device-1', displayState: 'Open', timestamp: '2025-01-15T12:00:00.000Z' }, offline.versions)
+
+    expect(opened.state.devices[0]).toMatchObject({ status: 'offline', online: false, displayState: 'Open' })
+  })
+
+  it('triggers an armed zone when one of its devices triggers', () => {
+    const armed = { devices, alarmZones: [{ ...zone, armedState: 'ARMED_AWAY' as const }] }
+    const result = reconcileLiveEvent(armed, { deviceName: 'Hall Motion', type: 'Alarm Triggered' }, {}, Date.parse('2025-01-15T12:00:00.000Z'))
+
+    expect(result.state.alarmZones[0].armedState).toBe('TRIGGERED')
+  })
+})
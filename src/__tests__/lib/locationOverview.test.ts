@@ -0,0 +1,79 @@
+import { AlarmZone, Device, Location } from '@/lib/api'
+import { rollUpLocations, summarizeLocations, toOverviewEvent } from '@/lib/locationOverview'
+
+const zone = (overrides: Partial<AlarmZone> = {}): AlarmZone => ({
+  id: 'zone-1',
+  name: 'Perimeter',
+  locationId: 'office',
+  description: null,
+  armedState: 'DISARMED',
+  lastArmedStateChangeReason: null,
+  triggerBehavior: 'standard',
+  locationName: 'Office',
+  createdAt: '2025-01-15T08:00:00.000Z',
+  updatedAt: '2025-01-15T08:00:00.000Z',
+  deviceIds: [],
+  ...overrides,
+})
+
+const locations: Location[] = [
+  { id: 'office', name: 'Office' },
+  { id: 'warehouse', name: 'Warehouse' },
+  { id: 'depot', name: 'Depot' },
+]
+
+const zones = [
+  zone({ id: 'office-perimeter', armedState: 'ARMED_AWAY', deviceIds: ['front-door'] }),
+  zone({ id: 'office-interior', name: 'Interior' }),
+  zone({ id: 'warehouse-dock', locationId: 'warehouse', locationName: 'Warehouse', armedState: 'TRIGGERED' }),
+]
+
+const devices: Device[] = [
+  { id: 'front-door', name: 'Front Door', type: 'Door Sensor', status: 'offline' },
+  { id: 'hall-motion', name: 'Hall Motion', type: 'Motion Sensor', locationId: 'office' },
+  { id: 'dock-door', name: 'Dock Door', type: 'Door Sensor', locationId: 'warehouse', online: false },
+]
+
+describe('Location overview', () => {
+  it('puts locations with an alarm first and summarises their zones', () => {
+    const summaries = summarizeLocations(locations, zones, devices, [])
+    expect(summaries.map(summary => [summary.location.id, summary.status])).toEqual([
+      ['warehouse', 'triggered'],
+      ['depot', 'no_zones'],
+      ['office', 'partial'],
+    ])
+    expect(summaries[0].triggeredZones.map(z => z.id)).toEqual(['warehouse-dock'])
+    expect(summaries[2].armedZoneCount).toBe(1)
+  })
+
+  it('counts devices by location or zone membership', () => {
+    const office = summarizeLocations(locations, zones, devices, []).find(summary => summary.location.id === 'office')
+    expect(office?.deviceCount).toBe(2)
+    expect(office?.offlineDevices.map(d => d.id)).toEqual(['front-door'])
+  })
+
+  it('keeps the newest events for each location, matching by id or name', () => {
+    const events = [
+      toOverviewEvent({ id: 1, eventType: 'Opened', deviceName: 'Front Door', timestamp: 1000, locationId: 'office' }),
+      toOverviewEvent({ id: 'live-1', type: 'Closed', deviceName: 'Front Door', timestamp: '1970-01-01T00:00:03.000Z', locationName: 'Office' }),
+      toOverviewEvent({ id: 2, eventType: 'Motion', deviceName: 'Hall Motion', timestamp: 2000, locationId: 'office' }),
+      toOverviewEvent({ id: 3, eventType: 'Opened', deviceName: 'Dock Door', timestamp: 4000, locationId: 'warehouse' }),
+    ]
+    const office = summarizeLocations(locations, zones, devices, events, 2).find(summary => summary.location.id === 'office')
+    expect(office?.latestEvents.map(event => event.id)).toEqual(['live-1', '2'])
+  })
+
+  it('rolls status and device health up to parent locations', () => {
+    const tree = [{ id: 'region', name: 'Region' }, ...locations.map(location => ({ ...location, parentId: 'region' }))]
+    const rollups = rollUpLocations(tree, summarizeLocations(tree, zones, devices, []))
+    expect(rollups.region).toEqual({
+      status: 'triggered',
+      zoneCount: 3,
+      armedZoneCount: 1,
+      triggeredZoneCount: 1,
+      deviceCount: 3,
+      offlineDeviceCount: 2,
+    })
+    expect(rollups.office.status).toBe('partial')
+  })
+})
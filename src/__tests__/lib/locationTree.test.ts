@@ -0,0 +1,51 @@
+import { AlarmZone, Location } from '@/lib/api'
+import { flattenLocationTree, getCascadeZones, getDescendantIds, getValidParents, searchLocationTree } from '@/lib/locationTree'
+
+const locations: Location[] = [
+  { id: 'campus', name: 'Campus', parentId: null },
+  { id: 'b', name: 'Building B', parentId: 'campus' },
+  { id: 'a', name: 'Building A', parentId: 'campus' },
+  { id: 'a-1', name: 'Floor 1', parentId: 'a' },
+  { id: 'depot', name: 'Depot', parentId: 'elsewhere' },
+]
+
+describe('Location tree', () => {
+  it('lists each location after its parent', () => {
+    expect(flattenLocationTree(locations).map(({ location, depth }) => `${depth}:${location.id}`))
+      .toEqual(['0:campus', '1:a', '2:a-1', '1:b', '0:depot'])
+  })
+
+  it('finds descendants at any depth', () => {
+    expect(getDescendantIds(locations, 'campus').sort()).toEqual(['a', 'a-1', 'b'])
+    expect(getDescendantIds(locations, 'a-1')).toEqual([])
+  })
+
+  it('never offers a location or its descendants as its own parent', () => {
+    expect(getValidParents(locations, 'a').map(l => l.id)).toEqual(['campus', 'b', 'depot'])
+    expect(getValidParents(locations, null)).toHaveLength(5)
+  })
+
+  it('falls back to path when a location has no parentId', () => {
+    const withPath = [...locations, { id: 'a-2', name: 'Floor 2', path: 'campus.a.a-2' }]
+    expect(getDescendantIds(withPath, 'a').sort()).toEqual(['a-1', 'a-2'])
+  })
+
+  it('keeps the ancestors of search matches', () => {
+    expect(searchLocationTree(locations, 'floor').map(l => l.id)).toEqual(['campus', 'a', 'a-1'])
+    expect(searchLocationTree(locations, ' ')).toHaveLength(5)
+  })
+
+  it('cascades to zones at a location and everything below it', () => {
+    const zone = (id: string, locationId: string, armedState: AlarmZone['armedState']) =>
+      ({ id, name: id, locationId, armedState, deviceIds: [] }) as unknown as AlarmZone
+    const zones = [
+      zone('floor-1', 'a-1', 'DISARMED'),
+      zone('building-b', 'b', 'DISARMED'),
+      zone('building-a', 'a', 'ARMED_AWAY'),
+      zone('lobby', 'campus', 'DISARMED'),
+      zone('yard', 'depot', 'DISARMED'),
+    ]
+    expect(getCascadeZones(locations, zones, 'campus', 'arm').map(z => z.id)).toEqual(['lobby', 'floor-1', 'building-b'])
+    expect(getCascadeZones(locations, zones, 'a', 'disarm').map(z => z.id)).toEqual(['building-a'])
+  })
+})
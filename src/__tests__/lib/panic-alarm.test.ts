@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import { acknowledgePanicAlarm, raisePanicAlarm, resumePanicEscalations } from '@/lib/panic-alarm'
+import { sendAlarmNotification } from '@/lib/notifications'
+
+// In-memory panic_alarms behind the query builder calls panic-alarm.ts makes
+const mockRows: Record<string, any>[] = []
+
+const mockQuery = () => {
+  const filters: ((row: Record<string, any>) => boolean)[] = []
+  let action: 'select' | 'insert' | 'update' = 'select'
+  let values: Record<string, any> = {}
+  let limit = Infinity
+
+  const run = () => {
+    if (action === 'insert') {
+      const row = {
+        id: `alarm-${mockRows.length + 1}`,
+        status: 'active',
+        escalation_level: 0,
+        created_at: new Date().toISOString(),
+        acknowledged_at: null,
+        acknowledged_by: null,
+        ...values,
+      }
+      mockRows.push(row)
+      return [row]
+    }
+    const matched = mockRows.filter(row => filters.every(filter => filter(row))).slice(0, limit)
+    if (action === 'update') matched.forEach(row => Object.assign(row, values))
+    return matched
+  }
+
+  const builder: Record<string, any> = {
+    select: () => builder,
+    insert: (row: Record<string, any>) => { action = 'insert'; values = row; return builder },
+    update: (changes: Record<string, any>) => { action = 'update'; values = changes; return builder },
+    eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder },
+    is: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder },
+    gte: (column: string, value: any) => { filters.push(row => row[column] >= value); return builder },
+    lt: (column: string, value: any) => { filters.push(row => row[column] < value); return builder },
+    order: () => builder,
+    limit: (count: number) => { limit = count; return builder },
+    single: async () => ({ data: run()[0] ?? null, error: null }),
+    maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+    then: (resolve: (result: unknown) => void) => resolve({ data: run(), error: null }),
+  }
+  return builder
+}
+
+jest.mock('@/lib/db', () => ({
+  supabase: { from: () => mockQuery() },
+  insertEvent: jest.fn(async () => ({ inserted: true })),
+}))
+jest.mock('@/lib/notifications', () => ({ sendAlarmNotification: jest.fn(async () => true) }))
+jest.mock('@/lib/event-broadcast', () => ({ broadcastEvent: jest.fn() }))
+
+const notify = sendAlarmNotification as jest.Mock
+const context = { organizationId: 'org-1', locationId: 'office', locationName: 'Office', keypadId: 'keypad-1' }
+const minutes = (count: number) => count * 60 * 1000
+
+describe('Panic alarms', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.setSystemTime(new Date('2025-01-15T08:00:00.000Z'))
+    mockRows.length = 0
+    notify.mockClear()
+  })
+
+  afterEach(() => {
+    jest.clearAllTimers()
+    jest.useRealTimers()
+  })
+
+  it('reuses the open alarm when the same keypad presses again', async () => {
+    const first = await raisePanicAlarm('police', context)
+    const second = await raisePanicAlarm('police', context)
+
+    expect(first?.duplicate).toBe(false)
+    expect(second).toEqual({ alarm: first?.alarm, duplicate: true })
+    expect(notify).toHaveBeenCalledTimes(1)
+  })
+
+  it('raises separate alarms for another keypad or panic type', async () => {
+    await raisePanicAlarm('police', context)
+    expect((await raisePanicAlarm('police', { ...context, keypadId: 'keypad-2' }))?.duplicate).toBe(false)
+    expect((await raisePanicAlarm('fire', context))?.duplicate).toBe(false)
+    expect(mockRows).toHaveLength(3)
+  })
+
+  it('escalates until the alarm is acknowledged', async () => {
+    const raised = await raisePanicAlarm('medical', context)
+
+    await jest.advanceTimersByTimeAsync(minutes(2))
+    expect(mockRows[0].escalation_level).toBe(1)
+    expect(notify).toHaveBeenLastCalledWith(expect.objectContaining({
+      title: 'Medical panic still unacknowledged',
+      data: expect.objectContaining({ escalationLevel: 1 }),
+    }))
+
+    await acknowledgePanicAlarm(raised!.alarm.id, { userId: 'user-1', userName: 'Sam' })
+    await jest.advanceTimersByTimeAsync(minutes(10))
+    expect(mockRows[0]).toMatchObject({ status: 'acknowledged', escalation_level: 1, acknowledged_by: 'user-1' })
+    expect(notify).toHaveBeenCalledTimes(2)
+  })
+
+  it('picks escalation up again for open alarms after a restart', async () => {
+    mockRows.push({
+      id: 'alarm-open',
+      organization_id: 'org-1',
+      location_id: 'office',
+      location_name: 'Office',
+      panic_type: 'fire',
+      keypad_id: 'keypad-1',
+      status: 'active',
+      escalation_level: 1,
+      created_at: new Date(Date.now() - minutes(3)).toISOString(),
+      acknowledged_at: null,
+      acknowledged_by: null,
+    })
+
+    await resumePanicEscalations()
+    await jest.advanceTimersByTimeAsync(minutes(2))
+
+    expect(mockRows[0].escalation_level).toBe(2)
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'A fire panic at Office has not been acknowledged after 5 minutes.',
+    }))
+  })
+})
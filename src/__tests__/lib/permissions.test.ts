@@ -0,0 +1,42 @@
+import { hasPermission, canSetZoneState, isKeypadRole } from '@/lib/permissions'
+
+describe('Keypad permissions', () => {
+  it('lets viewers change display settings only', () => {
+    expect(hasPermission('viewer', 'settings.display')).toBe(true)
+    expect(hasPermission('viewer', 'zones.arm')).toBe(false)
+    expect(hasPermission('viewer', 'settings.api_key')).toBe(false)
+  })
+
+  it('lets arm-only users arm but not disarm', () => {
+    expect(canSetZoneState('arm_only', 'ARMED_AWAY')).toBe(true)
+    expect(canSetZoneState('arm_only', 'ARMED_STAY')).toBe(true)
+    expect(canSetZoneState('arm_only', 'DISARMED')).toBe(false)
+  })
+
+  it('keeps configuration and the API key for admins', () => {
+    expect(canSetZoneState('operator', 'DISARMED')).toBe(true)
+    expect(hasPermission('operator', 'zones.configure')).toBe(false)
+    expect(hasPermission('operator', 'settings.api_key')).toBe(false)
+    expect(hasPermission('admin', 'zones.configure')).toBe(true)
+    expect(hasPermission('operator', 'locations.manage')).toBe(false)
+    expect(hasPermission('admin', 'locations.manage')).toBe(true)
+    expect(hasPermission('admin', 'settings.api_key')).toBe(true)
+    expect(hasPermission('admin', 'users.manage')).toBe(true)
+  })
+
+  it('treats nobody signed in like a viewer', () => {
+    expect(hasPermission(null, 'settings.display')).toBe(true)
+    expect(canSetZoneState(null, 'ARMED_AWAY')).toBe(false)
+  })
+
+  it('lets anyone trigger an alarm', () => {
+    expect(canSetZoneState(null, 'TRIGGERED')).toBe(true)
+    expect(canSetZoneState('viewer', 'TRIGGERED')).toBe(true)
+  })
+
+  it('recognises valid roles', () => {
+    expect(isKeypadRole('operator')).toBe(true)
+    expect(isKeypadRole('owner')).toBe(false)
+    expect(isKeypadRole(undefined)).toBe(false)
+  })
+})
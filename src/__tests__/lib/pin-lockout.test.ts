@@ -0,0 +1,79 @@
+import {
+  EMPTY_PIN_ATTEMPT_STATE,
+  PIN_LOCKOUT_THRESHOLD,
+  PIN_LOCKOUT_BASE_SECONDS,
+  PIN_LOCKOUT_MAX_SECONDS,
+  PinAttemptState,
+  getLockoutSeconds,
+  getLockoutRemainingSeconds,
+  recordPinFailure,
+  recordPinSuccess,
+} from '@/lib/pin-lockout'
+
+const now = new Date('2025-01-01T12:00:00.000Z')
+
+const failTimes = (count: number, start: PinAttemptState = EMPTY_PIN_ATTEMPT_STATE) => {
+  let state = start
+  let outcome = recordPinFailure(state, now)
+  state = outcome.state
+  for (let i = 1; i < count; i++) {
+    outcome = recordPinFailure(state, now)
+    state = outcome.state
+  }
+  return outcome
+}
+
+describe('PIN lockout policy', () => {
+  it('counts down remaining attempts before locking', () => {
+    const outcome = recordPinFailure(EMPTY_PIN_ATTEMPT_STATE, now)
+
+    expect(outcome.lockedOut).toBe(false)
+    expect(outcome.attemptsRemaining).toBe(PIN_LOCKOUT_THRESHOLD - 1)
+    expect(outcome.state.lockedUntil).toBeNull()
+  })
+
+  it('locks the keypad once the threshold is reached', () => {
+    const outcome = failTimes(PIN_LOCKOUT_THRESHOLD)
+
+    expect(outcome.lockedOut).toBe(true)
+    expect(outcome.lockoutSeconds).toBe(PIN_LOCKOUT_BASE_SECONDS)
+    expect(outcome.state.failedAttempts).toBe(0)
+    expect(outcome.state.lockoutCount).toBe(1)
+    expect(getLockoutRemainingSeconds(outcome.state, now)).toBe(PIN_LOCKOUT_BASE_SECONDS)
+  })
+
+  it('doubles the cooldown for each further lockout', () => {
+    const first = failTimes(PIN_LOCKOUT_THRESHOLD)
+    const second = failTimes(PIN_LOCKOUT_THRESHOLD, first.state)
+
+    expect(second.lockedOut).toBe(true)
+    expect(second.state.lockoutCount).toBe(2)
+    expect(second.lockoutSeconds).toBe(PIN_LOCKOUT_BASE_SECONDS * 2)
+  })
+
+  it('caps the cooldown', () => {
+    expect(getLockoutSeconds(0)).toBe(0)
+    expect(getLockoutSeconds(3)).toBe(PIN_LOCKOUT_BASE_SECONDS * 4)
+    expect(getLockoutSeconds(50)).toBe(PIN_LOCKOUT_MAX_SECONDS)
+  })
+
+  it('reports no lockout once it has expired', () => {
+    const { state } = failTimes(PIN_LOCKOUT_THRESHOLD)
+    const later = new Date(now.getTime() + (PIN_LOCKOUT_BASE_SECONDS + 1) * 1000)
+
+    expect(getLockoutRemainingSeconds(state, later)).toBe(0)
+  })
+
+  it('resets the escalation after a quiet day', () => {
+    const { state } = failTimes(PIN_LOCKOUT_THRESHOLD)
+    const nextDay = new Date(now.getTime() + 25 * 60 * 60 * 1000)
+    const outcome = recordPinFailure(state, nextDay)
+
+    expect(outcome.state.lockoutCount).toBe(0)
+    expect(outcome.state.failedAttempts).toBe(1)
+  })
+
+  it('clears everything on a correct PIN', () => {
+    expect(recordPinSuccess()).toEqual(EMPTY_PIN_ATTEMPT_STATE)
+  })
+})
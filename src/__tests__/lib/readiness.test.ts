@@ -0,0 +1,72 @@
+import { Device } from '@/lib/api'
+import { evaluateReadiness, getDeviceFindings, verdictWithBypasses, STALE_AFTER_MS } from '@/lib/readiness'
+
+const NOW = Date.parse('2025-01-15T12:00:00.000Z')
+
+const device = (overrides: Partial<Device> = {}): Device => ({
+  id: 'device-1',
+  name: 'Front Door',
+  type: 'Door Sensor',
+  status: 'online',
+  lastSeen: new Date(NOW - 60 * 1000).toISOString(),
+  ...overrides,
+})
+
+const zone = { id: 'zone-1', name: 'Ground Floor', deviceIds: ['device-1', 'device-2'] }
+
+describe('Arming readiness', () => {
+  it('reports nothing for a healthy device', () => {
+    expect(getDeviceFindings(device(), NOW)).toEqual([])
+  })
+
+  it('finds open contacts, tamper and low battery on any device type', () => {
+    expect(getDeviceFindings(device({ displayState: 'Open' }), NOW).map(f => f.kind)).toEqual(['open_contact'])
+    expect(getDeviceFindings(device({ type: 'Motion', displayState: 'Tampered' }), NOW).map(f => f.kind)).toEqual(['tamper'])
+    expect(getDeviceFindings(device({ batteryPercentage: 9 }), NOW)).toEqual([
+      { kind: 'low_battery', severity: 'info', message: 'Low battery (9%)' },
+    ])
+  })
+
+  it('reports stale devices, but not ones already offline', () => {
+    const lastSeen = new Date(NOW - STALE_AFTER_MS - 1000).toISOString()
+
+    expect(getDeviceFindings(device({ lastSeen }), NOW).map(f => f.kind)).toEqual(['stale'])
+    expect(getDeviceFindings(device({ lastSeen, status: 'offline' }), NOW).map(f => f.kind)).toEqual(['offline'])
+  })
+
+  it('warns by default and lists blocking findings first', () => {
+    const devices = [
+      device({ displayState: 'open' }),
+      device({ id: 'device-2', name: 'Hall Motion', status: 'offline' }),
+    ]
+
+    const warned = evaluateReadiness([zone], devices, () => ({}), NOW)
+    expect(warned.verdict).toBe('warn')
+
+    const blocked = evaluateReadiness([zone], devices, () => ({ open_contact: 'block' }), NOW)
+    expect(blocked.verdict).toBe('blocked')
+    expect(blocked.findings.map(f => [f.deviceName, f.rule])).toEqual([
+      ['Front Door', 'block'],
+      ['Hall Motion', 'warn'],
+    ])
+  })
+
+  it('drops ignored findings and is ready when nothing is left', () => {
+    const report = evaluateReadiness([zone], [device({ batteryPercentage: 5 })], () => ({ low_battery: 'ignore' }), NOW)
+
+    expect(report).toEqual({ verdict: 'ready', findings: [] })
+  })
+
+  it('only checks devices in the zone', () => {
+    const report = evaluateReadiness([zone], [device({ id: 'device-3', displayState: 'open' })], () => ({}), NOW)
+
+    expect(report.verdict).toBe('ready')
+  })
+
+  it('unblocks once blocking devices are bypassed', () => {
+    const report = evaluateReadiness([zone], [device({ displayState: 'tamper' })], () => ({ tamper: 'block' }), NOW)
+
+    expect(verdictWithBypasses(report, [])).toBe('blocked')
+    expect(verdictWithBypasses(report, [{ zoneId: 'zone-1', deviceId: 'device-1' }])).toBe('ready')
+  })
+})
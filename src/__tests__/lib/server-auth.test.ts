@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createKeypadUserToken,
+  createLiveToken,
+  verifyKeypadUserToken,
+  verifyLiveToken,
+  KEYPAD_USER_TOKEN_TTL_MS,
+  LIVE_TOKEN_TTL_MS,
+} from '@/lib/server-auth'
+
+const tokenOf = (issued: { token: string } | null) => {
+  if (!issued) throw new Error('No token was issued')
+  return issued.token
+}
+
+beforeEach(() => {
+  process.env.LIVE_EVENTS_SECRET = 'test-secret'
+})
+
+afterEach(() => {
+  delete process.env.LIVE_EVENTS_SECRET
+})
+
+describe('live events tokens', () => {
+  const now = Date.parse('2025-01-15T08:00:00.000Z')
+
+  it('carries the organization it was issued for', () => {
+    const token = tokenOf(createLiveToken('org-acme', now))
+    expect(verifyLiveToken(token, now)).toBe('org-acme')
+  })
+
+  it('expires', () => {
+    const token = tokenOf(createLiveToken('org-acme', now))
+    expect(verifyLiveToken(token, now + LIVE_TOKEN_TTL_MS)).toBeNull()
+  })
+
+  it('rejects a token edited to name another organization', () => {
+    const token = tokenOf(createLiveToken('org-acme', now))
+    const [, signature] = token.split('.')
+    const payload = Buffer.from(JSON.stringify({ org: 'org-globex', exp: now + LIVE_TOKEN_TTL_MS })).toString('base64url')
+
+    expect(verifyLiveToken(`${payload}.${signature}`, now)).toBeNull()
+  })
+
+  it('rejects missing and malformed tokens', () => {
+    expect(verifyLiveToken(null, now)).toBeNull()
+    expect(verifyLiveToken('', now)).toBeNull()
+    expect(verifyLiveToken('not-a-token', now)).toBeNull()
+    expect(verifyLiveToken('a.b.c', now)).toBeNull()
+  })
+})
+
+describe('keypad user tokens', () => {
+  const now = Date.parse('2025-01-15T08:00:00.000Z')
+
+  it('carries the organization and user who entered the PIN', () => {
+    const token = tokenOf(createKeypadUserToken('org-acme', 'user-1', now))
+    expect(verifyKeypadUserToken(token, now)).toEqual({ organizationId: 'org-acme', userId: 'user-1' })
+    expect(verifyKeypadUserToken(token, now + KEYPAD_USER_TOKEN_TTL_MS)).toBeNull()
+  })
+
+  it('is not interchangeable with a live events token', () => {
+    expect(verifyKeypadUserToken(tokenOf(createLiveToken('org-acme', now)), now)).toBeNull()
+    expect(verifyLiveToken(tokenOf(createKeypadUserToken('org-acme', 'user-1', now)), now)).toBeNull()
+  })
+})
+
+describe('without a signing secret', () => {
+  const now = Date.parse('2025-01-15T08:00:00.000Z')
+
+  it('neither issues nor accepts tokens', () => {
+    const token = tokenOf(createLiveToken('org-acme', now))
+    delete process.env.LIVE_EVENTS_SECRET
+
+    expect(createLiveToken('org-acme', now)).toBeNull()
+    expect(createKeypadUserToken('org-acme', 'user-1', now)).toBeNull()
+    expect(verifyLiveToken(token, now)).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+import { setZoneArmState } from '@/lib/zoneArming'
+import { getAlarmZoneDevices, setAlarmZoneArmState } from '@/lib/api'
+import type { AlarmZone, Device } from '@/lib/api'
+
+jest.mock('@/lib/api', () => ({
+  setAlarmZoneArmState: jest.fn(),
+  getAlarmZoneDevices: jest.fn(),
+}))
+
+const armZone = setAlarmZoneArmState as jest.Mock
+const zoneDevices = getAlarmZoneDevices as jest.Mock
+
+const zone = {
+  id: 'zone-1',
+  name: 'Front',
+  armedState: 'DISARMED',
+  deviceIds: ['door-1', 'motion-1', 'window-1'],
+} as AlarmZone
+
+const device = (id: string, overrides: Partial<Device> = {}) => ({
+  id,
+  name: id,
+  status: 'online',
+  armedState: 'ARMED',
+  ...overrides,
+} as Device)
+
+describe('setZoneArmState', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    jest.clearAllMocks()
+    armZone.mockResolvedValue({ data: { ...zone, armedState: 'ARMED' } })
+  })
+
+  it('succeeds once every device confirms', async () => {
+    zoneDevices.mockResolvedValue({ data: zone.deviceIds!.map(id => device(id)) })
+
+    const result = await setZoneArmState(zone, 'ARMED_AWAY')
+
+    expect(result.success).toBe(true)
+    expect(result.error).toBeUndefined()
+    expect(result.zone?.armedState).toBe('ARMED_AWAY')
+    expect(result.confirmedDeviceIds).toEqual(['door-1', 'motion-1', 'window-1'])
+  })
+
+  it('reports which devices failed or never confirmed', async () => {
+    zoneDevices.mockResolvedValue({
+      data: [
+        device('door-1'),
+        device('motion-1', { status: 'offline' }),
+        device('window-1', { armedState: 'DISARMED' }),
+      ],
+    })
+
+    const result = await setZoneArmState(zone, 'ARMED_AWAY')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('2 devices in Front did not confirm')
+    expect(result.confirmedDeviceIds).toEqual(['door-1'])
+    expect(result.deviceIssues).toEqual([
+      { deviceId: 'motion-1', deviceName: 'motion-1', status: 'unconfirmed', reason: 'Device offline, state not confirmed' },
+      { deviceId: 'window-1', deviceName: 'window-1', status: 'unconfirmed', reason: 'Device still reports DISARMED' },
+    ])
+  })
+
+  it('marks a device that left the zone or errored as failed', async () => {
+    zoneDevices.mockResolvedValue({ data: [device('door-1'), device('motion-1', { status: 'error' })] })
+
+    const result = await setZoneArmState(zone, 'ARMED_AWAY')
+
+    expect(result.deviceIssues.map(issue => [issue.deviceId, issue.status])).toEqual([
+      ['motion-1', 'failed'],
+      ['window-1', 'failed'],
+    ])
+  })
+
+  it('fails every device when the zone refuses the change', async () => {
+    armZone.mockResolvedValue({ data: null, error: 'Zone is offline' })
+
+    const result = await setZoneArmState(zone, 'ARMED_AWAY')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Zone is offline')
+    expect(result.deviceIssues).toHaveLength(3)
+    expect(result.deviceIssues.every(issue => issue.status === 'failed')).toBe(true)
+    expect(zoneDevices).not.toHaveBeenCalled()
+  })
+
+  it('leaves devices unconfirmed when they cannot be checked', async () => {
+    zoneDevices.mockResolvedValue({ data: [], error: 'Timed out' })
+
+    const result = await setZoneArmState(zone, 'ARMED_AWAY')
+
+    expect(result.error).toBe('Could not verify devices in Front')
+    expect(result.deviceIssues.every(issue => issue.status === 'unconfirmed')).toBe(true)
+  })
+})
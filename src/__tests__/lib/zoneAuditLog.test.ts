@@ -0,0 +1,56 @@
+import { AuditLogEntry } from '@/lib/api'
+import { auditLogToCsv, DEFAULT_AUDIT_LOG_FILTERS, filterAuditLog, getAuditLogActor, getAuditLogSource } from '@/lib/zoneAuditLog'
+
+const entry = (overrides: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+  id: 'entry-1',
+  zoneId: 'zone-1',
+  userId: 'user-1',
+  action: 'armed',
+  previousState: 'DISARMED',
+  newState: 'ARMED',
+  reason: 'Armed from keypad',
+  triggerEventId: null,
+  createdAt: '2025-01-15T12:00:00.000Z',
+  ...overrides,
+})
+
+const entries = [
+  entry(),
+  entry({ id: 'entry-2', userId: null, action: 'triggered', previousState: 'ARMED', newState: 'TRIGGERED', reason: 'Front door opened', triggerEventId: 'event-1', createdAt: '2025-01-16T12:00:00.000Z' }),
+  entry({ id: 'entry-3', userId: null, action: 'disarmed', previousState: 'TRIGGERED', newState: 'DISARMED', reason: 'Schedule', createdAt: '2025-01-17T12:00:00.000Z' }),
+]
+
+const userNames = { 'user-1': 'Alex Smith' }
+
+describe('Zone audit log', () => {
+  it('works out where each change came from', () => {
+    expect(entries.map(getAuditLogSource)).toEqual(['user', 'event', 'system'])
+    expect(getAuditLogActor(entries[0], userNames)).toBe('Alex Smith')
+    expect(getAuditLogActor(entries[0])).toBe('user-1')
+    expect(getAuditLogActor(entries[2], userNames)).toBe('System')
+  })
+
+  it('filters by action, source, date range and search text', () => {
+    const ids = (filters: Partial<typeof DEFAULT_AUDIT_LOG_FILTERS>) =>
+      filterAuditLog(entries, { ...DEFAULT_AUDIT_LOG_FILTERS, ...filters }, userNames).map(e => e.id)
+
+    expect(ids({})).toEqual(['entry-1', 'entry-2', 'entry-3'])
+    expect(ids({ action: 'disarmed' })).toEqual(['entry-3'])
+    expect(ids({ source: 'event' })).toEqual(['entry-2'])
+    expect(ids({ from: '2025-01-16', to: '2025-01-16' })).toEqual(['entry-2'])
+    expect(ids({ search: 'alex' })).toEqual(['entry-1'])
+    expect(ids({ search: 'FRONT DOOR' })).toEqual(['entry-2'])
+  })
+
+  it('exports CSV with quoted cells where needed', () => {
+    const csv = auditLogToCsv([entry({ reason: 'Armed, "stay" mode' })], userNames).split('\r\n')
+    expect(csv[0]).toBe('Timestamp,Action,Previous State,New State,Actor,Source,Reason,Trigger Event')
+    expect(csv[1]).toBe('2025-01-15T12:00:00.000Z,Armed,DISARMED,ARMED,Alex Smith,User,"Armed, ""stay"" mode",')
+  })
+
+  it('keeps formula-like cells as text in the CSV', () => {
+    const csv = auditLogToCsv([entry({ reason: '=HYPERLINK("http://x")' }), entry({ reason: '-1+2' })], userNames).split('\r\n')
+    expect(csv[1].endsWith(`,"'=HYPERLINK(""http://x"")",`)).toBe(true)
+    expect(csv[2].endsWith(",'-1+2,")).toBe(true)
+  })
+})
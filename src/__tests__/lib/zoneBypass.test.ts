@@ -0,0 +1,27 @@
+import { bypassZoneDevices, clearZoneBypasses } from '@/lib/zoneBypass'
+import { getZoneBypasses } from '@/lib/zoneSettings'
+
+describe('Zone bypasses', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('adds devices to the zone bypasses once each', () => {
+    expect(bypassZoneDevices('zone-1', ['door-1'])).toEqual(['door-1'])
+    expect(bypassZoneDevices('zone-1', ['door-1', 'window-2'])).toEqual(['door-1', 'window-2'])
+    expect(getZoneBypasses('zone-1')).toEqual(['door-1', 'window-2'])
+  })
+
+  it('keeps each zone separate', () => {
+    bypassZoneDevices('zone-1', ['door-1'])
+    bypassZoneDevices('zone-2', ['motion-1'])
+    expect(getZoneBypasses('zone-1')).toEqual(['door-1'])
+    expect(getZoneBypasses('zone-2')).toEqual(['motion-1'])
+  })
+
+  it('forgets the bypasses when the zone is disarmed', () => {
+    bypassZoneDevices('zone-1', ['door-1'])
+    expect(clearZoneBypasses('zone-1')).toEqual([])
+    expect(getZoneBypasses('zone-1')).toEqual([])
+  })
+})
@@ -0,0 +1,46 @@
+import { AlarmZone, Device } from '@/lib/api'
+import { createZoneDraft, findZoneConflicts, getZoneDeviceChanges, validateZoneDraft } from '@/lib/zoneEditor'
+
+const zone = (overrides: Partial<AlarmZone> = {}): AlarmZone => ({
+  id: 'zone-1',
+  name: 'Perimeter',
+  locationId: 'location-1',
+  description: null,
+  armedState: 'DISARMED',
+  lastArmedStateChangeReason: null,
+  triggerBehavior: 'standard',
+  locationName: 'Office',
+  createdAt: '2025-01-15T08:00:00.000Z',
+  updatedAt: '2025-01-15T08:00:00.000Z',
+  deviceIds: ['device-1'],
+  ...overrides,
+})
+
+const zones = [zone(), zone({ id: 'zone-2', name: 'Interior', deviceIds: ['device-2'] })]
+
+const devices: Device[] = [
+  { id: 'device-1', name: 'Front Door', type: 'Door Sensor' },
+  { id: 'device-2', name: 'Hall Motion', type: 'Motion Sensor' },
+  { id: 'device-3', name: 'Back Door', type: 'Door Sensor' },
+]
+
+describe('Zone editor', () => {
+  it('lets a zone keep its own devices but not take another zone\'s', () => {
+    const draft = { ...createZoneDraft(zones[0]), deviceIds: ['device-1', 'device-2', 'device-3'] }
+    expect(findZoneConflicts(draft, zones, devices)).toEqual([
+      { deviceId: 'device-2', deviceName: 'Hall Motion', zoneId: 'zone-2', zoneName: 'Interior' },
+    ])
+  })
+
+  it('requires a unique name', () => {
+    expect(validateZoneDraft(createZoneDraft(null), zones, devices)).toEqual(['Enter a zone name'])
+    expect(validateZoneDraft({ ...createZoneDraft(null), name: ' interior ' }, zones, devices))
+      .toEqual(['There is already a zone called "interior"'])
+    expect(validateZoneDraft({ ...createZoneDraft(zones[1]), deviceIds: ['device-3'] }, zones, devices)).toEqual([])
+  })
+
+  it('works out which devices to assign and remove', () => {
+    expect(getZoneDeviceChanges(['device-1', 'device-2'], ['device-2', 'device-3']))
+      .toEqual({ added: ['device-3'], removed: ['device-1'] })
+  })
+})
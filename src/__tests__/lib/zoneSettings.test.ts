@@ -0,0 +1,50 @@
+import {
+  getSpaceArmMode,
+  getZoneActiveArmMode,
+  getZoneDefaultArmMode,
+  saveZoneActiveArmMode,
+  saveZoneDefaultArmMode,
+} from '@/lib/zoneSettings'
+
+const zone = (id: string, deviceIds: string[], defaultArmMode?: 'ARMED_AWAY' | 'ARMED_STAY') => ({ id, deviceIds, defaultArmMode })
+
+describe('Zone arm modes', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('arms away unless the zone defaults to stay', () => {
+    expect(getZoneDefaultArmMode('zone-1')).toBe('ARMED_AWAY')
+    saveZoneDefaultArmMode('zone-1', 'ARMED_STAY')
+    expect(getZoneDefaultArmMode('zone-1')).toBe('ARMED_STAY')
+  })
+
+  it('remembers the mode the zone was last armed in', () => {
+    saveZoneDefaultArmMode('zone-1', 'ARMED_STAY')
+    expect(getZoneActiveArmMode('zone-1')).toBe('ARMED_STAY')
+    saveZoneActiveArmMode('zone-1', 'ARMED_AWAY')
+    expect(getZoneActiveArmMode('zone-1')).toBe('ARMED_AWAY')
+  })
+})
+
+describe('getSpaceArmMode', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('uses the default of the zone covering the space', () => {
+    expect(getSpaceArmMode(['door-1'], [zone('zone-1', ['door-1'], 'ARMED_STAY')])).toBe('ARMED_STAY')
+    expect(getSpaceArmMode(['door-1'], [zone('zone-1', ['door-1'], 'ARMED_AWAY')])).toBe('ARMED_AWAY')
+  })
+
+  it('reads the stored default for zones loaded without one', () => {
+    saveZoneDefaultArmMode('zone-1', 'ARMED_STAY')
+    expect(getSpaceArmMode(['door-1'], [zone('zone-1', ['door-1'])])).toBe('ARMED_STAY')
+  })
+
+  it('arms away when the zones disagree or none covers the space', () => {
+    const zones = [zone('zone-1', ['door-1'], 'ARMED_STAY'), zone('zone-2', ['motion-1'], 'ARMED_AWAY')]
+    expect(getSpaceArmMode(['door-1', 'motion-1'], zones)).toBe('ARMED_AWAY')
+    expect(getSpaceArmMode(['window-1'], zones)).toBe('ARMED_AWAY')
+  })
+})
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { insertEvent } from '@/lib/db';
+import { authenticateKeypadSession } from '@/lib/keypad-auth';
+import { hasPermission } from '@/lib/permissions';
+import { getKeypadUserName, getUserRole } from '@/lib/roles';
+import { ACKNOWLEDGEMENT_REASON_LABELS, isAlarmAcknowledgementReason } from '@/lib/alarmTrigger';
+
+// Record why a triggered alarm was disarmed. The keypad disarms the zones itself
+// once this succeeds, so only people who can disarm may acknowledge. The user is
+// the one whose PIN the keypad just validated, so the PIN isn't checked twice.
+export async function POST(req: Request) {
+  try {
+    const { locationId, reason, note, zoneIds, zoneNames, deviceName, triggeredAt } = await req.json();
+
+    if (!locationId) {
+      return NextResponse.json({ error: 'locationId is required' }, { status: 400 });
+    }
+    if (!isAlarmAcknowledgementReason(reason)) {
+      return NextResponse.json({ error: 'reason must be false_alarm, verified or test' }, { status: 400 });
+    }
+    if (!Array.isArray(zoneIds) || zoneIds.length === 0) {
+      return NextResponse.json({ error: 'zoneIds are required' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateKeypadSession(req);
+    if (!user) {
+      return response;
+    }
+    const { organizationId, userId } = user;
+    if (!hasPermission(await getUserRole(organizationId, userId, locationId), 'zones.disarm')) {
+      return NextResponse.json({ error: 'You are not allowed to disarm' }, { status: 403 });
+    }
+
+    const userName = await getKeypadUserName(organizationId, userId);
+
+    const timestamp = new Date().toISOString();
+    await insertEvent({
+      organizationId,
+      locationId,
+      type: 'Alarm Acknowledged',
+      category: 'alarm',
+      deviceName: deviceName || 'Keypad',
+      timestamp,
+      displayState: ACKNOWLEDGEMENT_REASON_LABELS[reason],
+      acknowledgementReason: reason,
+      acknowledgementNote: typeof note === 'string' && note.trim() ? note.trim().slice(0, 500) : null,
+      zoneIds,
+      zoneNames: Array.isArray(zoneNames) ? zoneNames : [],
+      triggeredAt: triggeredAt || null,
+      userId,
+      userName
+    });
+
+    return NextResponse.json({ data: { acknowledgedAt: timestamp, userName } });
+  } catch (err) {
+    console.error('Alarm acknowledgement error:', err);
+    return NextResponse.json({ error: 'Failed to acknowledge alarm' }, { status: 500 });
+  }
+}
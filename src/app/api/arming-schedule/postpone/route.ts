@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { insertEvent } from '@/lib/db';
+import { authenticateKeypadUser } from '@/lib/keypad-auth';
+import { hasPermission } from '@/lib/permissions';
+import { getUserRole } from '@/lib/roles';
+import { SCHEDULE_EVENT_CATEGORY, getLocationSchedule, postponeScheduledArm } from '@/lib/arming-scheduler';
+import { MAX_POSTPONE_MINUTES, getArmingScheduleStatus } from '@/lib/armingSchedule';
+
+// Push back the upcoming scheduled arm. Only allowed during its warning window,
+// by someone on site who could disarm the zones anyway.
+export async function POST(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { organizationId, locationId, pin, minutes } = await req.json();
+
+    if (!organizationId || !locationId) {
+      return NextResponse.json({ error: 'organizationId and locationId are required' }, { status: 400 });
+    }
+    if (!Number.isInteger(minutes) || minutes < 1) {
+      return NextResponse.json({ error: 'minutes must be a positive whole number' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateKeypadUser(req, apiKey, organizationId, pin);
+    if (!user) {
+      return response;
+    }
+    if (!hasPermission(await getUserRole(organizationId, user.userId, locationId), 'zones.disarm')) {
+      return NextResponse.json({ error: 'You are not allowed to postpone arming' }, { status: 403 });
+    }
+
+    const result = await getLocationSchedule(apiKey, locationId);
+    if (result.error || !result.data) {
+      return NextResponse.json({ error: result.error || 'Location not found' }, { status: 404 });
+    }
+
+    const { location, schedule, postponements } = result.data;
+    const now = new Date();
+    const status = getArmingScheduleStatus(location.activeArmingScheduleId || null, schedule, location.timeZone, now, postponements);
+    if (!schedule || !status.nextArm || !status.isWarning) {
+      return NextResponse.json({ error: 'No scheduled arm is about to happen' }, { status: 409 });
+    }
+
+    // Postponing again extends from the current time, up to the limit past the original slot
+    const scheduledAt = new Date(status.nextArm.scheduledAt).getTime();
+    const postponedUntil = new Date(Math.min(
+      new Date(status.nextArm.at).getTime() + minutes * 60 * 1000,
+      scheduledAt + MAX_POSTPONE_MINUTES * 60 * 1000
+    ));
+    if (postponedUntil.getTime() <= new Date(status.nextArm.at).getTime()) {
+      return NextResponse.json({ error: `Arming cannot be postponed more than ${MAX_POSTPONE_MINUTES} minutes` }, { status: 400 });
+    }
+
+    const saved = await postponeScheduledArm({
+      organizationId,
+      locationId,
+      scheduleId: schedule.id,
+      scheduledAt: status.nextArm.scheduledAt,
+      postponedUntil: postponedUntil.toISOString(),
+      userId: user.userId,
+      userName: user.userName || null
+    });
+    if (!saved) {
+      return NextResponse.json({ error: 'Failed to postpone arming' }, { status: 500 });
+    }
+
+    await insertEvent({
+      organizationId,
+      locationId,
+      type: 'Scheduled Arm Postponed',
+      category: SCHEDULE_EVENT_CATEGORY,
+      deviceName: schedule.name || 'Arming Schedule',
+      timestamp: now.toISOString(),
+      displayState: 'Postponed',
+      scheduleId: schedule.id,
+      scheduledAt: status.nextArm.scheduledAt,
+      postponedUntil: postponedUntil.toISOString(),
+      userId: user.userId,
+      userName: user.userName
+    });
+
+    return NextResponse.json({ data: { postponedUntil: postponedUntil.toISOString() } });
+  } catch (err) {
+    console.error('Arming postpone error:', err);
+    return NextResponse.json({ error: 'Failed to postpone arming' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { authenticateKeypadUser } from '@/lib/keypad-auth';
+import { hasPermission } from '@/lib/permissions';
+import { getUserRole } from '@/lib/roles';
+import { registerArmingSchedulerKey, getLocationSchedule, saveArmingSchedule } from '@/lib/arming-scheduler';
+import { ArmingSchedule, DEFAULT_WARNING_MINUTES, getArmingScheduleStatus, validateArmingSchedule } from '@/lib/armingSchedule';
+
+// The location's schedule and when it next arms and disarms
+export async function GET(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { searchParams } = new URL(req.url);
+    const organizationId = searchParams.get('organizationId');
+    const locationId = searchParams.get('locationId');
+
+    if (!organizationId || !locationId) {
+      return NextResponse.json({ error: 'organizationId and locationId are required' }, { status: 400 });
+    }
+
+    // Also picks up organizations the server wasn't configured with, but only for
+    // the organization the API key really belongs to
+    const keyOrganizationId = await registerArmingSchedulerKey(apiKey);
+    if (!keyOrganizationId) {
+      return NextResponse.json({ error: 'A valid API key is required' }, { status: 401 });
+    }
+    if (keyOrganizationId !== organizationId) {
+      return NextResponse.json({ error: 'API key does not belong to this organization' }, { status: 403 });
+    }
+
+    const result = await getLocationSchedule(apiKey, locationId);
+    if (result.error || !result.data) {
+      return NextResponse.json({ error: result.error || 'Location not found' }, { status: 404 });
+    }
+
+    const { location, schedule, postponements } = result.data;
+    const status = getArmingScheduleStatus(
+      location.activeArmingScheduleId || null,
+      schedule,
+      location.timeZone,
+      new Date(),
+      postponements
+    );
+    return NextResponse.json({ data: status });
+  } catch (err) {
+    console.error('Arming schedule fetch error:', err);
+    return NextResponse.json({ error: 'Failed to fetch arming schedule' }, { status: 500 });
+  }
+}
+
+// Save the schedule the location points at; needs the PIN of someone who can configure zones
+export async function PUT(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { organizationId, locationId, pin, schedule } = await req.json();
+
+    if (!organizationId || !locationId || !schedule) {
+      return NextResponse.json({ error: 'organizationId, locationId and schedule are required' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateKeypadUser(req, apiKey, organizationId, pin);
+    if (!user) {
+      return response;
+    }
+    if (!hasPermission(await getUserRole(organizationId, user.userId, locationId), 'zones.configure')) {
+      return NextResponse.json({ error: 'Only admins can change the arming schedule' }, { status: 403 });
+    }
+
+    const result = await getLocationSchedule(apiKey, locationId);
+    if (result.error || !result.data) {
+      return NextResponse.json({ error: result.error || 'Location not found' }, { status: 404 });
+    }
+    const scheduleId = result.data.location.activeArmingScheduleId;
+    if (!scheduleId) {
+      return NextResponse.json({ error: 'This location has no active arming schedule in Fusion' }, { status: 400 });
+    }
+
+    const updated: ArmingSchedule = {
+      id: scheduleId,
+      organizationId,
+      name: typeof schedule.name === 'string' ? schedule.name : '',
+      enabled: schedule.enabled !== false,
+      windows: Array.isArray(schedule.windows) ? schedule.windows : [],
+      exceptions: Array.isArray(schedule.exceptions) ? schedule.exceptions : [],
+      zoneIds: Array.isArray(schedule.zoneIds) ? schedule.zoneIds : [],
+      warningMinutes: schedule.warningMinutes ?? DEFAULT_WARNING_MINUTES
+    };
+    const validationError = validateArmingSchedule(updated);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const saved = await saveArmingSchedule(updated, user.userId);
+    if (!saved) {
+      return NextResponse.json({ error: 'Failed to save arming schedule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: { schedule: updated } });
+  } catch (err) {
+    console.error('Arming schedule save error:', err);
+    return NextResponse.json({ error: 'Failed to save arming schedule' }, { status: 500 });
+  }
+}
@@ -1,11 +1,17 @@
 import { NextResponse } from 'next/server';
-import { startBackgroundSSE, stopBackgroundSSE, getBackgroundSSEStatus } from '@/lib/background-sse';
+import {
+  startBackgroundSSE,
+  stopBackgroundSSE,
+  getBackgroundSSEStatus,
+  listBackgroundSSEWorkers
+} from '@/lib/background-sse';
+import { isOperatorRequest, resolveOrganization } from '@/lib/server-auth';
 
 // 🔍 Enhanced server-side debugging utility
 const serverDebugLog = (message: string, data?: any, level: 'info' | 'warn' | 'error' = 'info') => {
   const timestamp = new Date().toISOString();
   const prefix = '🚀 [Background-SSE-API]';
-  
+
   // Always log server-side for debugging purposes
   const logMethod = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
   if (data) {
@@ -17,56 +23,46 @@ const serverDebugLog = (message: string, data?: any, level: 'info' | 'warn' | 'e
 
 export async function GET(req: Request) {
   const requestId = Math.random().toString(36).substr(2, 9);
-  const startTime = Date.now();
-  
+
   try {
-    // 🔇 QUIET MODE: Only log status changes, not every request
-    const status = getBackgroundSSEStatus();
-    const duration = Date.now() - startTime;
-    
-    // Only log if there's an error or significant status change
-    const isSignificant = !status?.isRunning || (duration > 100);
-    if (isSignificant) {
-      serverDebugLog(`📊 Background SSE Status Check`, {
-        isRunning: status?.isRunning || false,
-        duration: `${duration}ms`,
-        requestId
-      });
+    const { searchParams } = new URL(req.url);
+    const operator = isOperatorRequest(req);
+    const callerOrganizationId = await resolveOrganization(req.headers.get('x-api-key') || '');
+
+    // Status for one organization, which must be the caller's own unless they're an operator
+    const requested = searchParams.get('organizationId');
+    const organizationId = requested && (operator || requested === callerOrganizationId)
+      ? requested
+      : callerOrganizationId;
+    const status = organizationId ? getBackgroundSSEStatus(organizationId) : null;
+
+    const workers = operator
+      ? listBackgroundSSEWorkers()
+      : listBackgroundSSEWorkers().filter(worker => worker.organizationId === callerOrganizationId);
+
+    // 🔇 QUIET MODE: Only log when the caller's worker isn't running
+    if (status && !status.isRunning) {
+      serverDebugLog(`📊 Background SSE Status Check`, { organizationId, isRunning: false, requestId });
     }
 
-    const response = {
+    return NextResponse.json({
       success: true,
       status,
+      workers,
+      operator,
       debug: {
         requestId,
-        timestamp: new Date().toISOString(),
-        duration: `${duration}ms`,
-        serverTime: new Date().toISOString()
+        timestamp: new Date().toISOString()
       }
-    };
-    
-    return NextResponse.json(response);
+    });
   } catch (error) {
-    const duration = Date.now() - startTime;
-    
     serverDebugLog(`❌ GET Request ${requestId} failed`, {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      duration: `${duration}ms`
+      error: error instanceof Error ? error.message : 'Unknown error'
     }, 'error');
-    
+
     console.error('❌ Background SSE Status Error:', error);
     return NextResponse.json(
-      { 
-        success: false, 
-        error: 'Failed to get background SSE status',
-        debug: {
-          requestId,
-          timestamp: new Date().toISOString(),
-          duration: `${duration}ms`,
-          errorType: error instanceof Error ? error.name : 'Unknown'
-        }
-      },
+      { success: false, error: 'Failed to get background SSE status', debug: { requestId } },
       { status: 500 }
     );
   }
@@ -74,136 +70,68 @@ export async function GET(req: Request) {
 
 export async function POST(req: Request) {
   const requestId = Math.random().toString(36).substr(2, 9);
-  const startTime = Date.now();
-  
+
   try {
     const body = await req.json();
-    const { action, organizationId, apiKey, timestamp: clientTimestamp, clientInfo } = body;
-    
+    const { action } = body;
+    const apiKey: string = body.apiKey || req.headers.get('x-api-key') || '';
+    const operator = isOperatorRequest(req);
+    const keyOrganizationId = await resolveOrganization(apiKey);
+    const organizationId: string | null = body.organizationId || keyOrganizationId;
+
     serverDebugLog(`📡 POST Request ${requestId} started`, {
-      url: req.url,
       action,
       organizationId,
-      apiKeyLength: apiKey?.length,
-      clientTimestamp,
-      clientInfo,
-      headers: Object.fromEntries(new URLSearchParams(req.headers as any)),
-      serverTimestamp: new Date().toISOString()
+      apiKeyProvided: !!apiKey,
+      operator
     });
-    
-    switch (action) {
-      case 'start':
-        serverDebugLog(`🚀 POST Request ${requestId} - Starting background SSE service...`, {
-          organizationId,
-          apiKeyProvided: !!apiKey,
-          apiKeyLength: apiKey?.length
-        });
-        
-        await startBackgroundSSE();
-        
-        const startStatus = getBackgroundSSEStatus();
-        const startDuration = Date.now() - startTime;
-        
-        serverDebugLog(`✅ POST Request ${requestId} - Background SSE service started`, {
-          status: startStatus,
-          duration: `${startDuration}ms`,
-          wasSuccessful: startStatus?.isRunning || false
-        });
-        
-        const startResponse = {
-          success: true,
-          message: 'Background SSE service started',
-          status: startStatus,
-          debug: {
-            requestId,
-            action: 'start',
-            timestamp: new Date().toISOString(),
-            duration: `${startDuration}ms`,
-            clientTimestamp,
-            organizationId,
-            apiKeyLength: apiKey?.length
-          }
-        };
-        
-        return NextResponse.json(startResponse);
-        
-      case 'stop':
-        serverDebugLog(`🛑 POST Request ${requestId} - Stopping background SSE service...`);
-        
-        stopBackgroundSSE();
-        
-        const stopStatus = getBackgroundSSEStatus();
-        const stopDuration = Date.now() - startTime;
-        
-        serverDebugLog(`✅ POST Request ${requestId} - Background SSE service stopped`, {
-          status: stopStatus,
-          duration: `${stopDuration}ms`,
-          wasStopped: !stopStatus?.isRunning
-        });
-        
-        const stopResponse = {
-          success: true,
-          message: 'Background SSE service stopped',
-          status: stopStatus,
-          debug: {
-            requestId,
-            action: 'stop',
-            timestamp: new Date().toISOString(),
-            duration: `${stopDuration}ms`
-          }
-        };
-        
-        return NextResponse.json(stopResponse);
-        
-      default:
-        const invalidDuration = Date.now() - startTime;
-        
-        serverDebugLog(`❌ POST Request ${requestId} - Invalid action`, {
-          action,
-          validActions: ['start', 'stop'],
-          duration: `${invalidDuration}ms`
-        }, 'warn');
-        
+
+    if (action !== 'start' && action !== 'stop') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action. Use "start" or "stop"', debug: { requestId, providedAction: action } },
+        { status: 400 }
+      );
+    }
+    if (!organizationId) {
+      return NextResponse.json({ success: false, error: 'A valid API key or organizationId is required' }, { status: 401 });
+    }
+
+    // The API key has to belong to the organization whose worker is being controlled
+    const ownsOrganization = keyOrganizationId === organizationId;
+    if (!ownsOrganization && !operator) {
+      serverDebugLog(`🚫 POST Request ${requestId} - API key does not belong to ${organizationId}`, undefined, 'warn');
+      return NextResponse.json({ success: false, error: 'Not allowed to control this organization\'s worker' }, { status: 403 });
+    }
+
+    if (action === 'start') {
+      // Only a key that belongs to the organization is used to stream its events
+      const status = await startBackgroundSSE(organizationId, ownsOrganization ? apiKey : undefined);
+      if (!status) {
         return NextResponse.json(
-          { 
-            success: false, 
-            error: 'Invalid action. Use "start" or "stop"',
-            debug: {
-              requestId,
-              timestamp: new Date().toISOString(),
-              duration: `${invalidDuration}ms`,
-              providedAction: action,
-              validActions: ['start', 'stop']
-            }
-          },
-          { status: 400 }
+          { success: false, error: 'This organization has no worker yet; start it with its API key' },
+          { status: 404 }
         );
+      }
+      serverDebugLog(`✅ POST Request ${requestId} - Worker started`, { organizationId });
+      return NextResponse.json({ success: true, message: 'Background SSE service started', status, debug: { requestId } });
+    }
+
+    const status = stopBackgroundSSE(organizationId);
+    if (!status) {
+      return NextResponse.json({ success: false, error: 'No worker for this organization' }, { status: 404 });
     }
+    serverDebugLog(`✅ POST Request ${requestId} - Worker stopped`, { organizationId });
+    return NextResponse.json({ success: true, message: 'Background SSE service stopped', status, debug: { requestId } });
   } catch (error) {
-    const duration = Date.now() - startTime;
-    
     serverDebugLog(`❌ POST Request ${requestId} failed`, {
       error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      duration: `${duration}ms`,
-      errorType: error instanceof Error ? error.name : 'Unknown',
-      errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      stack: error instanceof Error ? error.stack : undefined
     }, 'error');
-    
+
     console.error('❌ Background SSE Control Error:', error);
     return NextResponse.json(
-      { 
-        success: false, 
-        error: 'Failed to control background SSE service',
-        debug: {
-          requestId,
-          timestamp: new Date().toISOString(),
-          duration: `${duration}ms`,
-          errorType: error instanceof Error ? error.name : 'Unknown',
-          errorMessage: error instanceof Error ? error.message : 'Unknown error'
-        }
-      },
+      { success: false, error: 'Failed to control background SSE service', debug: { requestId } },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getEventWriterStats, listDeadLetters, replayDeadLetters } from '@/lib/db';
+import { isOperatorRequest } from '@/lib/server-auth';
+
+// Events that couldn't be written, for operators only: dead letters can belong to
+// any organization
+
+const MAX_LIMIT = 500;
+
+export async function GET(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ error: 'An admin token is required' }, { status: 403 });
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const organizationId = searchParams.get('organizationId') || undefined;
+    const limit = Math.min(MAX_LIMIT, parseInt(searchParams.get('limit') || '100', 10) || 100);
+
+    const entries = await listDeadLetters(organizationId, limit);
+    return NextResponse.json({ data: { entries, writer: getEventWriterStats() } });
+  } catch (err) {
+    console.error('Dead letters GET error:', err);
+    return NextResponse.json({ error: 'Failed to list dead letters' }, { status: 500 });
+  }
+}
+
+// Replay the given entries, or the oldest ones (optionally for one organization)
+export async function POST(req: Request) {
+  if (!isOperatorRequest(req)) {
+    return NextResponse.json({ error: 'An admin token is required' }, { status: 403 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const ids: string[] | undefined = Array.isArray(body.ids) ? body.ids.map(String) : undefined;
+    const limit = body.limit ? Math.min(MAX_LIMIT, Number(body.limit) || 0) || undefined : undefined;
+
+    const result = await replayDeadLetters({ ids, organizationId: body.organizationId, limit });
+    if (result.error) {
+      return NextResponse.json({ data: result, error: result.error }, { status: 502 });
+    }
+    return NextResponse.json({ data: result });
+  } catch (err) {
+    console.error('Dead letters POST error:', err);
+    return NextResponse.json({ error: 'Failed to replay dead letters' }, { status: 500 });
+  }
+}
@@ -2,18 +2,26 @@ import { NextRequest, NextResponse } from 'next/server';
 import { analytics } from '@/lib/analytics';
 import { logger } from '@/lib/logger';
 import { addConnection, removeConnection } from '@/lib/event-broadcast';
+import { verifyLiveToken } from '@/lib/server-auth';
 
 export async function GET(request: NextRequest) {
   const requestId = `live-sse-${Date.now()}`;
   
   logger.info(`🔴 [Live-SSE] ${requestId} - Client connecting to live events stream`);
+
+  // The token from /api/events/live/token decides whose events this stream carries
+  const organizationId = verifyLiveToken(request.nextUrl.searchParams.get('token'));
+  if (!organizationId) {
+    logger.security('Live events stream rejected: missing or invalid token', { requestId });
+    return NextResponse.json({ error: 'A valid live events token is required' }, { status: 401 });
+  }
   
   try {
     // Create SSE stream
     const stream = new ReadableStream({
       start(controller) {
         // Add connection to active set
-        addConnection(controller);
+        addConnection(controller, { organizationId });
         
         // Send initial connection message
         const welcomeMessage = `data: ${JSON.stringify({ 
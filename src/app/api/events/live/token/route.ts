@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { createLiveToken, resolveOrganization } from '@/lib/server-auth';
+
+// Trade the keypad's API key for a token that opens a live events stream for
+// the API key's organization
+export async function POST(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    if (!apiKey) {
+      return NextResponse.json({ error: 'An API key is required' }, { status: 401 });
+    }
+
+    const organizationId = await resolveOrganization(apiKey);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'API key is not linked to an organization' }, { status: 401 });
+    }
+
+    const token = createLiveToken(organizationId);
+    if (!token) {
+      return NextResponse.json({ error: 'Live events are not configured on this server' }, { status: 503 });
+    }
+    return NextResponse.json({ data: token });
+  } catch (err) {
+    console.error('Live events token error:', err);
+    return NextResponse.json({ error: 'Failed to issue live events token' }, { status: 500 });
+  }
+}
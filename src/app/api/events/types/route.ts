@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { SILENT_EVENT_CATEGORY } from '@/lib/db';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -33,7 +34,8 @@ export async function GET(req: NextRequest) {
       .not('event_type', 'is', null)
       .not('event_type', 'eq', '')
       .not('device_name', 'is', null)
-      .not('device_name', 'eq', '');
+      .not('device_name', 'eq', '')
+      .or(`category.is.null,category.neq.${SILENT_EVENT_CATEGORY}`);
 
     // Add optional location filter
     if (locationId) {
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { submitCommand, listRecentCommands } from '@/lib/command-queue';
+import { getRequestKeypadId } from '@/lib/pin-attempts';
+import { resolveOrganization } from '@/lib/server-auth';
+import { authenticateKeypadSession } from '@/lib/keypad-auth';
+import { getUserRole } from '@/lib/roles';
+import { canSetZoneState } from '@/lib/permissions';
+import { getCommandArmState, validateCommandRequest, KeypadCommandRequest } from '@/lib/keypadCommands';
+
+// Recent commands at a location in the API key's organization, so a keypad can
+// pick up where it left off
+export async function GET(req: Request) {
+  try {
+    const organizationId = await resolveOrganization(req.headers.get('x-api-key') || '');
+    if (!organizationId) {
+      return NextResponse.json({ error: 'A valid API key is required' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const commands = await listRecentCommands(organizationId, searchParams.get('locationId'));
+    return NextResponse.json({ data: commands });
+  } catch (err) {
+    console.error('Keypad commands list error:', err);
+    return NextResponse.json({ error: 'Failed to load commands' }, { status: 500 });
+  }
+}
+
+// Queue an arm, disarm or device state command and send it to Fusion with the
+// keypad's API key. The organization comes from the API key and the user from the
+// token validate-pin issued, and the user's role has to allow the change. Triggering
+// a zone only needs the API key: the keypad does it when an entry delay runs out,
+// usually with nobody signed in.
+export async function POST(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { locationId, keypadId: bodyKeypadId, command } = await req.json();
+
+    const invalid = validateCommandRequest(command);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const request: KeypadCommandRequest = {
+      idempotencyKey: command.idempotencyKey,
+      type: command.type,
+      targetIds: command.targetIds,
+      state: command.state ?? null,
+      label: typeof command.label === 'string' ? command.label.slice(0, 200) : ''
+    };
+    const armState = getCommandArmState(request);
+
+    const { user, response } = await authenticateKeypadSession(req);
+    if (!user && armState !== 'TRIGGERED') {
+      return response;
+    }
+    const organizationId = user ? user.organizationId : await resolveOrganization(apiKey);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'A valid API key is required' }, { status: 401 });
+    }
+
+    const role = user ? await getUserRole(organizationId, user.userId, locationId) : null;
+    if (!canSetZoneState(role, armState)) {
+      return NextResponse.json({ error: 'You do not have permission to do that' }, { status: 403 });
+    }
+
+    const submission = await submitCommand(request, {
+      organizationId,
+      locationId: locationId || null,
+      keypadId: getRequestKeypadId(req, bodyKeypadId),
+      requestedBy: user?.userId ?? null
+    }, apiKey);
+
+    if (!submission) {
+      return NextResponse.json({ error: 'Failed to queue command' }, { status: 500 });
+    }
+    if (submission.command.status === 'failed') {
+      return NextResponse.json(
+        { error: submission.command.lastError || 'Command failed', data: submission },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ data: submission });
+  } catch (err) {
+    console.error('Keypad command error:', err);
+    return NextResponse.json({ error: 'Failed to queue command' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { isDuressPinConfigured, saveDuressCode, deleteDuressCode } from '@/lib/duress';
+import { authenticateKeypadUser } from '@/lib/keypad-auth';
+
+// Users manage their own duress code by proving their normal PIN first
+export async function PUT(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { organizationId, pin, duressPin } = await req.json();
+
+    if (!organizationId) {
+      return NextResponse.json({ error: 'organizationId is required' }, { status: 400 });
+    }
+    if (!isDuressPinConfigured()) {
+      return NextResponse.json({ error: 'Duress PINs are not configured on this server' }, { status: 503 });
+    }
+    if (!/^\d{6}$/.test(duressPin || '')) {
+      return NextResponse.json({ error: 'Duress PIN must be 6 digits' }, { status: 400 });
+    }
+    if (duressPin === pin) {
+      return NextResponse.json({ error: 'Duress PIN must differ from your PIN' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateKeypadUser(req, apiKey, organizationId, pin);
+    if (!user) {
+      return response;
+    }
+
+    const saved = await saveDuressCode({
+      organizationId,
+      userId: user.userId,
+      userName: user.userName
+    }, duressPin);
+
+    if (!saved) {
+      return NextResponse.json({ error: 'Failed to save duress PIN' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: { success: true } });
+  } catch (err) {
+    console.error('Duress code save error:', err);
+    return NextResponse.json({ error: 'Failed to save duress PIN' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { organizationId, pin } = await req.json();
+
+    if (!organizationId) {
+      return NextResponse.json({ error: 'organizationId is required' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateKeypadUser(req, apiKey, organizationId, pin);
+    if (!user) {
+      return response;
+    }
+
+    const deleted = await deleteDuressCode(organizationId, user.userId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to remove duress PIN' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: { success: true } });
+  } catch (err) {
+    console.error('Duress code delete error:', err);
+    return NextResponse.json({ error: 'Failed to remove duress PIN' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { authenticateKeypadSession } from '@/lib/keypad-auth';
+import { getUserRole } from '@/lib/roles';
+
+// The signed-in user's role at a location. The user was verified once when their
+// PIN was entered, so the PIN isn't needed (or re-checked) for each location.
+export async function GET(req: Request) {
+  try {
+    const { user, response } = await authenticateKeypadSession(req);
+    if (!user) {
+      return response;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const role = await getUserRole(user.organizationId, user.userId, searchParams.get('locationId'));
+    return NextResponse.json({ data: { role } });
+  } catch (err) {
+    console.error('Keypad role lookup error:', err);
+    return NextResponse.json({ error: 'Failed to look up role' }, { status: 500 });
+  }
+}
@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { authenticateKeypadUser, authenticateKeypadSession } from '@/lib/keypad-auth';
+import { isKeypadRole, hasPermission } from '@/lib/permissions';
+import {
+  listKeypadUsers,
+  getUserRole,
+  saveUserRole,
+  deleteUserRole,
+  hasAnyRoles,
+  countOtherAdmins
+} from '@/lib/roles';
+
+const LAST_ADMIN_ERROR = 'At least one admin is required for all locations';
+
+// Role changes need the PIN of someone who is an admin at every location
+async function authenticateAdmin(req: Request, apiKey: string, organizationId: string, pin: string) {
+  const auth = await authenticateKeypadUser(req, apiKey, organizationId, pin);
+  if (!auth.user) {
+    return auth;
+  }
+
+  if (await getUserRole(organizationId, auth.user.userId) !== 'admin') {
+    return { response: NextResponse.json({ error: 'Only admins can manage roles' }, { status: 403 }) };
+  }
+  return auth;
+}
+
+export async function GET(req: Request) {
+  try {
+    // The organization comes from the API key and signed-in user, never the query
+    const { user, response } = await authenticateKeypadSession(req);
+    if (!user) {
+      return response;
+    }
+
+    const { organizationId } = user;
+    if (!hasPermission(await getUserRole(organizationId, user.userId), 'users.manage')) {
+      return NextResponse.json({ error: 'Only admins can list keypad users' }, { status: 403 });
+    }
+
+    const users = await listKeypadUsers(organizationId);
+    if (!users) {
+      return NextResponse.json({ error: 'Failed to fetch keypad users' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: { users } });
+  } catch (err) {
+    console.error('Keypad users fetch error:', err);
+    return NextResponse.json({ error: 'Failed to fetch keypad users' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { organizationId, pin, userId, locationId = null, role } = await req.json();
+
+    if (!organizationId || !userId) {
+      return NextResponse.json({ error: 'organizationId and userId are required' }, { status: 400 });
+    }
+    if (!isKeypadRole(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateAdmin(req, apiKey, organizationId, pin);
+    if (!user) {
+      return response;
+    }
+
+    // The first assignment switches roles on for the organization, so make sure
+    // whoever did it stays an admin
+    if (!(await hasAnyRoles(organizationId)) && user.userId !== userId) {
+      await saveUserRole(organizationId, { userId: user.userId, locationId: null, role: 'admin' }, user.userId);
+    }
+
+    if (!locationId && role !== 'admin' && await countOtherAdmins(organizationId, userId) === 0) {
+      return NextResponse.json({ error: LAST_ADMIN_ERROR }, { status: 400 });
+    }
+
+    const saved = await saveUserRole(organizationId, { userId, locationId, role }, user.userId);
+    if (!saved) {
+      return NextResponse.json({ error: 'Failed to save role' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: { success: true } });
+  } catch (err) {
+    console.error('Keypad role save error:', err);
+    return NextResponse.json({ error: 'Failed to save role' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { organizationId, pin, userId, locationId = null } = await req.json();
+
+    if (!organizationId || !userId) {
+      return NextResponse.json({ error: 'organizationId and userId are required' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateAdmin(req, apiKey, organizationId, pin);
+    if (!user) {
+      return response;
+    }
+
+    if (!locationId
+      && await getUserRole(organizationId, userId) === 'admin'
+      && await countOtherAdmins(organizationId, userId) === 0) {
+      return NextResponse.json({ error: LAST_ADMIN_ERROR }, { status: 400 });
+    }
+
+    const deleted = await deleteUserRole(organizationId, userId, locationId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to remove role' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: { success: true } });
+  } catch (err) {
+    console.error('Keypad role delete error:', err);
+    return NextResponse.json({ error: 'Failed to remove role' }, { status: 500 });
+  }
+}
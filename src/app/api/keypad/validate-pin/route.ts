@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { fusionServerFetch } from '@/lib/fusion-server';
+import { findDuressCode, raiseDuressAlarm } from '@/lib/duress';
+import { createKeypadUserToken, resolveOrganization } from '@/lib/server-auth';
+import {
+  getRequestClientAddress,
+  getRequestKeypadId,
+  getActiveLockout,
+  registerPinFailure,
+  registerPinSuccess
+} from '@/lib/pin-attempts';
+import { getUserRole, recordKeypadUser } from '@/lib/roles';
+
+interface PinValidation {
+  valid: boolean;
+  userId: string;
+  userName: string;
+}
+
+// The answer to a valid PIN, with what the signed-in user may do at this location.
+// Normal and duress PINs both go through here so their answers look the same.
+async function signedInResponse(organizationId: string, locationId: string | undefined, userId: string, userName: string | null) {
+  await recordKeypadUser(organizationId, userId, userName);
+  return NextResponse.json({
+    success: true,
+    data: {
+      valid: true,
+      userId,
+      userName: userName || 'User',
+      role: await getUserRole(organizationId, userId, locationId),
+      userToken: createKeypadUserToken(organizationId, userId)?.token
+    }
+  });
+}
+
+// Validate a keypad PIN. The organization comes from the API key, and attempts are
+// counted per client address, so nothing the keypad sends can reset its lockout.
+// Locked-out clients are refused before the PIN is checked. A valid PIN comes back
+// with a user token that later requests send as proof of who entered it.
+// Duress PINs are answered exactly like a normal valid PIN, after the same Fusion
+// round trip, so neither the answer nor its timing reveals that an alarm was raised.
+export async function POST(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { pin, locationId, locationName, keypadId: bodyKeypadId } = await req.json();
+
+    if (!pin || typeof pin !== 'string') {
+      return NextResponse.json({ error: 'pin is required' }, { status: 400 });
+    }
+
+    const organizationId = await resolveOrganization(apiKey);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'A valid API key is required' }, { status: 401 });
+    }
+
+    const keypadId = getRequestKeypadId(req, bodyKeypadId);
+    const attemptContext = {
+      organizationId,
+      clientAddress: getRequestClientAddress(req),
+      keypadId,
+      locationId,
+      locationName
+    };
+
+    const lockedUntil = await getActiveLockout(attemptContext);
+    if (lockedUntil) {
+      return NextResponse.json({ error: 'Too many failed attempts', lockedUntil }, { status: 423 });
+    }
+
+    const [duressCode, response] = await Promise.all([
+      findDuressCode(organizationId, pin),
+      fusionServerFetch<{ success: boolean; data: PinValidation }>('/api/alarm/keypad/validate-pin', apiKey, {
+        method: 'POST',
+        body: JSON.stringify({ pin })
+      })
+    ]);
+
+    if (duressCode) {
+      await registerPinSuccess(attemptContext);
+      // Not awaited, so raising the alarm doesn't hold up the answer
+      raiseDuressAlarm(duressCode, { organizationId, locationId, locationName, keypadId })
+        .catch(err => console.error('Duress alarm error:', err));
+      return signedInResponse(organizationId, locationId, duressCode.userId, duressCode.userName);
+    }
+
+    if (response.error) {
+      return NextResponse.json({ error: response.error }, { status: 401 });
+    }
+
+    // Fusion answers 200 either way; only a wrong PIN counts towards the lockout
+    if (!response.data?.data?.valid) {
+      const outcome = await registerPinFailure(attemptContext);
+      if (outcome.lockedOut) {
+        return NextResponse.json({ error: 'Too many failed attempts', lockedUntil: outcome.state.lockedUntil }, { status: 423 });
+      }
+      return NextResponse.json({ success: true, data: response.data?.data, attemptsRemaining: outcome.attemptsRemaining });
+    }
+
+    await registerPinSuccess(attemptContext);
+    const { userId, userName } = response.data.data;
+    return signedInResponse(organizationId, locationId, userId, userName);
+  } catch (err) {
+    console.error('PIN validation error:', err);
+    return NextResponse.json({ error: 'Failed to validate PIN' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { authenticateKeypadSession } from '@/lib/keypad-auth';
+import { hasPermission } from '@/lib/permissions';
+import { getKeypadUserName, getUserRole } from '@/lib/roles';
+import { acknowledgePanicAlarm, getPanicAlarm } from '@/lib/panic-alarm';
+
+// Stand down a panic so responders stop being re-notified. Anyone who can disarm
+// may do it, once the keypad has validated their PIN.
+export async function POST(req: Request) {
+  try {
+    const { alarmId } = await req.json();
+
+    if (!alarmId) {
+      return NextResponse.json({ error: 'alarmId is required' }, { status: 400 });
+    }
+
+    const { user, response } = await authenticateKeypadSession(req);
+    if (!user) {
+      return response;
+    }
+    const { organizationId, userId } = user;
+
+    const alarm = await getPanicAlarm(alarmId);
+    if (!alarm || alarm.organizationId !== organizationId) {
+      return NextResponse.json({ error: 'Panic alarm not found' }, { status: 404 });
+    }
+    if (!hasPermission(await getUserRole(organizationId, userId, alarm.locationId), 'zones.disarm')) {
+      return NextResponse.json({ error: 'You are not allowed to acknowledge panic alarms' }, { status: 403 });
+    }
+
+    const acknowledged = await acknowledgePanicAlarm(alarmId, {
+      userId,
+      userName: await getKeypadUserName(organizationId, userId)
+    });
+    if (!acknowledged) {
+      return NextResponse.json({ error: 'Panic alarm is already acknowledged' }, { status: 409 });
+    }
+
+    return NextResponse.json({ data: acknowledged });
+  } catch (err) {
+    console.error('Panic acknowledge error:', err);
+    return NextResponse.json({ error: 'Failed to acknowledge panic alarm' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { fusionServerFetch } from '@/lib/fusion-server';
+import { getRequestKeypadId } from '@/lib/pin-attempts';
+import { raisePanicAlarm } from '@/lib/panic-alarm';
+import { isPanicType } from '@/lib/panic';
+import type { Location } from '@/lib/api';
+
+// Raise a panic from the keypad. No PIN is needed, but the keypad's API key has
+// to be able to see the location, which also tells us which organization it is in.
+export async function POST(req: Request) {
+  try {
+    const apiKey = req.headers.get('x-api-key') || '';
+    const { locationId, type } = await req.json();
+
+    if (!locationId || !isPanicType(type)) {
+      return NextResponse.json({ error: 'locationId and a panic type of police, fire or medical are required' }, { status: 400 });
+    }
+
+    const response = await fusionServerFetch<{ success: boolean; data: Location }>(
+      `/api/locations/${encodeURIComponent(locationId)}`,
+      apiKey
+    );
+    const location = response.data?.data;
+    if (response.error || !location?.organizationId) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const result = await raisePanicAlarm(type, {
+      organizationId: location.organizationId,
+      locationId: location.id,
+      locationName: location.name,
+      keypadId: getRequestKeypadId(req)
+    });
+    if (!result) {
+      return NextResponse.json({ error: 'Failed to raise panic alarm' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: result });
+  } catch (err) {
+    console.error('Panic alarm error:', err);
+    return NextResponse.json({ error: 'Failed to raise panic alarm' }, { status: 500 });
+  }
+}
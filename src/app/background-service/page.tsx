@@ -1,61 +1,73 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useSSE } from '@/hooks/useSSE';
+import { useState, useEffect, useCallback } from 'react';
+import { getBackgroundService, controlBackgroundService } from '@/lib/api';
+import type { IngestionWorkerStatus } from '@/lib/eventIngestion';
+
+// Kept for the browser session only
+const ADMIN_TOKEN_KEY = 'background_service_admin_token';
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const getWorkerState = (worker: IngestionWorkerStatus) => {
+  if (!worker.isRunning) return { label: 'Stopped', color: 'text-red-400' };
+  if (!worker.isConnected) return { label: `Reconnecting (attempt ${worker.reconnectAttempts})`, color: 'text-yellow-400' };
+  return { label: 'Connected', color: 'text-green-400' };
+};
 
 export default function BackgroundServicePage() {
-  const { 
-    backgroundServiceStatus, 
-    checkBackgroundService, 
-    startBackgroundService, 
-    stopBackgroundService,
-    isConnected
-  } = useSSE();
-  
-  const [loading, setLoading] = useState(false);
+  const [workers, setWorkers] = useState<IngestionWorkerStatus[]>([]);
+  const [ownWorker, setOwnWorker] = useState<IngestionWorkerStatus | null>(null);
+  const [operator, setOperator] = useState(false);
+  const [adminToken, setAdminToken] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [lastCheck, setLastCheck] = useState<Date | null>(null);
   const [message, setMessage] = useState('');
 
   useEffect(() => {
-    checkBackgroundService();
-  }, [checkBackgroundService]);
+    setAdminToken(sessionStorage.getItem(ADMIN_TOKEN_KEY) || '');
+  }, []);
 
-  const handleStart = async () => {
-    setLoading(true);
-    setMessage('');
-    try {
-      const result = await startBackgroundService();
-      setMessage(result.message || 'Service started successfully');
-    } catch (error) {
-      setMessage(`Error: ${error}`);
-    } finally {
-      setLoading(false);
+  const refresh = useCallback(async () => {
+    const response = await getBackgroundService(adminToken || undefined);
+    if (response.error) {
+      setMessage(`Error: ${response.error}`);
+      return;
     }
-  };
+    setWorkers(response.data.workers);
+    setOwnWorker(response.data.status);
+    setOperator(response.data.operator);
+    setLastCheck(new Date());
+  }, [adminToken]);
 
-  const handleStop = async () => {
-    setLoading(true);
-    setMessage('');
-    try {
-      const result = await stopBackgroundService();
-      setMessage(result.message || 'Service stopped successfully');
-    } catch (error) {
-      setMessage(`Error: ${error}`);
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, 10000);
+    return () => clearInterval(interval);
+  }, [refresh]);
 
-  const handleRefresh = () => {
-    checkBackgroundService();
+  const saveAdminToken = (value: string) => {
+    setAdminToken(value);
+    if (value) {
+      sessionStorage.setItem(ADMIN_TOKEN_KEY, value);
+    } else {
+      sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+    }
   };
 
-  const getStatusColor = (isRunning: boolean) => {
-    return isRunning ? 'text-green-600' : 'text-red-600';
+  const handleControl = async (action: 'start' | 'stop', organizationId?: string) => {
+    setBusyId(organizationId || 'own');
+    setMessage('');
+    const response = await controlBackgroundService(action, organizationId, adminToken || undefined);
+    setMessage(response.error
+      ? `Error: ${response.error}`
+      : `Worker ${action === 'start' ? 'started' : 'stopped'} for ${response.data?.organizationId || organizationId}`);
+    setBusyId(null);
+    await refresh();
   };
 
-  const getStatusText = (isRunning: boolean) => {
-    return isRunning ? 'Running' : 'Stopped';
-  };
+  // This keypad's own worker can be started with its API key even before it exists
+  const ownListed = !!ownWorker && workers.some(worker => worker.organizationId === ownWorker.organizationId);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800 text-white p-8">
@@ -63,63 +75,111 @@ export default function BackgroundServicePage() {
         <h1 className="text-3xl font-bold mb-8">Background SSE Service</h1>
         
         <div className="bg-slate-800/50 rounded-lg p-6 mb-6">
-          <h2 className="text-xl font-semibold mb-4">Service Status</h2>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-            <div className="bg-slate-700/50 rounded-lg p-4">
-              <div className="text-sm text-slate-400 mb-1">Status</div>
-              <div className={`text-lg font-semibold ${getStatusColor(isConnected)}`}>
-                {getStatusText(isConnected)}
-              </div>
-            </div>
-            
-            <div className="bg-slate-700/50 rounded-lg p-4">
-              <div className="text-sm text-slate-400 mb-1">Configuration</div>
-              <div className="text-lg font-semibold">
-                {backgroundServiceStatus?.hasConfig ? '✅ Configured' : '❌ Not Configured'}
-              </div>
-            </div>
-            
-            <div className="bg-slate-700/50 rounded-lg p-4">
-              <div className="text-sm text-slate-400 mb-1">Reconnect Attempts</div>
-              <div className="text-lg font-semibold">
-                {backgroundServiceStatus?.reconnectAttempts || 0}
-              </div>
-            </div>
-            
-            <div className="bg-slate-700/50 rounded-lg p-4">
-              <div className="text-sm text-slate-400 mb-1">Last Check</div>
-              <div className="text-lg font-semibold">
-                {new Date().toLocaleTimeString()}
-              </div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Ingestion Workers</h2>
+            <div className="text-sm text-slate-400">
+              Last check: {lastCheck ? lastCheck.toLocaleTimeString() : '—'}
             </div>
           </div>
-          
-          <div className="flex gap-4">
-            <button
-              onClick={handleStart}
-              disabled={loading || isConnected}
-              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-md font-medium transition-colors"
-            >
-              {loading ? 'Starting...' : 'Start Service'}
-            </button>
-            
-            <button
-              onClick={handleStop}
-              disabled={loading || !isConnected}
-              className="bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-md font-medium transition-colors"
-            >
-              {loading ? 'Stopping...' : 'Stop Service'}
-            </button>
-            
+
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <input
+              type="password"
+              value={adminToken}
+              onChange={e => saveAdminToken(e.target.value)}
+              placeholder="Operator token (shows every organization)"
+              className="flex-1 min-w-[240px] bg-slate-700/50 border border-slate-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-green-600"
+            />
+            <span className={`text-sm ${operator ? 'text-green-400' : 'text-slate-400'}`}>
+              {operator ? 'Operator: all organizations' : 'This organization only'}
+            </span>
             <button
-              onClick={handleRefresh}
-              disabled={loading}
+              onClick={refresh}
+              disabled={!!busyId}
               className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-md font-medium transition-colors"
             >
               Refresh Status
             </button>
           </div>
+
+          {ownWorker && !ownListed && (
+            <div className="bg-slate-700/50 rounded-lg p-4 mb-4 flex items-center justify-between">
+              <div>
+                <div className="font-semibold">No worker for this organization yet</div>
+                <div className="text-sm text-slate-400 font-mono">{ownWorker.organizationId}</div>
+              </div>
+              <button
+                onClick={() => handleControl('start')}
+                disabled={!!busyId}
+                className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-md font-medium transition-colors"
+              >
+                {busyId === 'own' ? 'Starting...' : 'Start Worker'}
+              </button>
+            </div>
+          )}
+
+          {workers.length === 0 && !ownWorker && (
+            <div className="text-slate-400">No ingestion workers are registered.</div>
+          )}
+
+          <div className="space-y-4">
+            {workers.map(worker => {
+              const state = getWorkerState(worker);
+              const isBusy = busyId === worker.organizationId;
+              return (
+                <div key={worker.organizationId} className="bg-slate-700/50 rounded-lg p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                    <div>
+                      <div className="font-mono text-sm">{worker.organizationId}</div>
+                      <div className={`text-lg font-semibold ${state.color}`}>{state.label}</div>
+                      {worker.lastError && (
+                        <div className="text-sm text-red-300 mt-1">Last error: {worker.lastError}</div>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleControl('start', worker.organizationId)}
+                        disabled={!!busyId || worker.isRunning}
+                        className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-md font-medium transition-colors"
+                      >
+                        {isBusy && !worker.isRunning ? 'Starting...' : 'Start'}
+                      </button>
+                      <button
+                        onClick={() => handleControl('stop', worker.organizationId)}
+                        disabled={!!busyId || !worker.isRunning}
+                        className="bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 py-2 rounded-md font-medium transition-colors"
+                      >
+                        {isBusy && worker.isRunning ? 'Stopping...' : 'Stop'}
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                    <div>
+                      <div className="text-slate-400">Events saved</div>
+                      <div className="font-semibold">{worker.eventsSaved}</div>
+                    </div>
+                    <div>
+                      <div className="text-slate-400">Backfilled</div>
+                      <div className="font-semibold">{worker.eventsBackfilled}</div>
+                    </div>
+                    <div>
+                      <div className="text-slate-400">Duplicates skipped</div>
+                      <div className="font-semibold">{worker.duplicatesSkipped}</div>
+                    </div>
+                    <div>
+                      <div className="text-slate-400">Last event</div>
+                      <div className="font-semibold">{formatTime(worker.checkpoint.lastEventTimestamp)}</div>
+                    </div>
+                    <div>
+                      <div className="text-slate-400">Started</div>
+                      <div className="font-semibold">{formatTime(worker.startedAt)}</div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
           
           {message && (
             <div className={`mt-4 p-3 rounded-md ${
@@ -140,7 +200,7 @@ export default function BackgroundServicePage() {
               <strong>How it works:</strong>
             </p>
             <ul className="list-disc list-inside space-y-1 ml-4">
-              <li>Maintains a persistent connection to the Fusion API</li>
+              <li>Keeps one connection to the Fusion API per organization, using that organization&apos;s API key</li>
               <li>Automatically saves all incoming events to the Supabase database</li>
               <li>Handles reconnections and error recovery</li>
               <li>Operates independently of browser connections</li>
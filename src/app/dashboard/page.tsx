@@ -7,6 +7,9 @@ import { optimizedGetSpaces, SmartPoller, clearCache } from '@/lib/api-optimized
 import SpaceCard from '@/components/SpaceCard';
 import Header from '@/components/Header';
 import TabNav from '@/components/TabNav';
+import { SessionTimeoutWarning } from '@/components/ui/SessionTimeoutWarning';
+import { useSessionManager } from '@/hooks/useSessionManager';
+import { endSession, isSessionActive } from '@/lib/keypadSession';
 
 export default function DashboardPage() {
   const [spaces, setSpaces] = useState<Space[]>([]);
@@ -15,15 +18,28 @@ export default function DashboardPage() {
   const [location, setLocation] = useState<{ id: string; name: string; addressPostalCode: string } | null>(null);
   const [organization, setOrganization] = useState<{ name: string } | null>(null);
   const [smartPoller, setSmartPoller] = useState<SmartPoller | null>(null);
+  const [signedIn, setSignedIn] = useState(false);
   const router = useRouter();
 
+  const handleSignOut = () => {
+    endSession();
+    router.push('/pin');
+  };
+
+  const session = useSessionManager({
+    active: signedIn,
+    onExpire: handleSignOut
+  });
+
   useEffect(() => {
-    // Check if we have a user ID
+    // Check if we have a signed-in user whose session is still live
     const userId = localStorage.getItem('user_id');
-    if (!userId) {
+    if (!userId || !isSessionActive()) {
+      endSession();
       router.push('/pin');
       return;
     }
+    setSignedIn(true);
 
     // Get location from localStorage
     const storedLocation = localStorage.getItem('selected_location');
@@ -155,6 +171,11 @@ export default function DashboardPage() {
         postalCode={location?.addressPostalCode}
         organizationName={organization?.name}
       />
+      <SessionTimeoutWarning
+        warning={session.warning}
+        onStaySignedIn={session.extendSession}
+        onSignOut={handleSignOut}
+      />
       <main className="min-h-screen bg-gray-100 dark:bg-gray-900 pb-16">
         <div className="max-w-screen-xl mx-auto px-4 py-8">
           <div className="mb-8">
@@ -6,6 +6,9 @@ import { Device } from '@/lib/api';
 import { optimizedGetDevices, SmartPoller } from '@/lib/api-optimized';
 import Header from '@/components/Header';
 import TabNav from '@/components/TabNav';
+import { SessionTimeoutWarning } from '@/components/ui/SessionTimeoutWarning';
+import { useSessionManager } from '@/hooks/useSessionManager';
+import { endSession, isSessionActive } from '@/lib/keypadSession';
 
 export default function DevicesPage() {
   const [devices, setDevices] = useState<Device[]>([]);
@@ -14,15 +17,28 @@ export default function DevicesPage() {
   const [location, setLocation] = useState<{ id: string; name: string; addressPostalCode: string } | null>(null);
   const [organization, setOrganization] = useState<{ name: string } | null>(null);
   const [smartPoller, setSmartPoller] = useState<SmartPoller | null>(null);
+  const [signedIn, setSignedIn] = useState(false);
   const router = useRouter();
 
+  const handleSignOut = () => {
+    endSession();
+    router.push('/pin');
+  };
+
+  const session = useSessionManager({
+    active: signedIn,
+    onExpire: handleSignOut
+  });
+
   useEffect(() => {
-    // Check if we have a user ID
+    // Check if we have a signed-in user whose session is still live
     const userId = localStorage.getItem('user_id');
-    if (!userId) {
+    if (!userId || !isSessionActive()) {
+      endSession();
       router.push('/pin');
       return;
     }
+    setSignedIn(true);
 
     // Get location from localStorage
     const storedLocation = localStorage.getItem('selected_location');
@@ -117,6 +133,11 @@ export default function DevicesPage() {
         postalCode={location?.addressPostalCode}
         organizationName={organization?.name}
       />
+      <SessionTimeoutWarning
+        warning={session.warning}
+        onStaySignedIn={session.extendSession}
+        onSignOut={handleSignOut}
+      />
       <main className="min-h-screen bg-gray-100 pb-16">
         <div className="max-w-screen-xl mx-auto px-4 py-8">
           <div className="mb-8">
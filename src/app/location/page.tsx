@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Location } from '@/lib/api';
 import { optimizedGetLocations } from '@/lib/api-optimized';
+import { LocationTree } from '@/components/ui/LocationTree';
 
 export default function LocationPage() {
   const [locations, setLocations] = useState<Location[]>([]);
@@ -62,29 +63,16 @@ export default function LocationPage() {
           <div className="text-red-500 text-sm text-center">{error}</div>
         )}
 
-        <div className="space-y-4">
-          {locations.map((location) => (
-            <button
-              key={location.id}
-              onClick={() => handleLocationSelect(location)}
-              className="w-full flex items-center justify-between p-4 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-900 dark:focus:ring-gray-100"
-            >
-              <span className="text-gray-900 dark:text-white">{location.name}</span>
-              <svg
-                className="h-5 w-5 text-gray-400 dark:text-gray-300"
-                xmlns="http://www.w3.org/2000/svg"
-                viewBox="0 0 20 20"
-                fill="currentColor"
-              >
-                <path
-                  fillRule="evenodd"
-                  d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z"
-                  clipRule="evenodd"
-                />
-              </svg>
-            </button>
-          ))}
-        </div>
+        {locations.length > 1 && (
+          <button
+            onClick={() => router.push('/overview')}
+            className="w-full text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            View all locations
+          </button>
+        )}
+
+        <LocationTree locations={locations} onSelect={handleLocationSelect} />
       </div>
     </main>
   );
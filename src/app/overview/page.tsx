@@ -0,0 +1,419 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlarmZone, Location, validatePin, getMyRole, getAlarmZones, getDevices, getFilteredEvents } from '@/lib/api';
+import { optimizedGetLocations } from '@/lib/api-optimized';
+import { applyZoneSettings, getZoneActiveArmMode, getZoneDefaultArmMode, getZoneReadinessRules } from '@/lib/zoneSettings';
+import { evaluateReadiness, ReadinessBypass, ReadinessReport } from '@/lib/readiness';
+import { setZoneArmState, fromApiArmedState, ZoneArmingResult } from '@/lib/zoneArming';
+import { reconcileLiveEvent, liveStateKey, LiveState, LiveStateVersions } from '@/lib/liveState';
+import { summarizeLocations, rollUpLocations, toOverviewEvent, OverviewEvent } from '@/lib/locationOverview';
+import { getCascadeZones, getSubtreeIds, CascadeAction } from '@/lib/locationTree';
+import { startSession, endSession } from '@/lib/keypadSession';
+import { KEYPAD_COMMAND_EVENT_TYPE } from '@/lib/keypadCommands';
+import { KeypadRole, DEFAULT_KEYPAD_ROLE, canSetZoneState } from '@/lib/permissions';
+import { useSSEContext } from '@/hooks/SSEContext';
+import { useSessionManager } from '@/hooks/useSessionManager';
+import { LocationOverviewCard } from '@/components/ui/LocationOverviewCard';
+import { LocationTree } from '@/components/ui/LocationTree';
+import { CascadeArmDialog, CascadePlan } from '@/components/ui/CascadeArmDialog';
+import { ArmReadinessDialog } from '@/components/ui/ArmReadinessDialog';
+import { SessionTimeoutWarning } from '@/components/ui/SessionTimeoutWarning';
+
+type ZoneAction = 'DISARMED' | 'ARMED_AWAY' | 'ARMED_STAY';
+
+// Arming held back until the readiness report is confirmed
+interface PendingReadiness {
+  label: string;
+  report: ReadinessReport;
+  onConfirm: (bypassed: ReadinessBypass[]) => void;
+}
+
+const REFRESH_INTERVAL_MS = 60000;
+const MAX_EVENTS = 200;
+
+export default function OverviewPage() {
+  const router = useRouter();
+  const { subscribe, isConnected } = useSSEContext();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [live, setLive] = useState<LiveState>({ devices: [], alarmZones: [] });
+  const [events, setEvents] = useState<OverviewEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [pinInput, setPinInput] = useState('');
+  const [signedIn, setSignedIn] = useState(false);
+  const [userName, setUserName] = useState('');
+  const [busyZoneId, setBusyZoneId] = useState<string | null>(null);
+  const [pendingReadiness, setPendingReadiness] = useState<PendingReadiness | null>(null);
+  const [cascadePlan, setCascadePlan] = useState<CascadePlan | null>(null);
+  // Only this location and the ones below it are shown when set
+  const [focusedLocationId, setFocusedLocationId] = useState<string | null>(null);
+  // Role at each location, looked up the first time it's needed
+  const rolesRef = useRef<Record<string, KeypadRole>>({});
+
+  const liveRef = useRef(live);
+  const versionsRef = useRef<LiveStateVersions>({});
+  liveRef.current = live;
+
+  const load = useCallback(async () => {
+    const locationsResponse = await optimizedGetLocations();
+    if (locationsResponse.error) {
+      setError('Failed to fetch locations');
+      setLoading(false);
+      return;
+    }
+    const allLocations: Location[] = locationsResponse.data;
+
+    const [zoneResponses, devicesResponse, eventsResponse] = await Promise.all([
+      Promise.all(allLocations.map(location => getAlarmZones(location.id))),
+      getDevices(),
+      getFilteredEvents({ limit: 100, sinceHours: 24, showAllEvents: true })
+    ]);
+    const alarmZones = applyZoneSettings(zoneResponses.flatMap(response => response.data).map(zone => ({
+      ...zone,
+      armedState: fromApiArmedState(zone.armedState, getZoneActiveArmMode(zone.id))
+    })));
+
+    versionsRef.current = {};
+    setLocations(allLocations);
+    setLive({ devices: devicesResponse.data, alarmZones });
+    if (!eventsResponse.error) {
+      setEvents(eventsResponse.data.map(toOverviewEvent));
+    }
+    setError(zoneResponses.some(response => response.error) || devicesResponse.error ? 'Some locations could not be loaded' : '');
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  // Live events update zone and device state everywhere and feed each location's event list
+  useEffect(() => {
+    return subscribe(event => {
+      // Command status updates aren't activity at a location
+      if (event.type === KEYPAD_COMMAND_EVENT_TYPE) return;
+      const result = reconcileLiveEvent(liveRef.current, event, versionsRef.current);
+      versionsRef.current = result.versions;
+      if (result.changed) {
+        liveRef.current = result.state;
+        setLive(result.state);
+      }
+      setEvents(prev => [toOverviewEvent(event), ...prev].slice(0, MAX_EVENTS));
+    });
+  }, [subscribe]);
+
+  const overviews = useMemo(
+    () => summarizeLocations(locations, live.alarmZones, live.devices, events),
+    [locations, live, events]
+  );
+  const rollups = useMemo(() => rollUpLocations(locations, overviews), [locations, overviews]);
+  const alarmCount = overviews.filter(overview => overview.status === 'triggered').length;
+  const shownOverviews = useMemo(() => {
+    if (!focusedLocationId) return overviews;
+    const subtree = new Set(getSubtreeIds(locations, focusedLocationId));
+    return overviews.filter(overview => subtree.has(overview.location.id));
+  }, [overviews, locations, focusedLocationId]);
+
+  const handleSignOut = useCallback(() => {
+    endSession();
+    setSignedIn(false);
+    setUserName('');
+    rolesRef.current = {};
+    setMessage(null);
+  }, []);
+
+  const session = useSessionManager({ active: signedIn, onExpire: handleSignOut });
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pinInput.length !== 6) return;
+    setMessage(null);
+    const response = await validatePin(pinInput);
+    setPinInput('');
+
+    if (response.data.lockedUntil) {
+      setMessage({ type: 'error', text: `Locked out until ${new Date(response.data.lockedUntil).toLocaleTimeString()}` });
+      return;
+    }
+    if (response.error || !response.data.valid) {
+      setMessage({ type: 'error', text: 'Invalid PIN' });
+      return;
+    }
+
+    startSession();
+    setSignedIn(true);
+    setUserName(response.data.userName);
+    rolesRef.current = {};
+  };
+
+  const getRole = async (location: Location): Promise<KeypadRole | null> => {
+    if (rolesRef.current[location.id]) return rolesRef.current[location.id];
+    if (!signedIn) return null;
+    const response = await getMyRole(location.id);
+    if (response.error) return null;
+    const role = response.data || DEFAULT_KEYPAD_ROLE;
+    rolesRef.current = { ...rolesRef.current, [location.id]: role };
+    return role;
+  };
+
+  const setZoneState = async (zone: AlarmZone, state: ZoneAction, bypassDeviceIds: string[] = []): Promise<ZoneArmingResult> => {
+    const result = await setZoneArmState(zone, state, liveRef.current.devices, bypassDeviceIds);
+    if (result.zone) {
+      // Don't let a live event from before this change put the old state back
+      versionsRef.current = { ...versionsRef.current, [liveStateKey('zone_armed', zone.id)]: Date.now() };
+      const armedState = result.zone.armedState;
+      setLive(prev => ({
+        ...prev,
+        alarmZones: prev.alarmZones.map(z => z.id === zone.id ? { ...z, armedState, bypassedDeviceIds: result.bypassedDeviceIds } : z)
+      }));
+    }
+    return result;
+  };
+
+  const applyZoneAction = async (zone: AlarmZone, action: ZoneAction, bypassDeviceIds: string[] = []) => {
+    setBusyZoneId(zone.id);
+    try {
+      const result = await setZoneState(zone, action, bypassDeviceIds);
+      setMessage(result.error
+        ? { type: 'error', text: result.error }
+        : { type: 'success', text: `${zone.name} ${action === 'DISARMED' ? 'disarmed' : 'armed'}` });
+    } catch (err) {
+      console.error('Failed to update zone state:', err);
+      setMessage({ type: 'error', text: 'Failed to update zone state' });
+    } finally {
+      setBusyZoneId(null);
+    }
+  };
+
+  // Arming from here doesn't wait out the exit delay: nobody at this screen is leaving the site
+  const handleZoneAction = async (location: Location, zone: AlarmZone, action: ZoneAction) => {
+    setMessage(null);
+    const role = await getRole(location);
+    if (!canSetZoneState(role, action)) {
+      setMessage({ type: 'error', text: `You do not have permission to ${action === 'DISARMED' ? 'disarm' : 'arm'} zones at ${location.name}` });
+      return;
+    }
+
+    if (action === 'DISARMED') {
+      await applyZoneAction(zone, action);
+      return;
+    }
+    const report = evaluateReadiness([zone], liveRef.current.devices, getZoneReadinessRules);
+    if (report.verdict === 'ready') {
+      await applyZoneAction(zone, action);
+      return;
+    }
+    setPendingReadiness({
+      label: `${zone.name} at ${location.name}`,
+      report,
+      onConfirm: bypassed => applyZoneAction(zone, action, bypassed.map(bypass => bypass.deviceId))
+    });
+  };
+
+  const confirmReadiness = (bypassed: ReadinessBypass[]) => {
+    const pending = pendingReadiness;
+    setPendingReadiness(null);
+    pending?.onConfirm(bypassed);
+  };
+
+  // Zones that can't arm are listed in the confirmation but left alone
+  const handleCascade = (location: Location, action: CascadeAction) => {
+    setMessage(null);
+    const zones = getCascadeZones(locations, live.alarmZones, location.id, action);
+    if (zones.length === 0) {
+      setMessage({ type: 'success', text: `Every zone at ${location.name} is already ${action === 'arm' ? 'armed' : 'disarmed'}` });
+      return;
+    }
+
+    const skipped: Record<string, string> = {};
+    if (action === 'arm') {
+      evaluateReadiness(zones, live.devices, getZoneReadinessRules).findings
+        .filter(finding => finding.rule === 'block' && !skipped[finding.zoneId])
+        .forEach(finding => {
+          skipped[finding.zoneId] = `${finding.deviceName}: ${finding.message}`;
+        });
+    }
+    setCascadePlan({ location, action, zones, skipped });
+  };
+
+  const applyCascade = async () => {
+    const plan = cascadePlan;
+    setCascadePlan(null);
+    if (!plan) return;
+
+    let changed = 0;
+    const problems: string[] = [];
+    for (const zone of plan.zones) {
+      if (plan.skipped[zone.id]) {
+        problems.push(`${zone.name} (${plan.skipped[zone.id]})`);
+        continue;
+      }
+      const state: ZoneAction = plan.action === 'arm' ? getZoneDefaultArmMode(zone.id) : 'DISARMED';
+      const location = locations.find(l => l.id === zone.locationId);
+      const role = location ? await getRole(location) : null;
+      if (!canSetZoneState(role, state)) {
+        problems.push(`${zone.name} (not permitted)`);
+        continue;
+      }
+
+      setBusyZoneId(zone.id);
+      try {
+        const result = await setZoneState(zone, state);
+        if (result.error) {
+          problems.push(`${zone.name} (${result.error})`);
+        } else {
+          changed++;
+        }
+      } catch (err) {
+        console.error('Failed to update zone state:', err);
+        problems.push(`${zone.name} (failed)`);
+      }
+    }
+    setBusyZoneId(null);
+
+    const verb = plan.action === 'arm' ? 'Armed' : 'Disarmed';
+    const summary = `${verb} ${changed} zone${changed !== 1 ? 's' : ''} at ${plan.location.name}`;
+    setMessage(problems.length > 0
+      ? { type: 'error', text: `${summary}. Not changed: ${problems.join(', ')}` }
+      : { type: 'success', text: summary });
+  };
+
+  const handleOpen = (location: Location) => {
+    localStorage.setItem('fusion_selected_location', JSON.stringify(location));
+    router.push('/');
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-black">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#22c55f] mx-auto"></div>
+          <p className="mt-4 text-gray-600 dark:text-gray-300">Loading locations...</p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-black p-4 md:p-8">
+      <ArmReadinessDialog
+        label={pendingReadiness?.label || null}
+        report={pendingReadiness?.report || null}
+        onConfirm={confirmReadiness}
+        onCancel={() => setPendingReadiness(null)}
+      />
+      <CascadeArmDialog plan={cascadePlan} onConfirm={applyCascade} onCancel={() => setCascadePlan(null)} />
+      <SessionTimeoutWarning
+        warning={session.warning}
+        onStaySignedIn={session.extendSession}
+        onSignOut={handleSignOut}
+      />
+
+      <div className="max-w-6xl mx-auto space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">All Locations</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {overviews.length} location{overviews.length !== 1 ? 's' : ''}
+              {alarmCount > 0 && <span className="ml-2 font-medium text-rose-600 dark:text-rose-400">{alarmCount} in alarm</span>}
+              <span className={`ml-2 ${isConnected ? 'text-[#22c55f]' : 'text-gray-500'}`}>{isConnected ? 'Live' : 'Offline'}</span>
+            </p>
+          </div>
+
+          {signedIn ? (
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Signed in as {userName}</span>
+              <button
+                onClick={handleSignOut}
+                className="px-3 py-1 bg-gray-100 dark:bg-[#161c25] text-gray-900 dark:text-white rounded text-sm font-medium hover:bg-gray-200 dark:hover:bg-gray-800"
+              >
+                Sign out
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSignIn} className="flex items-center gap-2">
+              <input
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={pinInput}
+                onChange={(e) => setPinInput(e.target.value.replace(/\D/g, ''))}
+                placeholder="PIN"
+                aria-label="PIN"
+                className="w-28 px-3 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+              />
+              <button
+                type="submit"
+                disabled={pinInput.length !== 6}
+                className="px-3 py-1 bg-[#22c55f] hover:bg-[#16a34a] text-white rounded text-sm font-medium disabled:opacity-50"
+              >
+                Sign in
+              </button>
+            </form>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>}
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-[#22c55f]' : 'text-rose-600 dark:text-rose-400'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-start">
+          <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Locations</h2>
+              {focusedLocationId && (
+                <button
+                  onClick={() => setFocusedLocationId(null)}
+                  className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+                >
+                  Show all
+                </button>
+              )}
+            </div>
+            <LocationTree
+              locations={locations}
+              selectedId={focusedLocationId}
+              onSelect={location => setFocusedLocationId(location.id)}
+              rollups={rollups}
+              renderActions={signedIn ? location => {
+                const rollup = rollups[location.id];
+                if (!rollup || rollup.zoneCount === 0) return null;
+                const action: CascadeAction = rollup.status === 'disarmed' ? 'arm' : 'disarm';
+                return (
+                  <button
+                    onClick={() => handleCascade(location, action)}
+                    disabled={busyZoneId !== null}
+                    className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a] flex-shrink-0 disabled:opacity-50"
+                  >
+                    {action === 'arm' ? 'Arm all' : 'Disarm all'}
+                  </button>
+                );
+              } : undefined}
+            />
+          </div>
+
+          <div className="lg:col-span-2 grid grid-cols-1 xl:grid-cols-2 gap-4">
+            {shownOverviews.map(overview => (
+              <LocationOverviewCard
+                key={overview.location.id}
+                overview={overview}
+                signedIn={signedIn}
+                busyZoneId={busyZoneId}
+                onOpen={() => handleOpen(overview.location)}
+                onZoneAction={(zone, action) => handleZoneAction(overview.location, zone, action)}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
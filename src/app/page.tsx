@@ -20,18 +20,36 @@ import {
   useWeather,
   useTheme,
   useSystemHealth,
-  useServiceWorker
+  useServiceWorker,
+  useSessionManager,
+  useArmingSchedule,
+  useChime,
+  useCommandQueue
 } from '@/hooks';
 import {
   LiveEventsTicker,
   MobileLayout,
   DesktopLayout,
   TestDesignLayout,
-  VisionProLayout
+  VisionProLayout,
+  ArmingDelayOverlay,
+  LockoutScreen,
+  SessionTimeoutWarning,
+  ScheduledArmBanner,
+  ZoneArmingIssues,
+  ZoneBypassList,
+  ArmReadinessDialog,
+  AlarmTakeover,
+  ChimeNotice,
+  PendingCommands,
+  LocationTree,
+  ArmModeSelector,
+  armModeLabel
 } from '@/components';
 import { SettingsModal } from '@/components/ui/SettingsModal';
 import { updateClock, isMobileDevice } from '@/lib/alarmKeypadUtils';
 import { SSEProvider, useSSEContext } from '@/hooks/SSEContext';
+import { hasPermission } from '@/lib/permissions';
 
 // API keys from environment variables
 const DEFAULT_API_KEY = process.env.NEXT_PUBLIC_FUSION_API_KEY || '';
@@ -112,17 +130,20 @@ function SSEConnectionManager({ organization, apiKey }: { organization: any; api
     try {
       debugLog('🏥 Performing background service health check...');
       
-      const healthResponse = await debugFetch('/api/background-sse');
+      // The API key picks out this organization's worker
+      const healthResponse = await debugFetch('/api/background-sse', {
+        headers: { 'x-api-key': apiKey }
+      });
       const healthData = await healthResponse.json();
       
       const healthInfo = {
         timestamp: new Date().toISOString(),
         isRunning: healthData.status?.isRunning || false,
-        uptime: healthData.status?.uptime,
-        eventsProcessed: healthData.status?.eventsProcessed,
-        lastEvent: healthData.status?.lastEvent,
-        connectionState: healthData.status?.connectionState,
-        errors: healthData.status?.errors
+        startedAt: healthData.status?.startedAt,
+        eventsSaved: healthData.status?.eventsSaved,
+        lastEvent: healthData.status?.checkpoint?.lastEventTimestamp,
+        isConnected: healthData.status?.isConnected,
+        lastError: healthData.status?.lastError
       };
 
       debugLog('🏥 Health check results:', healthInfo);
@@ -137,7 +158,7 @@ function SSEConnectionManager({ organization, apiKey }: { organization: any; api
       debugLog('🏥 Health check failed:', error, 'error');
       return null;
     }
-  }, [debugLog, debugFetch]);
+  }, [apiKey, debugLog, debugFetch]);
 
   // 🔍 State change monitoring
   useEffect(() => {
@@ -228,6 +249,7 @@ function SSEConnectionManager({ organization, apiKey }: { organization: any; api
         }, 10000);
         
         const statusResponse = await debugFetch('/api/background-sse', {
+          headers: { 'x-api-key': apiKey },
           signal: statusController.signal
         });
         clearTimeout(statusTimeout);
@@ -413,8 +435,8 @@ function SSEConnectionManager({ organization, apiKey }: { organization: any; api
 
 function AlarmKeypad() {
   // Core hooks
-  const alarmKeypad = useAlarmKeypad();
   const auth = useAuthentication();
+  const alarmKeypad = useAlarmKeypad(auth.role);
   const sse = useSSEContext();
   const weather = useWeather();
   const theme = useTheme();
@@ -550,6 +572,35 @@ function AlarmKeypad() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [auth.pin, auth.isProcessing]);
 
+  // Arm in the mode picked on the PIN screen once the PIN is accepted
+  const { queuedArmMode, setQueuedArmMode, handleArmAll } = alarmKeypad;
+  useEffect(() => {
+    if (!auth.isAuthenticated || !queuedArmMode) return;
+    setQueuedArmMode(null);
+    handleArmAll(queuedArmMode);
+  }, [auth.isAuthenticated, queuedArmMode, setQueuedArmMode, handleArmAll]);
+
+  // Return to the PIN screen when the session times out
+  const session = useSessionManager({
+    active: auth.isAuthenticated,
+    onExpire: handleLogout
+  });
+
+  const armingSchedule = useArmingSchedule({
+    active: isClient && !alarmKeypad.showLocationSelect,
+    locationId: alarmKeypad.selectedLocation?.id
+  });
+
+  const chime = useChime({
+    devices: alarmKeypad.devices,
+    alarmZones: alarmKeypad.alarmZones
+  });
+
+  const commandQueue = useCommandQueue({
+    active: isClient && auth.isAuthenticated,
+    locationId: alarmKeypad.selectedLocation?.id
+  });
+
   // Don't render until client-side
   if (!isClient) {
     return null;
@@ -590,20 +641,10 @@ function AlarmKeypad() {
                 </button>
               </div>
             ) : (
-              alarmKeypad.locations.map((location) => (
-                <button
-                  key={location.id}
-                  onClick={() => alarmKeypad.handleLocationSelect(location)}
-                  className="w-full p-3 text-left bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
-                >
-                  <div className="font-medium text-gray-900 dark:text-white">{location.name}</div>
-                  {location.addressCity && (
-                    <div className="text-sm text-gray-600 dark:text-gray-400">
-                      {location.addressCity}, {location.addressState}
-                    </div>
-                  )}
-                </button>
-              ))
+              <LocationTree
+                locations={alarmKeypad.locations}
+                onSelect={(location) => alarmKeypad.handleLocationSelect(location)}
+              />
             )}
           </div>
         </div>
@@ -624,6 +665,10 @@ function AlarmKeypad() {
     await alarmKeypad.handleZoneToggle(zone);
   };
 
+  const anyZoneArmed = alarmKeypad.alarmZones.some(zone => zone.armedState !== 'DISARMED');
+  const canArm = hasPermission(auth.role, 'zones.arm');
+  const canDisarm = hasPermission(auth.role, 'zones.disarm');
+
   // Show authenticated dashboard
   if (auth.isAuthenticated) {
     return (
@@ -654,11 +699,40 @@ function AlarmKeypad() {
               </p>
             </div>
 
+            <ScheduledArmBanner
+              status={armingSchedule.status}
+              onPostpone={armingSchedule.postpone}
+              className="mb-4"
+            />
+
             {/* Compact Alarm Zones */}
             <div className="bg-white dark:bg-[#0f0f0f] rounded-2xl shadow-xl border border-gray-200 dark:border-gray-800 p-4 mb-4">
-              <h2 className={`font-semibold text-gray-900 dark:text-white ${isMobile ? 'text-lg mb-3' : 'text-xl mb-4'}`}>
-                Security Zones
-              </h2>
+              <div className={`flex items-center justify-between ${isMobile ? 'mb-3' : 'mb-4'}`}>
+                <h2 className={`font-semibold text-gray-900 dark:text-white ${isMobile ? 'text-lg' : 'text-xl'}`}>
+                  Security Zones
+                </h2>
+
+                {/* Toggle All */}
+                {alarmKeypad.alarmZones.length > 1 && (anyZoneArmed ? canDisarm : canArm) && (
+                  anyZoneArmed ? (
+                    <button
+                      onClick={() => alarmKeypad.handleToggleAll()}
+                      disabled={alarmKeypad.isProcessing}
+                      className={`rounded-lg font-medium bg-[#22c55f] hover:bg-[#16a34a] text-white shadow-lg shadow-[#22c55f]/30 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${isMobile ? 'px-2 py-1 text-xs' : 'px-3 py-1.5 text-sm'}`}
+                    >
+                      Disarm All
+                    </button>
+                  ) : (
+                    <ArmModeSelector
+                      value={null}
+                      onChange={(mode) => mode && alarmKeypad.handleToggleAll(mode)}
+                      disabled={alarmKeypad.isProcessing}
+                      size={isMobile ? 'sm' : 'md'}
+                      labelPrefix="Arm "
+                    />
+                  )
+                )}
+              </div>
               
               {alarmKeypad.alarmZones && alarmKeypad.alarmZones.length > 0 ? (
                 <div className={`space-y-${isMobile ? '2' : '3'}`}>
@@ -666,6 +740,7 @@ function AlarmKeypad() {
                     const zonesWithDevices = alarmKeypad.getZonesWithDevices();
                     const zoneData = zonesWithDevices.find(z => z.id === zone.id);
                     const isArmed = zone.armedState !== 'DISARMED';
+                    const canToggle = isArmed ? canDisarm : canArm;
                     
                     return (
                       <div
@@ -679,17 +754,30 @@ function AlarmKeypad() {
                           <span className={`text-gray-500 dark:text-gray-400 ${isMobile ? 'text-xs' : 'text-sm'}`}>
                             {zoneData?.devices?.length || 0} device{(zoneData?.devices?.length || 0) !== 1 ? 's' : ''}
                           </span>
+                          {!isArmed && canArm && (
+                            <div className="mt-1">
+                              <ArmModeSelector
+                                value={zone.defaultArmMode || 'ARMED_AWAY'}
+                                onChange={(mode) => mode && alarmKeypad.updateZoneArmMode(zone.id, mode)}
+                                disabled={alarmKeypad.isProcessing}
+                                size="sm"
+                              />
+                            </div>
+                          )}
+                          <ZoneBypassList zone={zone} devices={alarmKeypad.devices} compact={isMobile} />
+                          <ZoneArmingIssues issues={alarmKeypad.zoneArmingIssues[zone.id]} compact={isMobile} />
                         </div>
                         
                         {/* Compact Toggle Switch */}
                         <button
                           onClick={() => handleZoneToggle(zone)}
-                          disabled={alarmKeypad.isProcessing}
+                          disabled={alarmKeypad.isProcessing || !canToggle}
+                          title={canToggle ? undefined : `You do not have permission to ${isArmed ? 'disarm' : 'arm'} zones`}
                           className={`relative inline-flex ${isMobile ? 'h-6 w-11' : 'h-7 w-12'} items-center rounded-full transition-all duration-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-50 dark:focus:ring-offset-[#1a1a1a] ${
                             isArmed
                               ? 'bg-rose-500 hover:bg-rose-600 focus:ring-rose-500 shadow-lg shadow-rose-500/30' 
                               : 'bg-[#22c55f] hover:bg-[#16a34a] focus:ring-[#22c55f] shadow-lg shadow-[#22c55f]/30'
-                          } ${alarmKeypad.isProcessing ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}`}
+                          } ${alarmKeypad.isProcessing || !canToggle ? 'opacity-50 cursor-not-allowed' : 'hover:scale-105'}`}
                         >
                           <span
                             className={`inline-block ${isMobile ? 'h-4 w-4' : 'h-5 w-5'} transform rounded-full bg-white transition-transform duration-300 shadow-lg ${
@@ -705,6 +793,11 @@ function AlarmKeypad() {
                           }`}>
                             {isArmed ? 'ARMED' : 'DISARMED'}
                           </span>
+                          {isArmed && armModeLabel(zone.armedState) && (
+                            <span className={`text-rose-500 dark:text-rose-400 uppercase tracking-wide ${isMobile ? 'text-[10px]' : 'text-xs'}`}>
+                              {armModeLabel(zone.armedState)}
+                            </span>
+                          )}
                         </div>
                       </div>
                     );
@@ -783,12 +876,46 @@ function AlarmKeypad() {
           </div>
         )}
 
+        {/* Exit/Entry Delay Countdown */}
+        <ArmingDelayOverlay
+          delay={alarmKeypad.armingDelay}
+          highlightPinButtons={alarmKeypad.highlightPinButtons}
+          onPinSubmit={alarmKeypad.handleArmingDelayPin}
+        />
+
+        {/* Triggered Alarm */}
+        <AlarmTakeover
+          trigger={alarmKeypad.alarmTrigger}
+          onVerifyPin={alarmKeypad.verifyAlarmPin}
+          onAcknowledge={alarmKeypad.acknowledgeAlarm}
+        />
+
+        {/* Door Chime */}
+        <ChimeNotice notice={chime.notice} enabled={chime.settings.enabled} onToggle={chime.toggle} />
+        <PendingCommands commands={commandQueue.commands} onDismiss={commandQueue.dismiss} />
+
+        {/* Pre-arm Readiness */}
+        <ArmReadinessDialog
+          label={alarmKeypad.pendingReadiness?.label || null}
+          report={alarmKeypad.pendingReadiness?.report || null}
+          onConfirm={alarmKeypad.confirmReadiness}
+          onCancel={alarmKeypad.cancelReadiness}
+        />
+
+        {/* Inactivity Logout Warning */}
+        <SessionTimeoutWarning
+          warning={session.warning}
+          onStaySignedIn={session.extendSession}
+          onSignOut={handleLogout}
+        />
+
         {/* Settings Modal */}
         <SettingsModal
           open={settingsModalOpen}
           onClose={() => setSettingsModalOpen(false)}
           apiKey={alarmKeypad.apiKey}
           onApiKeyUpdate={(key) => {
+            if (!hasPermission(auth.role, 'settings.api_key')) return;
             alarmKeypad.setApiKey(key);
             localStorage.setItem('fusion_api_key', key);
           }}
@@ -839,10 +966,20 @@ function AlarmKeypad() {
           spaces={alarmKeypad.spaces}
           alarmZones={alarmKeypad.alarmZones}
           onAlarmZonesChange={alarmKeypad.setAlarmZones}
+          onZoneDelaysChange={alarmKeypad.updateZoneDelays}
+          onZoneArmModeChange={alarmKeypad.updateZoneArmMode}
+          onZoneReadinessRulesChange={alarmKeypad.updateZoneReadinessRules}
+          devices={alarmKeypad.devices}
+          onSaveZone={alarmKeypad.saveZone}
+          onDeleteZone={alarmKeypad.deleteZone}
+          onLocationDataChange={alarmKeypad.refreshLocationData}
+          chimeSettings={chime.settings}
+          onChimeSettingsChange={chime.updateSettings}
           onLocationChange={() => {
             // Handle location change if needed
           }}
           requireApiKey={!FUSION_API_KEY}
+          role={auth.role}
         />
       </div>
     );
@@ -868,6 +1005,17 @@ function AlarmKeypad() {
         eventFilterSettings={alarmKeypad.eventFilterSettings}
         alarmZones={alarmKeypad.alarmZones}
       />
+
+      {/* Scheduled Arming */}
+      {armingSchedule.status?.nextArm && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-sm px-4">
+          <ScheduledArmBanner
+            status={armingSchedule.status}
+            onPostpone={armingSchedule.postpone}
+          />
+        </div>
+      )}
+
       {/* Layout Selection */}
       {alarmKeypad.useTestDesign2 ? (
         <VisionProLayout
@@ -893,6 +1041,8 @@ function AlarmKeypad() {
           onBackspace={handlePinBackspace}
           onPressedButtonChange={handlePressedButtonChange}
           onSettingsClick={handleSettingsClick}
+          queuedArmMode={alarmKeypad.queuedArmMode}
+          onQueuedArmModeChange={alarmKeypad.setQueuedArmMode}
         />
       ) : alarmKeypad.useTestDesign ? (
         <TestDesignLayout
@@ -919,6 +1069,8 @@ function AlarmKeypad() {
           onBackspace={handlePinBackspace}
           onPressedButtonChange={handlePressedButtonChange}
           onSettingsClick={handleSettingsClick}
+          queuedArmMode={alarmKeypad.queuedArmMode}
+          onQueuedArmModeChange={alarmKeypad.setQueuedArmMode}
         />
       ) : isMobile ? (
         <MobileLayout
@@ -943,6 +1095,8 @@ function AlarmKeypad() {
           onBackspace={handlePinBackspace}
           onPressedButtonChange={handlePressedButtonChange}
           onSettingsClick={handleSettingsClick}
+          queuedArmMode={alarmKeypad.queuedArmMode}
+          onQueuedArmModeChange={alarmKeypad.setQueuedArmMode}
         />
       ) : (
         <DesktopLayout
@@ -967,9 +1121,35 @@ function AlarmKeypad() {
           onBackspace={handlePinBackspace}
           onPressedButtonChange={handlePressedButtonChange}
           onSettingsClick={handleSettingsClick}
+          queuedArmMode={alarmKeypad.queuedArmMode}
+          onQueuedArmModeChange={alarmKeypad.setQueuedArmMode}
         />
       )}
       
+      {/* Exit/Entry Delay Countdown */}
+      <ArmingDelayOverlay
+        delay={alarmKeypad.armingDelay}
+        highlightPinButtons={alarmKeypad.highlightPinButtons}
+        onPinSubmit={alarmKeypad.handleArmingDelayPin}
+      />
+
+      {/* Triggered Alarm */}
+      <AlarmTakeover
+        trigger={alarmKeypad.alarmTrigger}
+        onVerifyPin={alarmKeypad.verifyAlarmPin}
+        onAcknowledge={alarmKeypad.acknowledgeAlarm}
+      />
+
+      {/* Door Chime */}
+      <ChimeNotice notice={chime.notice} enabled={chime.settings.enabled} onToggle={chime.toggle} />
+      <PendingCommands commands={commandQueue.commands} onDismiss={commandQueue.dismiss} />
+
+      {/* PIN Lockout Countdown */}
+      <LockoutScreen
+        lockedUntil={auth.lockedUntil}
+        onExpired={auth.clearLockout}
+      />
+
       {/* Settings Modal */}
       <SettingsModal 
         open={settingsModalOpen} 
@@ -1007,6 +1187,15 @@ function AlarmKeypad() {
         spaces={alarmKeypad.spaces}
         alarmZones={alarmKeypad.alarmZones}
         onAlarmZonesChange={alarmKeypad.setAlarmZones}
+        onZoneDelaysChange={alarmKeypad.updateZoneDelays}
+        onZoneArmModeChange={alarmKeypad.updateZoneArmMode}
+        onZoneReadinessRulesChange={alarmKeypad.updateZoneReadinessRules}
+        devices={alarmKeypad.devices}
+        onSaveZone={alarmKeypad.saveZone}
+        onDeleteZone={alarmKeypad.deleteZone}
+        onLocationDataChange={alarmKeypad.refreshLocationData}
+        chimeSettings={chime.settings}
+        onChimeSettingsChange={chime.updateSettings}
         onLocationChange={() => {
           setSettingsModalOpen(false);
           alarmKeypad.setShowLocationSelect(true);
@@ -2,20 +2,51 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { validatePin, getAlarmZones, updateAlarmZone, armDevices, AlarmZone } from '@/lib/api';
+import { validatePin, getAlarmZones, getDevices, acknowledgeAlarm, AlarmZone, Device } from '@/lib/api';
+import { getZoneDelays, getZoneActiveArmMode, getZoneReadinessRules, ZoneArmMode } from '@/lib/zoneSettings';
+import { evaluateReadiness, ReadinessBypass, ReadinessReport } from '@/lib/readiness';
+import { setZoneArmState, fromApiArmedState, ZoneArmingResult, ZoneDeviceIssue } from '@/lib/zoneArming';
+import { ZoneArmingIssues } from '@/components/ui/ZoneArmingIssues';
+import { useArmingDelay } from '@/hooks/useArmingDelay';
+import { ArmingDelayOverlay } from '@/components/ui/ArmingDelayOverlay';
+import { LockoutScreen } from '@/components/ui/LockoutScreen';
+import { ArmReadinessDialog } from '@/components/ui/ArmReadinessDialog';
+import { SessionTimeoutWarning } from '@/components/ui/SessionTimeoutWarning';
+import { useSessionManager } from '@/hooks/useSessionManager';
+import { ScheduledArmBanner } from '@/components/ui/ScheduledArmBanner';
+import { AlarmTakeover } from '@/components/ui/AlarmTakeover';
+import { describeAlarmTrigger, AlarmAcknowledgementReason } from '@/lib/alarmTrigger';
+import { useArmingSchedule } from '@/hooks/useArmingSchedule';
+import { useChime } from '@/hooks/useChime';
+import { ChimeNotice } from '@/components/ui/ChimeNotice';
+import { startSession, endSession, isSessionActive, getKeypadUserToken } from '@/lib/keypadSession';
+import { KeypadRole, DEFAULT_KEYPAD_ROLE, hasPermission, canSetZoneState } from '@/lib/permissions';
 
 type ArmingAction = 'DISARMED' | 'ARMED_STAY' | 'ARMED_AWAY';
 
+// Arming held back until the readiness report is confirmed
+interface PendingReadiness {
+  label: string;
+  report: ReadinessReport;
+  onConfirm: (bypassByZone: Record<string, string[]>) => void;
+}
+
 export default function PinPage() {
   const [pin, setPin] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [authenticated, setAuthenticated] = useState(false);
+  const [role, setRole] = useState<KeypadRole | null>(null);
   const [alarmZones, setAlarmZones] = useState<AlarmZone[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [pendingReadiness, setPendingReadiness] = useState<PendingReadiness | null>(null);
+  const [zoneArmingIssues, setZoneArmingIssues] = useState<Record<string, ZoneDeviceIssue[]>>({});
   const [processing, setProcessing] = useState(false);
   const [highlightPinButtons, setHighlightPinButtons] = useState(true);
   const [pressedButton, setPressedButton] = useState<string | null>(null);
   const [selectedLocation, setSelectedLocation] = useState<any>(null);
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const armingDelay = useArmingDelay();
   const router = useRouter();
 
   useEffect(() => {
@@ -28,6 +59,11 @@ export default function PinPage() {
 
     const parsedLocation = JSON.parse(location);
     setSelectedLocation(parsedLocation);
+
+    // Don't leave a signed-in user behind once their session has lapsed
+    if (!isSessionActive()) {
+      endSession();
+    }
     
     // Load highlight PIN buttons setting
     const savedHighlightPinButtons = localStorage.getItem('highlight_pin_buttons');
@@ -52,7 +88,7 @@ export default function PinPage() {
         console.error('Failed to load alarm zones:', response.error);
         setAlarmZones([]);
       } else {
-        setAlarmZones(response.data);
+        setAlarmZones(response.data.map(zone => ({ ...zone, armedState: fromApiArmedState(zone.armedState, getZoneActiveArmMode(zone.id)) })));
       }
     } catch (error) {
       console.error('Failed to load alarm zones:', error);
@@ -60,6 +96,37 @@ export default function PinPage() {
     }
   };
 
+  const loadDevices = async () => {
+    const response = await getDevices();
+    if (response.error) {
+      console.error('Failed to load devices:', response.error);
+      return;
+    }
+    setDevices(response.data);
+  };
+
+  // Check the zones before arming; anything other than ready waits for the user
+  const checkReadiness = (label: string, zones: AlarmZone[], onConfirm: PendingReadiness['onConfirm']) => {
+    const report = evaluateReadiness(zones, devices, getZoneReadinessRules);
+    if (report.verdict === 'ready') {
+      onConfirm({});
+      return;
+    }
+    setPendingReadiness({ label, report, onConfirm });
+  };
+
+  const confirmReadiness = (bypassed: ReadinessBypass[]) => {
+    const pending = pendingReadiness;
+    setPendingReadiness(null);
+    if (!pending) return;
+
+    const bypassByZone: Record<string, string[]> = {};
+    bypassed.forEach(bypass => {
+      bypassByZone[bypass.zoneId] = [...(bypassByZone[bypass.zoneId] || []), bypass.deviceId];
+    });
+    pending.onConfirm(bypassByZone);
+  };
+
   const handlePinSubmit = async () => {
     if (pin.length !== 6) return;
 
@@ -68,19 +135,31 @@ export default function PinPage() {
 
     try {
       const response = await validatePin(pin);
+
+      if (response.data.lockedUntil) {
+        setLockedUntil(response.data.lockedUntil);
+        setError('');
+        setPin('');
+        return;
+      }
       
       if (response.error || !response.data.valid) {
-        setError('Invalid PIN');
+        const attemptsRemaining = response.data.attemptsRemaining;
+        setError(attemptsRemaining !== undefined && attemptsRemaining <= 2
+          ? `Invalid PIN (${attemptsRemaining} attempt${attemptsRemaining !== 1 ? 's' : ''} left)`
+          : 'Invalid PIN');
         setPin('');
         return;
       }
 
       localStorage.setItem('user_id', response.data.userId);
       localStorage.setItem('user_name', response.data.userName);
+      startSession();
+      setRole(response.data.role || DEFAULT_KEYPAD_ROLE);
       
       // Instead of redirecting, show arm/disarm controls
       setAuthenticated(true);
-      await loadAlarmZones();
+      await Promise.all([loadAlarmZones(), loadDevices()]);
     } catch (err) {
       setError('An error occurred while validating the PIN');
       setPin('');
@@ -90,7 +169,7 @@ export default function PinPage() {
   };
 
   const handleKeyPress = (key: string) => {
-    if (pin.length < 6 && !loading && !authenticated) {
+    if (pin.length < 6 && !loading && !authenticated && !lockedUntil) {
       setPin(prev => prev + key);
     }
   };
@@ -108,22 +187,65 @@ export default function PinPage() {
   };
 
   const handleZoneAction = async (zone: AlarmZone, action: ArmingAction) => {
+    if (!canSetZoneState(role, action)) {
+      setError(`You do not have permission to ${action === 'DISARMED' ? 'disarm' : 'arm'} zones`);
+      return;
+    }
+
+    if (action === 'DISARMED') {
+      await applyZoneAction(zone, action);
+      return;
+    }
+    checkReadiness(zone.name, [zone], bypassByZone => startZoneAction(zone, action, bypassByZone[zone.id] || []));
+  };
+
+  // Arming away waits out the zone's exit delay
+  const startZoneAction = (zone: AlarmZone, action: ArmingAction, bypassDeviceIds: string[]) => {
+    if (action === 'ARMED_AWAY') {
+      const { exitDelaySeconds } = getZoneDelays(zone.id);
+      if (exitDelaySeconds > 0) {
+        // The user may be signed out by the time it runs out, so arm as them
+        const userToken = getKeypadUserToken();
+        armingDelay.startExitDelay({
+          label: zone.name,
+          zones: [zone],
+          seconds: exitDelaySeconds,
+          onExpire: () => applyZoneAction(zone, action, bypassDeviceIds, userToken)
+        });
+        return;
+      }
+    }
+
+    applyZoneAction(zone, action, bypassDeviceIds);
+  };
+
+  // Record which devices failed or did not confirm, and surface the first error
+  const recordArmingResults = (results: ZoneArmingResult[]) => {
+    setZoneArmingIssues(prev => {
+      const next = { ...prev };
+      results.forEach(result => {
+        next[result.zoneId] = result.deviceIssues;
+      });
+      return next;
+    });
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      setError(failed.error || 'Failed to update zone state');
+    }
+  };
+
+  const applyZoneAction = async (
+    zone: AlarmZone,
+    action: ArmingAction,
+    bypassDeviceIds: string[] = [],
+    userToken?: string | null
+  ) => {
     setProcessing(true);
+    setError('');
     try {
-      if (action === 'DISARMED') {
-        // Update the zone to disarmed state
-        await updateAlarmZone(zone.id, { armedState: 'DISARMED' });
-      } else {
-        // Get device IDs to arm
-        const deviceIdsToArm = zone.devices?.map(device => device.id) || [];
-        
-        if (deviceIdsToArm.length > 0) {
-          await armDevices(deviceIdsToArm, action);
-        }
-        
-        // Update the zone state
-        await updateAlarmZone(zone.id, { armedState: action });
-      }
+      const result = await setZoneArmState(zone, action, devices, bypassDeviceIds, userToken);
+      recordArmingResults([result]);
 
       // Reload zones to get updated status
       await loadAlarmZones();
@@ -136,20 +258,33 @@ export default function PinPage() {
   };
 
   const handleSignOut = () => {
-    localStorage.removeItem('user_id');
-    localStorage.removeItem('user_name');
+    endSession();
     setAuthenticated(false);
+    setRole(null);
     setPin('');
     setError('');
   };
 
+  const session = useSessionManager({
+    active: authenticated,
+    onExpire: handleSignOut
+  });
+
+  const armingSchedule = useArmingSchedule({ active: true, locationId: selectedLocation?.id });
+  const chime = useChime({ devices, alarmZones });
+
+  const canArm = hasPermission(role, 'zones.arm');
+  const canDisarm = hasPermission(role, 'zones.disarm');
+
   const getZoneStatusIcon = (zone: AlarmZone) => {
-    const armedDevices = zone.devices?.filter(device => device.armedState !== 'DISARMED') || [];
-    
-    if (zone.armedState === 'DISARMED' || armedDevices.length === 0) {
+    if (zone.armedState === 'TRIGGERED') {
+      return { icon: '🚨', status: 'TRIGGERED', color: 'text-red-600' };
+    } else if (zone.armedState === 'DISARMED') {
       return { icon: '🟢', status: 'DISARMED', color: 'text-green-500' };
+    } else if (zone.armedState === 'ARMED_STAY') {
+      return { icon: '🏠', status: 'ARMED STAY', color: 'text-red-500' };
     } else {
-      return { icon: '🔴', status: 'ARMED', color: 'text-red-500' };
+      return { icon: '🔴', status: 'ARMED AWAY', color: 'text-red-500' };
     }
   };
 
@@ -160,6 +295,7 @@ export default function PinPage() {
     switch (action) {
       case 'DISARMED':
         return `${baseClass} ${isActive ? 'bg-green-600 text-white' : 'bg-green-100 hover:bg-green-200 text-green-700'}`;
+      case 'ARMED_STAY':
       case 'ARMED_AWAY':
         return `${baseClass} ${isActive ? 'bg-red-600 text-white' : 'bg-red-100 hover:bg-red-200 text-red-700'}`;
       default:
@@ -167,18 +303,43 @@ export default function PinPage() {
     }
   };
 
-  const handleArmAll = async () => {
+  // Arm every zone in the given mode; only arming away waits out the exit delay
+  const handleArmAll = async (mode: ZoneArmMode) => {
+    if (!canArm) {
+      setError('You do not have permission to arm zones');
+      return;
+    }
+
+    const zonesToArm = alarmZones.filter(zone => zone.armedState !== mode);
+    checkReadiness('All Zones', zonesToArm, bypassByZone => startArmAll(mode, bypassByZone));
+  };
+
+  const startArmAll = (mode: ZoneArmMode, bypassByZone: Record<string, string[]>) => {
+    const exitDelaySeconds = mode === 'ARMED_AWAY'
+      ? Math.max(0, ...alarmZones.map(zone => getZoneDelays(zone.id).exitDelaySeconds))
+      : 0;
+    if (exitDelaySeconds > 0) {
+      // The user may be signed out by the time it runs out, so arm as them
+      const userToken = getKeypadUserToken();
+      armingDelay.startExitDelay({
+        label: 'All Zones',
+        zones: alarmZones,
+        seconds: exitDelaySeconds,
+        onExpire: () => applyArmAll(mode, bypassByZone, userToken)
+      });
+      return;
+    }
+
+    applyArmAll(mode, bypassByZone);
+  };
+
+  const applyArmAll = async (mode: ZoneArmMode, bypassByZone: Record<string, string[]> = {}, userToken?: string | null) => {
     setProcessing(true);
+    setError('');
     try {
-      for (const zone of alarmZones) {
-        if (zone.armedState !== 'ARMED_AWAY') {
-          const deviceIdsToArm = zone.devices?.map(device => device.id) || [];
-          if (deviceIdsToArm.length > 0) {
-            await armDevices(deviceIdsToArm, 'ARMED_AWAY');
-          }
-          await updateAlarmZone(zone.id, { armedState: 'ARMED_AWAY' });
-        }
-      }
+      const zonesToArm = alarmZones.filter(zone => zone.armedState !== mode);
+      const results = await Promise.all(zonesToArm.map(zone => setZoneArmState(zone, mode, devices, bypassByZone[zone.id] || [], userToken)));
+      recordArmingResults(results);
       await loadAlarmZones();
     } catch (error) {
       console.error('Failed to arm all zones:', error);
@@ -188,14 +349,56 @@ export default function PinPage() {
     }
   };
 
+  // PIN entered during the exit countdown cancels the pending arm
+  const handleArmingDelayPin = async (enteredPin: string) => {
+    const response = await validatePin(enteredPin);
+    if (response.error || !response.data.valid) {
+      return false;
+    }
+    armingDelay.cancelDelay();
+    return true;
+  };
+
+  const alarmTrigger = describeAlarmTrigger(alarmZones, devices, [], []);
+
+  const verifyAlarmPin = async (enteredPin: string) => {
+    const response = await validatePin(enteredPin);
+    if (response.data?.lockedUntil) {
+      setLockedUntil(response.data.lockedUntil);
+      return 'Too many failed attempts. Try again later.';
+    }
+    if (response.error || !response.data.valid) {
+      return 'Invalid PIN';
+    }
+    return canSetZoneState(response.data.role || DEFAULT_KEYPAD_ROLE, 'DISARMED') ? null : 'You do not have permission to disarm';
+  };
+
+  // Record why the alarm went off, then disarm the triggered zones
+  const handleAcknowledgeAlarm = async (reason: AlarmAcknowledgementReason, note: string) => {
+    if (!alarmTrigger) return null;
+    const response = await acknowledgeAlarm(reason, note, alarmTrigger);
+    if (response.error) {
+      return response.error;
+    }
+    const triggeredZones = alarmZones.filter(zone => alarmTrigger.zoneIds.includes(zone.id));
+    const results = await Promise.all(triggeredZones.map(zone => setZoneArmState(zone, 'DISARMED')));
+    recordArmingResults(results);
+    await loadAlarmZones();
+    return null;
+  };
+
   const handleDisarmAll = async () => {
+    if (!canDisarm) {
+      setError('You do not have permission to disarm zones');
+      return;
+    }
+
     setProcessing(true);
+    setError('');
     try {
-      for (const zone of alarmZones) {
-        if (zone.armedState !== 'DISARMED') {
-          await updateAlarmZone(zone.id, { armedState: 'DISARMED' });
-        }
-      }
+      const zonesToDisarm = alarmZones.filter(zone => zone.armedState !== 'DISARMED');
+      const results = await Promise.all(zonesToDisarm.map(zone => setZoneArmState(zone, 'DISARMED')));
+      recordArmingResults(results);
       await loadAlarmZones();
     } catch (error) {
       console.error('Failed to disarm all zones:', error);
@@ -207,7 +410,28 @@ export default function PinPage() {
 
   return (
     <main className="min-h-screen flex items-center justify-center bg-gray-100">
+      <ArmingDelayOverlay
+        delay={armingDelay.activeDelay}
+        highlightPinButtons={highlightPinButtons}
+        onPinSubmit={handleArmingDelayPin}
+      />
+      <AlarmTakeover trigger={alarmTrigger} onVerifyPin={verifyAlarmPin} onAcknowledge={handleAcknowledgeAlarm} />
+      <ChimeNotice notice={chime.notice} enabled={chime.settings.enabled} onToggle={chime.toggle} />
+      <LockoutScreen lockedUntil={lockedUntil} onExpired={() => setLockedUntil(null)} />
+      <ArmReadinessDialog
+        label={pendingReadiness?.label || null}
+        report={pendingReadiness?.report || null}
+        onConfirm={confirmReadiness}
+        onCancel={() => setPendingReadiness(null)}
+      />
+      <SessionTimeoutWarning
+        warning={session.warning}
+        onStaySignedIn={session.extendSession}
+        onSignOut={handleSignOut}
+      />
       <div className="max-w-md w-full space-y-8 p-8 bg-white rounded-lg shadow-lg relative">
+        <ScheduledArmBanner status={armingSchedule.status} onPostpone={armingSchedule.postpone} />
+
         {/* Loading overlay */}
         {(loading || processing) && (
           <div className="absolute inset-0 bg-white bg-opacity-90 flex items-center justify-center z-50 rounded-lg">
@@ -346,19 +570,28 @@ export default function PinPage() {
             ) : (
               <div className="space-y-4">
                 {/* Master Controls */}
-                <div className="grid grid-cols-2 gap-3 mb-6">
+                <div className="grid grid-cols-3 gap-3 mb-6">
+                  <button
+                    onClick={() => handleArmAll('ARMED_STAY')}
+                    disabled={processing || !canArm}
+                    className="py-4 px-4 bg-red-100 hover:bg-red-200 text-red-700 rounded-xl font-semibold transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <div className="text-lg">🏠</div>
+                    <div>STAY ALL</div>
+                  </button>
+
                   <button
-                    onClick={handleArmAll}
-                    disabled={processing}
+                    onClick={() => handleArmAll('ARMED_AWAY')}
+                    disabled={processing || !canArm}
                     className="py-4 px-4 bg-red-100 hover:bg-red-200 text-red-700 rounded-xl font-semibold transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <div className="text-lg">🔴</div>
-                    <div>ARM ALL</div>
+                    <div>AWAY ALL</div>
                   </button>
                   
                   <button
                     onClick={handleDisarmAll}
-                    disabled={processing}
+                    disabled={processing || !canDisarm}
                     className="py-4 px-4 bg-green-100 hover:bg-green-200 text-green-700 rounded-xl font-semibold transition-all transform active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <div className="text-lg">🟢</div>
@@ -383,8 +616,9 @@ export default function PinPage() {
                           <div>
                             <h3 className="font-semibold text-gray-900">{zone.name}</h3>
                             <p className="text-xs text-gray-600">
-                              {zone.devices?.length || 0} device{(zone.devices?.length || 0) !== 1 ? 's' : ''}
+                              {zone.deviceIds?.length || 0} device{(zone.deviceIds?.length || 0) !== 1 ? 's' : ''}
                             </p>
+                            <ZoneArmingIssues issues={zoneArmingIssues[zone.id]} compact />
                           </div>
                         </div>
                         <div className="text-right">
@@ -396,23 +630,32 @@ export default function PinPage() {
                       </div>
 
                       {/* Action Buttons */}
-                      <div className="grid grid-cols-2 gap-2">
+                      <div className="grid grid-cols-3 gap-2">
                         <button
                           onClick={() => handleZoneAction(zone, 'DISARMED')}
-                          disabled={processing}
+                          disabled={processing || !canDisarm}
                           className={getActionButtonClass('DISARMED', zone)}
                         >
                           <div className="text-xs">🟢</div>
                           <div>DISARM</div>
                         </button>
                         
+                        <button
+                          onClick={() => handleZoneAction(zone, 'ARMED_STAY')}
+                          disabled={processing || !canArm}
+                          className={getActionButtonClass('ARMED_STAY', zone)}
+                        >
+                          <div className="text-xs">🏠</div>
+                          <div>STAY</div>
+                        </button>
+
                         <button
                           onClick={() => handleZoneAction(zone, 'ARMED_AWAY')}
-                          disabled={processing}
+                          disabled={processing || !canArm}
                           className={getActionButtonClass('ARMED_AWAY', zone)}
                         >
                           <div className="text-xs">🔴</div>
-                          <div>ARM</div>
+                          <div>AWAY</div>
                         </button>
                       </div>
                     </div>
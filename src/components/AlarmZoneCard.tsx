@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { Area } from '@/lib/api';
+import { ZoneAuditLog } from './ui/ZoneAuditLog';
 
 interface AlarmZoneCardProps {
   zoneName: string;
@@ -12,6 +13,8 @@ interface AlarmZoneCardProps {
   isProcessing?: boolean;
   areaWarnings?: Record<string, string[]>;
   onShowWarningDetails?: (areaId: string) => void;
+  // Alarm zone id; shows a history button for the zone's audit log
+  zoneId?: string;
 }
 
 export default function AlarmZoneCard({ 
@@ -22,9 +25,11 @@ export default function AlarmZoneCard({
   onZoneToggle, 
   isProcessing = false,
   areaWarnings = {},
-  onShowWarningDetails 
+  onShowWarningDetails,
+  zoneId
 }: AlarmZoneCardProps) {
   const [collapsed, setCollapsed] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const armedAreas = areas.filter(area => area.armedState !== 'DISARMED');
   const allArmed = armedAreas.length === areas.length && areas.length > 0;
@@ -115,6 +120,18 @@ export default function AlarmZoneCard({
           <div className={`px-3 py-1 rounded-lg font-medium text-sm ${colors.badge}`}>
             {allArmed ? 'ARMED' : allDisarmed ? 'DISARMED' : 'PARTIAL'}
           </div>
+
+          {zoneId && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              title="Zone history"
+            >
+              <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+          )}
           
           <button
             onClick={() => setCollapsed(!collapsed)}
@@ -233,6 +250,10 @@ export default function AlarmZoneCard({
           })}
         </div>
       )}
+
+      {showHistory && zoneId && (
+        <ZoneAuditLog zoneId={zoneId} zoneName={zoneName} onClose={() => setShowHistory(false)} />
+      )}
     </div>
   );
 } 
\ No newline at end of file
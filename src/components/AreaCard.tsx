@@ -19,7 +19,7 @@ export default function AreaCard({ area, onStateChange }: AreaCardProps) {
     setError('');
 
     try {
-      const response = await updateDeviceState(area.id, newState);
+      const response = await updateDeviceState(area.id, newState, `Set ${area.name} to ${newState.toLowerCase()}`);
       if (response.error) {
         setError('Failed to update area state');
         return;
@@ -3,8 +3,11 @@ import Header from '../Header';
 import { Clock } from '../ui/Clock';
 import { ZoneStatus } from '../ui/ZoneStatus';
 import { PinEntry } from '../ui/PinEntry';
+import { PinScreenArmMode } from '../ui/ArmModeSelector';
+import { PanicButtons } from '../ui/PanicButtons';
 import { ProcessingOverlay } from '../ui/ProcessingOverlay';
 import { Area } from '@/lib/api';
+import type { ZoneArmMode } from '@/lib/zoneSettings';
 
 interface WeatherData {
   temp: number;
@@ -40,6 +43,9 @@ interface DesktopLayoutProps {
   onBackspace: () => void;
   onPressedButtonChange: (button: string | null) => void;
   onSettingsClick: () => void;
+  // Arm mode queued on the PIN screen
+  queuedArmMode?: ZoneArmMode | null;
+  onQueuedArmModeChange?: (mode: ZoneArmMode | null) => void;
   // Optionally, latest event/activity
   lastEvent?: React.ReactNode;
 }
@@ -66,6 +72,8 @@ export function DesktopLayout({
   onBackspace,
   onPressedButtonChange,
   onSettingsClick,
+  queuedArmMode = null,
+  onQueuedArmModeChange,
   lastEvent,
 }: DesktopLayoutProps) {
   return (
@@ -105,6 +113,13 @@ export function DesktopLayout({
         {/* Right column: PIN entry and keypad */}
         <div className="flex-1 flex flex-col items-center justify-center max-w-lg mx-auto md:mx-0">
                       <div className="w-full bg-white dark:bg-[#0f0f0f] rounded-2xl shadow-xl border border-gray-100 dark:border-transparent p-8">
+            {onQueuedArmModeChange && (
+              <PinScreenArmMode
+                value={queuedArmMode}
+                onChange={onQueuedArmModeChange}
+                disabled={isProcessing}
+              />
+            )}
             <PinEntry
               pin={pin}
               isProcessing={isProcessing}
@@ -117,6 +132,7 @@ export function DesktopLayout({
               onBackspace={onBackspace}
               onPressedButtonChange={onPressedButtonChange}
             />
+            <PanicButtons disabled={isProcessing} className="mt-6" />
           </div>
           <ProcessingOverlay isProcessing={isProcessing} />
         </div>
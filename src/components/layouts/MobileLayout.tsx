@@ -3,8 +3,11 @@ import Header from '../Header';
 import { Clock } from '../ui/Clock';
 import { ZoneStatus } from '../ui/ZoneStatus';
 import { PinEntry } from '../ui/PinEntry';
+import { PinScreenArmMode } from '../ui/ArmModeSelector';
+import { PanicButtons } from '../ui/PanicButtons';
 import { ProcessingOverlay } from '../ui/ProcessingOverlay';
 import { Area, Space } from '@/lib/api';
+import type { ZoneArmMode } from '@/lib/zoneSettings';
 
 interface WeatherData {
   temp: number;
@@ -40,6 +43,9 @@ interface MobileLayoutProps {
   onBackspace: () => void;
   onPressedButtonChange: (button: string | null) => void;
   onSettingsClick: () => void;
+  // Arm mode queued on the PIN screen
+  queuedArmMode?: ZoneArmMode | null;
+  onQueuedArmModeChange?: (mode: ZoneArmMode | null) => void;
 }
 
 export function MobileLayout({
@@ -64,6 +70,8 @@ export function MobileLayout({
   onBackspace,
   onPressedButtonChange,
   onSettingsClick,
+  queuedArmMode = null,
+  onQueuedArmModeChange,
 }: MobileLayoutProps) {
   return (
     <div className="w-full h-full flex flex-col relative">
@@ -92,6 +100,13 @@ export function MobileLayout({
 
       {/* PIN Entry Section - Takes remaining space */}
       <div className="flex-1 flex flex-col justify-center px-4 pb-8">
+        {onQueuedArmModeChange && (
+          <PinScreenArmMode
+            value={queuedArmMode}
+            onChange={onQueuedArmModeChange}
+            disabled={isProcessing}
+          />
+        )}
         <PinEntry
           pin={pin}
           isProcessing={isProcessing}
@@ -104,6 +119,7 @@ export function MobileLayout({
           onBackspace={onBackspace}
           onPressedButtonChange={onPressedButtonChange}
         />
+        <PanicButtons disabled={isProcessing} className="mt-6" />
       </div>
 
       {/* Processing Overlay */}
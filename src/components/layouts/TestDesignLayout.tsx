@@ -2,10 +2,13 @@ import React from 'react';
 import Header from '../Header';
 import { WeatherWidget } from '../ui/WeatherWidget';
 import { Area, Device, Space } from '@/lib/api';
+import type { ZoneArmMode } from '@/lib/zoneSettings';
 import { AlarmZone } from '@/lib/api';
 import { getWeatherStyle } from '@/lib/alarmKeypadUtils';
 import { ProcessingOverlay } from '../ui/ProcessingOverlay';
 import { PinEntry } from '../ui/PinEntry';
+import { PinScreenArmMode } from '../ui/ArmModeSelector';
+import { PanicButtons } from '../ui/PanicButtons';
 
 interface WeatherData {
   temp: number;
@@ -48,6 +51,9 @@ interface TestDesignLayoutProps {
   onBackspace: () => void;
   onPressedButtonChange: (button: string | null) => void;
   onSettingsClick: () => void;
+  // Arm mode queued on the PIN screen
+  queuedArmMode?: ZoneArmMode | null;
+  onQueuedArmModeChange?: (mode: ZoneArmMode | null) => void;
 }
 
 export function TestDesignLayout({
@@ -74,6 +80,8 @@ export function TestDesignLayout({
   onBackspace,
   onPressedButtonChange,
   onSettingsClick,
+  queuedArmMode = null,
+  onQueuedArmModeChange,
 }: TestDesignLayoutProps) {
   if (isMobile) {
     return (
@@ -161,6 +169,15 @@ export function TestDesignLayout({
         {/* PIN Entry */}
         <div className="flex-1 flex flex-col justify-center px-4 pb-8">
           <div className="max-w-xs w-full mx-auto">
+            {/* Arm Mode */}
+            {onQueuedArmModeChange && (
+              <PinScreenArmMode
+                value={queuedArmMode}
+                onChange={onQueuedArmModeChange}
+                disabled={isProcessing}
+              />
+            )}
+
             {/* PIN Display */}
             <div className="mb-8">
               <div className="flex justify-center gap-4">
@@ -243,6 +260,7 @@ export function TestDesignLayout({
                 ←
               </button>
             </div>
+            <PanicButtons disabled={isProcessing} className="mt-6" />
           </div>
         </div>
 
@@ -379,6 +397,15 @@ export function TestDesignLayout({
               )}
 
               <div className="relative">
+                {/* Arm Mode */}
+                {onQueuedArmModeChange && (
+                  <PinScreenArmMode
+                    value={queuedArmMode}
+                    onChange={onQueuedArmModeChange}
+                    disabled={isProcessing}
+                  />
+                )}
+
                 {/* PIN Display */}
                 <div className="mb-10">
                   <div className="flex justify-center gap-4">
@@ -467,6 +494,7 @@ export function TestDesignLayout({
                     ←
                   </button>
                 </div>
+                <PanicButtons disabled={isProcessing} className="mt-6" />
               </div>
             </div>
           </div>
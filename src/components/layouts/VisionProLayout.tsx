@@ -1,7 +1,10 @@
 import React from 'react';
 import Header from '../Header';
 import { WeatherWidget } from '../ui/WeatherWidget';
+import { PinScreenArmMode } from '../ui/ArmModeSelector';
+import { PanicButtons } from '../ui/PanicButtons';
 import { Area, Device, Space } from '@/lib/api';
+import type { ZoneArmMode } from '@/lib/zoneSettings';
 import { getWeatherStyle } from '@/lib/alarmKeypadUtils';
 
 interface WeatherData {
@@ -44,6 +47,9 @@ interface VisionProLayoutProps {
   onBackspace: () => void;
   onPressedButtonChange: (button: string | null) => void;
   onSettingsClick: () => void;
+  // Arm mode queued on the PIN screen
+  queuedArmMode?: ZoneArmMode | null;
+  onQueuedArmModeChange?: (mode: ZoneArmMode | null) => void;
 }
 
 export function VisionProLayout({
@@ -69,6 +75,8 @@ export function VisionProLayout({
   onBackspace,
   onPressedButtonChange,
   onSettingsClick,
+  queuedArmMode = null,
+  onQueuedArmModeChange,
 }: VisionProLayoutProps) {
   if (isMobile) {
     return (
@@ -185,6 +193,16 @@ export function VisionProLayout({
               <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-white/5 rounded-2xl"></div>
               
               <div className="relative">
+                {/* Arm Mode */}
+                {onQueuedArmModeChange && (
+                  <PinScreenArmMode
+                    value={queuedArmMode}
+                    onChange={onQueuedArmModeChange}
+                    disabled={isProcessing}
+                    variant="glass"
+                  />
+                )}
+
                 {/* PIN Display */}
                 <div className="mb-6">
                   <div className="flex justify-center gap-3">
@@ -243,6 +261,7 @@ export function VisionProLayout({
                     ←
                   </button>
                 </div>
+                <PanicButtons disabled={isProcessing} variant="glass" className="mt-6" />
               </div>
             </div>
           </div>
@@ -391,6 +410,16 @@ export function VisionProLayout({
               <div className="absolute inset-0 bg-gradient-to-br from-white/10 to-white/5 rounded-3xl"></div>
               
               <div className="relative">
+                {/* Arm Mode */}
+                {onQueuedArmModeChange && (
+                  <PinScreenArmMode
+                    value={queuedArmMode}
+                    onChange={onQueuedArmModeChange}
+                    disabled={isProcessing}
+                    variant="glass"
+                  />
+                )}
+
                 {/* PIN Display */}
                 <div className="mb-10">
                   <div className="flex justify-center gap-4">
@@ -451,6 +480,7 @@ export function VisionProLayout({
                     ←
                   </button>
                 </div>
+                <PanicButtons disabled={isProcessing} variant="glass" className="mt-6" />
               </div>
             </div>
           </div>
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { startSiren } from '@/lib/keypadSounds';
+import {
+  AlarmAcknowledgementReason,
+  AlarmTrigger,
+  ACKNOWLEDGEMENT_REASONS,
+  ACKNOWLEDGEMENT_REASON_LABELS
+} from '@/lib/alarmTrigger';
+
+interface AlarmTakeoverProps {
+  trigger: AlarmTrigger | null;
+  // Both resolve to an error message, or null on success
+  onVerifyPin: (pin: string) => Promise<string | null>;
+  // Made as the user whose PIN onVerifyPin accepted
+  onAcknowledge: (reason: AlarmAcknowledgementReason, note: string) => Promise<string | null>;
+}
+
+const formatTriggerTime = (iso: string | null) => {
+  if (!iso) return null;
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? null
+    : date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', second: '2-digit' });
+};
+
+// Full-screen alarm shown while any zone in the location is triggered. Sounds the
+// siren until muted; disarming takes a PIN and then a reason for the alarm.
+export function AlarmTakeover({ trigger, onVerifyPin, onAcknowledge }: AlarmTakeoverProps) {
+  const [isMuted, setIsMuted] = useState(false);
+  const [pin, setPin] = useState('');
+  const [isVerified, setIsVerified] = useState(false);
+  const [reason, setReason] = useState<AlarmAcknowledgementReason | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isActive = !!trigger;
+
+  // Start over each time a new alarm comes in
+  useEffect(() => {
+    if (isActive) return;
+    setIsMuted(false);
+    setPin('');
+    setIsVerified(false);
+    setReason(null);
+    setNote('');
+    setError(null);
+  }, [isActive]);
+
+  useEffect(() => {
+    if (!isActive || isMuted) return;
+    return startSiren();
+  }, [isActive, isMuted]);
+
+  if (!trigger) return null;
+
+  const handleVerify = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await onVerifyPin(pin);
+    setIsSubmitting(false);
+    if (result) {
+      setError(result);
+      setPin('');
+      return;
+    }
+    setIsVerified(true);
+    setPin('');
+  };
+
+  const handleAcknowledge = async () => {
+    if (!isVerified || !reason) return;
+    setIsSubmitting(true);
+    setError(null);
+    const result = await onAcknowledge(reason, note);
+    setIsSubmitting(false);
+    if (result) {
+      setError(result);
+    }
+  };
+
+  const triggeredAt = formatTriggerTime(trigger.triggeredAt);
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-rose-950/95 p-4 overflow-y-auto">
+      <div className="absolute inset-0 bg-rose-600/20 animate-pulse pointer-events-none" />
+
+      <div className="relative w-full max-w-lg flex flex-col items-center text-center text-white">
+        <div className="w-16 h-16 rounded-full bg-rose-500 flex items-center justify-center shadow-lg shadow-rose-500/50 mb-4">
+          <svg className="w-9 h-9" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+        </div>
+        <h1 className="text-4xl font-bold tracking-wide mb-1">ALARM</h1>
+        <p className="text-lg text-rose-100">{trigger.zoneNames.join(', ')}</p>
+        <p className="text-sm text-rose-200/80 mt-1">
+          {trigger.deviceName ? `Triggered by ${trigger.deviceName}` : 'Triggered'}
+          {triggeredAt && ` at ${triggeredAt}`}
+        </p>
+
+        {/* Snapshots come from any camera host or as data URLs, so skip the optimizer */}
+        {trigger.snapshotUrl && (
+          <Image
+            src={trigger.snapshotUrl}
+            alt={`Camera snapshot for ${trigger.zoneNames.join(', ')}`}
+            width={640}
+            height={360}
+            unoptimized
+            className="mt-4 w-full h-auto max-h-64 object-cover rounded-xl border border-rose-400/40"
+          />
+        )}
+
+        <button
+          onClick={() => setIsMuted(prev => !prev)}
+          className="mt-4 px-3 py-1.5 rounded-lg text-sm font-medium bg-white/10 hover:bg-white/20 border border-white/20 transition-colors"
+        >
+          {isMuted ? 'Unmute Siren' : 'Mute Siren'}
+        </button>
+
+        <div className="mt-6 w-full rounded-2xl bg-black/30 border border-white/10 p-4">
+          {!isVerified ? (
+            <>
+              <p className="text-sm text-rose-100 mb-3">Enter your PIN to disarm</p>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={6}
+                  autoComplete="off"
+                  autoFocus
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && pin.length === 6) handleVerify();
+                  }}
+                  placeholder="PIN"
+                  className="flex-1 px-3 py-3 bg-white/10 border border-white/20 rounded-xl text-lg text-white text-center tracking-widest placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/60"
+                />
+                <button
+                  onClick={handleVerify}
+                  disabled={pin.length !== 6 || isSubmitting}
+                  className="px-5 py-3 rounded-xl font-medium bg-white text-rose-700 hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? 'Checking...' : 'Disarm'}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-rose-100 mb-3">What caused this alarm?</p>
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                {ACKNOWLEDGEMENT_REASONS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setReason(option)}
+                    className={`px-3 py-3 rounded-xl text-sm font-medium border transition-colors ${
+                      reason === option
+                        ? 'bg-white text-rose-700 border-white'
+                        : 'bg-white/10 text-white border-white/20 hover:bg-white/20'
+                    }`}
+                  >
+                    {ACKNOWLEDGEMENT_REASON_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                placeholder="Note (optional)"
+                className="w-full mb-3 px-3 py-2 bg-white/10 border border-white/20 rounded-xl text-sm text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/60"
+              />
+              <button
+                onClick={handleAcknowledge}
+                disabled={!reason || isSubmitting}
+                className="w-full px-5 py-3 rounded-xl font-medium bg-white text-rose-700 hover:bg-rose-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Disarming...' : 'Acknowledge & Disarm'}
+              </button>
+            </>
+          )}
+          {error && <p className="mt-2 text-sm text-rose-200">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React from 'react';
+import type { ZoneArmMode } from '@/lib/zoneSettings';
+
+interface ArmModeSelectorProps {
+  value: ZoneArmMode | null;
+  onChange: (mode: ZoneArmMode | null) => void;
+  // Tapping the selected mode again clears it (used to queue an arm on the PIN screen)
+  allowDeselect?: boolean;
+  disabled?: boolean;
+  size?: 'sm' | 'md';
+  variant?: 'default' | 'glass';
+  labelPrefix?: string;
+}
+
+const MODES: { mode: ZoneArmMode; label: string }[] = [
+  { mode: 'ARMED_STAY', label: 'Stay' },
+  { mode: 'ARMED_AWAY', label: 'Away' }
+];
+
+export const armModeLabel = (mode: string | null | undefined) =>
+  mode === 'ARMED_STAY' ? 'Stay' : mode === 'ARMED_AWAY' ? 'Away' : '';
+
+// Two-way Stay / Away picker shared by the zone cards, toggle-all and keypad layouts
+export function ArmModeSelector({
+  value,
+  onChange,
+  allowDeselect = false,
+  disabled = false,
+  size = 'md',
+  variant = 'default',
+  labelPrefix = '',
+}: ArmModeSelectorProps) {
+  const isGlass = variant === 'glass';
+
+  return (
+    <div
+      role="radiogroup"
+      className={`inline-flex rounded-lg p-0.5 ${
+        isGlass ? 'backdrop-blur-2xl bg-white/10 border border-white/20' : 'bg-gray-100 dark:bg-[#161c25] border border-gray-200 dark:border-gray-800'
+      } ${disabled ? 'opacity-50' : ''}`}
+    >
+      {MODES.map(({ mode, label }) => {
+        const selected = value === mode;
+        return (
+          <button
+            key={mode}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            disabled={disabled}
+            onClick={() => onChange(selected && allowDeselect ? null : mode)}
+            className={`rounded-md font-medium transition-all duration-200 disabled:cursor-not-allowed ${
+              size === 'sm' ? 'px-2 py-0.5 text-[11px]' : 'px-3 py-1.5 text-sm'
+            } ${
+              selected
+                ? isGlass
+                  ? 'bg-white/25 text-white shadow-lg'
+                  : 'bg-rose-500 text-white shadow'
+                : isGlass
+                  ? 'text-white/70 hover:text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            {labelPrefix}{label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface PinScreenArmModeProps {
+  value: ZoneArmMode | null;
+  onChange: (mode: ZoneArmMode | null) => void;
+  disabled?: boolean;
+  variant?: 'default' | 'glass';
+}
+
+// Arm mode picker for the PIN screen: the choice is applied to every zone once the PIN is accepted
+export function PinScreenArmMode({ value, onChange, disabled = false, variant = 'default' }: PinScreenArmModeProps) {
+  return (
+    <div className="flex flex-col items-center gap-1 mb-4">
+      <ArmModeSelector
+        value={value}
+        onChange={onChange}
+        allowDeselect
+        disabled={disabled}
+        variant={variant}
+        labelPrefix="Arm "
+      />
+      <p className={`text-xs ${variant === 'glass' ? 'text-white/60' : 'text-gray-500 dark:text-gray-400'}`}>
+        {value ? `Enter PIN to arm ${armModeLabel(value).toLowerCase()}` : 'Pick a mode to arm when you sign in'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Dialog } from '@headlessui/react';
+import {
+  ReadinessBypass,
+  ReadinessFinding,
+  ReadinessReport,
+  ReadinessSeverity,
+  verdictWithBypasses
+} from '@/lib/readiness';
+import { BYPASS_LIMITATION_NOTICE } from '@/lib/zoneBypass';
+
+interface ArmReadinessDialogProps {
+  label: string | null;
+  report: ReadinessReport | null;
+  onConfirm: (bypassed: ReadinessBypass[]) => void;
+  onCancel: () => void;
+}
+
+interface DeviceFindings extends ReadinessBypass {
+  key: string;
+  deviceName: string;
+  zoneName: string;
+  blocking: boolean;
+  findings: ReadinessFinding[];
+}
+
+const SEVERITY_STYLES: Record<ReadinessSeverity, string> = {
+  critical: 'bg-rose-100 text-rose-700 dark:bg-rose-500/15 dark:text-rose-400',
+  warning: 'bg-amber-100 text-amber-700 dark:bg-amber-500/15 dark:text-amber-400',
+  info: 'bg-gray-100 text-gray-600 dark:bg-[#161c25] dark:text-gray-400'
+};
+
+// One row per device, keeping the report's blocking-first order
+const groupByDevice = (findings: ReadinessFinding[]): DeviceFindings[] => {
+  const groups = new Map<string, DeviceFindings>();
+  findings.forEach(finding => {
+    const key = `${finding.zoneId}:${finding.deviceId}`;
+    const group = groups.get(key) || {
+      key,
+      zoneId: finding.zoneId,
+      deviceId: finding.deviceId,
+      deviceName: finding.deviceName,
+      zoneName: finding.zoneName,
+      blocking: false,
+      findings: []
+    };
+    group.findings.push(finding);
+    group.blocking = group.blocking || finding.rule === 'block';
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
+
+// Pre-arm readiness report, shown before arming whenever a zone has findings.
+// Blocked devices must be bypassed before the zone can arm; the rest only warn.
+// Bypasses last until the next disarm and don't stop a device triggering the alarm.
+export function ArmReadinessDialog({ label, report, onConfirm, onCancel }: ArmReadinessDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Start with nothing bypassed each time the dialog opens
+  useEffect(() => {
+    setSelected(new Set());
+  }, [label, report]);
+
+  if (!label || !report) return null;
+
+  const devices = groupByDevice(report.findings);
+  const showZoneName = new Set(devices.map(d => d.zoneId)).size > 1;
+  const bypassed = devices.filter(d => selected.has(d.key)).map(({ zoneId, deviceId }) => ({ zoneId, deviceId }));
+  const isBlocked = verdictWithBypasses(report, bypassed) === 'blocked';
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={true} onClose={onCancel} className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-black/40" aria-hidden="true" />
+      <Dialog.Panel className="relative bg-white dark:bg-[#0f0f0f] rounded-xl shadow-xl max-w-md w-full mx-4 p-6 z-10 max-h-[85vh] overflow-y-auto border border-gray-200 dark:border-gray-800">
+        <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          Arm {label}?
+        </Dialog.Title>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          {report.verdict === 'blocked'
+            ? 'Some devices must be fixed or bypassed before arming. Bypasses last until the next disarm.'
+            : 'These devices have problems. Select any you want to bypass until the next disarm.'}
+        </p>
+        <p className="text-xs text-amber-700 dark:text-amber-400 mb-4">
+          {BYPASS_LIMITATION_NOTICE}
+        </p>
+
+        <ul className="space-y-2 mb-6">
+          {devices.map(device => {
+            const checked = selected.has(device.key);
+            return (
+              <li key={device.key}>
+                <label
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    checked
+                      ? 'border-amber-400 bg-amber-50 dark:bg-amber-500/10'
+                      : device.blocking
+                        ? 'border-rose-300 dark:border-rose-500/40 bg-rose-50 dark:bg-rose-500/5'
+                        : 'border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-[#161c25]'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => toggle(device.key)}
+                    className="mt-1 h-4 w-4 accent-amber-500"
+                  />
+                  <span className="flex flex-col gap-1">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {device.deviceName}
+                      {showZoneName && (
+                        <span className="font-normal text-gray-500 dark:text-gray-400"> · {device.zoneName}</span>
+                      )}
+                    </span>
+                    <span className="flex flex-wrap gap-1">
+                      {device.findings.map(finding => (
+                        <span
+                          key={finding.kind}
+                          className={`px-1.5 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[finding.severity]}`}
+                        >
+                          {finding.message}
+                          {finding.rule === 'block' && ' · blocks arming'}
+                        </span>
+                      ))}
+                    </span>
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-gray-100 dark:bg-[#161c25] hover:bg-gray-200 dark:hover:bg-[#1f2937] text-gray-700 dark:text-gray-300 rounded-xl font-medium border border-gray-300 dark:border-gray-800 transition-all duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(bypassed)}
+            disabled={isBlocked}
+            className="flex-1 px-4 py-3 bg-rose-500 hover:bg-rose-600 text-white rounded-xl font-medium shadow-lg shadow-rose-500/30 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isBlocked ? 'Bypass to Arm' : selected.size > 0 ? `Bypass ${selected.size} & Arm` : 'Arm Anyway'}
+          </button>
+        </div>
+      </Dialog.Panel>
+    </Dialog>
+  );
+}
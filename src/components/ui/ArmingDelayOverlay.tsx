@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import type { ArmingDelay } from '@/hooks/useArmingDelay';
+import { PinEntry } from './PinEntry';
+
+interface ArmingDelayOverlayProps {
+  delay: ArmingDelay | null;
+  highlightPinButtons: boolean;
+  // Resolves true when the PIN was accepted
+  onPinSubmit: (pin: string) => Promise<boolean>;
+}
+
+export function ArmingDelayOverlay({
+  delay,
+  highlightPinButtons,
+  onPinSubmit,
+}: ArmingDelayOverlayProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [pressedButton, setPressedButton] = useState<string | null>(null);
+
+  // Reset the PIN pad whenever a new countdown starts
+  useEffect(() => {
+    setPin('');
+    setError('');
+  }, [delay?.kind, delay?.label]);
+
+  const submitPin = async (entered: string) => {
+    setIsProcessing(true);
+    setError('');
+    try {
+      const accepted = await onPinSubmit(entered);
+      if (!accepted) {
+        setError('Invalid PIN');
+      }
+    } finally {
+      setPin('');
+      setIsProcessing(false);
+    }
+  };
+
+  // Submit automatically once the PIN is complete
+  const handlePinKeyPress = (digit: string) => {
+    if (isProcessing || pin.length >= 6) return;
+    const next = pin + digit;
+    setPin(next);
+    if (next.length === 6) {
+      submitPin(next);
+    }
+  };
+
+  if (!delay) return null;
+
+  const isEntry = delay.kind === 'entry';
+  const progress = delay.totalSeconds > 0 ? delay.secondsRemaining / delay.totalSeconds : 0;
+  const urgent = delay.secondsRemaining <= 10;
+
+  return (
+    <div
+      className={`fixed inset-0 z-[60] flex items-center justify-center p-4 transition-colors duration-500 ${
+        isEntry
+          ? urgent ? 'bg-rose-700' : 'bg-rose-600'
+          : urgent ? 'bg-amber-600' : 'bg-[#0f0f0f]'
+      }`}
+    >
+      <div className="w-full max-w-sm text-center">
+        <p className="text-sm font-semibold uppercase tracking-widest text-white/80 mb-1">
+          {isEntry ? 'Entry Delay' : 'Exit Delay'}
+        </p>
+        <h2 className="text-2xl font-bold text-white mb-1">{delay.label}</h2>
+        <p className="text-sm text-white/80 mb-6">
+          {isEntry
+            ? 'Enter your PIN to disarm before the alarm sounds'
+            : 'Arming when the countdown ends. Enter your PIN to cancel'}
+        </p>
+
+        {/* Countdown */}
+        <div className={`text-7xl font-bold text-white tabular-nums mb-3 ${urgent ? 'animate-pulse' : ''}`}>
+          {delay.secondsRemaining}
+        </div>
+        <div className="h-2 w-full bg-white/20 rounded-full overflow-hidden mb-8">
+          <div
+            className="h-full bg-white transition-all duration-1000 ease-linear"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+
+        <div className="bg-white dark:bg-[#0f0f0f] rounded-2xl p-4 shadow-xl">
+          <PinEntry
+            pin={pin}
+            isProcessing={isProcessing}
+            error={error}
+            useDesign2={false}
+            highlightPinButtons={highlightPinButtons}
+            pressedButton={pressedButton}
+            onPinKeyPress={handlePinKeyPress}
+            onClear={() => setPin('')}
+            onBackspace={() => setPin(prev => prev.slice(0, -1))}
+            onPressedButtonChange={setPressedButton}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
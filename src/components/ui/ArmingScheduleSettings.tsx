@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { AlarmZone, getArmingScheduleStatus, saveArmingSchedule } from '@/lib/api';
+import {
+  ArmingSchedule,
+  ArmingScheduleException,
+  ArmingScheduleWindow,
+  DEFAULT_WARNING_MINUTES,
+  validateArmingSchedule
+} from '@/lib/armingSchedule';
+
+interface ArmingScheduleSettingsProps {
+  alarmZones: AlarmZone[];
+}
+
+type ScheduleDraft = Omit<ArmingSchedule, 'id' | 'organizationId'>;
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WARNING_OPTIONS = [0, 2, 5, 10, 15, 30];
+
+const EMPTY_SCHEDULE: ScheduleDraft = {
+  name: '',
+  enabled: true,
+  windows: [{ days: [1, 2, 3, 4, 5], armAt: '22:00', disarmAt: '06:00' }],
+  exceptions: [],
+  zoneIds: [],
+  warningMinutes: DEFAULT_WARNING_MINUTES
+};
+
+export function ArmingScheduleSettings({ alarmZones }: ArmingScheduleSettingsProps) {
+  const [scheduleId, setScheduleId] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState('UTC');
+  const [draft, setDraft] = useState<ScheduleDraft>(EMPTY_SCHEDULE);
+  const [pin, setPin] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const result = await getArmingScheduleStatus();
+      setIsLoading(false);
+      if (result.error) {
+        setMessage({ type: 'error', text: result.error });
+        return;
+      }
+      setScheduleId(result.data?.scheduleId || null);
+      setTimeZone(result.data?.timeZone || 'UTC');
+      const schedule = result.data?.schedule;
+      if (schedule) {
+        setDraft({
+          name: schedule.name,
+          enabled: schedule.enabled,
+          windows: schedule.windows,
+          exceptions: schedule.exceptions,
+          zoneIds: schedule.zoneIds,
+          warningMinutes: schedule.warningMinutes
+        });
+      }
+    };
+    load();
+  }, []);
+
+  const updateWindow = (index: number, changes: Partial<ArmingScheduleWindow>) => {
+    setDraft(prev => ({
+      ...prev,
+      windows: prev.windows.map((window, i) => (i === index ? { ...window, ...changes } : window))
+    }));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = draft.windows[index].days;
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const updateException = (index: number, changes: Partial<ArmingScheduleException>) => {
+    setDraft(prev => ({
+      ...prev,
+      exceptions: prev.exceptions.map((exception, i) => (i === index ? { ...exception, ...changes } : exception))
+    }));
+  };
+
+  const toggleZone = (zoneId: string) => {
+    setDraft(prev => ({
+      ...prev,
+      zoneIds: prev.zoneIds.includes(zoneId) ? prev.zoneIds.filter(id => id !== zoneId) : [...prev.zoneIds, zoneId]
+    }));
+  };
+
+  const handleSave = async () => {
+    const validationError = validateArmingSchedule(draft);
+    if (validationError) {
+      setMessage({ type: 'error', text: validationError });
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage(null);
+    const result = await saveArmingSchedule(pin, draft);
+    setIsSaving(false);
+    setPin('');
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setMessage({ type: 'success', text: 'Arming schedule saved' });
+  };
+
+  const inputClass = 'px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading schedule...</p>;
+  }
+
+  if (!scheduleId) {
+    return (
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        This location has no active arming schedule in Fusion. Assign one to the location there first.
+        {message && <span className="block mt-1 text-rose-500">{message.text}</span>}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Zones arm and disarm automatically at these times ({timeZone}). A disarm time at or before the arm time disarms the next morning. During the warning, anyone who can disarm can postpone the arm from the keypad.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Schedule name"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+            className="accent-[#22c55f]"
+          />
+          Enabled
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+          Warning
+          <select
+            value={draft.warningMinutes}
+            onChange={(e) => setDraft(prev => ({ ...prev, warningMinutes: Number(e.target.value) }))}
+            className={inputClass}
+          >
+            {WARNING_OPTIONS.map(option => (
+              <option key={option} value={option}>{option === 0 ? 'None' : `${option} min`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Weekly windows */}
+      <div className="space-y-2">
+        {draft.windows.map((window, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <div className="flex gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(index, day)}
+                  className={`w-7 h-7 rounded text-xs font-medium transition-colors ${
+                    window.days.includes(day)
+                      ? 'bg-[#22c55f] text-white'
+                      : 'bg-gray-100 dark:bg-[#161c25] text-gray-600 dark:text-gray-400'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+              Arm
+              <input type="time" value={window.armAt} onChange={(e) => updateWindow(index, { armAt: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+              Disarm
+              <input
+                type="time"
+                value={window.disarmAt || ''}
+                onChange={(e) => updateWindow(index, { disarmAt: e.target.value || null })}
+                className={inputClass}
+              />
+            </label>
+            <button
+              onClick={() => setDraft(prev => ({ ...prev, windows: prev.windows.filter((_, i) => i !== index) }))}
+              className="text-xs text-rose-500 hover:text-rose-600"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft(prev => ({ ...prev, windows: [...prev.windows, { days: [], armAt: '22:00', disarmAt: '06:00' }] }))}
+          className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+        >
+          + Add times
+        </button>
+      </div>
+
+      {/* Holiday exceptions */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">Holidays</p>
+        {draft.exceptions.map((exception, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input type="date" value={exception.date} onChange={(e) => updateException(index, { date: e.target.value })} className={inputClass} />
+            <input
+              type="text"
+              value={exception.label || ''}
+              onChange={(e) => updateException(index, { label: e.target.value })}
+              placeholder="Label"
+              className={`${inputClass} w-32`}
+            />
+            <select
+              value={exception.skip}
+              onChange={(e) => updateException(index, { skip: e.target.value as ArmingScheduleException['skip'] })}
+              className={inputClass}
+            >
+              <option value="disarm">Stay armed</option>
+              <option value="arm">Don&apos;t arm</option>
+              <option value="both">Skip both</option>
+            </select>
+            <button
+              onClick={() => setDraft(prev => ({ ...prev, exceptions: prev.exceptions.filter((_, i) => i !== index) }))}
+              className="text-xs text-rose-500 hover:text-rose-600"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft(prev => ({ ...prev, exceptions: [...prev.exceptions, { date: '', skip: 'disarm' }] }))}
+          className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+        >
+          + Add holiday
+        </button>
+      </div>
+
+      {/* Zones */}
+      {alarmZones.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            Zones <span className="text-xs font-normal text-gray-500 dark:text-gray-400">(none selected = all zones)</span>
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {alarmZones.map(zone => (
+              <label key={zone.id} className="flex items-center gap-1 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={draft.zoneIds.includes(zone.id)}
+                  onChange={() => toggleZone(zone.id)}
+                  className="accent-[#22c55f]"
+                />
+                {zone.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="password"
+          inputMode="numeric"
+          maxLength={6}
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          placeholder="Your PIN"
+          className="flex-1 px-3 py-2 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded-md text-sm text-gray-900 dark:text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+        />
+        <button
+          onClick={handleSave}
+          disabled={pin.length !== 6 || isSaving}
+          className="px-4 py-2 rounded-md text-sm font-medium bg-[#22c55f] text-white hover:bg-[#16a34a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Schedule'}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-rose-500' : 'text-[#22c55f]'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import { Dialog } from '@headlessui/react';
+import { AlarmZone, Location } from '@/lib/api';
+import { CascadeAction } from '@/lib/locationTree';
+
+// Arming or disarming a location and everything below it, waiting for confirmation
+export interface CascadePlan {
+  location: Location;
+  action: CascadeAction;
+  zones: AlarmZone[];
+  // Zones that will be left alone, with the reason
+  skipped: Record<string, string>;
+}
+
+interface CascadeArmDialogProps {
+  plan: CascadePlan | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function CascadeArmDialog({ plan, onConfirm, onCancel }: CascadeArmDialogProps) {
+  if (!plan) return null;
+
+  const verb = plan.action === 'arm' ? 'Arm' : 'Disarm';
+  const affected = plan.zones.filter(zone => !plan.skipped[zone.id]).length;
+  const groups = plan.zones.reduce<{ locationName: string; zones: AlarmZone[] }[]>((list, zone) => {
+    const group = list.find(g => g.locationName === zone.locationName);
+    if (group) {
+      group.zones.push(zone);
+    } else {
+      list.push({ locationName: zone.locationName, zones: [zone] });
+    }
+    return list;
+  }, []);
+
+  return (
+    <Dialog open={true} onClose={onCancel} className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="fixed inset-0 bg-black/40" aria-hidden="true" />
+      <Dialog.Panel className="relative bg-white dark:bg-[#0f0f0f] rounded-xl shadow-xl max-w-md w-full mx-4 p-6 z-10 max-h-[85vh] overflow-y-auto border border-gray-200 dark:border-gray-800">
+        <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+          {verb} {plan.location.name}?
+        </Dialog.Title>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {affected} zone{affected !== 1 ? 's' : ''} here and in the locations below will be {plan.action === 'arm' ? 'armed' : 'disarmed'}.
+        </p>
+
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.locationName}>
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{group.locationName}</p>
+              <ul className="space-y-1">
+                {group.zones.map(zone => (
+                  <li key={zone.id} className="flex items-center justify-between gap-3 text-sm">
+                    <span className={plan.skipped[zone.id] ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-900 dark:text-white'}>
+                      {zone.name}
+                    </span>
+                    {plan.skipped[zone.id] && (
+                      <span className="text-xs text-amber-600 dark:text-amber-400 text-right">{plan.skipped[zone.id]}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-100 dark:bg-[#161c25] text-gray-900 dark:text-white rounded-lg text-sm font-medium hover:bg-gray-200 dark:hover:bg-gray-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={affected === 0}
+            className={`px-4 py-2 text-white rounded-lg text-sm font-medium disabled:opacity-50 ${
+              plan.action === 'arm' ? 'bg-red-600 hover:bg-red-700' : 'bg-[#22c55f] hover:bg-[#16a34a]'
+            }`}
+          >
+            {verb} {affected} zone{affected !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </Dialog.Panel>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Space } from '@/lib/api';
+import { ChimeSettings, ChimeSound, CHIME_SOUNDS, CHIME_SOUND_LABELS } from '@/lib/chime';
+import { playChime } from '@/lib/keypadSounds';
+
+interface ChimeModeSettingsProps {
+  settings: ChimeSettings;
+  spaces: Space[];
+  onChange: (changes: Partial<ChimeSettings>) => void;
+}
+
+export function ChimeModeSettings({ settings, spaces, onChange }: ChimeModeSettingsProps) {
+  const toggleSpace = (spaceId: string) => {
+    onChange({
+      spaceIds: settings.spaceIds.includes(spaceId)
+        ? settings.spaceIds.filter(id => id !== spaceId)
+        : [...settings.spaceIds, spaceId]
+    });
+  };
+
+  const selectClass = 'px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        This keypad chimes and shows which door opened when a door or window sensor opens while its zone is disarmed.
+      </p>
+
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-sm text-gray-900 dark:text-white">Chime mode</span>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="accent-[#22c55f]"
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-gray-900 dark:text-white">Sound</span>
+        <div className="flex items-center gap-2">
+          <select
+            value={settings.sound}
+            onChange={(e) => onChange({ sound: e.target.value as ChimeSound })}
+            className={selectClass}
+          >
+            {CHIME_SOUNDS.map(sound => (
+              <option key={sound} value={sound}>{CHIME_SOUND_LABELS[sound]}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => playChime(settings.sound)}
+            className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+          >
+            Test
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+          <input
+            type="checkbox"
+            checked={settings.quietHours.enabled}
+            onChange={(e) => onChange({ quietHours: { ...settings.quietHours, enabled: e.target.checked } })}
+            className="accent-[#22c55f]"
+          />
+          Quiet hours
+        </label>
+        <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="time"
+            value={settings.quietHours.start}
+            disabled={!settings.quietHours.enabled}
+            onChange={(e) => onChange({ quietHours: { ...settings.quietHours, start: e.target.value } })}
+            className={`${selectClass} disabled:opacity-50`}
+          />
+          to
+          <input
+            type="time"
+            value={settings.quietHours.end}
+            disabled={!settings.quietHours.enabled}
+            onChange={(e) => onChange({ quietHours: { ...settings.quietHours, end: e.target.value } })}
+            className={`${selectClass} disabled:opacity-50`}
+          />
+        </div>
+      </div>
+
+      {spaces.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">
+            Spaces <span className="text-xs font-normal text-gray-500 dark:text-gray-400">(none selected = all spaces)</span>
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {spaces.map(space => (
+              <label key={space.id} className="flex items-center gap-1 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={settings.spaceIds.includes(space.id)}
+                  onChange={() => toggleSpace(space.id)}
+                  className="accent-[#22c55f]"
+                />
+                {space.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
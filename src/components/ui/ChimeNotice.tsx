@@ -0,0 +1,37 @@
+import React from 'react';
+import type { ChimeNotice as ChimeNoticeValue } from '@/hooks/useChime';
+
+interface ChimeNoticeProps {
+  notice: ChimeNoticeValue | null;
+  enabled: boolean;
+  onToggle: () => void;
+}
+
+// Chime mode quick toggle, with a brief notice of which door just opened
+export function ChimeNotice({ notice, enabled, onToggle }: ChimeNoticeProps) {
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2 pointer-events-none">
+      {notice && (
+        <div className="px-4 py-2 rounded-xl bg-white dark:bg-[#0f0f0f] border border-[#22c55f]/40 shadow-lg text-sm text-gray-900 dark:text-white">
+          <span className="font-semibold">{notice.deviceName}</span> opened
+          {notice.spaceName && <span className="text-gray-500 dark:text-gray-400"> · {notice.spaceName}</span>}
+        </div>
+      )}
+      <button
+        onClick={onToggle}
+        aria-pressed={enabled}
+        title={enabled ? 'Chime on' : 'Chime off'}
+        className={`pointer-events-auto flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+          enabled
+            ? 'bg-[#22c55f]/10 border-[#22c55f] text-[#22c55f]'
+            : 'bg-gray-100 dark:bg-[#161c25] border-gray-300 dark:border-gray-800 text-gray-500 dark:text-gray-400'
+        }`}
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        Chime {enabled ? 'on' : 'off'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { setDuressPin, removeDuressPin } from '@/lib/api';
+
+export function DuressPinSettings() {
+  const [currentPin, setCurrentPin] = useState('');
+  const [duressPin, setDuressPinValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    const result = await setDuressPin(currentPin, duressPin);
+    setIsSaving(false);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setCurrentPin('');
+    setDuressPinValue('');
+    setMessage({ type: 'success', text: 'Duress PIN saved' });
+  };
+
+  const handleRemove = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    const result = await removeDuressPin(currentPin);
+    setIsSaving(false);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setCurrentPin('');
+    setDuressPinValue('');
+    setMessage({ type: 'success', text: 'Duress PIN removed' });
+  };
+
+  const pinInputClass = 'w-full px-3 py-2 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded-md text-sm text-gray-900 dark:text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+  const isCurrentPinValid = /^\d{6}$/.test(currentPin);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Entering your duress PIN disarms the keypad normally while silently alerting responders. Your current PIN is required to change it.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="password"
+          inputMode="numeric"
+          maxLength={6}
+          autoComplete="off"
+          value={currentPin}
+          onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ''))}
+          placeholder="Current PIN"
+          className={pinInputClass}
+        />
+        <input
+          type="password"
+          inputMode="numeric"
+          maxLength={6}
+          autoComplete="off"
+          value={duressPin}
+          onChange={(e) => setDuressPinValue(e.target.value.replace(/\D/g, ''))}
+          placeholder="New duress PIN"
+          className={pinInputClass}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !isCurrentPinValid || !/^\d{6}$/.test(duressPin)}
+          className="px-4 py-2 bg-[#22c55f]/10 text-[#22c55f] border border-[#22c55f] rounded-md text-sm hover:bg-[#22c55f]/20 transition-all font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Duress PIN
+        </button>
+        <button
+          onClick={handleRemove}
+          disabled={isSaving || !isCurrentPinValid}
+          className="px-4 py-2 text-gray-600 dark:text-gray-400 border border-gray-300 dark:border-gray-800 rounded-md text-sm hover:border-gray-400 dark:hover:border-gray-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Remove
+        </button>
+        {message && (
+          <span className={`text-xs ${message.type === 'error' ? 'text-rose-500' : 'text-[#22c55f]'}`}>
+            {message.text}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React from 'react';
+import { AlarmZone } from '@/lib/api';
+import { LocationOverview, LocationOverviewStatus, LOCATION_STATUS_LABELS } from '@/lib/locationOverview';
+import { getZoneDefaultArmMode } from '@/lib/zoneSettings';
+
+type ZoneAction = 'DISARMED' | 'ARMED_AWAY' | 'ARMED_STAY';
+
+interface LocationOverviewCardProps {
+  overview: LocationOverview;
+  // Zone controls and "Open" are only offered once someone has signed in
+  signedIn: boolean;
+  busyZoneId: string | null;
+  onOpen: () => void;
+  onZoneAction: (zone: AlarmZone, action: ZoneAction) => void;
+}
+
+export const LOCATION_STATUS_STYLES: Record<LocationOverviewStatus, string> = {
+  triggered: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300',
+  armed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  partial: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  disarmed: 'bg-[#22c55f]/10 text-[#22c55f]',
+  no_zones: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+};
+
+const ZONE_STATE_LABELS: Record<AlarmZone['armedState'], string> = {
+  DISARMED: 'Disarmed',
+  ARMED_AWAY: 'Armed Away',
+  ARMED_STAY: 'Armed Stay',
+  TRIGGERED: 'Alarm'
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export function LocationOverviewCard({ overview, signedIn, busyZoneId, onOpen, onZoneAction }: LocationOverviewCardProps) {
+  const { location, zones, status, triggeredZones, deviceCount, offlineDevices, latestEvents } = overview;
+
+  return (
+    <div className={`bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border ${status === 'triggered' ? 'border-rose-500' : 'border-gray-200 dark:border-gray-800'}`}>
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{location.name}</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {deviceCount} device{deviceCount !== 1 ? 's' : ''}
+            {offlineDevices.length > 0 && (
+              <span
+                className="ml-2 text-amber-600 dark:text-amber-400"
+                title={offlineDevices.map(device => device.name).join(', ')}
+              >
+                {offlineDevices.length} offline
+              </span>
+            )}
+          </p>
+        </div>
+        <span className="flex items-center gap-2 flex-shrink-0">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LOCATION_STATUS_STYLES[status]}`}>
+            {LOCATION_STATUS_LABELS[status]}
+          </span>
+          {signedIn && (
+            <button onClick={onOpen} className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]">
+              Open
+            </button>
+          )}
+        </span>
+      </div>
+
+      {triggeredZones.length > 0 && (
+        <p className="mb-3 text-sm font-medium text-rose-600 dark:text-rose-400">
+          Alarm in {triggeredZones.map(zone => zone.name).join(', ')}
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {zones.map(zone => {
+          const isArmed = zone.armedState !== 'DISARMED';
+          const armMode = getZoneDefaultArmMode(zone.id);
+          return (
+            <li key={zone.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: zone.color || '#22c55f' }} />
+                <span className="text-gray-900 dark:text-white truncate">{zone.name}</span>
+                <span className={`text-xs flex-shrink-0 ${isArmed ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {ZONE_STATE_LABELS[zone.armedState]}
+                </span>
+              </span>
+              {signedIn && (
+                <button
+                  onClick={() => onZoneAction(zone, isArmed ? 'DISARMED' : armMode)}
+                  disabled={busyZoneId !== null}
+                  className={`px-3 py-1 rounded text-xs font-medium flex-shrink-0 disabled:opacity-50 ${
+                    isArmed
+                      ? 'bg-gray-100 dark:bg-[#161c25] text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-800'
+                      : 'bg-[#22c55f] hover:bg-[#16a34a] text-white'
+                  }`}
+                >
+                  {busyZoneId === zone.id ? '...' : isArmed ? 'Disarm' : armMode === 'ARMED_STAY' ? 'Arm Stay' : 'Arm Away'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {latestEvents.length > 0 && (
+        <ul className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-800 space-y-1">
+          {latestEvents.map(event => (
+            <li key={event.id} className="flex items-center justify-between gap-3 text-xs text-gray-600 dark:text-gray-400">
+              <span className="truncate">{event.deviceName} · {event.type}</span>
+              <span className="flex-shrink-0">{formatTime(event.timestamp)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
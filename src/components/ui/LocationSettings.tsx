@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Location, LocationInput } from '@/lib/api';
+import { optimizedGetLocations, optimizedSaveLocation, optimizedDeleteLocation } from '@/lib/api-optimized';
+import { flattenLocationTree, getValidParents, searchLocationTree } from '@/lib/locationTree';
+
+interface LocationSettingsProps {
+  selectedLocationId: string | null;
+  // Called after a location is saved, so the keypad can pick up changes to its own
+  onLocationSaved: (location: Location) => void;
+}
+
+interface LocationForm {
+  id: string | null;
+  name: string;
+  parentId: string;
+  timeZone: string;
+  addressStreet: string;
+  addressCity: string;
+  addressState: string;
+  addressPostalCode: string;
+  notes: string;
+}
+
+const toForm = (location: Location | null): LocationForm => ({
+  id: location?.id ?? null,
+  name: location?.name ?? '',
+  parentId: location?.parentId ?? '',
+  timeZone: location?.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+  addressStreet: location?.addressStreet ?? '',
+  addressCity: location?.addressCity ?? '',
+  addressState: location?.addressState ?? '',
+  addressPostalCode: location?.addressPostalCode ?? '',
+  notes: location?.notes ?? ''
+});
+
+const REQUIRED_FIELDS: { key: keyof LocationForm; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'timeZone', label: 'Time zone' },
+  { key: 'addressStreet', label: 'Street' },
+  { key: 'addressCity', label: 'City' },
+  { key: 'addressState', label: 'State' },
+  { key: 'addressPostalCode', label: 'Postal code' }
+];
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+export function LocationSettings({ selectedLocationId, onLocationSaved }: LocationSettingsProps) {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [form, setForm] = useState<LocationForm | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [query, setQuery] = useState('');
+
+  const loadLocations = async () => {
+    const result = await optimizedGetLocations();
+    setIsLoading(false);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setLocations(result.data);
+  };
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const tree = useMemo(() => flattenLocationTree(searchLocationTree(locations, query)), [locations, query]);
+  const parents = useMemo(() => getValidParents(locations, form?.id ?? null), [locations, form?.id]);
+  const missing = form ? REQUIRED_FIELDS.filter(field => !form[field.key]?.trim()).map(field => field.label) : [];
+
+  const update = (changes: Partial<LocationForm>) => setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = async () => {
+    if (!form || missing.length > 0) return;
+    setIsSaving(true);
+    setMessage(null);
+    const input: LocationInput = {
+      name: form.name.trim(),
+      timeZone: form.timeZone.trim(),
+      addressStreet: form.addressStreet.trim(),
+      addressCity: form.addressCity.trim(),
+      addressState: form.addressState.trim(),
+      addressPostalCode: form.addressPostalCode.trim(),
+      ...(form.parentId ? { parentId: form.parentId } : {}),
+      ...(form.notes.trim() ? { notes: form.notes.trim() } : {})
+    };
+    const result = await optimizedSaveLocation(form.id, input);
+    setIsSaving(false);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setMessage({ type: 'success', text: form.id ? 'Location updated' : 'Location created' });
+    setForm(null);
+    if (result.data) {
+      onLocationSaved(result.data);
+    }
+    await loadLocations();
+  };
+
+  const handleDelete = async (location: Location) => {
+    if (!confirm(`Delete "${location.name}"? Its spaces and zones will be removed too.`)) return;
+    setMessage(null);
+    const result = await optimizedDeleteLocation(location.id);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setMessage({ type: 'success', text: 'Location deleted' });
+    await loadLocations();
+  };
+
+  const inputClass = 'w-full px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+
+  const field = (key: keyof Omit<LocationForm, 'id'>, label: string, className = '') => (
+    <label className={`text-xs text-gray-600 dark:text-gray-400 ${className}`}>
+      {label}
+      <input
+        type="text"
+        value={form?.[key] ?? ''}
+        onChange={(e) => update({ [key]: e.target.value })}
+        list={key === 'timeZone' ? 'location-time-zones' : undefined}
+        className={`${inputClass} mt-1`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Locations can sit inside a parent location. The location this keypad is using can&apos;t be deleted.
+        </p>
+        {!form && (
+          <button
+            onClick={() => setForm(toForm(null))}
+            className="px-3 py-1 bg-[#22c55f]/10 text-[#22c55f] border border-[#22c55f] rounded-md text-sm hover:bg-[#22c55f]/20 transition-all font-medium flex-shrink-0"
+          >
+            New Location
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="border border-gray-200 dark:border-gray-800 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {field('name', 'Name')}
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              Parent location
+              <select
+                value={form.parentId}
+                onChange={(e) => update({ parentId: e.target.value })}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">None</option>
+                {parents.map(location => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </label>
+            {field('addressStreet', 'Street', 'md:col-span-2')}
+            {field('addressCity', 'City')}
+            {field('addressState', 'State')}
+            {field('addressPostalCode', 'Postal code')}
+            {field('timeZone', 'Time zone')}
+            {field('notes', 'Notes', 'md:col-span-2')}
+          </div>
+          <datalist id="location-time-zones">
+            {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+          {missing.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">Required: {missing.join(', ')}</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1 bg-gray-100 dark:bg-[#161c25] text-gray-900 dark:text-white rounded text-sm font-medium hover:bg-gray-200 dark:hover:bg-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || missing.length > 0}
+              className="px-3 py-1 bg-[#22c55f] hover:bg-[#16a34a] text-white rounded text-sm font-medium disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : form.id ? 'Save Location' : 'Create Location'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">Loading locations...</p>
+      ) : (
+        <div className="space-y-2">
+          {locations.length > 5 && (
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search locations"
+              className={inputClass}
+            />
+          )}
+          <ul className="space-y-1">
+            {tree.map(({ location, depth }) => (
+              <li
+                key={location.id}
+                className="flex items-center justify-between gap-3 text-sm"
+                style={{ paddingLeft: `${depth * 1.25}rem` }}
+              >
+                <span className="text-gray-900 dark:text-white truncate">
+                  {location.name}
+                  {location.id === selectedLocationId && (
+                    <span className="ml-2 text-xs text-[#22c55f]">this keypad</span>
+                  )}
+                  {location.addressCity && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{location.addressCity}</span>
+                  )}
+                </span>
+                <span className="flex items-center gap-3 flex-shrink-0">
+                  <button
+                    onClick={() => setForm(toForm(location))}
+                    className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+                  >
+                    Edit
+                  </button>
+                  {location.id !== selectedLocationId && (
+                    <button
+                      onClick={() => handleDelete(location)}
+                      className="text-xs font-medium text-rose-600 dark:text-rose-400 hover:text-rose-700"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === 'success' ? 'text-[#22c55f]' : 'text-rose-600 dark:text-rose-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
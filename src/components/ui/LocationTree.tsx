@@ -0,0 +1,107 @@
+import React, { useState, useMemo } from 'react';
+import { Location } from '@/lib/api';
+import { flattenLocationTree, searchLocationTree } from '@/lib/locationTree';
+import { LocationRollup, LOCATION_STATUS_LABELS } from '@/lib/locationOverview';
+import { LOCATION_STATUS_STYLES } from './LocationOverviewCard';
+
+interface LocationTreeProps<T extends Location> {
+  locations: T[];
+  selectedId?: string | null;
+  onSelect: (location: T) => void;
+  // Status of each location and everything below it, when known
+  rollups?: Record<string, LocationRollup>;
+  // Extra controls at the end of each row
+  renderActions?: (location: T) => React.ReactNode;
+}
+
+export function LocationTree<T extends Location>({ locations, selectedId, onSelect, rollups, renderActions }: LocationTreeProps<T>) {
+  const [query, setQuery] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const entries = useMemo(() => flattenLocationTree(searchLocationTree(locations, query)), [locations, query]);
+
+  // Everything under a collapsed location is hidden; searching shows the whole path to each match
+  const rows = useMemo(() => {
+    let hiddenBelow: number | null = null;
+    return entries.flatMap((entry, index) => {
+      if (hiddenBelow !== null && entry.depth > hiddenBelow) return [];
+      hiddenBelow = null;
+      const hasChildren = (entries[index + 1]?.depth ?? -1) > entry.depth;
+      const isCollapsed = hasChildren && !query.trim() && collapsed.has(entry.location.id);
+      if (isCollapsed) hiddenBelow = entry.depth;
+      return [{ ...entry, hasChildren, isCollapsed }];
+    });
+  }, [entries, collapsed, query]);
+
+  const toggle = (locationId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(locationId)) {
+        next.delete(locationId);
+      } else {
+        next.add(locationId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search locations"
+        className="w-full px-3 py-2 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+      />
+      <ul className="space-y-1">
+        {rows.map(({ location, depth, hasChildren, isCollapsed }) => {
+          const rollup = rollups?.[location.id];
+          return (
+            <li
+              key={location.id}
+              className={`flex items-center gap-2 rounded-lg pr-2 ${location.id === selectedId ? 'bg-[#22c55f]/10' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+              style={{ paddingLeft: `${depth * 1.25}rem` }}
+            >
+              {hasChildren ? (
+                <button
+                  onClick={() => toggle(location.id)}
+                  className="w-6 h-6 flex-shrink-0 text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                  aria-label={isCollapsed ? `Expand ${location.name}` : `Collapse ${location.name}`}
+                  aria-expanded={!isCollapsed}
+                >
+                  {isCollapsed ? '▸' : '▾'}
+                </button>
+              ) : (
+                <span className="w-6 flex-shrink-0" />
+              )}
+              <button onClick={() => onSelect(location)} className="flex-1 min-w-0 py-2 text-left">
+                <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">{location.name}</span>
+                {location.addressCity && (
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {location.addressCity}{location.addressState ? `, ${location.addressState}` : ''}
+                  </span>
+                )}
+              </button>
+              {rollup && (
+                <span className="flex items-center gap-2 flex-shrink-0">
+                  {rollup.offlineDeviceCount > 0 && (
+                    <span className="text-xs text-amber-600 dark:text-amber-400">{rollup.offlineDeviceCount} offline</span>
+                  )}
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LOCATION_STATUS_STYLES[rollup.status]}`}>
+                    {LOCATION_STATUS_LABELS[rollup.status]}
+                    {rollup.status === 'partial' && ` ${rollup.armedZoneCount}/${rollup.zoneCount}`}
+                  </span>
+                </span>
+              )}
+              {renderActions?.(location)}
+            </li>
+          );
+        })}
+        {rows.length === 0 && (
+          <li className="text-sm text-gray-600 dark:text-gray-400 py-2">No matching locations</li>
+        )}
+      </ul>
+    </div>
+  );
+}
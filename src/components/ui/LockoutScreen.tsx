@@ -0,0 +1,60 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface LockoutScreenProps {
+  lockedUntil: string | null;
+  // Called once the lockout has run out
+  onExpired: () => void;
+}
+
+const secondsUntil = (lockedUntil: string) =>
+  Math.max(0, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000));
+
+const formatCountdown = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Covers the keypad while the server has it locked out after repeated wrong PINs
+export function LockoutScreen({ lockedUntil, onExpired }: LockoutScreenProps) {
+  const [secondsRemaining, setSecondsRemaining] = useState(() => (lockedUntil ? secondsUntil(lockedUntil) : 0));
+  // Latest callback, so a new one from the parent doesn't restart the countdown
+  const onExpiredRef = useRef(onExpired);
+  onExpiredRef.current = onExpired;
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    setSecondsRemaining(secondsUntil(lockedUntil));
+    const interval = setInterval(() => {
+      const remaining = secondsUntil(lockedUntil);
+      setSecondsRemaining(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        onExpiredRef.current();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  if (!lockedUntil || secondsRemaining === 0) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-[#0f0f0f]">
+      <div className="w-full max-w-sm text-center">
+        <div className="text-5xl mb-4">🔒</div>
+        <p className="text-sm font-semibold uppercase tracking-widest text-rose-400 mb-1">
+          Keypad Locked
+        </p>
+        <h2 className="text-2xl font-bold text-white mb-2">Too many incorrect PINs</h2>
+        <p className="text-sm text-gray-400 mb-8">
+          PIN entry is disabled until the countdown ends. This attempt has been logged.
+        </p>
+        <div className="text-7xl font-bold text-white tabular-nums">
+          {formatCountdown(secondsRemaining)}
+        </div>
+      </div>
+    </div>
+  );
+}
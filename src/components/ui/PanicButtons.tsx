@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { acknowledgePanic, raisePanic, validatePin } from '@/lib/api';
+import { PanicAlarm, PanicType, PANIC_HOLD_MS, PANIC_LABELS, PANIC_TYPES } from '@/lib/panic';
+
+interface PanicButtonsProps {
+  disabled?: boolean;
+  variant?: 'default' | 'glass';
+  className?: string;
+}
+
+const PANIC_ICONS: Record<PanicType, string> = {
+  // Shield
+  police: 'M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z',
+  // Flame
+  fire: 'M17.657 18.657A8 8 0 016.343 7.343S7 9 9 10c0-2 .5-5 2.986-7C14 5 16.09 5.777 17.656 7.343A7.975 7.975 0 0120 13a7.975 7.975 0 01-2.343 5.657z M9.879 16.121A3 3 0 1012.015 11L11 14H9c0 .768.293 1.536.879 2.121z',
+  // Heart
+  medical: 'M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z'
+};
+
+const PANIC_COLORS: Record<PanicType, string> = {
+  police: 'bg-blue-500',
+  fire: 'bg-rose-500',
+  medical: 'bg-amber-500'
+};
+
+// Police, fire and medical panic buttons. They work without a PIN, so each one
+// has to be held down for a moment before the panic is sent.
+export function PanicButtons({ disabled = false, variant = 'default', className = '' }: PanicButtonsProps) {
+  const [holding, setHolding] = useState<PanicType | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState<PanicAlarm | null>(null);
+  const [showAcknowledge, setShowAcknowledge] = useState(false);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const holdTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopHold = () => {
+    if (holdTimer.current) {
+      clearInterval(holdTimer.current);
+      holdTimer.current = null;
+    }
+    setHolding(null);
+    setProgress(0);
+  };
+
+  useEffect(() => () => {
+    if (holdTimer.current) clearInterval(holdTimer.current);
+  }, []);
+
+  const sendPanic = async (type: PanicType) => {
+    setIsSending(true);
+    setError(null);
+    const result = await raisePanic(type);
+    setIsSending(false);
+    if (result.error || !result.data) {
+      setError(result.error || 'Failed to send panic');
+      return;
+    }
+    setSent(result.data.alarm);
+  };
+
+  const startHold = (type: PanicType) => {
+    if (disabled || isSending || holdTimer.current) return;
+    const startedAt = Date.now();
+    setHolding(type);
+    setError(null);
+    holdTimer.current = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      if (elapsed >= PANIC_HOLD_MS) {
+        stopHold();
+        sendPanic(type);
+        return;
+      }
+      setProgress(elapsed / PANIC_HOLD_MS);
+    }, 50);
+  };
+
+  const handleAcknowledge = async () => {
+    if (!sent) return;
+    setIsSending(true);
+    setError(null);
+    const validation = await validatePin(pin);
+    setPin('');
+    if (validation.error || !validation.data.valid) {
+      setIsSending(false);
+      setError(validation.data.lockedUntil ? 'Too many failed attempts. Try again later.' : 'Invalid PIN');
+      return;
+    }
+    const result = await acknowledgePanic(sent.id);
+    setIsSending(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setSent(null);
+    setShowAcknowledge(false);
+  };
+
+  const isGlass = variant === 'glass';
+  const mutedText = isGlass ? 'text-white/60' : 'text-gray-500 dark:text-gray-400';
+
+  if (sent) {
+    return (
+      <div className={`rounded-xl border border-rose-500/40 bg-rose-50 dark:bg-rose-500/10 p-3 ${className}`}>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-semibold text-rose-700 dark:text-rose-400">
+              {PANIC_LABELS[sent.type]} panic sent
+            </p>
+            <p className="text-xs text-rose-700/80 dark:text-rose-400/80">Responders have been notified</p>
+          </div>
+          {!showAcknowledge && (
+            <button
+              onClick={() => setShowAcknowledge(true)}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium bg-rose-500 text-white hover:bg-rose-600 transition-colors"
+            >
+              Stand Down
+            </button>
+          )}
+        </div>
+
+        {showAcknowledge && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              type="password"
+              inputMode="numeric"
+              maxLength={6}
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="PIN"
+              className="w-24 px-2 py-1 bg-white dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-rose-500"
+            />
+            <button
+              onClick={handleAcknowledge}
+              disabled={pin.length !== 6 || isSending}
+              className="px-3 py-1 rounded text-sm font-medium bg-rose-500 text-white hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSending ? 'Confirming...' : 'Confirm'}
+            </button>
+            <button
+              onClick={() => {
+                setShowAcknowledge(false);
+                setPin('');
+                setError(null);
+              }}
+              className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {error && <p className="mt-2 text-xs text-rose-500">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col items-center gap-2 ${className}`}>
+      <div className="grid grid-cols-3 gap-3 w-full">
+        {PANIC_TYPES.map(type => {
+          const isHeld = holding === type;
+          return (
+            <button
+              key={type}
+              type="button"
+              disabled={disabled || isSending}
+              onPointerDown={() => startHold(type)}
+              onPointerUp={stopHold}
+              onPointerLeave={stopHold}
+              onPointerCancel={stopHold}
+              onKeyDown={(e) => {
+                if ((e.key === 'Enter' || e.key === ' ') && !e.repeat) startHold(type);
+              }}
+              onKeyUp={stopHold}
+              onContextMenu={(e) => e.preventDefault()}
+              aria-label={`Hold for ${PANIC_LABELS[type].toLowerCase()} panic`}
+              className={`relative overflow-hidden flex flex-col items-center gap-1 py-2 rounded-xl text-xs font-medium select-none touch-none transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                isGlass
+                  ? 'bg-white/10 border border-white/20 text-white hover:bg-white/15'
+                  : 'bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-[#1f2937]'
+              }`}
+            >
+              {/* Fills up while the button is held */}
+              <span
+                className={`absolute inset-y-0 left-0 ${PANIC_COLORS[type]} opacity-40`}
+                style={{ width: `${isHeld ? progress * 100 : 0}%` }}
+              />
+              <svg className="relative w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={PANIC_ICONS[type]} />
+              </svg>
+              <span className="relative">{PANIC_LABELS[type]}</span>
+            </button>
+          );
+        })}
+      </div>
+      <p className={`text-xs ${error ? 'text-rose-500' : mutedText}`}>
+        {error || (isSending ? 'Sending panic...' : `Hold for ${PANIC_HOLD_MS / 1000} seconds to call for help`)}
+      </p>
+    </div>
+  );
+}
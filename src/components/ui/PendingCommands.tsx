@@ -0,0 +1,72 @@
+import React from 'react';
+import { COMMAND_STATUS_LABELS, KeypadCommand, isCommandActive } from '@/lib/keypadCommands';
+
+interface PendingCommandsProps {
+  commands: KeypadCommand[];
+  onDismiss: (commandId: string) => void;
+}
+
+// Commands sent from this keypad: a spinner while they wait for a live event to
+// confirm them, and a notice that stays put when one never took effect
+export function PendingCommands({ commands, onDismiss }: PendingCommandsProps) {
+  if (commands.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-72 max-w-[calc(100vw-2rem)]">
+      {commands.map(command => {
+        const isActive = isCommandActive(command);
+        const isConfirmed = command.status === 'confirmed';
+        const progress = command.targetIds.length > 1 && isActive
+          ? ` (${command.confirmedTargetIds.length}/${command.targetIds.length})`
+          : '';
+
+        return (
+          <div
+            key={command.id}
+            role={isActive || isConfirmed ? 'status' : 'alert'}
+            className={`flex items-start gap-3 px-3 py-2 rounded-xl bg-white dark:bg-[#0f0f0f] border shadow-lg text-sm ${
+              isActive
+                ? 'border-gray-200 dark:border-gray-800'
+                : isConfirmed
+                  ? 'border-[#22c55f]/40'
+                  : 'border-red-500/50'
+            }`}
+          >
+            <div className="mt-0.5 flex-shrink-0">
+              {isActive ? (
+                <div className="w-4 h-4 border-2 border-gray-300 dark:border-gray-700 border-t-[#22c55f] rounded-full animate-spin" />
+              ) : isConfirmed ? (
+                <svg className="w-4 h-4 text-[#22c55f]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              ) : (
+                <svg className="w-4 h-4 text-red-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" />
+                </svg>
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-900 dark:text-white truncate">{command.label || 'Command'}</div>
+              <div className={`text-xs ${isActive || isConfirmed ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+                {COMMAND_STATUS_LABELS[command.status]}{progress}
+                {command.status === 'timed_out' && ' — check the zone before relying on it'}
+                {command.status === 'failed' && command.lastError && ` — ${command.lastError}`}
+              </div>
+            </div>
+            {!isActive && !isConfirmed && (
+              <button
+                onClick={() => onDismiss(command.id)}
+                aria-label="Dismiss"
+                className="flex-shrink-0 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
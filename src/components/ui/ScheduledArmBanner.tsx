@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import type { ArmingScheduleStatus } from '@/lib/armingSchedule';
+
+interface ScheduledArmBannerProps {
+  status: ArmingScheduleStatus | null;
+  // Resolves to an error message, or null once the arm has been postponed
+  onPostpone: (pin: string, minutes: number) => Promise<string | null>;
+  className?: string;
+}
+
+const POSTPONE_OPTIONS = [15, 30, 60, 120];
+
+const formatArmTime = (iso: string, timeZone: string) => {
+  const date = new Date(iso);
+  const sameDay = date.toLocaleDateString('en-US', { timeZone }) === new Date().toLocaleDateString('en-US', { timeZone });
+  return date.toLocaleString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(sameDay ? {} : { weekday: 'short' })
+  });
+};
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+// "Next scheduled arm at ..." on the keypad; during the pre-arm warning it counts
+// down and lets someone on site postpone the arm with their PIN
+export function ScheduledArmBanner({ status, onPostpone, className = '' }: ScheduledArmBannerProps) {
+  const [now, setNow] = useState(Date.now());
+  const [showPostpone, setShowPostpone] = useState(false);
+  const [pin, setPin] = useState('');
+  const [minutes, setMinutes] = useState(POSTPONE_OPTIONS[1]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isWarning = !!status?.isWarning;
+
+  useEffect(() => {
+    if (!isWarning) {
+      setShowPostpone(false);
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isWarning]);
+
+  if (!status?.schedule?.enabled || !status.nextArm) return null;
+
+  const handlePostpone = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    const result = await onPostpone(pin, minutes);
+    setIsSubmitting(false);
+    setPin('');
+    if (result) {
+      setError(result);
+      return;
+    }
+    setShowPostpone(false);
+  };
+
+  const armTime = formatArmTime(status.nextArm.at, status.timeZone);
+  const isPostponed = status.nextArm.at !== status.nextArm.scheduledAt;
+
+  if (!isWarning) {
+    return (
+      <div className={`flex items-center justify-center gap-2 text-xs text-gray-600 dark:text-gray-400 ${className}`}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <span>
+          Next scheduled arm at {armTime}
+          {isPostponed && ' (postponed)'}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-xl border border-amber-500/40 bg-amber-50 dark:bg-amber-500/10 p-3 ${className}`}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-amber-700 dark:text-amber-400">
+            Scheduled arm in {formatCountdown(new Date(status.nextArm.at).getTime() - now)}
+          </p>
+          <p className="text-xs text-amber-700/80 dark:text-amber-400/80">
+            {status.schedule.name || 'Arming schedule'} arms at {armTime}
+          </p>
+        </div>
+        {!showPostpone && (
+          <button
+            onClick={() => setShowPostpone(true)}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-amber-500 text-white hover:bg-amber-600 transition-colors"
+          >
+            Postpone
+          </button>
+        )}
+      </div>
+
+      {showPostpone && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <select
+            value={minutes}
+            onChange={(e) => setMinutes(Number(e.target.value))}
+            className="px-2 py-1 bg-white dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {POSTPONE_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {option < 60 ? `${option} min` : `${option / 60} hr`}
+              </option>
+            ))}
+          </select>
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={6}
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="PIN"
+            className="w-24 px-2 py-1 bg-white dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <button
+            onClick={handlePostpone}
+            disabled={pin.length !== 6 || isSubmitting}
+            className="px-3 py-1 rounded text-sm font-medium bg-amber-500 text-white hover:bg-amber-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Postponing...' : 'Confirm'}
+          </button>
+          <button
+            onClick={() => {
+              setShowPostpone(false);
+              setPin('');
+              setError(null);
+            }}
+            className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-rose-500">{error}</p>}
+    </div>
+  );
+}
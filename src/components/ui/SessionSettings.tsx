@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { SessionSettings as SessionSettingsValues, getSessionSettings, saveSessionSettings } from '@/lib/keypadSession';
+
+const IDLE_TIMEOUT_OPTIONS = [
+  { value: 30, label: '30 seconds' },
+  { value: 60, label: '1 minute' },
+  { value: 120, label: '2 minutes' },
+  { value: 300, label: '5 minutes' },
+  { value: 900, label: '15 minutes' },
+  { value: 3600, label: '1 hour' },
+];
+
+const WARNING_OPTIONS = [
+  { value: 0, label: 'No warning' },
+  { value: 10, label: '10 seconds' },
+  { value: 20, label: '20 seconds' },
+  { value: 30, label: '30 seconds' },
+  { value: 60, label: '1 minute' },
+];
+
+const MAX_SESSION_OPTIONS = [
+  { value: 0, label: 'No limit' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 240, label: '4 hours' },
+  { value: 720, label: '12 hours' },
+];
+
+export function SessionSettings() {
+  const [settings, setSettings] = useState<SessionSettingsValues>(getSessionSettings);
+
+  // Stored values are only readable once we're in the browser
+  useEffect(() => {
+    setSettings(getSessionSettings());
+  }, []);
+
+  const update = (changes: Partial<SessionSettingsValues>) => {
+    setSettings(saveSessionSettings(changes));
+  };
+
+  // Keep the warning shorter than the timeout it warns about
+  const handleIdleTimeoutChange = (idleTimeoutSeconds: number) => {
+    const warningSeconds = WARNING_OPTIONS
+      .filter(option => option.value < idleTimeoutSeconds && option.value <= settings.warningSeconds)
+      .pop()?.value ?? 0;
+    update({ idleTimeoutSeconds, warningSeconds });
+  };
+
+  const selectClass = 'px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Signed-in keypads return to the PIN screen after a period of inactivity. A warning is shown first so whoever is at the keypad can stay signed in.
+      </p>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-gray-900 dark:text-white">Sign out after inactivity</span>
+        <select
+          value={settings.idleTimeoutSeconds}
+          onChange={(e) => handleIdleTimeoutChange(parseInt(e.target.value, 10))}
+          className={selectClass}
+        >
+          {IDLE_TIMEOUT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-gray-900 dark:text-white">Warn before signing out</span>
+        <select
+          value={settings.warningSeconds}
+          onChange={(e) => update({ warningSeconds: parseInt(e.target.value, 10) })}
+          className={selectClass}
+        >
+          {WARNING_OPTIONS.filter(option => option.value < settings.idleTimeoutSeconds).map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-gray-900 dark:text-white">Maximum session length</span>
+        <select
+          value={settings.maxSessionMinutes}
+          onChange={(e) => update({ maxSessionMinutes: parseInt(e.target.value, 10) })}
+          className={selectClass}
+        >
+          {MAX_SESSION_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
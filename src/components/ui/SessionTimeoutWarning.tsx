@@ -0,0 +1,50 @@
+import React from 'react';
+import type { SessionWarning } from '@/hooks/useSessionManager';
+
+interface SessionTimeoutWarningProps {
+  warning: SessionWarning | null;
+  onStaySignedIn: () => void;
+  onSignOut: () => void;
+}
+
+// Shown shortly before an authenticated session ends on its own
+export function SessionTimeoutWarning({ warning, onStaySignedIn, onSignOut }: SessionTimeoutWarningProps) {
+  if (!warning) return null;
+
+  const isLifetime = warning.reason === 'lifetime';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/70">
+      <div className="w-full max-w-sm text-center bg-white dark:bg-[#0f0f0f] rounded-2xl p-6 shadow-xl border border-gray-200 dark:border-gray-800">
+        <p className="text-sm font-semibold uppercase tracking-widest text-amber-500 mb-1">
+          {isLifetime ? 'Session Ending' : 'Are you still there?'}
+        </p>
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Signing out in</h2>
+        <div className="text-6xl font-bold text-gray-900 dark:text-white tabular-nums mb-4">
+          {warning.secondsRemaining}
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          {isLifetime
+            ? 'This session has reached its maximum length. Enter your PIN again to continue.'
+            : 'The keypad locks itself after a period of inactivity.'}
+        </p>
+        <div className="flex gap-3">
+          <button
+            onClick={onSignOut}
+            className="flex-1 px-4 py-3 rounded-lg text-sm font-medium bg-gray-100 dark:bg-[#161c25] text-gray-900 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-800 transition-colors"
+          >
+            Sign Out Now
+          </button>
+          {!isLifetime && (
+            <button
+              onClick={onStaySignedIn}
+              className="flex-1 px-4 py-3 rounded-lg text-sm font-medium bg-[#22c55f] text-white hover:bg-[#16a34a] transition-colors"
+            >
+              Stay Signed In
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
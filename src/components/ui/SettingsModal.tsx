@@ -1,6 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { Area, Device, EventFilterSettings, EventTypeDisplaySettings, AlarmZone, Space } from '@/lib/api';
+import { Area, Device, EventFilterSettings, EventTypeDisplaySettings, AlarmZone, Space, Location } from '@/lib/api';
 import { IconPicker } from './IconPicker';
+import { DuressPinSettings } from './DuressPinSettings';
+import { SessionSettings } from './SessionSettings';
+import { UserRoleSettings } from './UserRoleSettings';
+import { ArmingScheduleSettings } from './ArmingScheduleSettings';
+import { ChimeModeSettings } from './ChimeModeSettings';
+import { ZoneAuditLog } from './ZoneAuditLog';
+import { ZoneEditor } from './ZoneEditor';
+import { LocationSettings } from './LocationSettings';
+import { SpaceSettings } from './SpaceSettings';
+import { ZoneDraft } from '@/lib/zoneEditor';
+import { ChimeSettings } from '@/lib/chime';
+import { KeypadRole, hasPermission } from '@/lib/permissions';
+import { MAX_DELAY_SECONDS, ZoneDelaySettings, ZoneArmMode } from '@/lib/zoneSettings';
+import {
+  DEFAULT_READINESS_RULES,
+  FINDING_LABELS,
+  READINESS_FINDING_KINDS,
+  ReadinessRule,
+  ZoneReadinessRules
+} from '@/lib/readiness';
 
 interface WeatherData {
   temp: number;
@@ -61,12 +81,30 @@ interface SettingsModalProps {
   spaces: Space[];
   alarmZones: AlarmZone[];
   onAlarmZonesChange: (zones: AlarmZone[]) => void;
+  onZoneDelaysChange?: (zoneId: string, delays: Partial<ZoneDelaySettings>) => void;
+  onZoneArmModeChange?: (zoneId: string, mode: ZoneArmMode) => void;
+  onZoneReadinessRulesChange?: (zoneId: string, rules: Partial<ZoneReadinessRules>) => void;
+
+  // Zone management; both return an error message or null
+  devices?: Device[];
+  onSaveZone?: (draft: ZoneDraft) => Promise<string | null>;
+  onDeleteZone?: (zoneId: string) => Promise<string | null>;
+
+  // Called after locations or spaces are edited, with the location if one was saved
+  onLocationDataChange?: (location?: Location) => void;
+
+  // Chime mode for this keypad
+  chimeSettings?: ChimeSettings;
+  onChimeSettingsChange?: (changes: Partial<ChimeSettings>) => void;
   
   // Location change
   onLocationChange: () => void;
   
   // New prop
   requireApiKey?: boolean;
+
+  // Role of the signed-in user; sections they can't use are hidden
+  role?: KeypadRole | null;
 }
 
 export function SettingsModal({ 
@@ -104,9 +142,22 @@ export function SettingsModal({
   spaces,
   alarmZones,
   onAlarmZonesChange,
+  onZoneDelaysChange,
+  onZoneArmModeChange,
+  onZoneReadinessRulesChange,
+  devices = [],
+  onSaveZone,
+  onDeleteZone,
+  onLocationDataChange,
+  chimeSettings,
+  onChimeSettingsChange,
   onLocationChange,
-  requireApiKey = false
+  requireApiKey = false,
+  role = null
 }: SettingsModalProps) {
+  const [historyZone, setHistoryZone] = useState<AlarmZone | null>(null);
+  // The zone being edited; zone is null for a new one
+  const [zoneEditor, setZoneEditor] = useState<{ zone: AlarmZone | null } | null>(null);
 
   if (!open) return null;
 
@@ -176,15 +227,17 @@ export function SettingsModal({
                         )}
                       </p>
                     </div>
-                    <button
-                      onClick={() => {
-                        onClose();
-                        onLocationChange();
-                      }}
-                      className="px-4 py-2 bg-[#22c55f]/10 text-[#22c55f] border border-[#22c55f] rounded-md text-sm hover:bg-[#22c55f]/20 transition-all font-medium"
-                    >
-                      Change Location
-                    </button>
+                    {hasPermission(role, 'settings.location') && (
+                      <button
+                        onClick={() => {
+                          onClose();
+                          onLocationChange();
+                        }}
+                        className="px-4 py-2 bg-[#22c55f]/10 text-[#22c55f] border border-[#22c55f] rounded-md text-sm hover:bg-[#22c55f]/20 transition-all font-medium"
+                      >
+                        Change Location
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -299,7 +352,7 @@ export function SettingsModal({
               </div>
 
               {/* Event Display Settings - Only show when Timeline is enabled */}
-              {showLiveEvents && (
+              {showLiveEvents && hasPermission(role, 'settings.events') && (
                 <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
                 <div className="flex items-center justify-between mb-4">
                   <div>
@@ -685,8 +738,225 @@ export function SettingsModal({
                 </div>
               </div>
 
+              {/* Chime */}
+              {chimeSettings && onChimeSettingsChange && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Chime</h3>
+                  <ChimeModeSettings settings={chimeSettings} spaces={spaces} onChange={onChimeSettingsChange} />
+                </div>
+              )}
+
+              {/* Duress PIN: it disarms, so only users who can disarm get one */}
+              {hasPermission(role, 'zones.disarm') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Duress PIN</h3>
+                  <DuressPinSettings />
+                </div>
+              )}
+
+              {/* Session Timeout */}
+              {hasPermission(role, 'settings.security') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Session Timeout</h3>
+                  <SessionSettings />
+                </div>
+              )}
+
+              {/* User Roles */}
+              {hasPermission(role, 'users.manage') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">User Roles</h3>
+                  <UserRoleSettings locationId={selectedLocation?.id || null} locationName={selectedLocation?.name} />
+                </div>
+              )}
+
+              {/* Arming Schedule */}
+              {hasPermission(role, 'zones.configure') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Arming Schedule</h3>
+                  <ArmingScheduleSettings alarmZones={alarmZones} />
+                </div>
+              )}
+
+              {/* Arming Delays */}
+              {onZoneDelaysChange && alarmZones.length > 0 && hasPermission(role, 'zones.configure') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Arming Modes & Delays</h3>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+                    The default mode is used when a zone is armed without picking Stay or Away. Exit and entry delays only apply when armed away. Set a delay to 0 to disable it. Delays are saved on this keypad only, so set them on each keypad at the location.
+                  </p>
+                  <div className="space-y-3">
+                    {alarmZones.map((zone) => (
+                      <div key={zone.id} className="flex items-center justify-between gap-3">
+                        <p className="text-sm text-gray-900 dark:text-white truncate">{zone.name}</p>
+                        <div className="flex items-center gap-3 flex-shrink-0">
+                          {onZoneArmModeChange && (
+                            <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                              Default
+                              <select
+                                value={zone.defaultArmMode || 'ARMED_AWAY'}
+                                onChange={(e) => onZoneArmModeChange(zone.id, e.target.value as ZoneArmMode)}
+                                className="px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+                              >
+                                <option value="ARMED_AWAY">Away</option>
+                                <option value="ARMED_STAY">Stay</option>
+                              </select>
+                            </label>
+                          )}
+                          <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                            Exit
+                            <input
+                              type="number"
+                              min={0}
+                              max={MAX_DELAY_SECONDS}
+                              value={zone.exitDelaySeconds ?? 0}
+                              onChange={(e) => onZoneDelaysChange(zone.id, { exitDelaySeconds: parseInt(e.target.value, 10) || 0 })}
+                              className="w-16 px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+                            />
+                            s
+                          </label>
+                          <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400">
+                            Entry
+                            <input
+                              type="number"
+                              min={0}
+                              max={MAX_DELAY_SECONDS}
+                              value={zone.entryDelaySeconds ?? 0}
+                              onChange={(e) => onZoneDelaysChange(zone.id, { entryDelaySeconds: parseInt(e.target.value, 10) || 0 })}
+                              className="w-16 px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+                            />
+                            s
+                          </label>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Arming Readiness */}
+              {onZoneReadinessRulesChange && alarmZones.length > 0 && hasPermission(role, 'zones.configure') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Arming Readiness</h3>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+                    Choose what each zone does when a device has a problem at arming time. Warn asks before arming, Block refuses to arm until the device is fixed or bypassed.
+                  </p>
+                  <div className="space-y-4">
+                    {alarmZones.map((zone) => (
+                      <div key={zone.id}>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">{zone.name}</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          {READINESS_FINDING_KINDS.map((kind) => (
+                            <label key={kind} className="flex items-center justify-between gap-2 text-xs text-gray-600 dark:text-gray-400">
+                              {FINDING_LABELS[kind]}
+                              <select
+                                value={zone.readinessRules?.[kind] || DEFAULT_READINESS_RULES[kind]}
+                                onChange={(e) => onZoneReadinessRulesChange(zone.id, { [kind]: e.target.value as ReadinessRule })}
+                                className="px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+                              >
+                                <option value="warn">Warn</option>
+                                <option value="block">Block</option>
+                                <option value="ignore">Ignore</option>
+                              </select>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Locations */}
+              {onLocationDataChange && hasPermission(role, 'locations.manage') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Locations</h3>
+                  <LocationSettings
+                    selectedLocationId={selectedLocation?.id || null}
+                    onLocationSaved={onLocationDataChange}
+                  />
+                </div>
+              )}
+
+              {/* Spaces */}
+              {onLocationDataChange && selectedLocation?.id && hasPermission(role, 'locations.manage') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Spaces</h3>
+                  <SpaceSettings
+                    locationId={selectedLocation.id}
+                    devices={devices}
+                    onSpacesChange={() => onLocationDataChange()}
+                  />
+                </div>
+              )}
+
+              {/* Manage Zones */}
+              {onSaveZone && onDeleteZone && hasPermission(role, 'zones.configure') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <div className="flex items-center justify-between mb-3">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Manage Zones</h3>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        Create, rename or delete zones and choose which devices each one arms.
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setZoneEditor({ zone: null })}
+                      className="px-3 py-2 bg-[#22c55f]/10 text-[#22c55f] border border-[#22c55f] rounded-md text-sm hover:bg-[#22c55f]/20 transition-all font-medium"
+                    >
+                      New Zone
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {alarmZones.map((zone) => (
+                      <div key={zone.id} className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: zone.color }} />
+                          <p className="text-sm text-gray-900 dark:text-white truncate">{zone.name}</p>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                            {zone.deviceIds?.length || 0} devices
+                          </span>
+                        </div>
+                        <button
+                          onClick={() => setZoneEditor({ zone })}
+                          className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+                        >
+                          Edit
+                        </button>
+                      </div>
+                    ))}
+                    {alarmZones.length === 0 && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">No zones at this location yet.</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Zone History */}
+              {alarmZones.length > 0 && hasPermission(role, 'settings.events') && (
+                <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Zone History</h3>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+                    Who armed, disarmed or triggered each zone, and why.
+                  </p>
+                  <div className="space-y-2">
+                    {alarmZones.map((zone) => (
+                      <div key={zone.id} className="flex items-center justify-between gap-3">
+                        <p className="text-sm text-gray-900 dark:text-white truncate">{zone.name}</p>
+                        <button
+                          onClick={() => setHistoryZone(zone)}
+                          className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+                        >
+                          View history
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Alarm Zones Configuration */}
-              {useTestDesign && spaces.length > 0 && (
+              {useTestDesign && spaces.length > 0 && hasPermission(role, 'zones.configure') && (
                 <div className="bg-white dark:bg-[#0f0f0f] rounded-lg p-4 border border-gray-200 dark:border-gray-800 lg:col-span-2">
                   <div className="flex items-center justify-between mb-4">
                     <div>
@@ -800,6 +1070,22 @@ export function SettingsModal({
           </div>
         </div>
       </div>
+
+      {historyZone && (
+        <ZoneAuditLog zoneId={historyZone.id} zoneName={historyZone.name} onClose={() => setHistoryZone(null)} />
+      )}
+
+      {zoneEditor && onSaveZone && onDeleteZone && (
+        <ZoneEditor
+          zone={zoneEditor.zone}
+          alarmZones={alarmZones}
+          spaces={spaces}
+          devices={devices}
+          onSave={onSaveZone}
+          onDelete={onDeleteZone}
+          onClose={() => setZoneEditor(null)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
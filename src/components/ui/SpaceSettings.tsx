@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Device, Space } from '@/lib/api';
+import { optimizedGetSpaces, optimizedSaveSpace, optimizedDeleteSpace, optimizedMoveDevicesToSpace } from '@/lib/api-optimized';
+
+interface SpaceSettingsProps {
+  locationId: string;
+  devices: Device[];
+  // Called after any change so the keypad reloads its spaces and devices
+  onSpacesChange: () => void;
+}
+
+interface SpaceForm {
+  id: string | null;
+  name: string;
+  description: string;
+}
+
+export function SpaceSettings({ locationId, devices, onSpacesChange }: SpaceSettingsProps) {
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [form, setForm] = useState<SpaceForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadSpaces = useCallback(async () => {
+    const result = await optimizedGetSpaces(locationId);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setSpaces(result.data);
+  }, [locationId]);
+
+  useEffect(() => {
+    loadSpaces();
+  }, [loadSpaces]);
+
+  // Devices at this location, plus any not yet placed in a space
+  const { bySpace, unassigned } = useMemo(() => {
+    const spaceIds = new Set(spaces.map(space => space.id));
+    return {
+      bySpace: Object.fromEntries(spaces.map(space => [space.id, devices.filter(d => d.spaceId === space.id)])),
+      unassigned: devices.filter(d =>
+        !(d.spaceId && spaceIds.has(d.spaceId)) && (d.locationId ? d.locationId === locationId : !d.spaceId)
+      )
+    };
+  }, [spaces, devices, locationId]);
+
+  const afterChange = async (text: string) => {
+    setMessage({ type: 'success', text });
+    await loadSpaces();
+    onSpacesChange();
+  };
+
+  const handleSave = async () => {
+    if (!form || !form.name.trim()) return;
+    setIsSaving(true);
+    setMessage(null);
+    const result = await optimizedSaveSpace(locationId, form.id, {
+      name: form.name.trim(),
+      description: form.description.trim()
+    });
+    setIsSaving(false);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setForm(null);
+    await afterChange(form.id ? 'Space updated' : 'Space created');
+  };
+
+  const handleDelete = async (space: Space) => {
+    if (!confirm(`Delete "${space.name}"? Its devices will be left without a space.`)) return;
+    setMessage(null);
+    const result = await optimizedDeleteSpace(locationId, space.id);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    await afterChange('Space deleted');
+  };
+
+  const handleMove = async (device: Device, toSpaceId: string) => {
+    if (!toSpaceId || toSpaceId === device.spaceId) return;
+    setMessage(null);
+    const fromSpaceId = device.spaceId && spaces.some(space => space.id === device.spaceId) ? device.spaceId : null;
+    const result = await optimizedMoveDevicesToSpace(locationId, [device.id], fromSpaceId, toSpaceId);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    await afterChange(`${device.name} moved`);
+  };
+
+  const inputClass = 'px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+
+  const deviceRow = (device: Device) => (
+    <div key={device.id} className="flex items-center justify-between gap-3">
+      <span className="text-sm text-gray-900 dark:text-white truncate">{device.name}</span>
+      <select
+        value={device.spaceId && bySpace[device.spaceId] ? device.spaceId : ''}
+        onChange={(e) => handleMove(device, e.target.value)}
+        className={`${inputClass} text-xs`}
+        aria-label={`Move ${device.name}`}
+      >
+        <option value="" disabled>Move to...</option>
+        {spaces.map(space => (
+          <option key={space.id} value={space.id}>{space.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Spaces group devices within this location. Pick a space next to a device to move it.
+        </p>
+        {!form && (
+          <button
+            onClick={() => setForm({ id: null, name: '', description: '' })}
+            className="px-3 py-1 bg-[#22c55f]/10 text-[#22c55f] border border-[#22c55f] rounded-md text-sm hover:bg-[#22c55f]/20 transition-all font-medium flex-shrink-0"
+          >
+            New Space
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="border border-gray-200 dark:border-gray-800 rounded-lg p-3 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Description"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1 bg-gray-100 dark:bg-[#161c25] text-gray-900 dark:text-white rounded text-sm font-medium hover:bg-gray-200 dark:hover:bg-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !form.name.trim()}
+              className="px-3 py-1 bg-[#22c55f] hover:bg-[#16a34a] text-white rounded text-sm font-medium disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : form.id ? 'Save Space' : 'Create Space'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {spaces.map(space => (
+          <div key={space.id} className="border border-gray-200 dark:border-gray-800 rounded-lg p-3">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{space.name}</p>
+                {space.description && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{space.description}</p>
+                )}
+              </div>
+              <span className="flex items-center gap-3 flex-shrink-0">
+                <button
+                  onClick={() => setForm({ id: space.id, name: space.name, description: space.description || '' })}
+                  className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(space)}
+                  className="text-xs font-medium text-rose-600 dark:text-rose-400 hover:text-rose-700"
+                >
+                  Delete
+                </button>
+              </span>
+            </div>
+            <div className="space-y-1">
+              {(bySpace[space.id] || []).map(deviceRow)}
+              {(bySpace[space.id] || []).length === 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">No devices</p>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {unassigned.length > 0 && spaces.length > 0 && (
+          <div className="border border-dashed border-gray-300 dark:border-gray-700 rounded-lg p-3">
+            <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">Not in a space</p>
+            <div className="space-y-1">{unassigned.map(deviceRow)}</div>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-xs ${message.type === 'success' ? 'text-[#22c55f]' : 'text-rose-600 dark:text-rose-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { getKeypadUsers, setKeypadUserRole, removeKeypadUserRole } from '@/lib/api';
+import { KeypadRole, KeypadUser, KEYPAD_ROLES, ROLE_LABELS, DEFAULT_KEYPAD_ROLE } from '@/lib/permissions';
+
+interface UserRoleSettingsProps {
+  locationId: string | null;
+  locationName?: string;
+}
+
+const roleAt = (user: KeypadUser, locationId: string | null) =>
+  user.roles.find(role => role.locationId === locationId)?.role || '';
+
+export function UserRoleSettings({ locationId, locationName }: UserRoleSettingsProps) {
+  const [users, setUsers] = useState<KeypadUser[]>([]);
+  const [adminPin, setAdminPin] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadUsers = async () => {
+    const result = await getKeypadUsers();
+    setIsLoading(false);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setUsers(result.data);
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  // An empty value removes the assignment so the user falls back to the next level
+  const handleRoleChange = async (userId: string, scope: string | null, value: string) => {
+    setSavingUserId(userId);
+    setMessage(null);
+    const result = value
+      ? await setKeypadUserRole(adminPin, userId, scope, value as KeypadRole)
+      : await removeKeypadUserRole(adminPin, userId, scope);
+    setSavingUserId(null);
+    if (result.error) {
+      setMessage({ type: 'error', text: result.error });
+      return;
+    }
+    setMessage({ type: 'success', text: 'Role updated' });
+    await loadUsers();
+  };
+
+  const selectClass = 'px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f] disabled:opacity-50';
+  const isAdminPinValid = /^\d{6}$/.test(adminPin);
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Viewers can only look, arm-only users can arm but not disarm, operators can arm and disarm, and admins can also change settings. Users appear here after they first sign in. Enter your PIN to make changes.
+      </p>
+      <input
+        type="password"
+        inputMode="numeric"
+        maxLength={6}
+        autoComplete="off"
+        value={adminPin}
+        onChange={(e) => setAdminPin(e.target.value.replace(/\D/g, ''))}
+        placeholder="Your PIN"
+        className="w-full md:w-1/2 px-3 py-2 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded-md text-sm text-gray-900 dark:text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-[#22c55f]"
+      />
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading users...</p>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No users have signed in yet.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="hidden md:grid grid-cols-3 gap-3 text-xs text-gray-500 dark:text-gray-400">
+            <span>User</span>
+            <span>All locations</span>
+            <span>{locationName || 'This location'}</span>
+          </div>
+          {users.map(user => (
+            <div key={user.userId} className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-3 items-center">
+              <p className="text-sm text-gray-900 dark:text-white truncate">{user.userName || user.userId}</p>
+              <select
+                value={roleAt(user, null)}
+                onChange={(e) => handleRoleChange(user.userId, null, e.target.value)}
+                disabled={!isAdminPinValid || savingUserId === user.userId}
+                className={selectClass}
+              >
+                <option value="">Default ({ROLE_LABELS[DEFAULT_KEYPAD_ROLE]})</option>
+                {KEYPAD_ROLES.map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+              {locationId && (
+                <select
+                  value={roleAt(user, locationId)}
+                  onChange={(e) => handleRoleChange(user.userId, locationId, e.target.value)}
+                  disabled={!isAdminPinValid || savingUserId === user.userId}
+                  className={selectClass}
+                >
+                  <option value="">Same as all locations</option>
+                  {KEYPAD_ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.type === 'error' ? 'text-rose-500' : 'text-[#22c55f]'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import type { ZoneDeviceIssue } from '@/lib/zoneArming';
+
+interface ZoneArmingIssuesProps {
+  issues?: ZoneDeviceIssue[];
+  compact?: boolean;
+}
+
+// Lists the devices that failed or did not confirm the last arm/disarm of a zone
+export function ZoneArmingIssues({ issues, compact = false }: ZoneArmingIssuesProps) {
+  if (!issues || issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`${compact ? 'mt-1 space-y-0.5' : 'mt-2 space-y-1'}`}>
+      {issues.map(issue => (
+        <li
+          key={issue.deviceId}
+          className={`flex items-start gap-1 ${compact ? 'text-[11px]' : 'text-xs'} ${
+            issue.status === 'failed' ? 'text-rose-600 dark:text-rose-400' : 'text-amber-600 dark:text-amber-400'
+          }`}
+        >
+          <span>{issue.status === 'failed' ? '✕' : '⚠'}</span>
+          <span>
+            <span className="font-medium">{issue.deviceName}</span>
+            <span className="opacity-80"> — {issue.reason}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Dialog } from '@headlessui/react';
+import { AuditLogEntry, getAlarmZoneAuditLog, getKeypadUsers } from '@/lib/api';
+import {
+  AuditLogAction,
+  AuditLogFilters,
+  AuditLogSource,
+  AUDIT_LOG_ACTIONS,
+  AUDIT_LOG_ACTION_LABELS,
+  AUDIT_LOG_MAX_LIMIT,
+  AUDIT_LOG_PAGE_SIZE,
+  AUDIT_LOG_SOURCES,
+  AUDIT_LOG_SOURCE_LABELS,
+  DEFAULT_AUDIT_LOG_FILTERS,
+  auditLogToCsv,
+  filterAuditLog,
+  getAuditLogActor,
+  getAuditLogSource
+} from '@/lib/zoneAuditLog';
+
+interface ZoneAuditLogProps {
+  zoneId: string;
+  zoneName: string;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<AuditLogAction, string> = {
+  armed: 'bg-rose-500/10 text-rose-600 dark:text-rose-400',
+  disarmed: 'bg-[#22c55f]/10 text-[#22c55f]',
+  triggered: 'bg-rose-600 text-white',
+  acknowledged: 'bg-amber-500/10 text-amber-600 dark:text-amber-400'
+};
+
+// Arm-state history for one zone, loaded a page at a time
+export function ZoneAuditLog({ zoneId, zoneName, onClose }: ZoneAuditLogProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditLogFilters>(DEFAULT_AUDIT_LOG_FILTERS);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+
+  const loadPage = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getAlarmZoneAuditLog(zoneId, AUDIT_LOG_PAGE_SIZE, offset);
+    setIsLoading(false);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    setEntries(prev => (offset === 0 ? result.data.entries : [...prev, ...result.data.entries]));
+    setHasMore(result.data.hasMore);
+  }, [zoneId]);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  useEffect(() => {
+    // Names are a nicety; fall back to user ids if they can't be loaded
+    getKeypadUsers().then(result => {
+      setUserNames(Object.fromEntries(
+        result.data.filter(user => user.userName).map(user => [user.userId, user.userName as string])
+      ));
+    });
+  }, []);
+
+  const visibleEntries = useMemo(() => filterAuditLog(entries, filters, userNames), [entries, filters, userNames]);
+
+  // Export covers the whole log, not just the pages loaded so far
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    const all: AuditLogEntry[] = [];
+    let offset = 0;
+    let more = true;
+    while (more) {
+      const result = await getAlarmZoneAuditLog(zoneId, AUDIT_LOG_MAX_LIMIT, offset);
+      if (result.error) {
+        setError(result.error);
+        setIsExporting(false);
+        return;
+      }
+      all.push(...result.data.entries);
+      offset += result.data.entries.length;
+      more = result.data.hasMore && result.data.entries.length > 0;
+    }
+    setIsExporting(false);
+
+    const csv = auditLogToCsv(filterAuditLog(all, filters, userNames), userNames);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${zoneName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const updateFilters = (changes: Partial<AuditLogFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const selectClass = 'px-2 py-1 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+
+  return (
+    <Dialog open={true} onClose={onClose} className="fixed inset-0 z-[60] flex items-center justify-center">
+      <div className="fixed inset-0 bg-black/40" aria-hidden="true" />
+      <Dialog.Panel className="relative bg-white dark:bg-[#0f0f0f] rounded-xl shadow-xl max-w-3xl w-full mx-4 p-6 z-10 max-h-[85vh] flex flex-col border border-gray-200 dark:border-gray-800">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white">
+              {zoneName} History
+            </Dialog.Title>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Every arm-state change for this zone, newest first.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilters({ action: e.target.value as AuditLogFilters['action'] })}
+            className={selectClass}
+          >
+            <option value="all">All actions</option>
+            {AUDIT_LOG_ACTIONS.map(action => (
+              <option key={action} value={action}>{AUDIT_LOG_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <select
+            value={filters.source}
+            onChange={(e) => updateFilters({ source: e.target.value as AuditLogSource | 'all' })}
+            className={selectClass}
+          >
+            <option value="all">All sources</option>
+            {AUDIT_LOG_SOURCES.map(source => (
+              <option key={source} value={source}>{AUDIT_LOG_SOURCE_LABELS[source]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilters({ from: e.target.value })}
+            className={selectClass}
+            aria-label="From"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilters({ to: e.target.value })}
+            className={selectClass}
+            aria-label="To"
+          />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => updateFilters({ search: e.target.value })}
+            placeholder="Search actor or reason"
+            className={`${selectClass} flex-1 min-w-[10rem]`}
+          />
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-3 py-1 bg-[#22c55f] hover:bg-[#16a34a] text-white rounded text-sm font-medium disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-rose-600 dark:text-rose-400 mb-3">{error}</p>}
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto border border-gray-200 dark:border-gray-800 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-[#161c25] text-left text-xs text-gray-600 dark:text-gray-400">
+              <tr>
+                <th className="px-3 py-2 font-medium">When</th>
+                <th className="px-3 py-2 font-medium">Action</th>
+                <th className="px-3 py-2 font-medium">Actor</th>
+                <th className="px-3 py-2 font-medium">Source</th>
+                <th className="px-3 py-2 font-medium">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+              {visibleEntries.map(entry => (
+                <tr key={entry.id} className="text-gray-900 dark:text-white">
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600 dark:text-gray-400">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[entry.action] || ''}`}>
+                      {AUDIT_LOG_ACTION_LABELS[entry.action] || entry.action}
+                    </span>
+                    {entry.previousState && entry.newState && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        {entry.previousState} → {entry.newState}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">{getAuditLogActor(entry, userNames)}</td>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{AUDIT_LOG_SOURCE_LABELS[getAuditLogSource(entry)]}</td>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-400">{entry.reason || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!isLoading && visibleEntries.length === 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 text-center py-6">
+              {entries.length === 0 ? 'No changes recorded for this zone yet.' : 'No entries match these filters.'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between mt-3 text-xs text-gray-600 dark:text-gray-400">
+          <span>
+            Showing {visibleEntries.length} of {entries.length} loaded
+          </span>
+          {isLoading ? (
+            <span>Loading...</span>
+          ) : hasMore && (
+            <button
+              onClick={() => loadPage(entries.length)}
+              className="font-medium text-[#22c55f] hover:text-[#16a34a]"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      </Dialog.Panel>
+    </Dialog>
+  );
+}
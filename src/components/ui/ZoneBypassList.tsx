@@ -0,0 +1,29 @@
+import React from 'react';
+import type { AlarmZone, Device } from '@/lib/api';
+import { BYPASS_LIMITATION_NOTICE } from '@/lib/zoneBypass';
+
+interface ZoneBypassListProps {
+  zone: AlarmZone;
+  devices: Device[];
+  compact?: boolean;
+}
+
+// Lists the devices bypassed for an armed zone's current arming cycle. They are
+// still monitored, so the list says so.
+export function ZoneBypassList({ zone, devices, compact = false }: ZoneBypassListProps) {
+  const bypassed = zone.bypassedDeviceIds || [];
+  if (zone.armedState === 'DISARMED' || bypassed.length === 0) {
+    return null;
+  }
+
+  const names = bypassed.map(id => devices.find(d => d.id === id)?.name || id);
+
+  return (
+    <span
+      className={`${compact ? 'mt-0.5 text-[11px]' : 'mt-1 text-xs'} text-amber-600 dark:text-amber-400`}
+      title={BYPASS_LIMITATION_NOTICE}
+    >
+      <span className="font-medium">Bypassed (still monitored):</span> {names.join(', ')}
+    </span>
+  );
+}
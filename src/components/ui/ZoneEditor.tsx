@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { Dialog } from '@headlessui/react';
+import { AlarmZone, Device, Space, ZoneTriggerBehavior } from '@/lib/api';
+import {
+  ZoneDraft,
+  ZONE_COLORS,
+  ZONE_TRIGGER_BEHAVIORS,
+  ZONE_TRIGGER_BEHAVIOR_LABELS,
+  createZoneDraft,
+  findZoneConflicts,
+  validateZoneDraft
+} from '@/lib/zoneEditor';
+
+interface ZoneEditorProps {
+  // null to create a new zone
+  zone: AlarmZone | null;
+  alarmZones: AlarmZone[];
+  spaces: Space[];
+  devices: Device[];
+  onSave: (draft: ZoneDraft) => Promise<string | null>;
+  onDelete: (zoneId: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+export function ZoneEditor({ zone, alarmZones, spaces, devices, onSave, onDelete, onClose }: ZoneEditorProps) {
+  const [draft, setDraft] = useState<ZoneDraft>(() => createZoneDraft(zone, alarmZones.length));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const errors = useMemo(() => validateZoneDraft(draft, alarmZones, devices), [draft, alarmZones, devices]);
+  const conflictZoneByDevice = useMemo(
+    () => Object.fromEntries(
+      findZoneConflicts({ ...draft, deviceIds: devices.map(d => d.id) }, alarmZones, devices)
+        .map(conflict => [conflict.deviceId, conflict.zoneName])
+    ),
+    [draft, alarmZones, devices]
+  );
+
+  // Devices grouped by space, with anything outside the location's spaces last
+  const groups = useMemo(() => {
+    const bySpace = spaces
+      .map(space => ({ id: space.id, name: space.name, devices: devices.filter(d => d.spaceId === space.id) }))
+      .filter(group => group.devices.length > 0);
+    const spaceIds = new Set(spaces.map(space => space.id));
+    const other = devices.filter(d => !d.spaceId || !spaceIds.has(d.spaceId));
+    return other.length > 0 ? [...bySpace, { id: 'other', name: 'Other devices', devices: other }] : bySpace;
+  }, [spaces, devices]);
+
+  const update = (changes: Partial<ZoneDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const toggleDevice = (deviceId: string) => {
+    update({
+      deviceIds: draft.deviceIds.includes(deviceId)
+        ? draft.deviceIds.filter(id => id !== deviceId)
+        : [...draft.deviceIds, deviceId]
+    });
+  };
+
+  // Select or clear every device in a space that isn't already in another zone
+  const toggleSpace = (spaceDevices: Device[]) => {
+    const available = spaceDevices.filter(d => !conflictZoneByDevice[d.id]).map(d => d.id);
+    const allSelected = available.every(id => draft.deviceIds.includes(id));
+    update({
+      deviceIds: allSelected
+        ? draft.deviceIds.filter(id => !available.includes(id))
+        : Array.from(new Set([...draft.deviceIds, ...available]))
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const result = await onSave(draft);
+    setIsSaving(false);
+    if (result) {
+      setError(result);
+      return;
+    }
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!zone || !confirm(`Delete "${zone.name}"? Its devices will no longer be part of any zone.`)) return;
+    setIsSaving(true);
+    setError(null);
+    const result = await onDelete(zone.id);
+    setIsSaving(false);
+    if (result) {
+      setError(result);
+      return;
+    }
+    onClose();
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-100 dark:bg-[#161c25] border border-gray-300 dark:border-gray-800 rounded text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-[#22c55f]';
+
+  return (
+    <Dialog open={true} onClose={onClose} className="fixed inset-0 z-[60] flex items-center justify-center">
+      <div className="fixed inset-0 bg-black/40" aria-hidden="true" />
+      <Dialog.Panel className="relative bg-white dark:bg-[#0f0f0f] rounded-xl shadow-xl max-w-2xl w-full mx-4 p-6 z-10 max-h-[85vh] overflow-y-auto border border-gray-200 dark:border-gray-800">
+        <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+          {zone ? `Edit ${zone.name}` : 'New Zone'}
+        </Dialog.Title>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-3">
+            <label className="flex-1 text-sm text-gray-600 dark:text-gray-400">
+              Name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="Perimeter"
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+            <div className="flex gap-1 pb-2">
+              {ZONE_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => update({ color })}
+                  className={`w-6 h-6 rounded-full border-2 ${draft.color === color ? 'border-gray-900 dark:border-white' : 'border-transparent'}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={`Colour ${color}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          <label className="block text-sm text-gray-600 dark:text-gray-400">
+            Description
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <label className="block text-sm text-gray-600 dark:text-gray-400">
+            Trigger behaviour
+            <select
+              value={draft.triggerBehavior}
+              onChange={(e) => update({ triggerBehavior: e.target.value as ZoneTriggerBehavior })}
+              className={`${inputClass} mt-1`}
+            >
+              {ZONE_TRIGGER_BEHAVIORS.map(behavior => (
+                <option key={behavior} value={behavior}>{ZONE_TRIGGER_BEHAVIOR_LABELS[behavior]}</option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+              Devices <span className="text-xs font-normal text-gray-500 dark:text-gray-400">({draft.deviceIds.length} selected)</span>
+            </p>
+            <div className="space-y-3">
+              {groups.map(group => (
+                <div key={group.id} className="border border-gray-200 dark:border-gray-800 rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">{group.name}</p>
+                    <button
+                      onClick={() => toggleSpace(group.devices)}
+                      className="text-xs font-medium text-[#22c55f] hover:text-[#16a34a]"
+                    >
+                      Toggle all
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {group.devices.map(device => {
+                      const otherZone = conflictZoneByDevice[device.id];
+                      return (
+                        <label key={device.id} className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                          <input
+                            type="checkbox"
+                            checked={draft.deviceIds.includes(device.id)}
+                            onChange={() => toggleDevice(device.id)}
+                            className="accent-[#22c55f]"
+                          />
+                          <span className="truncate">{device.name}</span>
+                          {otherZone && (
+                            <span className="text-xs text-amber-600 dark:text-amber-400 flex-shrink-0">in {otherZone}</span>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              {groups.length === 0 && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">No devices at this location.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {(errors.length > 0 || error) && (
+          <ul className="mt-4 space-y-1 text-sm text-rose-600 dark:text-rose-400">
+            {error && <li>{error}</li>}
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2 mt-6">
+          {zone && (
+            <button
+              onClick={handleDelete}
+              disabled={isSaving}
+              className="px-4 py-2 text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
+          <div className="flex-1" />
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-100 dark:bg-[#161c25] text-gray-900 dark:text-white rounded-lg text-sm font-medium hover:bg-gray-200 dark:hover:bg-gray-800"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || errors.length > 0}
+            className="px-4 py-2 bg-[#22c55f] hover:bg-[#16a34a] text-white rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Zone'}
+          </button>
+        </div>
+      </Dialog.Panel>
+    </Dialog>
+  );
+}
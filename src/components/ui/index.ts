@@ -4,4 +4,27 @@ export { ZoneStatus } from './ZoneStatus';
 export { Clock } from './Clock';
 export { IconPicker } from './IconPicker';
 export { ProcessingOverlay } from './ProcessingOverlay';
+export { ArmingDelayOverlay } from './ArmingDelayOverlay';
+export { LockoutScreen } from './LockoutScreen';
+export { SessionTimeoutWarning } from './SessionTimeoutWarning';
+export { SessionSettings } from './SessionSettings';
+export { UserRoleSettings } from './UserRoleSettings';
+export { ScheduledArmBanner } from './ScheduledArmBanner';
+export { ArmingScheduleSettings } from './ArmingScheduleSettings';
+export { DuressPinSettings } from './DuressPinSettings';
+export { ZoneArmingIssues } from './ZoneArmingIssues';
+export { ZoneBypassList } from './ZoneBypassList';
+export { ArmReadinessDialog } from './ArmReadinessDialog';
+export { PanicButtons } from './PanicButtons';
+export { AlarmTakeover } from './AlarmTakeover';
+export { ChimeNotice } from './ChimeNotice';
+export { ZoneAuditLog } from './ZoneAuditLog';
+export { ZoneEditor } from './ZoneEditor';
+export { LocationSettings } from './LocationSettings';
+export { SpaceSettings } from './SpaceSettings';
+export { LocationOverviewCard } from './LocationOverviewCard';
+export { LocationTree } from './LocationTree';
+export { CascadeArmDialog } from './CascadeArmDialog';
+export { PendingCommands } from './PendingCommands';
+export { ArmModeSelector, PinScreenArmMode, armModeLabel } from './ArmModeSelector';
 export { WeatherWidget } from './WeatherWidget'; 
\ No newline at end of file
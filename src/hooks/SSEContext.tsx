@@ -31,6 +31,7 @@ interface SSEContextValue {
   isLoading: ReturnType<typeof useSSE>['isLoading'];
   connectSSE: ReturnType<typeof useSSE>['connectSSE'];
   cleanupOldEvents: ReturnType<typeof useSSE>['cleanupOldEvents'];
+  subscribe: ReturnType<typeof useSSE>['subscribe'];
 }
 
 const SSEContext = createContext<SSEContextValue | undefined>(undefined);
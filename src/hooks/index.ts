@@ -5,6 +5,11 @@ export { useWeather } from './useWeather';
 export { useTheme } from './useTheme';
 export { useSystemHealth } from './useSystemHealth';
 export { useServiceWorker } from './useServiceWorker';
+export { useArmingDelay } from './useArmingDelay';
+export { useSessionManager } from './useSessionManager';
+export { useArmingSchedule } from './useArmingSchedule';
+export { useChime } from './useChime';
+export { useCommandQueue } from './useCommandQueue';
 
 // Export types from lib/api instead of local hooks
 export type { Space, Device, Camera, AlarmZone, ZoneWithDevices, EventFilterSettings } from '@/lib/api'; 
\ No newline at end of file
@@ -1,10 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useSSEContext } from '@/hooks/SSEContext';
+import type { SSEEventDisplay } from '@/hooks/useSSE';
+import { useArmingDelay } from '@/hooks/useArmingDelay';
 import { 
   validatePin, 
   getApiKeyDetails, 
   Space, 
   Device, 
+  Location,
   Organization, 
   Camera, 
   AlarmZone, 
@@ -14,9 +17,16 @@ import {
   armDevices,
   disarmDevices,
   getAlarmZones,
+  setAlarmZoneArmState,
   getCameras,
   saveUserPreferences,
-  loadUserPreferences
+  loadUserPreferences,
+  acknowledgeAlarm as apiAcknowledgeAlarm,
+  createAlarmZone,
+  updateAlarmZone,
+  deleteAlarmZone,
+  assignAlarmZoneDevices,
+  removeAlarmZoneDevices
 } from '@/lib/api';
 import { logger } from '@/lib/logger';
 import { analytics } from '@/lib/analytics';
@@ -32,12 +42,42 @@ import {
   clearCache,
   SmartPoller 
 } from '@/lib/api-optimized';
+import {
+  applyZoneSettings,
+  getZoneDelays,
+  saveZoneDelays,
+  getZoneActiveArmMode,
+  getZoneDefaultArmMode,
+  getSpaceArmMode,
+  saveZoneDefaultArmMode,
+  getZoneReadinessRules,
+  saveZoneReadinessRules,
+  saveZoneColor,
+  removeZoneSettings,
+  ZoneDelaySettings,
+  ZoneArmMode
+} from '@/lib/zoneSettings';
+import { getEntryZone, getNewEntryEvents, getZoneToTrigger } from '@/lib/entryDelay';
+import { getKeypadUserToken } from '@/lib/keypadSession';
+import { setZoneArmState, fromApiArmedState, ZoneArmingResult, ZoneDeviceIssue } from '@/lib/zoneArming';
+import { evaluateReadiness, verdictWithBypasses, ReadinessBypass, ReadinessFinding, ReadinessReport, ZoneReadinessRules } from '@/lib/readiness';
+import { KeypadRole, hasPermission, canSetZoneState } from '@/lib/permissions';
+import { describeAlarmTrigger, AlarmAcknowledgementReason, AlarmTriggerSource } from '@/lib/alarmTrigger';
+import { getLiveStateChanges, reconcileLiveEvent, liveStateKey, LiveEvent, LiveState, LiveStateVersions } from '@/lib/liveState';
+import { ZoneDraft, getZoneDeviceChanges, validateZoneDraft } from '@/lib/zoneEditor';
+
+// Zone states the keypad can request
+type ZoneTargetState = 'DISARMED' | ZoneArmMode;
+
+const resolveArmMode = (zone: AlarmZone, mode?: ZoneArmMode): ZoneArmMode =>
+  mode ?? zone.defaultArmMode ?? getZoneDefaultArmMode(zone.id);
 
 // API keys from environment variables
 const DEFAULT_API_KEY = process.env.NEXT_PUBLIC_FUSION_API_KEY || '';
 const DEFAULT_WEATHER_API_KEY = process.env.NEXT_PUBLIC_WEATHER_API_KEY || '';
 
-export function useAlarmKeypad() {
+// userRole is the role of whoever entered the PIN, or null while nobody is signed in
+export function useAlarmKeypad(userRole: KeypadRole | null = null) {
   // Core state
   const [apiKey, setApiKey] = useState('');
   const [error, setError] = useState('');
@@ -90,13 +130,29 @@ export function useAlarmKeypad() {
   }, [showLiveEvents]);
 
   // Device and space state
-  const [deviceWarnings, setDeviceWarnings] = useState<string[]>([]);
   const [pendingSpaceToggle, setPendingSpaceToggle] = useState<{ space: Space, newState: string } | null>(null);
-  const [pendingToggleAll, setPendingToggleAll] = useState<string | null>(null);
-  const [spaceWarnings, setSpaceWarnings] = useState<Record<string, string[]>>({});
+  const [spaceWarnings, setSpaceWarnings] = useState<Record<string, ReadinessFinding[]>>({});
 
   // Alarm zones (now fetched from Fusion API)
   const [alarmZones, setAlarmZones] = useState<AlarmZone[]>([]);
+  // Devices that failed or did not confirm the last arm/disarm, keyed by zone ID
+  const [zoneArmingIssues, setZoneArmingIssues] = useState<Record<string, ZoneDeviceIssue[]>>({});
+  // Arming that is waiting on the readiness report: the user confirms warnings
+  // and picks which faulted devices to bypass
+  const [pendingReadiness, setPendingReadiness] = useState<{
+    label: string;
+    zones: AlarmZone[];
+    targets: Record<string, ZoneTargetState>;
+    report: ReadinessReport;
+  } | null>(null);
+  // What set off each triggered zone, when the keypad saw it happen
+  const [alarmTriggerSources, setAlarmTriggerSources] = useState<Record<string, AlarmTriggerSource>>({});
+  // Latest devices and zones for live event handling, and when each field was last set
+  const liveStateRef = useRef<LiveState>({ devices: [], alarmZones: [] });
+  const liveVersionsRef = useRef<LiveStateVersions>({});
+  liveStateRef.current = { devices, alarmZones };
+  // Stay/away picked on the PIN screen, applied to every zone once the PIN is accepted
+  const [queuedArmMode, setQueuedArmMode] = useState<ZoneArmMode | null>(null);
 
   // Service Worker state
   const [isCheckingForUpdate, setIsCheckingForUpdate] = useState(false);
@@ -108,79 +164,13 @@ export function useAlarmKeypad() {
   const [lastHeartbeat, setLastHeartbeat] = useState<number>(Date.now());
   const [offlineDevices, setOfflineDevices] = useState<string[]>([]);
 
-  // Listen for alarm zone state changes from SSE
-  useEffect(() => {
-    const handleAlarmZoneStateChange = (event: any) => {
-      const { type, category, deviceName, spaceName, displayState } = event.detail;
-      
-      console.log('🔒 Alarm Zone State Change Handler:', {
-        type,
-        category,
-        deviceName,
-        spaceName,
-        displayState
-      });
-      
-      // Try to update specific zones more efficiently
-      if (deviceName) {
-        // Find which alarm zone contains this device
-        const affectedZones = alarmZones.filter(zone => 
-          zone.deviceIds?.some(deviceId => 
-            devices.find(device => device.id === deviceId && device.name === deviceName)
-          )
-        );
-        
-        if (affectedZones.length > 0) {
-          console.log('🔒 Found affected alarm zones:', affectedZones.map(z => z.name));
-          
-          // Update device state in local state
-          setDevices(prev => prev.map(device => {
-            if (device.name === deviceName) {
-              const newArmedState = type?.toLowerCase().includes('disarm') ? 'DISARMED' : 
-                                   type?.toLowerCase().includes('arm') ? 'ARMED_AWAY' : 
-                                   device.armedState;
-              return { ...device, armedState: newArmedState };
-            }
-            return device;
-          }));
-          
-          // Update alarm zone states based on their device states
-          setAlarmZones(prev => prev.map(zone => {
-            if (affectedZones.some(az => az.id === zone.id)) {
-              const zoneDevices = devices.filter(device => 
-                zone.deviceIds?.includes(device.id)
-              );
-              const armedDevices = zoneDevices.filter(d => d.armedState !== 'DISARMED');
-              const newZoneState = armedDevices.length > 0 ? 'ARMED_AWAY' : 'DISARMED';
-              
-              return { ...zone, armedState: newZoneState };
-            }
-            return zone;
-          }));
-          
-          return; // Skip full refresh if we handled it locally
-        }
-      }
-      
-      // Fallback: refresh all alarm zones if we can't handle it locally
-      if (selectedLocation) {
-        console.log('🔒 Fallback: Refreshing all alarm zones from API');
-        loadAlarmZones(selectedLocation);
-      }
-    };
-
-    if (typeof window !== 'undefined') {
-      window.addEventListener('alarmZoneStateChange', handleAlarmZoneStateChange);
-      
-      return () => {
-        window.removeEventListener('alarmZoneStateChange', handleAlarmZoneStateChange);
-      };
-    }
-  }, [selectedLocation, alarmZones, devices]);
-
   // SSE context for real-time space and device updates
   const sseCtx = useSSEContext();
 
+  // Exit/entry delay countdowns
+  const armingDelay = useArmingDelay();
+  const lastEntryEventIdRef = useRef<string | null>(null);
+
   // Load organization and locations
   const loadOrganizationAndLocations = async (savedLocation: string | null) => {
     console.log('🏢 Loading organization and locations...');
@@ -370,12 +360,13 @@ export function useAlarmKeypad() {
       }
 
       // Transform API response to include legacy fields for backwards compatibility
-      const transformedZones: AlarmZone[] = response.data.map(zone => ({
+      const transformedZones: AlarmZone[] = applyZoneSettings(response.data.map(zone => ({
         ...zone,
+        armedState: fromApiArmedState(zone.armedState, getZoneActiveArmMode(zone.id)),
         devices: [], // Will be populated when devices are loaded
         color: getZoneColor(zone.name), // Assign colors based on zone name
         isActive: true
-      }));
+      })));
 
       setAlarmZones(transformedZones);
       console.log('🔒 Successfully loaded', transformedZones.length, 'alarm zones:');
@@ -516,36 +507,48 @@ export function useAlarmKeypad() {
     loadEventFilterSettings();
   }, [organization?.id, selectedLocation?.id]);
 
-  // SSE event handlers for real-time updates
-  useEffect(() => {
-    if (!sseCtx) return;
-
-    const handleSpaceStateChange = (data: any) => {
-      // Update device state when space state changes
-      if (data.spaceId) {
-        setDevices(prev => prev.map(device => 
-          device.spaceId === data.spaceId 
-            ? { ...device, armedState: data.armedState }
-            : device
-        ));
+  // Keep devices and alarm zones in step with live events, so a change made at
+  // another keypad shows up here without waiting for the pollers
+  const applyLiveEvent = (event: LiveEvent & { isAlarmZoneEvent?: boolean }) => {
+    const current = { devices: liveStateRef.current.devices, alarmZones: liveStateRef.current.alarmZones };
+    if (getLiveStateChanges(event, current.devices, current.alarmZones).length === 0) {
+      // An arm change we can't place: fall back to reloading the zones
+      if (event.isAlarmZoneEvent && selectedLocation) {
+        loadAlarmZones(selectedLocation);
       }
-    };
+      return;
+    }
 
-    const handleDeviceStateChange = (data: any) => {
-      // Update specific device state
-      if (data.deviceId) {
-        setDevices(prev => prev.map(device => 
-          device.id === data.deviceId 
-            ? { ...device, armedState: data.armedState, status: data.status }
-            : device
-        ));
-      }
-    };
+    const result = reconcileLiveEvent(current, event, liveVersionsRef.current);
+    liveVersionsRef.current = result.versions;
+    if (!result.changed) return;
 
-    // TODO: Set up SSE listeners when SSE context is properly implemented
-    // This will be updated when we implement the SSE integration
-    
-  }, [sseCtx]);
+    liveStateRef.current = result.state;
+    setDevices(result.state.devices);
+    setAlarmZones(result.state.alarmZones);
+  };
+  // Subscriptions call through this so they always see the current location
+  const applyLiveEventRef = useRef(applyLiveEvent);
+  applyLiveEventRef.current = applyLiveEvent;
+
+  const subscribeLive = sseCtx?.subscribe;
+  const selectedLocationId = selectedLocation?.id;
+  useEffect(() => {
+    if (!subscribeLive) return;
+    // Resubscribed on every location change; versions from the last one mean nothing here
+    liveVersionsRef.current = {};
+
+    const handleLiveEvent = (event: LiveEvent & { isAlarmZoneEvent?: boolean }) => applyLiveEventRef.current(event);
+    // alarmZoneStateChange is still dispatched by the console test helpers in lib/utils
+    const handleWindowEvent = (event: Event) => handleLiveEvent((event as CustomEvent).detail);
+    window.addEventListener('alarmZoneStateChange', handleWindowEvent);
+    const unsubscribe = subscribeLive(handleLiveEvent);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('alarmZoneStateChange', handleWindowEvent);
+    };
+  }, [subscribeLive, selectedLocationId]);
 
   // Handle location selection
   const handleLocationSelect = (location: any) => {
@@ -651,44 +654,15 @@ export function useAlarmKeypad() {
     });
   };
 
-  // Check device status
+  // Readiness findings for the devices in the given spaces
   const checkDeviceStatus = (spacesToCheck: Space | Space[]) => {
     const spacesArray = Array.isArray(spacesToCheck) ? spacesToCheck : [spacesToCheck];
-    const warnings: string[] = [];
-    
-    spacesArray.forEach(space => {
-      // Filter devices by space ID
-      const spaceDevices = devices.filter(device => device.spaceId === space.id);
-      if (!spaceDevices || spaceDevices.length === 0) {
-        warnings.push(`${space.name}: No devices found`);
-        return;
-      }
-      
-      spaceDevices.forEach((device: Device) => {
-        const type = device.type.toLowerCase();
-        const deviceType = device.deviceTypeInfo?.type?.toLowerCase() || '';
-        const status = device.status?.toLowerCase() || '';
-        const displayState = device.displayState?.toLowerCase() || '';
-        
-        // Check for offline devices
-        if (status === 'offline' || displayState === 'offline') {
-          warnings.push(`${space.name} - ${device.name}: Device offline`);
-        }
-        
-        // Check for low battery on keypads
-        if ((type === 'keypad' || deviceType === 'keypad') && 
-            displayState === 'low battery') {
-          warnings.push(`${space.name} - ${device.name}: Low battery`);
-        }
-        
-        // Check for tamper alerts
-        if (displayState === 'tamper' || displayState === 'tampered') {
-          warnings.push(`${space.name} - ${device.name}: Tamper detected`);
-        }
-      });
-    });
-    
-    return warnings;
+    const targets = spacesArray.map(space => ({
+      id: space.id,
+      name: space.name,
+      deviceIds: devices.filter(device => device.spaceId === space.id).map(device => device.id)
+    }));
+    return evaluateReadiness(targets, devices).findings;
   };
 
   // Handle space toggle
@@ -703,8 +677,9 @@ export function useAlarmKeypad() {
     }
     
     // Determine new state based on current device states
+    const deviceIds = spaceDevices.map(device => device.id);
     const armedDevices = spaceDevices.filter(device => device.armedState && device.armedState !== 'DISARMED');
-    const newState = armedDevices.length > 0 ? 'DISARMED' : 'ARMED_AWAY';
+    const newState = armedDevices.length > 0 ? 'DISARMED' : getSpaceArmMode(deviceIds, alarmZones);
     const warnings = checkDeviceStatus(space);
     
     if (warnings.length > 0 && !skipConfirmation) {
@@ -719,13 +694,12 @@ export function useAlarmKeypad() {
     
     try {
       // Update all devices in the space
-      const deviceIds = spaceDevices.map(device => device.id);
       let result;
       
       if (newState === 'DISARMED') {
-        result = await disarmDevices(deviceIds);
+        result = await disarmDevices(deviceIds, `Disarm ${space.name}`);
       } else {
-        result = await armDevices(deviceIds, 'ARMED_AWAY');
+        result = await armDevices(deviceIds, newState, `Arm ${space.name}${newState === 'ARMED_STAY' ? ' (stay)' : ''}`);
       }
       
       const duration = performance.now() - startTime;
@@ -779,46 +753,89 @@ export function useAlarmKeypad() {
     }
   };
 
-  // Handle toggle all spaces
-  const handleToggleAll = async (skipConfirmation = false) => {
-    if (isProcessing || spaces.length === 0) return;
-    
-    // Check if any devices in any space are armed
-    const allDevices = devices;
-    const armedDevices = allDevices.filter(d => d.armedState !== 'DISARMED');
-    const newState = armedDevices.length > 0 ? 'DISARMED' : 'ARMED_AWAY';
-    
-    const allWarnings = spaces.flatMap(space => checkDeviceStatus(space));
-    
-    if (allWarnings.length > 0 && !skipConfirmation) {
-      setDeviceWarnings(allWarnings);
-      setPendingToggleAll(newState);
-      setShowWarningConfirm(true);
+  // Handle toggle all zones: disarm everything if any zone is armed, otherwise arm everything
+  const handleToggleAll = async (mode?: ZoneArmMode) => {
+    if (isProcessing || alarmZones.length === 0) return;
+
+    if (alarmZones.some(z => z.armedState !== 'DISARMED')) {
+      if (!canSetZoneState(userRole, 'DISARMED')) {
+        setError('You do not have permission to disarm');
+        return;
+      }
+      await armAllZones(Object.fromEntries(alarmZones.map(z => [z.id, 'DISARMED' as const])));
       return;
     }
-    
+
+    await handleArmAll(mode);
+  };
+
+  // Arm every disarmed zone, in the given mode or each zone's default
+  const handleArmAll = async (mode?: ZoneArmMode) => {
+    const zonesToArm = alarmZones.filter(z => z.armedState === 'DISARMED');
+    if (isProcessing || zonesToArm.length === 0) return;
+    if (!hasPermission(userRole, 'zones.arm')) {
+      setError('You do not have permission to arm');
+      return;
+    }
+
+    const targets: Record<string, ZoneTargetState> = Object.fromEntries(
+      zonesToArm.map(z => [z.id, resolveArmMode(z, mode)])
+    );
+
+    const report = evaluateReadiness(zonesToArm, devices, getZoneReadinessRules);
+    if (report.verdict !== 'ready') {
+      setPendingReadiness({ label: 'All Zones', zones: zonesToArm, targets, report });
+      return;
+    }
+
+    await armAllZones(targets);
+  };
+
+  // Arming away waits out the longest exit delay of the zones being armed away
+  const armAllZones = async (targets: Record<string, ZoneTargetState>, bypassByZone: Record<string, string[]> = {}) => {
+    const awayZones = alarmZones.filter(z => targets[z.id] === 'ARMED_AWAY');
+    const exitDelaySeconds = Math.max(0, ...awayZones.map(z => z.exitDelaySeconds ?? getZoneDelays(z.id).exitDelaySeconds));
+    if (exitDelaySeconds > 0) {
+      // The user may be signed out by the time it runs out, so arm as them
+      const userToken = getKeypadUserToken();
+      const started = armingDelay.startExitDelay({
+        label: 'All Zones',
+        zones: awayZones,
+        seconds: exitDelaySeconds,
+        onExpire: () => applyToggleAll(targets, bypassByZone, userToken)
+      });
+      if (!started) {
+        setError('Another arming countdown is already running');
+      }
+      return;
+    }
+
+    await applyToggleAll(targets, bypassByZone);
+  };
+
+  // Send the new armed state to every zone
+  const applyToggleAll = async (
+    targets: Record<string, ZoneTargetState>,
+    bypassByZone: Record<string, string[]> = {},
+    userToken?: string | null
+  ) => {
+    // Read the latest state; this may run when an exit delay started earlier runs out
+    const { devices, alarmZones } = liveStateRef.current;
+    const zonesToUpdate = alarmZones.filter(z => targets[z.id]);
+    const newState = Array.from(new Set(Object.values(targets))).join('/');
     setIsProcessing(true);
     const startTime = performance.now();
     
     try {
-      // Update all devices instead of areas
-      const deviceIds = allDevices.map(device => device.id);
-      let result;
-      
-      if (newState === 'DISARMED') {
-        result = await disarmDevices(deviceIds);
-      } else {
-        result = await armDevices(deviceIds, 'ARMED_AWAY');
-      }
-      
+      const results = await Promise.all(
+        zonesToUpdate.map(zone => setZoneArmState(zone, targets[zone.id], devices, bypassByZone[zone.id], userToken))
+      );
+      results.forEach(applyZoneArmingResult);
+
       const duration = performance.now() - startTime;
-      
-      if (result.data.success) {
-        // Update local device states
-        setDevices(prev => prev.map(device => ({ ...device, armedState: newState })));
-        
-        // Update alarm zones
-        setAlarmZones(prev => prev.map(zone => ({ ...zone, armedState: newState })));
+      const failedZones = results.filter(r => !r.success);
+      if (failedZones.length > 0) {
+        setError(failedZones.map(r => r.error || `Failed to ${newState.toLowerCase()} ${r.zoneName}`).join('; '));
       }
       
       analytics.track({
@@ -827,8 +844,8 @@ export function useAlarmKeypad() {
         label: newState,
         properties: {
           newState,
-          totalSpaces: spaces.length,
-          totalDevices: deviceIds.length,
+          totalZones: zonesToUpdate.length,
+          failedZones: failedZones.length,
           duration: Math.round(duration),
           location: selectedLocation?.name || 'unknown'
         }
@@ -842,7 +859,7 @@ export function useAlarmKeypad() {
     } catch (error) {
       const duration = performance.now() - startTime;
       logger.error('Toggle all error:', error);
-      setError(`Failed to ${newState.toLowerCase()} all devices`);
+      setError(`Failed to ${newState.toLowerCase()} all zones`);
       
       analytics.track({
         action: 'toggle_all_spaces_error',
@@ -862,6 +879,10 @@ export function useAlarmKeypad() {
 
   // Handle API key update
   const handleApiKeyUpdate = async (newKey: string) => {
+    if (!hasPermission(userRole, 'settings.api_key')) {
+      setError('Only admins can change the API key');
+      return;
+    }
     try {
       const apiKeyDetails = await getApiKeyDetails();
       if (!apiKeyDetails.error && apiKeyDetails.data) {
@@ -933,8 +954,76 @@ export function useAlarmKeypad() {
     });
   };
 
-  // Handle zone toggle with proper device management
-  const handleZoneToggle = async (zone: AlarmZone) => {
+  // Apply the outcome of a zone arm/disarm to local state. Only devices that
+  // confirmed are updated; the rest are kept as issues for the UI to list.
+  const applyZoneArmingResult = (result: ZoneArmingResult) => {
+    setZoneArmingIssues(prev => ({ ...prev, [result.zoneId]: result.deviceIssues }));
+
+    // Live events from before this change must not undo it
+    const now = Date.now();
+    liveVersionsRef.current = {
+      ...liveVersionsRef.current,
+      [liveStateKey('zone_armed', result.zoneId)]: now,
+      ...Object.fromEntries(result.confirmedDeviceIds.map(id => [liveStateKey('device_armed', id), now]))
+    };
+
+    if (result.zone) {
+      setAlarmZones(prev => prev.map(z => 
+        z.id === result.zoneId
+          ? { ...z, armedState: result.zone!.armedState, lastArmedStateChangeReason: result.zone!.lastArmedStateChangeReason, bypassedDeviceIds: result.bypassedDeviceIds }
+          : z
+      ));
+    }
+
+    setDevices(prev => prev.map(device => 
+      result.confirmedDeviceIds.includes(device.id)
+        ? { ...device, armedState: result.requestedState }
+        : device
+    ));
+  };
+
+  // Arm or disarm a zone through the zone-level endpoint and record the outcome
+  const applyZoneState = async (
+    zone: AlarmZone,
+    newState: ZoneTargetState,
+    bypassDeviceIds: string[] = [],
+    userToken?: string | null
+  ) => {
+    // Read the latest state; this may run when an exit delay started earlier runs out
+    const { devices, alarmZones } = liveStateRef.current;
+    setIsProcessing(true);
+    try {
+      const result = await setZoneArmState(alarmZones.find(z => z.id === zone.id) || zone, newState, devices, bypassDeviceIds, userToken);
+      applyZoneArmingResult(result);
+
+      if (result.error) {
+        setError(result.error);
+      }
+
+      analytics.track({
+        action: 'zone_toggle',
+        category: 'security',
+        properties: {
+          zoneId: zone.id,
+          zoneName: zone.name,
+          newState: newState,
+          success: result.success,
+          confirmedCount: result.confirmedDeviceIds.length,
+          issueCount: result.deviceIssues.length,
+          bypassedCount: result.bypassedDeviceIds.length
+        }
+      });
+    } catch (error) {
+      logger.error('Zone toggle error:', error);
+      setError(`Failed to ${newState.toLowerCase()} ${zone.name}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle zone toggle with proper device management. Arms in the given mode,
+  // or the zone's default when none is picked.
+  const handleZoneToggle = async (zone: AlarmZone, mode?: ZoneArmMode) => {
     const zonesWithDevices = getZonesWithDevices();
     const zoneData = zonesWithDevices.find(z => z.id === zone.id);
     
@@ -943,49 +1032,330 @@ export function useAlarmKeypad() {
       return;
     }
     
-    const newState = zoneData.armedCount > 0 ? 'DISARMED' : 'ARMED_AWAY';
-    const deviceIds = zoneData.devices.map(d => d.id);
-    
-    setIsProcessing(true);
-    try {
-      let result;
-      if (newState === 'DISARMED') {
-        result = await disarmDevices(deviceIds);
-      } else {
-        result = await armDevices(deviceIds, 'ARMED_AWAY');
+    const newState: ZoneTargetState = zone.armedState !== 'DISARMED' ? 'DISARMED' : resolveArmMode(zone, mode);
+    if (!canSetZoneState(userRole, newState)) {
+      setError(`You do not have permission to ${newState === 'DISARMED' ? 'disarm' : 'arm'} ${zone.name}`);
+      return;
+    }
+
+    if (newState !== 'DISARMED') {
+      const report = evaluateReadiness([zone], devices, getZoneReadinessRules);
+      if (report.verdict !== 'ready') {
+        setPendingReadiness({ label: zone.name, zones: [zone], targets: { [zone.id]: newState }, report });
+        return;
       }
-      
-      if (result.data.success) {
-        // Update local device states
-        setDevices(prev => prev.map(device => {
-          const isInZone = deviceIds.includes(device.id);
-          return isInZone ? { ...device, armedState: newState } : device;
-        }));
-        
-        // Update alarm zone state
-        setAlarmZones(prev => prev.map(z => 
-          z.id === zone.id ? { ...z, armedState: newState } : z
-        ));
-        
-        analytics.track({
-          action: 'zone_toggle',
-          category: 'security',
-          properties: {
-            zoneId: zone.id,
-            zoneName: zone.name,
-            newState: newState,
-            deviceCount: deviceIds.length
-          }
+    }
+
+    await armZone(zone, newState);
+  };
+
+  // Arming away waits out the exit delay so people can leave; stay arms straight away
+  const armZone = async (zone: AlarmZone, newState: ZoneTargetState, bypassDeviceIds: string[] = []) => {
+    if (newState === 'ARMED_AWAY') {
+      const exitDelaySeconds = zone.exitDelaySeconds ?? getZoneDelays(zone.id).exitDelaySeconds;
+      if (exitDelaySeconds > 0) {
+        // The user may be signed out by the time it runs out, so arm as them
+        const userToken = getKeypadUserToken();
+        const started = armingDelay.startExitDelay({
+          label: zone.name,
+          zones: [zone],
+          seconds: exitDelaySeconds,
+          onExpire: () => applyZoneState(zone, newState, bypassDeviceIds, userToken)
         });
-      } else {
-        setError(`Failed to ${newState.toLowerCase()} ${zone.name}`);
+        if (!started) {
+          setError('Another arming countdown is already running');
+        }
+        return;
       }
-    } catch (error) {
-      logger.error('Zone toggle error:', error);
-      setError(`Failed to ${newState.toLowerCase()} ${zone.name}`);
-    } finally {
-      setIsProcessing(false);
     }
+
+    await applyZoneState(zone, newState, bypassDeviceIds);
+  };
+
+  // Continue a pending arm, bypassing the faulted devices the user picked
+  const confirmReadiness = async (bypassed: ReadinessBypass[]) => {
+    const pending = pendingReadiness;
+    if (!pending || verdictWithBypasses(pending.report, bypassed) === 'blocked') return;
+    setPendingReadiness(null);
+
+    const bypassByZone: Record<string, string[]> = {};
+    bypassed.forEach(bypass => {
+      bypassByZone[bypass.zoneId] = [...(bypassByZone[bypass.zoneId] || []), bypass.deviceId];
+    });
+
+    analytics.track({
+      action: 'zone_bypass_confirmed',
+      category: 'security',
+      label: pending.label,
+      properties: {
+        zones: pending.zones.map(z => z.name),
+        verdict: pending.report.verdict,
+        findings: pending.report.findings.map(f => f.kind),
+        bypassedCount: bypassed.length,
+        location: selectedLocation?.name || 'unknown'
+      }
+    });
+
+    if (pending.zones.length === 1) {
+      const zone = pending.zones[0];
+      await armZone(zone, pending.targets[zone.id], bypassByZone[zone.id] || []);
+    } else {
+      await armAllZones(pending.targets, bypassByZone);
+    }
+  };
+
+  const cancelReadiness = () => setPendingReadiness(null);
+
+  // Mark a zone as triggered once its entry delay runs out
+  const triggerZone = async (zone: AlarmZone, source: AlarmTriggerSource) => {
+    setAlarmTriggerSources(prev => ({ ...prev, [zone.id]: source }));
+
+    const result = await setAlarmZoneArmState(zone.id, 'TRIGGERED', `Trigger alarm in ${zone.name}`);
+    if (result.error) {
+      logger.error('Failed to set zone to triggered:', result.error);
+    }
+
+    setAlarmZones(prev => prev.map(z => 
+      z.id === zone.id ? { ...z, armedState: 'TRIGGERED' } : z
+    ));
+
+    analytics.track({
+      action: 'zone_triggered',
+      category: 'security',
+      label: 'entry_delay_expired',
+      properties: {
+        zoneId: zone.id,
+        zoneName: zone.name,
+        location: selectedLocation?.name || 'unknown'
+      }
+    });
+  };
+
+  // Start the entry delay when a door or contact opens in a zone armed away.
+  // Refreshed every render so it always sees the current zones and devices.
+  const handleEntryEventsRef = useRef<(events: SSEEventDisplay[]) => void>(() => {});
+  handleEntryEventsRef.current = events => {
+    if (events.length === 0) return;
+
+    const freshEvents = getNewEntryEvents(events, lastEntryEventIdRef.current);
+    lastEntryEventIdRef.current = events[0].id;
+
+    freshEvents.forEach(event => {
+      const zone = getEntryZone(event, alarmZones);
+      if (!zone) return;
+
+      // A second entry through the same zone doesn't restart its countdown
+      const runningDelay = armingDelay.activeDelay;
+      if (runningDelay?.kind === 'entry' && runningDelay.zones.some(z => z.id === zone.id)) return;
+
+      const trigger = () => {
+        const current = getZoneToTrigger(zone.id, liveStateRef.current.alarmZones);
+        if (!current) return;
+        return triggerZone(current, {
+          deviceName: event.deviceName || zone.name,
+          timestamp: new Date().toISOString(),
+          imageUrl: event.imageUrl
+        });
+      };
+
+      const entryDelaySeconds = zone.entryDelaySeconds ?? getZoneDelays(zone.id).entryDelaySeconds;
+      logger.info(`Entry detected in ${zone.name} (${event.deviceName}), starting ${entryDelaySeconds}s entry delay`);
+      const started = armingDelay.startEntryDelay({
+        label: zone.name,
+        zones: [zone],
+        seconds: entryDelaySeconds,
+        onExpire: trigger
+      });
+      // Another countdown already has the screen, so there's no time to enter a PIN
+      if (!started) {
+        logger.warn(`Entry in ${zone.name} while another countdown is running; triggering now`);
+        trigger();
+      }
+    });
+  };
+
+  const recentEvents = sseCtx?.recentEvents;
+  useEffect(() => {
+    handleEntryEventsRef.current(recentEvents || []);
+  }, [recentEvents]);
+
+  // PIN entered on the countdown screen: cancel a pending arm, or disarm on entry
+  const handleArmingDelayPin = async (enteredPin: string): Promise<boolean> => {
+    const delay = armingDelay.activeDelay;
+    if (!delay) return true;
+
+    const result = await validatePin(enteredPin);
+    if (result.error || !result.data?.valid) {
+      return false;
+    }
+    // Disarming on entry needs someone allowed to disarm
+    if (delay.kind === 'entry' && !canSetZoneState(result.data.role, 'DISARMED')) {
+      return false;
+    }
+
+    armingDelay.cancelDelay();
+
+    if (delay.kind === 'entry') {
+      for (const zone of delay.zones) {
+        await applyZoneState(zone, 'DISARMED');
+      }
+    }
+
+    analytics.track({
+      action: delay.kind === 'entry' ? 'entry_delay_disarmed' : 'exit_delay_cancelled',
+      category: 'security',
+      label: delay.label,
+      properties: {
+        zones: delay.zones.map(z => z.name),
+        secondsRemaining: delay.secondsRemaining,
+        user: result.data.userName,
+        location: selectedLocation?.name || 'unknown'
+      }
+    });
+
+    return true;
+  };
+
+  // The alarm screen is shown while any zone in the location is triggered
+  const alarmTrigger = useMemo(
+    () => describeAlarmTrigger(alarmZones, devices, cameras, sseCtx?.recentEvents || [], alarmTriggerSources),
+    [alarmZones, devices, cameras, sseCtx?.recentEvents, alarmTriggerSources]
+  );
+
+  // First step of disarming a triggered alarm: check the PIN before asking why.
+  // Resolves to an error message, or null when the PIN can disarm.
+  const verifyAlarmPin = async (enteredPin: string): Promise<string | null> => {
+    const result = await validatePin(enteredPin);
+    if (result.data?.lockedUntil) {
+      return 'Too many failed attempts. Try again later.';
+    }
+    if (result.error || !result.data?.valid) {
+      return 'Invalid PIN';
+    }
+    if (!canSetZoneState(result.data.role, 'DISARMED')) {
+      return 'You do not have permission to disarm';
+    }
+    return null;
+  };
+
+  // Record the acknowledgement reason, then disarm every triggered zone
+  const acknowledgeAlarm = async (reason: AlarmAcknowledgementReason, note: string): Promise<string | null> => {
+    if (!alarmTrigger) return null;
+
+    const result = await apiAcknowledgeAlarm(reason, note, alarmTrigger);
+    if (result.error) {
+      return result.error;
+    }
+
+    const triggeredZones = alarmZones.filter(zone => alarmTrigger.zoneIds.includes(zone.id));
+    for (const zone of triggeredZones) {
+      await applyZoneState(zone, 'DISARMED');
+    }
+    setAlarmTriggerSources({});
+
+    analytics.track({
+      action: 'alarm_acknowledged',
+      category: 'security',
+      label: reason,
+      properties: {
+        zones: alarmTrigger.zoneNames,
+        deviceName: alarmTrigger.deviceName,
+        user: result.data?.userName || 'unknown',
+        location: selectedLocation?.name || 'unknown'
+      }
+    });
+    return null;
+  };
+
+  // Change the mode a zone arms in by default
+  const updateZoneArmMode = (zoneId: string, mode: ZoneArmMode) => {
+    if (!hasPermission(userRole, 'zones.arm')) return;
+    saveZoneDefaultArmMode(zoneId, mode);
+    setAlarmZones(prev => prev.map(z => z.id === zoneId ? { ...z, defaultArmMode: mode } : z));
+  };
+
+  // Change what a zone does about each kind of readiness finding
+  const updateZoneReadinessRules = (zoneId: string, rules: Partial<ZoneReadinessRules>) => {
+    if (!hasPermission(userRole, 'zones.configure')) return;
+    const saved = saveZoneReadinessRules(zoneId, rules);
+    setAlarmZones(prev => prev.map(z => z.id === zoneId ? { ...z, readinessRules: saved } : z));
+  };
+
+  // Update a zone's exit/entry delays
+  const updateZoneDelays = (zoneId: string, delays: Partial<ZoneDelaySettings>) => {
+    if (!hasPermission(userRole, 'zones.configure')) return;
+    const saved = saveZoneDelays(zoneId, delays);
+    setAlarmZones(prev => prev.map(z => z.id === zoneId ? { ...z, ...saved } : z));
+  };
+
+  // Reload spaces and devices after they are edited in settings, picking up any
+  // change to this keypad's own location
+  const refreshLocationData = async (updatedLocation?: Location) => {
+    if (!selectedLocation) return;
+    let location = selectedLocation;
+    if (updatedLocation?.id === selectedLocation.id) {
+      location = { ...selectedLocation, ...updatedLocation };
+      setSelectedLocation(location);
+      localStorage.setItem('fusion_selected_location', JSON.stringify(location));
+    }
+
+    const [spacesResponse, devicesResponse] = await Promise.all([
+      optimizedGetSpaces(location.id),
+      optimizedGetDevices()
+    ]);
+    if (!spacesResponse.error) setSpaces(spacesResponse.data);
+    if (!devicesResponse.error) setDevices(devicesResponse.data);
+  };
+
+  // Create or update a zone from the zone editor; returns an error message or null
+  const saveZone = async (draft: ZoneDraft): Promise<string | null> => {
+    if (!hasPermission(userRole, 'zones.configure')) return 'You do not have permission to manage zones';
+    if (!selectedLocation) return 'Select a location first';
+    const errors = validateZoneDraft(draft, alarmZones, devices);
+    if (errors.length > 0) return errors[0];
+
+    const fields = {
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      triggerBehavior: draft.triggerBehavior
+    };
+    const saved = draft.id
+      ? await updateAlarmZone(draft.id, fields)
+      : await createAlarmZone({ ...fields, locationId: selectedLocation.id });
+    if (saved.error) return saved.error;
+
+    const zoneId = draft.id || saved.data?.id;
+    if (!zoneId) return 'The zone was not saved';
+    saveZoneColor(zoneId, draft.color);
+
+    const current = alarmZones.find(zone => zone.id === zoneId)?.deviceIds || [];
+    const { added, removed } = getZoneDeviceChanges(current, draft.deviceIds);
+    const removal = removed.length > 0 ? await removeAlarmZoneDevices(zoneId, removed) : null;
+    const assignment = added.length > 0 ? await assignAlarmZoneDevices(zoneId, added) : null;
+
+    clearCache(`alarm-zones-${selectedLocation.id}`);
+    await loadAlarmZones(selectedLocation);
+    analytics.track({
+      action: draft.id ? 'zone_updated' : 'zone_created',
+      category: 'settings',
+      label: fields.name,
+      properties: { devicesAdded: added.length, devicesRemoved: removed.length }
+    });
+    return removal?.error || assignment?.error || null;
+  };
+
+  // Delete a zone and what this keypad stored for it
+  const deleteZone = async (zoneId: string): Promise<string | null> => {
+    if (!hasPermission(userRole, 'zones.configure')) return 'You do not have permission to manage zones';
+    const result = await deleteAlarmZone(zoneId);
+    if (result.error) return result.error;
+
+    removeZoneSettings(zoneId);
+    setAlarmZones(prev => prev.filter(zone => zone.id !== zoneId));
+    if (selectedLocation) {
+      clearCache(`alarm-zones-${selectedLocation.id}`);
+    }
+    return null;
   };
 
   return {
@@ -1050,6 +1420,28 @@ export function useAlarmKeypad() {
     setAlarmZones,
     getZonesWithDevices,
     handleZoneToggle,
+    zoneArmingIssues,
+    updateZoneDelays,
+    updateZoneReadinessRules,
+    updateZoneArmMode,
+    saveZone,
+    deleteZone,
+    refreshLocationData,
+    handleArmAll,
+    queuedArmMode,
+    setQueuedArmMode,
+    pendingReadiness,
+    confirmReadiness,
+    cancelReadiness,
+
+    // Exit/entry delays
+    armingDelay: armingDelay.activeDelay,
+    handleArmingDelayPin,
+
+    // Triggered alarm
+    alarmTrigger,
+    verifyAlarmPin,
+    acknowledgeAlarm,
     
     // System health
     systemStatus,
@@ -0,0 +1,85 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AlarmZone } from '@/lib/api';
+import { playDelayBeep } from '@/lib/keypadSounds';
+
+export type ArmingDelayKind = 'exit' | 'entry';
+
+export interface ArmingDelay {
+  kind: ArmingDelayKind;
+  label: string;
+  zones: AlarmZone[];
+  totalSeconds: number;
+  secondsRemaining: number;
+}
+
+interface StartDelayOptions {
+  label: string;
+  zones: AlarmZone[];
+  seconds: number;
+  // Called when the countdown runs out without a PIN being entered
+  onExpire: () => void | Promise<void>;
+}
+
+export function useArmingDelay() {
+  const [activeDelay, setActiveDelay] = useState<ArmingDelay | null>(null);
+  const deadlineRef = useRef<number>(0);
+  const onExpireRef = useRef<(() => void | Promise<void>) | null>(null);
+
+  const startDelay = useCallback((kind: ArmingDelayKind, { label, zones, seconds, onExpire }: StartDelayOptions) => {
+    // Only one countdown can own the screen at a time
+    if (activeDelay) return false;
+
+    if (seconds <= 0) {
+      onExpire();
+      return true;
+    }
+
+    deadlineRef.current = Date.now() + seconds * 1000;
+    onExpireRef.current = onExpire;
+    setActiveDelay({ kind, label, zones, totalSeconds: seconds, secondsRemaining: seconds });
+    playDelayBeep(seconds, kind);
+    return true;
+  }, [activeDelay]);
+
+  const startExitDelay = useCallback((options: StartDelayOptions) => startDelay('exit', options), [startDelay]);
+  const startEntryDelay = useCallback((options: StartDelayOptions) => startDelay('entry', options), [startDelay]);
+
+  // Stop the countdown without running the expiry action
+  const cancelDelay = useCallback(() => {
+    onExpireRef.current = null;
+    setActiveDelay(null);
+  }, []);
+
+  // Tick against a fixed deadline so a throttled timer can't stretch the delay.
+  // A countdown only starts once the last one has ended, so keying on the kind
+  // restarts the ticker for every new one.
+  const runningKind = activeDelay?.kind ?? null;
+  useEffect(() => {
+    if (!runningKind) return;
+
+    const interval = setInterval(() => {
+      const secondsRemaining = Math.max(0, Math.ceil((deadlineRef.current - Date.now()) / 1000));
+
+      if (secondsRemaining === 0) {
+        clearInterval(interval);
+        const onExpire = onExpireRef.current;
+        onExpireRef.current = null;
+        setActiveDelay(null);
+        if (onExpire) onExpire();
+        return;
+      }
+
+      playDelayBeep(secondsRemaining, runningKind);
+      setActiveDelay(prev => prev ? { ...prev, secondsRemaining } : prev);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [runningKind]);
+
+  return {
+    activeDelay,
+    startExitDelay,
+    startEntryDelay,
+    cancelDelay
+  };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArmingScheduleStatus } from '@/lib/armingSchedule';
+import { getArmingScheduleStatus, postponeScheduledArm } from '@/lib/api';
+import { analytics } from '@/lib/analytics';
+
+interface ArmingScheduleOptions {
+  // Only poll while the keypad has a location selected
+  active: boolean;
+  locationId?: string | null;
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+// Poll faster during the pre-arm warning so another keypad's postponement shows up
+const WARNING_POLL_INTERVAL_MS = 15 * 1000;
+
+export function useArmingSchedule({ active, locationId }: ArmingScheduleOptions) {
+  const [status, setStatus] = useState<ArmingScheduleStatus | null>(null);
+
+  const refresh = useCallback(async () => {
+    const result = await getArmingScheduleStatus();
+    if (result.error) {
+      console.warn('Failed to load arming schedule:', result.error);
+      return;
+    }
+    setStatus(result.data);
+  }, []);
+
+  useEffect(() => {
+    if (!active || !locationId) {
+      setStatus(null);
+      return;
+    }
+    refresh();
+  }, [active, locationId, refresh]);
+
+  const isWarning = !!status?.isWarning;
+  useEffect(() => {
+    if (!active || !locationId) return;
+    const interval = setInterval(refresh, isWarning ? WARNING_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, locationId, isWarning, refresh]);
+
+  // Resolves to an error message, or null once the arm has been pushed back
+  const postpone = useCallback(async (pin: string, minutes: number): Promise<string | null> => {
+    const result = await postponeScheduledArm(pin, minutes);
+    if (result.error) {
+      return result.error;
+    }
+    analytics.track({
+      action: 'scheduled_arm_postponed',
+      category: 'security',
+      properties: { minutes }
+    });
+    await refresh();
+    return null;
+  }, [refresh]);
+
+  return { status, refresh, postpone };
+}
@@ -3,17 +3,22 @@ import { validatePin } from '@/lib/api';
 import { logger } from '@/lib/logger';
 import { analytics } from '@/lib/analytics';
 import { performanceMonitor } from '@/lib/performance';
+import { startSession, endSession } from '@/lib/keypadSession';
+import { KeypadRole, DEFAULT_KEYPAD_ROLE } from '@/lib/permissions';
 
 export function useAuthentication() {
   const [pin, setPin] = useState('');
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [authenticatedUser, setAuthenticatedUser] = useState('');
+  const [role, setRole] = useState<KeypadRole | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState('');
+  // Server-enforced lockout after too many wrong PINs
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
 
   // Handle PIN key press
   const handlePinKeyPress = (digit: string) => {
-    if (pin.length < 6 && !isProcessing) {
+    if (pin.length < 6 && !isProcessing && !lockedUntil) {
       setPin(prev => prev + digit);
     }
   };
@@ -31,9 +36,25 @@ export function useAuthentication() {
       const result = await validatePin(pin);
       const duration = performance.now() - startTime;
       
-      if (result.data?.valid) {
+      if (result.data?.lockedUntil) {
+        setLockedUntil(result.data.lockedUntil);
+        setError('Keypad locked');
+        setPin('');
+
+        analytics.track({
+          action: 'pin_lockout',
+          category: 'authentication',
+          label: 'locked',
+          properties: {
+            lockedUntil: result.data.lockedUntil,
+            location: selectedLocation?.name || 'unknown'
+          }
+        });
+      } else if (result.data?.valid) {
+        startSession();
         setIsAuthenticated(true);
         setAuthenticatedUser(result.data?.userName || 'User');
+        setRole(result.data?.role || DEFAULT_KEYPAD_ROLE);
         setPin('');
         
         // Track successful authentication
@@ -44,6 +65,7 @@ export function useAuthentication() {
           value: Math.round(duration),
           properties: {
             duration: Math.round(duration),
+            role: result.data?.role,
             location: selectedLocation?.name || 'unknown'
           }
         });
@@ -54,7 +76,10 @@ export function useAuthentication() {
           rating: duration < 1000 ? 'good' : duration < 3000 ? 'needs-improvement' : 'poor'
         });
       } else {
-        setError('Invalid PIN');
+        const attemptsRemaining = result.data?.attemptsRemaining;
+        setError(attemptsRemaining !== undefined && attemptsRemaining <= 2
+          ? `Invalid PIN (${attemptsRemaining} attempt${attemptsRemaining !== 1 ? 's' : ''} left)`
+          : 'Invalid PIN');
         setPin('');
         
         // Track failed authentication
@@ -93,8 +118,10 @@ export function useAuthentication() {
 
   // Handle logout
   const handleLogout = (selectedLocation?: any) => {
+    endSession();
     setIsAuthenticated(false);
     setAuthenticatedUser('');
+    setRole(null);
     setPin('');
     setError('');
     
@@ -108,6 +135,12 @@ export function useAuthentication() {
     });
   };
 
+  // Lockout countdown finished
+  const clearLockout = () => {
+    setLockedUntil(null);
+    setError('');
+  };
+
   // Clear PIN
   const clearPin = () => {
     setPin('');
@@ -123,8 +156,10 @@ export function useAuthentication() {
     pin,
     isAuthenticated,
     authenticatedUser,
+    role,
     isProcessing,
     error,
+    lockedUntil,
 
     // Actions
     handlePinKeyPress,
@@ -132,6 +167,7 @@ export function useAuthentication() {
     handleLogout,
     clearPin,
     removeLastDigit,
+    clearLockout,
     setPin,
     setError,
   };
@@ -0,0 +1,60 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSSEContext } from '@/hooks/SSEContext';
+import { AlarmZone, Device } from '@/lib/api';
+import { ChimeSettings, CHIME_NOTICE_MS, getChimeDevice, getChimeSettings, saveChimeSettings } from '@/lib/chime';
+import { playChime } from '@/lib/keypadSounds';
+
+interface ChimeOptions {
+  devices: Device[];
+  alarmZones: AlarmZone[];
+}
+
+export interface ChimeNotice {
+  deviceName: string;
+  spaceName: string | null;
+  at: number;
+}
+
+// Chime mode for this keypad: listens to live events and chimes when a door in a
+// chosen space opens while its zone is disarmed
+export function useChime({ devices, alarmZones }: ChimeOptions) {
+  const { subscribe } = useSSEContext();
+  const [settings, setSettings] = useState<ChimeSettings>(getChimeSettings);
+  const [notice, setNotice] = useState<ChimeNotice | null>(null);
+
+  // Latest values for the live event listener
+  const stateRef = useRef({ devices, alarmZones, settings });
+  stateRef.current = { devices, alarmZones, settings };
+
+  // Stored values are only readable once we're in the browser
+  useEffect(() => {
+    setSettings(getChimeSettings());
+  }, []);
+
+  useEffect(() => {
+    return subscribe(event => {
+      const { devices, alarmZones, settings } = stateRef.current;
+      const device = getChimeDevice(event, devices, alarmZones, settings);
+      if (!device) return;
+
+      playChime(settings.sound);
+      setNotice({ deviceName: device.name, spaceName: device.spaceName || event.spaceName || null, at: Date.now() });
+    });
+  }, [subscribe]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), CHIME_NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  const updateSettings = useCallback((changes: Partial<ChimeSettings>) => {
+    setSettings(saveChimeSettings(changes));
+  }, []);
+
+  const toggle = useCallback(() => {
+    setSettings(prev => saveChimeSettings({ enabled: !prev.enabled }));
+  }, []);
+
+  return { settings, updateSettings, toggle, notice };
+}
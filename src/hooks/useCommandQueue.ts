@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSSEContext } from '@/hooks/SSEContext';
+import { getKeypadCommands } from '@/lib/api';
+import {
+  KeypadCommand,
+  KEYPAD_COMMAND_EVENT_TYPE,
+  KEYPAD_COMMAND_SUBMITTED_EVENT,
+  isCommandActive,
+  mergeCommand
+} from '@/lib/keypadCommands';
+
+interface CommandQueueOptions {
+  active: boolean;
+  locationId?: string | null;
+}
+
+// How long a confirmed command stays on screen
+const CONFIRMED_NOTICE_MS = 3000;
+// Backup for a missed live event while anything is still in flight
+const POLL_INTERVAL_MS = 5000;
+
+// Commands this keypad has sent, kept up to date from live events until they are
+// confirmed. Failures and timeouts stay until the user dismisses them.
+export function useCommandQueue({ active, locationId }: CommandQueueOptions) {
+  const { subscribe } = useSSEContext();
+  const [commands, setCommands] = useState<KeypadCommand[]>([]);
+
+  // Commands still in flight when the keypad was reloaded
+  useEffect(() => {
+    if (!active || !locationId) return;
+    let cancelled = false;
+    getKeypadCommands(locationId).then(response => {
+      if (cancelled || response.error) return;
+      setCommands(prev => response.data.filter(isCommandActive).reduce(mergeCommand, prev));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [active, locationId]);
+
+  useEffect(() => {
+    const handleSubmitted = (event: Event) => {
+      const command = (event as CustomEvent<KeypadCommand>).detail;
+      if (command) setCommands(prev => mergeCommand(prev, command));
+    };
+    window.addEventListener(KEYPAD_COMMAND_SUBMITTED_EVENT, handleSubmitted);
+    return () => window.removeEventListener(KEYPAD_COMMAND_SUBMITTED_EVENT, handleSubmitted);
+  }, []);
+
+  // Other keypads' commands come through too; only follow the ones shown here
+  useEffect(() => {
+    return subscribe(event => {
+      if (event.type !== KEYPAD_COMMAND_EVENT_TYPE || !event.command) return;
+      const update = event.command as KeypadCommand;
+      setCommands(prev => (prev.some(command => command.id === update.id) ? mergeCommand(prev, update) : prev));
+    });
+  }, [subscribe]);
+
+  const hasActive = commands.some(isCommandActive);
+  useEffect(() => {
+    if (!active || !hasActive) return;
+    const interval = setInterval(async () => {
+      const response = await getKeypadCommands(locationId || null);
+      if (response.error) return;
+      setCommands(prev => response.data
+        .filter(update => prev.some(command => command.id === update.id))
+        .reduce(mergeCommand, prev));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, hasActive, locationId]);
+
+  const confirmedIds = commands.filter(command => command.status === 'confirmed').map(command => command.id).join(',');
+  useEffect(() => {
+    if (!confirmedIds) return;
+    const ids = confirmedIds.split(',');
+    const timeout = setTimeout(() => {
+      setCommands(prev => prev.filter(command => !ids.includes(command.id)));
+    }, CONFIRMED_NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [confirmedIds]);
+
+  const dismiss = useCallback((commandId: string) => {
+    setCommands(prev => prev.filter(command => command.id !== commandId));
+  }, []);
+
+  return { commands, dismiss };
+}
@@ -4,13 +4,18 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { analytics } from '@/lib/analytics';
 import { logger } from '@/lib/logger';
 import { globalDebugLog } from '@/lib/utils';
+import { getLiveEventsToken, getStoredEvents, getBackgroundService, controlBackgroundService } from '@/lib/api';
 
 // 🔥 FIX: Safe browser-compatible development check
 const isDev = typeof window !== 'undefined' && window.location.hostname === 'localhost';
 
+// Wait before asking for a new live events token after the stream is refused
+const LIVE_RETRY_MS = 5000;
+
 export interface SSEEventDisplay {
   id: string;
   type: string;
+  deviceId?: string;
   deviceName?: string;
   category?: string;
   timestamp?: string;
@@ -32,16 +37,21 @@ export function useSSE() {
   const [backgroundServiceStatus, setBackgroundServiceStatus] = useState<any>(null);
   const loadingRef = useRef(false);
   const liveSSERef = useRef<EventSource | null>(null);
+  // Bumped on every connect and disconnect so a token that arrives late is dropped
+  const liveAttemptRef = useRef(0);
+  const liveRetryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Callbacks that receive every live event as it arrives
+  const liveListenersRef = useRef(new Set<(event: SSEEventDisplay) => void>());
 
   // ✅ SIMPLIFIED: Only check background service status when needed (not continuously)
   const checkBackgroundService = useCallback(async () => {
     try {
       globalDebugLog('🔍 SSE: Checking background service status (one-time)...');
-      const response = await fetch('/api/background-sse');
-      const data = await response.json();
-      setBackgroundServiceStatus(data.status);
-      setIsConnected(data.status?.isRunning || false);
-      globalDebugLog('📊 SSE: Background service status:', data.status);
+      const response = await getBackgroundService();
+      if (response.error) throw new Error(response.error);
+      setBackgroundServiceStatus(response.data.status);
+      setIsConnected(response.data.status?.isRunning || false);
+      globalDebugLog('📊 SSE: Background service status:', response.data.status);
     } catch (error) {
       console.error('❌ Failed to check background service status:', error);
       globalDebugLog('❌ SSE: Failed to check background service status:', error);
@@ -50,17 +60,32 @@ export function useSSE() {
   }, []);
 
   // ✅ NEW: Connect to live events stream for real-time updates
-  const connectToLiveStream = useCallback(() => {
+  const connectToLiveStream = useCallback(async () => {
     if (typeof window === 'undefined') return; // Only in browser
     
     try {
       // Close existing connection
       if (liveSSERef.current) {
         liveSSERef.current.close();
+        liveSSERef.current = null;
+      }
+      if (liveRetryRef.current) {
+        clearTimeout(liveRetryRef.current);
+        liveRetryRef.current = null;
+      }
+      const attempt = ++liveAttemptRef.current;
+
+      // The stream only carries events for the organization named in this token
+      const tokenResponse = await getLiveEventsToken();
+      if (attempt !== liveAttemptRef.current) return;
+      if (tokenResponse.error || !tokenResponse.data) {
+        globalDebugLog('❌ SSE: Could not get a live events token:', tokenResponse.error);
+        liveRetryRef.current = setTimeout(() => connectToLiveStream(), LIVE_RETRY_MS);
+        return;
       }
       
       globalDebugLog('📡 SSE: Connecting to live events stream...');
-      const eventSource = new EventSource('/api/events/live');
+      const eventSource = new EventSource(`/api/events/live?token=${encodeURIComponent(tokenResponse.data.token)}`);
       
       eventSource.onopen = () => {
         globalDebugLog('📡 SSE: Live events stream connected');
@@ -76,38 +101,26 @@ export function useSSE() {
             // Continue processing instead of returning early
           }
           
+          // Subscribers get every event, including ones the list below leaves out
+          if (data.type !== 'connected' && data.type !== 'heartbeat') {
+            liveListenersRef.current.forEach(listener => {
+              try {
+                listener(data);
+              } catch (error) {
+                console.error('❌ Live event listener failed:', error);
+              }
+            });
+          }
+
           // Add new event to the top of the list
           if (data.deviceName && data.type !== 'unknown') {
             globalDebugLog('📡 SSE: Received live event:', data);
             
-            // Check if this is an alarm zone event
-            if (data.isAlarmZoneEvent) {
-              globalDebugLog('🔒 SSE: Alarm zone event detected:', {
-                type: data.type,
-                category: data.category,
-                device: data.deviceName,
-                space: data.spaceName
-              });
-              
-              // Dispatch custom event for alarm zone updates
-              if (typeof window !== 'undefined') {
-                window.dispatchEvent(new CustomEvent('alarmZoneStateChange', {
-                  detail: {
-                    type: data.type,
-                    category: data.category,
-                    deviceName: data.deviceName,
-                    spaceName: data.spaceName,
-                    displayState: data.displayState,
-                    timestamp: data.timestamp
-                  }
-                }));
-              }
-            }
-            
             setRecentEvents(prev => {
               const newEvent = {
                 id: data.id || `live-${Date.now()}`,
                 type: data.type,
+                deviceId: data.deviceId,
                 deviceName: data.deviceName,
                 timestamp: data.timestamp,
                 imageUrl: data.imageUrl,
@@ -129,7 +142,11 @@ export function useSSE() {
       eventSource.onerror = (error) => {
         console.error('❌ Live events stream error:', error);
         globalDebugLog('❌ SSE: Live events stream error:', error);
-        // Will automatically reconnect
+        // Dropped connections reconnect on their own; a rejected one (e.g. an expired
+        // token) is closed for good, so start over with a new token
+        if (eventSource.readyState === EventSource.CLOSED && liveSSERef.current === eventSource) {
+          liveRetryRef.current = setTimeout(() => connectToLiveStream(), LIVE_RETRY_MS);
+        }
       };
       
       liveSSERef.current = eventSource;
@@ -140,8 +157,21 @@ export function useSSE() {
     }
   }, []);
 
+  // Receive each live event as it arrives; returns an unsubscribe function
+  const subscribe = useCallback((listener: (event: SSEEventDisplay) => void) => {
+    liveListenersRef.current.add(listener);
+    return () => {
+      liveListenersRef.current.delete(listener);
+    };
+  }, []);
+
   // ✅ NEW: Disconnect from live events stream
   const disconnectFromLiveStream = useCallback(() => {
+    liveAttemptRef.current++;
+    if (liveRetryRef.current) {
+      clearTimeout(liveRetryRef.current);
+      liveRetryRef.current = null;
+    }
     if (liveSSERef.current) {
       liveSSERef.current.close();
       liveSSERef.current = null;
@@ -165,13 +195,12 @@ export function useSSE() {
       setIsLoading(true);
       
       globalDebugLog('🔍 SSE: Loading recent events from database...');
-      const response = await fetch('/api/events?limit=50&sinceHours=24&organizationId=GF1qXccUcdNJbIkUAbYR9SKAEwVonZZK');
-       
-       if (!response.ok) {
-         throw new Error(`API error: ${response.status}`);
-       }
-       
-       const events = await response.json();
+      const response = await getStoredEvents(50, 24);
+      if (response.error) {
+        throw new Error(`API error: ${response.error}`);
+      }
+
+      const events = response.data;
 
       if (events && Array.isArray(events)) {
         globalDebugLog(`🔍 SSE: Database returned ${events.length} events`);
@@ -205,6 +234,7 @@ export function useSSE() {
             // 🔥 FIX: Use database column names
             id: event.eventUuid || event.id || `db-event-${Date.now()}`,
             type: String(event.event_type || event.type || 'unknown').toLowerCase(), // Use event_type from DB
+            deviceId: event.device_id || event.deviceId,
             deviceName: event.device_name || event.deviceName, // Use device_name from DB
             category: event.category,
             timestamp: event.event_timestamp || event.timestamp, // Use event_timestamp from DB
@@ -290,18 +320,14 @@ export function useSSE() {
   const startBackgroundService = useCallback(async () => {
     try {
       globalDebugLog('🚀 SSE: Starting background service...');
-      const response = await fetch('/api/background-sse', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'start' })
-      });
-      const data = await response.json();
-      globalDebugLog('🔄 SSE: Start service response:', data);
-      if (data.success) {
+      // Starts this keypad's organization's worker with its API key
+      const response = await controlBackgroundService('start');
+      globalDebugLog('🔄 SSE: Start service response:', response);
+      if (!response.error) {
         setIsConnected(true); // Trust that it started
-        setBackgroundServiceStatus(data.status);
+        setBackgroundServiceStatus(response.data);
       }
-      return data;
+      return { success: !response.error, message: response.error || 'Background SSE service started', status: response.data };
     } catch (error) {
       console.error('❌ Failed to start background service:', error);
       globalDebugLog('❌ SSE: Failed to start background service:', error);
@@ -311,17 +337,12 @@ export function useSSE() {
 
   const stopBackgroundService = useCallback(async () => {
     try {
-      const response = await fetch('/api/background-sse', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'stop' })
-      });
-      const data = await response.json();
-      if (data.success) {
+      const response = await controlBackgroundService('stop');
+      if (!response.error) {
         setIsConnected(false); // Trust that it stopped
-        setBackgroundServiceStatus(data.status);
+        setBackgroundServiceStatus(response.data);
       }
-      return data;
+      return { success: !response.error, message: response.error || 'Background SSE service stopped', status: response.data };
     } catch (error) {
       console.error('❌ Failed to stop background service:', error);
       throw error;
@@ -344,6 +365,7 @@ export function useSSE() {
     checkBackgroundService,
     connectToLiveStream,
     disconnectFromLiveStream,
+    subscribe,
     
     // ✅ COMPATIBILITY: Legacy functions for backward compatibility (now no-ops)
     setSSEEnabled: () => console.log('ℹ️ setSSEEnabled is deprecated - background service handles SSE'),
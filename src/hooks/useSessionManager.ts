@@ -0,0 +1,106 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  SessionEndReason,
+  getSession,
+  getSessionSettings,
+  getSessionDeadline,
+  touchSession,
+  endSession
+} from '@/lib/keypadSession';
+import { analytics } from '@/lib/analytics';
+
+export interface SessionWarning {
+  reason: SessionEndReason;
+  secondsRemaining: number;
+}
+
+interface SessionManagerOptions {
+  // Whether someone is signed in on this page
+  active: boolean;
+  // Called once the session has ended on its own
+  onExpire: (reason: SessionEndReason) => void;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+// Don't write to localStorage on every tap
+const ACTIVITY_THROTTLE_MS = 5000;
+
+export function useSessionManager({ active, onExpire }: SessionManagerOptions) {
+  const [warning, setWarning] = useState<SessionWarning | null>(null);
+  const onExpireRef = useRef(onExpire);
+  const warningRef = useRef<SessionWarning | null>(null);
+  const lastTouchRef = useRef(0);
+
+  onExpireRef.current = onExpire;
+  warningRef.current = warning;
+
+  useEffect(() => {
+    if (!active) {
+      setWarning(null);
+      return;
+    }
+
+    // Once the warning is up, only "Stay signed in" keeps the session alive
+    const handleActivity = () => {
+      if (warningRef.current) return;
+      const now = Date.now();
+      if (now - lastTouchRef.current < ACTIVITY_THROTTLE_MS) return;
+      lastTouchRef.current = now;
+      touchSession(now);
+    };
+
+    const checkSession = () => {
+      const session = getSession();
+      // Signed out from another page or tab
+      if (!session) {
+        setWarning(null);
+        onExpireRef.current('idle');
+        return;
+      }
+
+      const settings = getSessionSettings();
+      const { expiresAt, reason } = getSessionDeadline(session, settings);
+      const secondsRemaining = Math.ceil((expiresAt - Date.now()) / 1000);
+
+      if (secondsRemaining <= 0) {
+        endSession();
+        setWarning(null);
+        analytics.track({
+          action: 'session_expired',
+          category: 'authentication',
+          label: reason,
+          properties: {
+            idleTimeoutSeconds: settings.idleTimeoutSeconds,
+            maxSessionMinutes: settings.maxSessionMinutes
+          }
+        });
+        onExpireRef.current(reason);
+      } else if (secondsRemaining <= settings.warningSeconds) {
+        setWarning({ reason, secondsRemaining });
+      } else if (warningRef.current) {
+        setWarning(null);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    checkSession();
+    const interval = setInterval(checkSession, 1000);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [active]);
+
+  // Dismiss the warning and restart the idle timer
+  const extendSession = useCallback(() => {
+    lastTouchRef.current = Date.now();
+    touchSession(lastTouchRef.current);
+    setWarning(null);
+  }, []);
+
+  return {
+    warning,
+    extendSession,
+  };
+}
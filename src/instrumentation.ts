@@ -0,0 +1,13 @@
+// Runs once when the Next.js server starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Not awaited: Fusion being slow or down mustn't hold up the server starting
+  const { startArmingScheduler } = await import('./lib/arming-scheduler');
+  startArmingScheduler().catch(error => console.error('❌ Failed to start arming scheduler:', error));
+
+  // Panic escalation lives in timers, which a restart loses
+  const { resumePanicEscalations } = await import('./lib/panic-alarm');
+  resumePanicEscalations().catch(error => console.error('❌ Failed to resume panic escalation:', error));
+}
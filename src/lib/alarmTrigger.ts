@@ -0,0 +1,74 @@
+// What the keypad knows about a triggered alarm: which zones, the device that set
+// it off, when, and a camera snapshot to show on the alarm screen. Disarming a
+// triggered alarm records one of the acknowledgement reasons below.
+
+import type { AlarmZone, Camera, Device } from './api';
+
+export type AlarmAcknowledgementReason = 'false_alarm' | 'verified' | 'test';
+
+export const ACKNOWLEDGEMENT_REASONS: AlarmAcknowledgementReason[] = ['false_alarm', 'verified', 'test'];
+
+export const ACKNOWLEDGEMENT_REASON_LABELS: Record<AlarmAcknowledgementReason, string> = {
+  false_alarm: 'False alarm',
+  verified: 'Verified alarm',
+  test: 'Test'
+};
+
+// The event that triggered a zone, when the keypad saw it happen
+export interface AlarmTriggerSource {
+  deviceName: string;
+  timestamp: string;
+  imageUrl?: string | null;
+}
+
+// Live events as the keypad receives them over SSE
+export interface AlarmTriggerEvent {
+  deviceName?: string;
+  timestamp?: string;
+  imageUrl?: string;
+}
+
+export interface AlarmTrigger {
+  zoneIds: string[];
+  zoneNames: string[];
+  deviceName: string | null;
+  triggeredAt: string | null;
+  snapshotUrl: string | null;
+}
+
+export const isAlarmAcknowledgementReason = (value: unknown): value is AlarmAcknowledgementReason =>
+  typeof value === 'string' && (ACKNOWLEDGEMENT_REASONS as string[]).includes(value);
+
+// Summarise the triggered zones, or null when nothing is triggered. Uses the
+// recorded trigger when there is one, otherwise the latest event from a device
+// in a triggered zone; events are expected newest first.
+export const describeAlarmTrigger = (
+  zones: AlarmZone[],
+  devices: Device[],
+  cameras: Camera[],
+  events: AlarmTriggerEvent[],
+  recorded: Record<string, AlarmTriggerSource> = {}
+): AlarmTrigger | null => {
+  const triggered = zones.filter(zone => zone.armedState === 'TRIGGERED');
+  if (triggered.length === 0) return null;
+
+  const zoneDevices = devices.filter(device => triggered.some(zone => zone.deviceIds?.includes(device.id)));
+  const source: AlarmTriggerSource | null =
+    triggered.map(zone => recorded[zone.id]).find(Boolean) ||
+    events
+      .filter(event => event.deviceName && zoneDevices.some(device => device.name === event.deviceName))
+      .map(event => ({ deviceName: event.deviceName!, timestamp: event.timestamp || '', imageUrl: event.imageUrl }))[0] ||
+    null;
+
+  // Fall back to a camera watching one of the zone's spaces
+  const spaceIds = zoneDevices.map(device => device.spaceId).filter(Boolean);
+  const camera = cameras.find(c => c.isActive && c.thumbnailUrl && spaceIds.includes(c.spaceId));
+
+  return {
+    zoneIds: triggered.map(zone => zone.id),
+    zoneNames: triggered.map(zone => zone.name),
+    deviceName: source?.deviceName || null,
+    triggeredAt: source?.timestamp || triggered[0].updatedAt || null,
+    snapshotUrl: source?.imageUrl || camera?.thumbnailUrl || null
+  };
+};
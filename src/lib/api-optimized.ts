@@ -7,7 +7,17 @@ import {
   ApiResponse, 
   getSpaces, 
   getDevices, 
-  getLocations 
+  getLocations,
+  createLocation,
+  updateLocation,
+  deleteLocation,
+  createSpace,
+  updateSpace,
+  deleteSpace,
+  assignSpaceDevices,
+  removeSpaceDevices,
+  LocationInput,
+  SpaceInput
 } from './api';
 
 // Cache configuration
@@ -329,6 +339,59 @@ export const optimizedGetSpaceDevices = async (spaceId: string): Promise<ApiResp
   return { data: response.data?.data || [] };
 };
 
+// Location and space changes, clearing whatever cached data they make stale
+export const optimizedSaveLocation = async (locationId: string | null, location: LocationInput): Promise<ApiResponse<Location>> => {
+  const response = locationId ? await updateLocation(locationId, location) : await createLocation(location);
+  clearCache('locations');
+  return response;
+};
+
+export const optimizedDeleteLocation = async (locationId: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await deleteLocation(locationId);
+  clearCache('locations');
+  clearCache(`spaces-${locationId}`);
+  clearCache(`alarm-zones-${locationId}`);
+  return response;
+};
+
+export const optimizedSaveSpace = async (locationId: string, spaceId: string | null, space: SpaceInput): Promise<ApiResponse<Space>> => {
+  const response = spaceId ? await updateSpace(spaceId, space) : await createSpace(locationId, space);
+  clearCache(`spaces-${locationId}`);
+  return response;
+};
+
+export const optimizedDeleteSpace = async (locationId: string, spaceId: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await deleteSpace(spaceId);
+  clearCache(`spaces-${locationId}`);
+  // Its devices no longer have a space; this also clears space-devices-*
+  clearCache('devices');
+  return response;
+};
+
+// Move devices into a space, then take them out of the one they were in
+export const optimizedMoveDevicesToSpace = async (
+  locationId: string,
+  deviceIds: string[],
+  fromSpaceId: string | null,
+  toSpaceId: string
+): Promise<ApiResponse<{ success: boolean }>> => {
+  try {
+    // Assign first so a failure never leaves the devices without a space
+    const assigned = await assignSpaceDevices(toSpaceId, deviceIds);
+    if (assigned.error || !fromSpaceId) return assigned;
+
+    const removed = await removeSpaceDevices(fromSpaceId, deviceIds);
+    if (removed.error) {
+      // Put them back where they were rather than leave them in both spaces
+      await removeSpaceDevices(toSpaceId, deviceIds);
+    }
+    return removed;
+  } finally {
+    clearCache(`spaces-${locationId}`);
+    clearCache('devices');
+  }
+};
+
 export const optimizedGetDashboardData = async (locationId: string) => {
   const batch = new BatchOperations();
   
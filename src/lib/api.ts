@@ -1,8 +1,21 @@
+import type { KeypadRole, KeypadUser } from './permissions';
+import type { ArmingSchedule, ArmingScheduleStatus } from './armingSchedule';
+import type { ZoneReadinessRules } from './readiness';
+import type { PanicAlarm, PanicType } from './panic';
+import type { AlarmAcknowledgementReason, AlarmTrigger } from './alarmTrigger';
+import { createIdempotencyKey, KEYPAD_COMMAND_SUBMITTED_EVENT } from './keypadCommands';
+import type { KeypadCommand, KeypadCommandRequest, KeypadCommandType } from './keypadCommands';
+import type { LiveToken } from './server-auth';
+import type { IngestionWorkerStatus } from './eventIngestion';
+import { USER_TOKEN_KEY } from './keypadSession';
+
 export const API_BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL || 'https://fusion-bridge-production.up.railway.app';
 
 export interface ApiResponse<T> {
   data: T;
   error?: string;
+  // HTTP status of a failed request; absent when no response arrived
+  status?: number;
 }
 
 export interface Organization {
@@ -79,6 +92,7 @@ export interface Device {
   spaceName?: string;
   locationId?: string | null;
   status?: 'online' | 'offline' | 'error';
+  batteryPercentage?: number | null;
   armedState?: 'DISARMED' | 'ARMED_AWAY' | 'ARMED_STAY' | 'TRIGGERED';
   capabilities?: string[];
   lastSeen?: string;
@@ -123,6 +137,14 @@ export interface AlarmZone {
   createdAt: string;
   updatedAt: string;
   deviceIds: string[];
+  // Keypad-side settings (stored locally, see lib/zoneSettings)
+  exitDelaySeconds?: number;
+  entryDelaySeconds?: number;
+  // Devices bypassed for the current arming cycle (see lib/zoneBypass)
+  bypassedDeviceIds?: string[];
+  defaultArmMode?: 'ARMED_AWAY' | 'ARMED_STAY';
+  // Pre-arm readiness rules this zone overrides (see lib/readiness)
+  readinessRules?: Partial<ZoneReadinessRules>;
   // Legacy fields for backwards compatibility - will be populated from deviceIds
   devices?: Device[];
   color?: string;
@@ -308,13 +330,308 @@ export const validateApiKey = async (key: string): Promise<ApiResponse<boolean>>
   }
 };
 
-export const validatePin = async (pin: string): Promise<ApiResponse<{ valid: boolean; userId: string; userName: string }>> => {
-  const response = await apiFetch<{ success: boolean; data: { valid: boolean; userId: string; userName: string } }>('/api/alarm/keypad/validate-pin', {
+// Stable ID for this keypad, used by the server to track failed PIN attempts
+export const getKeypadId = (): string => {
+  let keypadId = localStorage.getItem('fusion_keypad_id');
+  if (!keypadId) {
+    keypadId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `keypad-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem('fusion_keypad_id', keypadId);
+  }
+  return keypadId;
+};
+
+// Organization/location context sent with keypad requests so the server can scope them
+const getKeypadContext = () => {
+  const parseStored = (key: string) => {
+    try {
+      const value = localStorage.getItem(key);
+      return value ? JSON.parse(value) : null;
+    } catch {
+      return null;
+    }
+  };
+  const organization = parseStored('fusion_organization');
+  const location = parseStored('fusion_selected_location') || parseStored('selected_location');
+  return {
+    organizationId: organization?.id || null,
+    locationId: location?.id || null,
+    locationName: location?.name || null
+  };
+};
+
+// Call a local keypad API route; these run server-side and forward the API key to Fusion
+const keypadFetch = async <T>(path: string, options: RequestInit = {}): Promise<ApiResponse<T>> => {
+  const key = localStorage.getItem('fusion_api_key') || process.env.NEXT_PUBLIC_FUSION_API_KEY || '';
+  try {
+    const response = await fetch(path, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': key,
+        'x-keypad-id': getKeypadId(),
+        'x-keypad-user': localStorage.getItem(USER_TOKEN_KEY) || '',
+        ...(options.headers || {}),
+      },
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      // Error bodies can carry details such as lockedUntil, so pass them through
+      return { data: data as T, error: data?.error || `HTTP ${response.status}: ${response.statusText}` };
+    }
+    return { data };
+  } catch (error) {
+    return {
+      data: null as T,
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    };
+  }
+};
+
+// Arm, disarm and device state changes go through the keypad command queue, which
+// records each one, retries it and tracks whether it took effect. The keypad hears
+// about every command it submits through KEYPAD_COMMAND_SUBMITTED_EVENT.
+const sendKeypadCommand = async <T>(
+  type: KeypadCommandType,
+  targetIds: string[],
+  state: string | null,
+  label: string,
+  // Sends as this user instead of whoever is signed in now, e.g. when an exit delay runs out
+  userToken?: string | null
+): Promise<ApiResponse<T | null>> => {
+  const { locationId } = getKeypadContext();
+  const command: KeypadCommandRequest = { idempotencyKey: createIdempotencyKey(), type, targetIds, state, label };
+  const body = JSON.stringify({ locationId, command });
+  const headers = userToken ? { 'x-keypad-user': userToken } : undefined;
+  const submit = () => keypadFetch<{ data?: { command: KeypadCommand; result: T | null } }>('/api/keypad/commands', { method: 'POST', body, headers });
+
+  // No response at all: send again with the same key, which can't run the command twice
+  let response = await submit();
+  if (response.error && !response.data) {
+    response = await submit();
+  }
+
+  const submission = response.data?.data;
+  if (submission?.command) {
+    window.dispatchEvent(new CustomEvent(KEYPAD_COMMAND_SUBMITTED_EVENT, { detail: submission.command }));
+  }
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: submission?.result ?? null };
+};
+
+export interface PinValidationResult {
+  valid: boolean;
+  userId: string;
+  userName: string;
+  // Set when the keypad is locked out after too many wrong PINs
+  lockedUntil?: string | null;
+  attemptsRemaining?: number;
+  // What the user may do at this location
+  role?: KeypadRole;
+  // Proves to later requests who entered the PIN
+  userToken?: string;
+}
+
+// The role is resolved for the keypad's location unless another location is given
+export const validatePin = async (
+  pin: string,
+  location?: Pick<Location, 'id' | 'name'>
+): Promise<ApiResponse<PinValidationResult>> => {
+  const response = await keypadFetch<{
+    success?: boolean;
+    data?: PinValidationResult;
+    lockedUntil?: string;
+    attemptsRemaining?: number;
+  }>('/api/keypad/validate-pin', {
     method: 'POST',
-    body: JSON.stringify({ pin }),
+    body: JSON.stringify({
+      pin,
+      ...getKeypadContext(),
+      ...(location ? { locationId: location.id, locationName: location.name } : {})
+    }),
+  });
+  if (response.error) {
+    return {
+      data: { valid: false, userId: '', userName: '', lockedUntil: response.data?.lockedUntil || null },
+      error: response.error
+    };
+  }
+  const result = response.data.data;
+  if (result?.valid && result.userToken) {
+    localStorage.setItem(USER_TOKEN_KEY, result.userToken);
+  }
+  return {
+    data: {
+      ...(result || { valid: false, userId: '', userName: '' }),
+      attemptsRemaining: response.data.attemptsRemaining
+    }
+  };
+};
+
+// Duress PIN management (the user's current PIN is required to change it)
+export const setDuressPin = async (pin: string, duressPin: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await keypadFetch<{ data: { success: boolean } }>('/api/keypad/duress-code', {
+    method: 'PUT',
+    body: JSON.stringify({ pin, duressPin, organizationId: getKeypadContext().organizationId }),
   });
   if (response.error) {
-    return { data: { valid: false, userId: '', userName: '' }, error: response.error };
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+export const removeDuressPin = async (pin: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await keypadFetch<{ data: { success: boolean } }>('/api/keypad/duress-code', {
+    method: 'DELETE',
+    body: JSON.stringify({ pin, organizationId: getKeypadContext().organizationId }),
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+// The signed-in user's role at a location, without entering the PIN again
+export const getMyRole = async (locationId: string): Promise<ApiResponse<KeypadRole | null>> => {
+  const response = await keypadFetch<{ data: { role: KeypadRole } }>(
+    `/api/keypad/user-roles/me?locationId=${encodeURIComponent(locationId)}`
+  );
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: response.data.data.role };
+};
+
+// Keypad user roles (changes require an admin's PIN)
+export const getKeypadUsers = async (): Promise<ApiResponse<KeypadUser[]>> => {
+  const response = await keypadFetch<{ data: { users: KeypadUser[] } }>('/api/keypad/user-roles');
+  if (response.error) {
+    return { data: [], error: response.error };
+  }
+  return { data: response.data.data.users };
+};
+
+export const setKeypadUserRole = async (
+  pin: string,
+  userId: string,
+  locationId: string | null,
+  role: KeypadRole
+): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await keypadFetch<{ data: { success: boolean } }>('/api/keypad/user-roles', {
+    method: 'PUT',
+    body: JSON.stringify({ pin, userId, locationId, role, organizationId: getKeypadContext().organizationId }),
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+export const removeKeypadUserRole = async (
+  pin: string,
+  userId: string,
+  locationId: string | null
+): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await keypadFetch<{ data: { success: boolean } }>('/api/keypad/user-roles', {
+    method: 'DELETE',
+    body: JSON.stringify({ pin, userId, locationId, organizationId: getKeypadContext().organizationId }),
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+// Scheduled arming for the selected location
+export const getArmingScheduleStatus = async (): Promise<ApiResponse<ArmingScheduleStatus | null>> => {
+  const { organizationId, locationId } = getKeypadContext();
+  if (!organizationId || !locationId) {
+    return { data: null };
+  }
+  const response = await keypadFetch<{ data: ArmingScheduleStatus }>(
+    `/api/arming-schedule?organizationId=${encodeURIComponent(organizationId)}&locationId=${encodeURIComponent(locationId)}`
+  );
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+export const saveArmingSchedule = async (
+  pin: string,
+  schedule: Omit<ArmingSchedule, 'id' | 'organizationId'>
+): Promise<ApiResponse<ArmingSchedule | null>> => {
+  const { organizationId, locationId } = getKeypadContext();
+  const response = await keypadFetch<{ data: { schedule: ArmingSchedule } }>('/api/arming-schedule', {
+    method: 'PUT',
+    body: JSON.stringify({ pin, schedule, organizationId, locationId }),
+  });
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: response.data.data.schedule };
+};
+
+// Only works while the keypad is warning about an upcoming scheduled arm
+export const postponeScheduledArm = async (pin: string, minutes: number): Promise<ApiResponse<{ postponedUntil: string } | null>> => {
+  const { organizationId, locationId } = getKeypadContext();
+  const response = await keypadFetch<{ data: { postponedUntil: string } }>('/api/arming-schedule/postpone', {
+    method: 'POST',
+    body: JSON.stringify({ pin, minutes, organizationId, locationId }),
+  });
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+export const raisePanic = async (type: PanicType): Promise<ApiResponse<{ alarm: PanicAlarm; duplicate: boolean } | null>> => {
+  const response = await keypadFetch<{ data: { alarm: PanicAlarm; duplicate: boolean } }>('/api/panic', {
+    method: 'POST',
+    body: JSON.stringify({ type, locationId: getKeypadContext().locationId }),
+  });
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+// Acknowledged as the user whose PIN was last validated
+export const acknowledgePanic = async (alarmId: string): Promise<ApiResponse<PanicAlarm | null>> => {
+  const response = await keypadFetch<{ data: PanicAlarm }>('/api/panic/acknowledge', {
+    method: 'POST',
+    body: JSON.stringify({ alarmId }),
+  });
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: response.data.data };
+};
+
+// Acknowledged as the user whose PIN was last validated
+export const acknowledgeAlarm = async (
+  reason: AlarmAcknowledgementReason,
+  note: string,
+  trigger: AlarmTrigger
+): Promise<ApiResponse<{ acknowledgedAt: string; userName: string | null } | null>> => {
+  const { locationId } = getKeypadContext();
+  const response = await keypadFetch<{ data: { acknowledgedAt: string; userName: string | null } }>('/api/alarm-acknowledgement', {
+    method: 'POST',
+    body: JSON.stringify({
+      reason,
+      note,
+      locationId,
+      zoneIds: trigger.zoneIds,
+      zoneNames: trigger.zoneNames,
+      deviceName: trigger.deviceName,
+      triggeredAt: trigger.triggeredAt
+    }),
+  });
+  if (response.error) {
+    return { data: null, error: response.error };
   }
   return { data: response.data.data };
 };
@@ -329,6 +646,51 @@ export const getLocations = async (): Promise<ApiResponse<any[]>> => {
   return { data: response.data.data };
 };
 
+// Location fields accepted by POST and PUT /api/locations
+export interface LocationInput {
+  name: string;
+  parentId?: string;
+  timeZone: string;
+  externalId?: string;
+  addressStreet: string;
+  addressCity: string;
+  addressState: string;
+  addressPostalCode: string;
+  notes?: string;
+}
+
+export const createLocation = async (location: LocationInput): Promise<ApiResponse<Location>> => {
+  const response = await apiFetch<{ success: boolean; data: Location }>('/api/locations', {
+    method: 'POST',
+    body: JSON.stringify(location)
+  });
+  if (response.error) {
+    return { data: null as unknown as Location, error: response.error };
+  }
+  return { data: response.data?.data };
+};
+
+export const updateLocation = async (locationId: string, location: LocationInput): Promise<ApiResponse<Location>> => {
+  const response = await apiFetch<{ success: boolean; data: Location }>(`/api/locations/${locationId}`, {
+    method: 'PUT',
+    body: JSON.stringify(location)
+  });
+  if (response.error) {
+    return { data: null as unknown as Location, error: response.error };
+  }
+  return { data: response.data?.data };
+};
+
+export const deleteLocation = async (locationId: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await apiFetch<{ success: boolean }>(`/api/locations/${locationId}`, {
+    method: 'DELETE'
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: { success: true } };
+};
+
 export const getSpaces = async (locationId?: string): Promise<ApiResponse<Space[]>> => {
   const url = locationId ? `/api/spaces?locationId=${locationId}` : '/api/spaces';
   const response = await apiFetch<{ success: boolean; data: Space[] }>(url);
@@ -343,6 +705,43 @@ export const getAreas = async (locationId: string): Promise<ApiResponse<Space[]>
   return getSpaces(locationId);
 };
 
+export interface SpaceInput {
+  name: string;
+  description?: string;
+}
+
+export const createSpace = async (locationId: string, space: SpaceInput): Promise<ApiResponse<Space>> => {
+  const response = await apiFetch<{ success: boolean; data: Space }>('/api/spaces', {
+    method: 'POST',
+    body: JSON.stringify({ ...space, locationId })
+  });
+  if (response.error) {
+    return { data: null as unknown as Space, error: response.error };
+  }
+  return { data: response.data?.data };
+};
+
+export const updateSpace = async (spaceId: string, space: Partial<SpaceInput>): Promise<ApiResponse<Space>> => {
+  const response = await apiFetch<{ success: boolean; data: Space }>(`/api/spaces/${spaceId}`, {
+    method: 'PUT',
+    body: JSON.stringify(space)
+  });
+  if (response.error) {
+    return { data: null as unknown as Space, error: response.error };
+  }
+  return { data: response.data?.data };
+};
+
+export const deleteSpace = async (spaceId: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await apiFetch<{ success: boolean }>(`/api/spaces/${spaceId}`, {
+    method: 'DELETE'
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: { success: true } };
+};
+
 // Note: Armed state functionality has moved to Alarm Zones API
 // Use alarm zone endpoints for arming/disarming functionality
 
@@ -363,8 +762,29 @@ export const getAlarmZones = async (locationId: string): Promise<ApiResponse<Ala
   return { data: response.data?.data || [] };
 };
 
-export const updateAlarmZone = async (zoneId: string, zoneData: Partial<AlarmZone>): Promise<ApiResponse<AlarmZone>> => {
-  const response = await apiFetch<{ success: boolean; data: AlarmZone }>(`/api/alarm/zones/${zoneId}`, {
+// Zone fields the Fusion API stores; everything else on AlarmZone is keypad-side
+export type ZoneTriggerBehavior = 'standard' | 'custom';
+
+export interface AlarmZoneInput {
+  name: string;
+  locationId: string;
+  description?: string;
+  triggerBehavior?: ZoneTriggerBehavior;
+}
+
+export const createAlarmZone = async (zoneData: AlarmZoneInput): Promise<ApiResponse<AlarmZone>> => {
+  const response = await apiFetch<{ success: boolean; data: AlarmZone }>('/api/alarm-zones', {
+    method: 'POST',
+    body: JSON.stringify(zoneData)
+  });
+  if (response.error) {
+    return { data: null as unknown as AlarmZone, error: response.error };
+  }
+  return { data: response.data?.data };
+};
+
+export const updateAlarmZone = async (zoneId: string, zoneData: Partial<AlarmZoneInput>): Promise<ApiResponse<AlarmZone>> => {
+  const response = await apiFetch<{ success: boolean; data: AlarmZone }>(`/api/alarm-zones/${zoneId}`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(zoneData)
@@ -375,20 +795,106 @@ export const updateAlarmZone = async (zoneId: string, zoneData: Partial<AlarmZon
   return { data: response.data?.data || {} as AlarmZone };
 };
 
-// Device State Management
-export const updateDeviceState = async (deviceId: string, state: string): Promise<ApiResponse<{ success: boolean }>> => {
-  const response = await apiFetch<{ success: boolean; data: { success: boolean } }>(`/api/devices/${deviceId}/state`, {
-    method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ 
-      state: state,
-      timestamp: new Date().toISOString()
-    })
+export const deleteAlarmZone = async (zoneId: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await apiFetch<{ success: boolean }>(`/api/alarm-zones/${zoneId}`, {
+    method: 'DELETE'
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: { success: true } };
+};
+
+// Zone-level arming (the Fusion API has a single ARMED state; stay/away is keypad-side)
+export type ApiZoneArmedState = 'DISARMED' | 'ARMED' | 'TRIGGERED';
+
+export const setAlarmZoneArmState = async (
+  zoneId: string,
+  armedState: ApiZoneArmedState,
+  label?: string,
+  userToken?: string | null
+): Promise<ApiResponse<AlarmZone>> => {
+  const response = await sendKeypadCommand<AlarmZone>('zone_arm_state', [zoneId], armedState, label || `Set zone to ${armedState.toLowerCase()}`, userToken);
+  if (response.error) {
+    return { data: null as unknown as AlarmZone, error: response.error };
+  }
+  return { data: response.data as AlarmZone };
+};
+
+export const getAlarmZoneDevices = async (zoneId: string): Promise<ApiResponse<Device[]>> => {
+  const response = await apiFetch<{ success: boolean; data: Device[] }>(`/api/alarm-zones/${zoneId}/devices`);
+  if (response.error) {
+    return { data: [], error: response.error };
+  }
+  return { data: response.data?.data || [] };
+};
+
+export const assignAlarmZoneDevices = async (zoneId: string, deviceIds: string[]): Promise<ApiResponse<{ zoneId: string; deviceIds: string[] }>> => {
+  const response = await apiFetch<{ success: boolean; data: { zoneId: string; deviceIds: string[] } }>(`/api/alarm-zones/${zoneId}/devices`, {
+    method: 'POST',
+    body: JSON.stringify({ deviceIds })
+  });
+  if (response.error) {
+    return { data: { zoneId, deviceIds: [] }, error: response.error };
+  }
+  return { data: response.data?.data || { zoneId, deviceIds } };
+};
+
+export const removeAlarmZoneDevices = async (zoneId: string, deviceIds: string[]): Promise<ApiResponse<{ zoneId: string; deviceIds: string[] }>> => {
+  const response = await apiFetch<{ success: boolean; data: { zoneId: string; deviceIds: string[] } }>(`/api/alarm-zones/${zoneId}/devices`, {
+    method: 'DELETE',
+    body: JSON.stringify({ deviceIds })
   });
+  if (response.error) {
+    return { data: { zoneId, deviceIds: [] }, error: response.error };
+  }
+  return { data: response.data?.data || { zoneId, deviceIds } };
+};
+
+// Zone audit log: every arm-state change recorded for a zone, newest first
+export interface AuditLogEntry {
+  id: string;
+  zoneId: string;
+  userId: string | null;
+  action: 'armed' | 'disarmed' | 'triggered' | 'acknowledged';
+  previousState: string | null;
+  newState: string | null;
+  reason: string | null;
+  triggerEventId: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export const getAlarmZoneAuditLog = async (zoneId: string, limit: number = 100, offset: number = 0): Promise<ApiResponse<AuditLogPage>> => {
+  const response = await apiFetch<{ success: boolean; data: AuditLogEntry[]; pagination: { limit: number; offset: number; hasMore: boolean } }>(
+    `/api/alarm-zones/${zoneId}/audit-log?limit=${limit}&offset=${offset}`
+  );
+  if (response.error) {
+    return { data: { entries: [], limit, offset, hasMore: false }, error: response.error };
+  }
+  return {
+    data: {
+      entries: response.data?.data || [],
+      limit: response.data?.pagination?.limit ?? limit,
+      offset: response.data?.pagination?.offset ?? offset,
+      hasMore: response.data?.pagination?.hasMore ?? false
+    }
+  };
+};
+
+// Device State Management
+export const updateDeviceState = async (deviceId: string, state: string, label?: string): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await sendKeypadCommand<{ success: boolean }>('device_state', [deviceId], state, label || `Set device to ${state}`);
   if (response.error) {
     return { data: { success: false }, error: response.error };
   }
-  return { data: response.data?.data || { success: true } };
+  return { data: response.data || { success: true } };
 };
 
 // User Preferences Management
@@ -449,35 +955,103 @@ export const loadUserPreferences = async (
   return { data: result.data };
 };
 
-export const armDevices = async (deviceIds: string[], armState: 'ARMED_AWAY' | 'ARMED_STAY'): Promise<ApiResponse<{ success: boolean; results: any[] }>> => {
-  const response = await apiFetch<{ success: boolean; data: { success: boolean; results: any[] } }>('/api/devices/arm', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ 
-      deviceIds: deviceIds,
-      armState: armState,
-      timestamp: new Date().toISOString()
-    })
-  });
+export const armDevices = async (
+  deviceIds: string[],
+  armState: 'ARMED_AWAY' | 'ARMED_STAY',
+  label?: string
+): Promise<ApiResponse<{ success: boolean; results: any[] }>> => {
+  const response = await sendKeypadCommand<{ success: boolean; results: any[] }>(
+    'arm_devices', deviceIds, armState, label || `Arm ${deviceIds.length} device${deviceIds.length !== 1 ? 's' : ''}`
+  );
   if (response.error) {
     return { data: { success: false, results: [] }, error: response.error };
   }
-  return { data: response.data?.data || { success: true, results: [] } };
+  return { data: response.data || { success: true, results: [] } };
 };
 
-export const disarmDevices = async (deviceIds: string[]): Promise<ApiResponse<{ success: boolean; results: any[] }>> => {
-  const response = await apiFetch<{ success: boolean; data: { success: boolean; results: any[] } }>('/api/devices/disarm', {
+export const disarmDevices = async (deviceIds: string[], label?: string): Promise<ApiResponse<{ success: boolean; results: any[] }>> => {
+  const response = await sendKeypadCommand<{ success: boolean; results: any[] }>(
+    'disarm_devices', deviceIds, null, label || `Disarm ${deviceIds.length} device${deviceIds.length !== 1 ? 's' : ''}`
+  );
+  if (response.error) {
+    return { data: { success: false, results: [] }, error: response.error };
+  }
+  return { data: response.data || { success: true, results: [] } };
+};
+
+// Token for opening the live events stream, scoped to this API key's organization
+export const getLiveEventsToken = async (): Promise<ApiResponse<LiveToken | null>> => {
+  const response = await keypadFetch<{ data: LiveToken }>('/api/events/live/token', { method: 'POST' });
+  if (response.error) {
+    return { data: null, error: response.error };
+  }
+  return { data: response.data?.data || null };
+};
+
+// Events the background service has saved for this keypad's organization
+export const getStoredEvents = async (limit = 50, sinceHours = 24): Promise<ApiResponse<any[]>> => {
+  const { organizationId } = getKeypadContext();
+  if (!organizationId) {
+    return { data: [], error: 'No organization selected' };
+  }
+  const params = new URLSearchParams({ limit: String(limit), sinceHours: String(sinceHours), organizationId });
+  const response = await keypadFetch<any[]>(`/api/events?${params.toString()}`);
+  if (response.error) {
+    return { data: [], error: response.error };
+  }
+  return { data: Array.isArray(response.data) ? response.data : [] };
+};
+
+export interface BackgroundServiceState {
+  // This keypad's organization's worker
+  status: IngestionWorkerStatus | null;
+  // Every worker for operators, otherwise just this organization's
+  workers: IngestionWorkerStatus[];
+  operator: boolean;
+}
+
+const adminHeaders = (adminToken?: string): Record<string, string> => (adminToken ? { 'x-admin-token': adminToken } : {});
+
+export const getBackgroundService = async (adminToken?: string): Promise<ApiResponse<BackgroundServiceState>> => {
+  const response = await keypadFetch<BackgroundServiceState>('/api/background-sse', { headers: adminHeaders(adminToken) });
+  if (response.error) {
+    return { data: { status: null, workers: [], operator: false }, error: response.error };
+  }
+  return {
+    data: {
+      status: response.data?.status ?? null,
+      workers: response.data?.workers || [],
+      operator: !!response.data?.operator
+    }
+  };
+};
+
+// Start or stop a worker: this keypad's organization's by default, with its API key
+// as the worker's credentials, or any organization's for operators
+export const controlBackgroundService = async (
+  action: 'start' | 'stop',
+  organizationId?: string,
+  adminToken?: string
+): Promise<ApiResponse<IngestionWorkerStatus | null>> => {
+  const response = await keypadFetch<{ status?: IngestionWorkerStatus }>('/api/background-sse', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ 
-      deviceIds: deviceIds,
-      timestamp: new Date().toISOString()
-    })
+    headers: adminHeaders(adminToken),
+    body: JSON.stringify({ action, organizationId })
   });
   if (response.error) {
-    return { data: { success: false, results: [] }, error: response.error };
+    return { data: null, error: response.error };
+  }
+  return { data: response.data?.status ?? null };
+};
+
+export const getKeypadCommands = async (locationId: string | null): Promise<ApiResponse<KeypadCommand[]>> => {
+  const params = new URLSearchParams();
+  if (locationId) params.set('locationId', locationId);
+  const response = await keypadFetch<{ data: KeypadCommand[] }>(`/api/keypad/commands?${params.toString()}`);
+  if (response.error) {
+    return { data: [], error: response.error };
   }
-  return { data: response.data?.data || { success: true, results: [] } };
+  return { data: response.data?.data || [] };
 };
 
 // Space Device Management
@@ -489,6 +1063,28 @@ export const getSpaceDevices = async (spaceId: string): Promise<ApiResponse<Devi
   return { data: response.data?.data || [] };
 };
 
+export const assignSpaceDevices = async (spaceId: string, deviceIds: string[]): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await apiFetch<{ success: boolean }>(`/api/spaces/${spaceId}/devices`, {
+    method: 'POST',
+    body: JSON.stringify({ deviceIds })
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: { success: true } };
+};
+
+export const removeSpaceDevices = async (spaceId: string, deviceIds: string[]): Promise<ApiResponse<{ success: boolean }>> => {
+  const response = await apiFetch<{ success: boolean }>(`/api/spaces/${spaceId}/devices`, {
+    method: 'DELETE',
+    body: JSON.stringify({ deviceIds })
+  });
+  if (response.error) {
+    return { data: { success: false }, error: response.error };
+  }
+  return { data: { success: true } };
+};
+
 // Camera Management
 export const getCameras = async (spaceId?: string): Promise<ApiResponse<Camera[]>> => {
   const url = spaceId ? `/api/cameras?spaceId=${spaceId}` : '/api/cameras';
@@ -0,0 +1,447 @@
+// Scheduled arming (server-side only).
+// Locations point at a schedule through Location.activeArmingScheduleId; the
+// schedule itself is stored in Supabase. The scheduler starts with the server and
+// arms or disarms each location's zones when its schedule says so.
+// Every run is claimed in arming_schedule_runs first so the same transition is
+// never applied twice, even across restarts, and its outcome is written back there.
+
+import { supabase, insertEvent } from './db';
+import { fusionServerFetch } from './fusion-server';
+import { submitCommand } from './command-queue';
+import { resolveOrganization } from './server-auth';
+import { AlarmZone, ApiResponse, Location } from './api';
+import {
+  ArmingSchedule,
+  ArmPostponement,
+  ScheduledTransition,
+  DEFAULT_WARNING_MINUTES,
+  MAX_POSTPONE_MINUTES,
+  getNextTransition,
+  getScheduledTransitions,
+  isInWarningWindow,
+  resolveTimeZone
+} from './armingSchedule';
+
+const TICK_INTERVAL_MS = 30 * 1000;
+// After downtime, transitions older than this are skipped rather than applied late
+const MAX_CATCH_UP_MS = 10 * 60 * 1000;
+
+export const SCHEDULE_EVENT_CATEGORY = 'arming_schedule';
+
+interface ScheduleRow {
+  id: string;
+  organization_id: string;
+  name: string;
+  enabled: boolean;
+  windows: ArmingSchedule['windows'] | null;
+  exceptions: ArmingSchedule['exceptions'] | null;
+  zone_ids: string[] | null;
+  warning_minutes: number | null;
+}
+
+const fromScheduleRow = (row: ScheduleRow): ArmingSchedule => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  name: row.name,
+  enabled: row.enabled,
+  windows: row.windows || [],
+  exceptions: row.exceptions || [],
+  zoneIds: row.zone_ids || [],
+  warningMinutes: row.warning_minutes ?? DEFAULT_WARNING_MINUTES
+});
+
+export async function getArmingSchedule(organizationId: string, scheduleId: string): Promise<ArmingSchedule | null> {
+  const { data, error } = await supabase
+    .from('arming_schedules')
+    .select('id, organization_id, name, enabled, windows, exceptions, zone_ids, warning_minutes')
+    .eq('organization_id', organizationId)
+    .eq('id', scheduleId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[arming-scheduler] getArmingSchedule error:', error);
+    return null;
+  }
+  return data ? fromScheduleRow(data) : null;
+}
+
+export async function saveArmingSchedule(schedule: ArmingSchedule, updatedBy: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('arming_schedules')
+    .upsert({
+      id: schedule.id,
+      organization_id: schedule.organizationId,
+      name: schedule.name,
+      enabled: schedule.enabled,
+      windows: schedule.windows,
+      exceptions: schedule.exceptions,
+      zone_ids: schedule.zoneIds,
+      warning_minutes: schedule.warningMinutes,
+      updated_by: updatedBy,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'id'
+    });
+
+  if (error) {
+    console.error('[arming-scheduler] saveArmingSchedule error:', error);
+    return false;
+  }
+  return true;
+}
+
+// Postponements that could still affect an upcoming arm
+export async function getPostponements(locationId: string): Promise<ArmPostponement[]> {
+  const since = new Date(Date.now() - MAX_POSTPONE_MINUTES * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('arming_schedule_postponements')
+    .select('scheduled_at, postponed_until')
+    .eq('location_id', locationId)
+    .gte('postponed_until', since);
+
+  if (error) {
+    console.error('[arming-scheduler] getPostponements error:', error);
+    return [];
+  }
+  return (data || []).map(row => ({ scheduledAt: row.scheduled_at, postponedUntil: row.postponed_until }));
+}
+
+export interface PostponeRequest {
+  organizationId: string;
+  locationId: string;
+  scheduleId: string;
+  scheduledAt: string;
+  postponedUntil: string;
+  userId: string;
+  userName: string | null;
+}
+
+export async function postponeScheduledArm(request: PostponeRequest): Promise<boolean> {
+  const { error } = await supabase
+    .from('arming_schedule_postponements')
+    .upsert({
+      organization_id: request.organizationId,
+      location_id: request.locationId,
+      schedule_id: request.scheduleId,
+      scheduled_at: request.scheduledAt,
+      postponed_until: request.postponedUntil,
+      user_id: request.userId,
+      user_name: request.userName,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'location_id,scheduled_at'
+    });
+
+  if (error) {
+    console.error('[arming-scheduler] postponeScheduledArm error:', error);
+    return false;
+  }
+  return true;
+}
+
+export interface LocationSchedule {
+  location: Location;
+  schedule: ArmingSchedule | null;
+  postponements: ArmPostponement[];
+}
+
+// The location as Fusion knows it, plus the schedule it points at
+export async function getLocationSchedule(apiKey: string, locationId: string): Promise<ApiResponse<LocationSchedule | null>> {
+  const response = await fusionServerFetch<{ success: boolean; data: Location }>(
+    `/api/locations/${encodeURIComponent(locationId)}`,
+    apiKey
+  );
+  if (response.error || !response.data?.data) {
+    return { data: null, error: response.error || 'Location not found' };
+  }
+
+  const location = response.data.data;
+  const scheduleId = location.activeArmingScheduleId;
+  if (!scheduleId || !location.organizationId) {
+    return { data: { location, schedule: null, postponements: [] } };
+  }
+
+  const [schedule, postponements] = await Promise.all([
+    getArmingSchedule(location.organizationId, scheduleId),
+    getPostponements(location.id)
+  ]);
+  return { data: { location, schedule, postponements } };
+}
+
+// The claimed run's ID, or null when another run already claimed this transition
+async function claimRun(location: Location, scheduleId: string, action: 'arm' | 'disarm' | 'warn', scheduledAt: string) {
+  const { data, error } = await supabase
+    .from('arming_schedule_runs')
+    .insert({
+      organization_id: location.organizationId,
+      location_id: location.id,
+      schedule_id: scheduleId,
+      action,
+      scheduled_at: scheduledAt
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // 23505 is a unique violation: someone got there first
+    if (error.code !== '23505') {
+      console.error('[arming-scheduler] claimRun error:', error);
+    }
+    return null;
+  }
+  return data.id as string;
+}
+
+async function completeRun(runId: string, error: string | null) {
+  const { error: updateError } = await supabase
+    .from('arming_schedule_runs')
+    .update({
+      status: error ? 'failed' : 'applied',
+      error,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', runId);
+
+  if (updateError) {
+    console.error('[arming-scheduler] completeRun error:', updateError);
+  }
+}
+
+class ArmingScheduler {
+  // Fusion API keys are scoped to an organization, so keep one per organization
+  private apiKeys = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private lastTickAt: Date | null = null;
+  private isTicking = false;
+  private lastError: string | null = null;
+
+  register(organizationId: string, apiKey: string) {
+    if (!organizationId || !apiKey) return;
+    this.apiKeys.set(organizationId, apiKey);
+    this.start();
+  }
+
+  start() {
+    if (this.timer) return;
+    console.log('🗓️ Arming scheduler started');
+    this.lastTickAt = new Date(Date.now() - TICK_INTERVAL_MS);
+    this.timer = setInterval(() => {
+      this.tick();
+    }, TICK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    console.log('🗓️ Arming scheduler stopped');
+  }
+
+  getStatus() {
+    return {
+      isRunning: !!this.timer,
+      organizations: this.apiKeys.size,
+      lastTickAt: this.lastTickAt?.toISOString() || null,
+      lastError: this.lastError
+    };
+  }
+
+  private async tick() {
+    // A slow Fusion response must not start a second overlapping tick
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    const now = new Date();
+    const from = new Date(Math.max(this.lastTickAt?.getTime() || 0, now.getTime() - MAX_CATCH_UP_MS));
+    // One organization's Fusion error mustn't hold up every other organization
+    let lastError: string | null = null;
+    for (const [organizationId, apiKey] of this.apiKeys) {
+      try {
+        await this.runOrganization(apiKey, from, now);
+      } catch (error) {
+        lastError = `${organizationId}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        console.error(`❌ Scheduled arming failed for ${organizationId}:`, error);
+      }
+    }
+    this.lastError = lastError;
+    this.lastTickAt = now;
+    this.isTicking = false;
+  }
+
+  private async runOrganization(apiKey: string, from: Date, now: Date) {
+    const response = await fusionServerFetch<{ success: boolean; data: Location[] }>('/api/locations', apiKey);
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    const locations = (response.data?.data || []).filter(location => location.activeArmingScheduleId && location.organizationId);
+    for (const location of locations) {
+      const schedule = await getArmingSchedule(location.organizationId as string, location.activeArmingScheduleId as string);
+      if (!schedule?.enabled) continue;
+
+      const timeZone = resolveTimeZone(location.timeZone);
+      const postponements = await getPostponements(location.id);
+
+      const due = getScheduledTransitions(schedule, timeZone, from, now, postponements);
+      for (const transition of due) {
+        const runId = await claimRun(location, schedule.id, transition.action, transition.scheduledAt);
+        if (runId) {
+          await this.runTransition(runId, apiKey, location, schedule, transition);
+        }
+      }
+
+      const nextArm = getNextTransition(schedule, timeZone, now, 'arm', postponements);
+      const warnRunId = nextArm && schedule.warningMinutes > 0 && isInWarningWindow(schedule, nextArm, now)
+        ? await claimRun(location, schedule.id, 'warn', nextArm.at)
+        : null;
+      if (nextArm && warnRunId) {
+        await insertEvent({
+          organizationId: location.organizationId,
+          locationId: location.id,
+          type: 'Scheduled Arm Warning',
+          category: SCHEDULE_EVENT_CATEGORY,
+          deviceName: schedule.name || 'Arming Schedule',
+          timestamp: now.toISOString(),
+          displayState: 'Arming Soon',
+          scheduleId: schedule.id,
+          armAt: nextArm.at
+        });
+        await completeRun(warnRunId, null);
+      }
+    }
+  }
+
+  // Apply a claimed transition and record how it went. A failure is written back to
+  // the run and raised as an event, since nothing will apply it again, and the
+  // location's other transitions still run.
+  private async runTransition(runId: string, apiKey: string, location: Location, schedule: ArmingSchedule, transition: ScheduledTransition) {
+    try {
+      const failedZoneCount = await this.applyTransition(apiKey, location, schedule, transition);
+      await completeRun(runId, failedZoneCount > 0 ? `${failedZoneCount} zone(s) did not ${transition.action}` : null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await completeRun(runId, message);
+      await insertEvent({
+        organizationId: location.organizationId,
+        locationId: location.id,
+        type: transition.action === 'arm' ? 'Scheduled Arm Failed' : 'Scheduled Disarm Failed',
+        category: SCHEDULE_EVENT_CATEGORY,
+        deviceName: schedule.name || 'Arming Schedule',
+        timestamp: new Date().toISOString(),
+        displayState: 'Failed',
+        scheduleId: schedule.id,
+        scheduledAt: transition.scheduledAt,
+        error: message
+      });
+      console.error(`❌ Scheduled ${transition.action} failed at ${location.name}:`, error);
+    }
+  }
+
+  // Returns how many zones failed to change
+  private async applyTransition(apiKey: string, location: Location, schedule: ArmingSchedule, transition: ScheduledTransition) {
+    const zonesResponse = await fusionServerFetch<{ success: boolean; data: AlarmZone[] }>(
+      `/api/alarm-zones?locationId=${encodeURIComponent(location.id)}`,
+      apiKey
+    );
+    if (zonesResponse.error) {
+      throw new Error(zonesResponse.error);
+    }
+
+    const zones = (zonesResponse.data?.data || []).filter(zone =>
+      schedule.zoneIds.length === 0 || schedule.zoneIds.includes(zone.id)
+    );
+    // Through the command queue like any keypad command, keyed on the transition so
+    // a run that is somehow repeated can't send a zone twice
+    const armedState = transition.action === 'arm' ? 'ARMED' : 'DISARMED';
+    const submissions = await Promise.all(zones.map(zone =>
+      submitCommand({
+        idempotencyKey: `schedule:${transition.action}:${transition.scheduledAt}:${zone.id}`,
+        type: 'zone_arm_state',
+        targetIds: [zone.id],
+        state: armedState,
+        label: `Scheduled ${transition.action} of ${zone.name}`
+      }, {
+        organizationId: location.organizationId as string,
+        locationId: location.id,
+        keypadId: null,
+        requestedBy: null
+      }, apiKey)
+    ));
+    const failedZoneIds = zones
+      .filter((_, index) => !submissions[index] || submissions[index]?.command.status === 'failed')
+      .map(zone => zone.id);
+
+    console.log(`🗓️ Scheduled ${transition.action} at ${location.name}: ${zones.length - failedZoneIds.length}/${zones.length} zones`);
+    await insertEvent({
+      organizationId: location.organizationId,
+      locationId: location.id,
+      type: transition.action === 'arm' ? 'Scheduled Arm' : 'Scheduled Disarm',
+      category: SCHEDULE_EVENT_CATEGORY,
+      deviceName: schedule.name || 'Arming Schedule',
+      timestamp: new Date().toISOString(),
+      displayState: transition.action === 'arm' ? 'Armed' : 'Disarmed',
+      scheduleId: schedule.id,
+      scheduledAt: transition.scheduledAt,
+      zoneIds: zones.map(zone => zone.id),
+      failedZoneIds
+    });
+    return failedZoneIds.length;
+  }
+}
+
+// Singleton instance
+let armingScheduler: ArmingScheduler | null = null;
+
+// How long to wait before trying a configured key again when Fusion can't vouch for it
+const CONFIGURED_KEY_RETRY_MS = 60 * 1000;
+
+// Keys the scheduler starts with, so schedules keep running after a restart
+// without waiting for a keypad to open
+const getConfiguredApiKeys = () =>
+  (process.env.ARMING_SCHEDULER_API_KEYS || process.env.NEXT_PUBLIC_FUSION_API_KEY || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+
+// Runs schedules for the API key's organization, as Fusion reports it. Returns the
+// organization, or null if the key doesn't belong to one.
+export async function registerArmingSchedulerKey(apiKey: string): Promise<string | null> {
+  const organizationId = await resolveOrganization(apiKey);
+  if (!organizationId) return null;
+
+  if (!armingScheduler) {
+    armingScheduler = new ArmingScheduler();
+  }
+  armingScheduler.register(organizationId, apiKey);
+  return organizationId;
+}
+
+async function registerConfiguredKey(apiKey: string) {
+  if (await registerArmingSchedulerKey(apiKey)) return;
+  console.warn('🗓️ Arming scheduler could not resolve a configured API key; trying again in a minute');
+  setTimeout(() => void registerConfiguredKey(apiKey), CONFIGURED_KEY_RETRY_MS);
+}
+
+// Called once when the server starts (see src/instrumentation.ts)
+export async function startArmingScheduler() {
+  const apiKeys = getConfiguredApiKeys();
+  if (apiKeys.length === 0) {
+    console.warn('🗓️ No API keys configured for the arming scheduler; it starts when a keypad opens');
+    return;
+  }
+  await Promise.all(apiKeys.map(registerConfiguredKey));
+}
+
+export function stopArmingScheduler() {
+  if (armingScheduler) {
+    armingScheduler.stop();
+  }
+}
+
+export function getArmingSchedulerStatus() {
+  if (!armingScheduler) {
+    return { isRunning: false, organizations: 0, lastTickAt: null, lastError: null };
+  }
+  return armingScheduler.getStatus();
+}
@@ -0,0 +1,281 @@
+// Weekly arming schedules with holiday exceptions.
+// Times are wall-clock times in the location's time zone; everything here is pure
+// so the server scheduler and the keypad agree on when the next arm happens.
+
+export type ScheduledAction = 'arm' | 'disarm';
+
+export interface ArmingScheduleWindow {
+  // Days the zones arm on, 0 = Sunday
+  days: number[];
+  // 'HH:mm' local time
+  armAt: string;
+  // 'HH:mm' local time, or null to stay armed until someone disarms.
+  // A time at or before armAt disarms the following day.
+  disarmAt: string | null;
+}
+
+export interface ArmingScheduleException {
+  // 'YYYY-MM-DD' local date
+  date: string;
+  label?: string;
+  // Which of that day's scheduled actions to skip
+  skip: ScheduledAction | 'both';
+}
+
+export interface ArmingSchedule {
+  // Matches Location.activeArmingScheduleId
+  id: string;
+  organizationId: string;
+  name: string;
+  enabled: boolean;
+  windows: ArmingScheduleWindow[];
+  exceptions: ArmingScheduleException[];
+  // Zones the schedule controls; empty means every zone at the location
+  zoneIds: string[];
+  // How long before a scheduled arm the keypad warns and allows postponing
+  warningMinutes: number;
+}
+
+export interface ScheduledTransition {
+  action: ScheduledAction;
+  // When the schedule says it should happen
+  scheduledAt: string;
+  // When it will actually happen, after any postponement
+  at: string;
+  localDate: string;
+}
+
+export interface ArmPostponement {
+  scheduledAt: string;
+  postponedUntil: string;
+}
+
+export const DEFAULT_WARNING_MINUTES = 5;
+export const MAX_POSTPONE_MINUTES = 240;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Falls back to UTC for missing or unknown time zones
+export const resolveTimeZone = (timeZone?: string | null): string => {
+  if (!timeZone) return 'UTC';
+  try {
+    getFormatter(timeZone);
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+const getOffset = (date: Date, timeZone: string) => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUtc - (date.getTime() - date.getTime() % 60000);
+};
+
+const parseTime = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return { hour: hour || 0, minute: minute || 0 };
+};
+
+export const isValidTime = (time: string | null | undefined): time is string =>
+  !!time && /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+
+// The instant a local wall-clock time happens. Times skipped when clocks go
+// forward happen that much later; repeated times use the first occurrence.
+export const zonedTimeToUtc = (localDate: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const { hour, minute } = parseTime(time);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const firstPass = new Date(guess - getOffset(new Date(guess), timeZone));
+  const secondPass = new Date(guess - getOffset(firstPass, timeZone));
+  const parts = getZonedParts(secondPass, timeZone);
+  return parts.hour === hour && parts.minute === minute ? secondPass : firstPass;
+};
+
+const toLocalDate = (parts: Pick<ZonedParts, 'year' | 'month' | 'day'>) =>
+  `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+
+const addDays = (localDate: string, days: number) => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return toLocalDate({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() });
+};
+
+const weekdayOf = (localDate: string) => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+const isSkipped = (schedule: ArmingSchedule, localDate: string, action: ScheduledAction) =>
+  schedule.exceptions.some(exception =>
+    exception.date === localDate && (exception.skip === 'both' || exception.skip === action)
+  );
+
+const applyPostponements = (transition: ScheduledTransition, postponements: ArmPostponement[]): ScheduledTransition => {
+  if (transition.action !== 'arm') return transition;
+  const postponement = postponements.find(p =>
+    new Date(p.scheduledAt).getTime() === new Date(transition.scheduledAt).getTime()
+  );
+  return postponement ? { ...transition, at: new Date(postponement.postponedUntil).toISOString() } : transition;
+};
+
+// Every transition whose (possibly postponed) time falls in (from, to], oldest first
+export const getScheduledTransitions = (
+  schedule: ArmingSchedule,
+  timeZone: string,
+  from: Date,
+  to: Date,
+  postponements: ArmPostponement[] = []
+): ScheduledTransition[] => {
+  if (!schedule.enabled || to <= from) return [];
+
+  const zone = resolveTimeZone(timeZone);
+  // Postponements can push an arm up to MAX_POSTPONE_MINUTES past its slot
+  const searchFrom = new Date(from.getTime() - MAX_POSTPONE_MINUTES * 60 * 1000);
+  const firstDate = addDays(toLocalDate(getZonedParts(searchFrom, zone)), -1);
+  const lastDate = addDays(toLocalDate(getZonedParts(to, zone)), 1);
+
+  const transitions: ScheduledTransition[] = [];
+  for (let localDate = firstDate; localDate <= lastDate; localDate = addDays(localDate, 1)) {
+    const weekday = weekdayOf(localDate);
+
+    schedule.windows.forEach(window => {
+      if (!window.days.includes(weekday) || !isValidTime(window.armAt)) return;
+
+      const candidates: { action: ScheduledAction; date: string; time: string }[] = [
+        { action: 'arm', date: localDate, time: window.armAt }
+      ];
+      if (isValidTime(window.disarmAt)) {
+        const overnight = window.disarmAt <= window.armAt;
+        candidates.push({ action: 'disarm', date: overnight ? addDays(localDate, 1) : localDate, time: window.disarmAt });
+      }
+
+      candidates.forEach(({ action, date, time }) => {
+        if (isSkipped(schedule, date, action)) return;
+        const scheduledAt = zonedTimeToUtc(date, time, zone).toISOString();
+        transitions.push(applyPostponements({ action, scheduledAt, at: scheduledAt, localDate: date }, postponements));
+      });
+    });
+  }
+
+  return transitions
+    .filter(transition => {
+      const at = new Date(transition.at).getTime();
+      return at > from.getTime() && at <= to.getTime();
+    })
+    .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+};
+
+// The next arm or disarm after now, looking up to two weeks ahead
+export const getNextTransition = (
+  schedule: ArmingSchedule,
+  timeZone: string,
+  now: Date,
+  action?: ScheduledAction,
+  postponements: ArmPostponement[] = []
+): ScheduledTransition | null => {
+  const transitions = getScheduledTransitions(schedule, timeZone, now, new Date(now.getTime() + 14 * DAY_MS), postponements);
+  return transitions.find(transition => !action || transition.action === action) || null;
+};
+
+// Whether the keypad should be warning about an upcoming arm
+export const isInWarningWindow = (schedule: ArmingSchedule, nextArm: ScheduledTransition | null, now: Date): boolean =>
+  !!nextArm && new Date(nextArm.at).getTime() - now.getTime() <= schedule.warningMinutes * 60 * 1000;
+
+// What the keypad shows about a location's schedule
+export interface ArmingScheduleStatus {
+  scheduleId: string | null;
+  timeZone: string;
+  schedule: ArmingSchedule | null;
+  nextArm: ScheduledTransition | null;
+  nextDisarm: ScheduledTransition | null;
+  // True while the next arm is inside its warning window and can be postponed
+  isWarning: boolean;
+}
+
+export const getArmingScheduleStatus = (
+  scheduleId: string | null,
+  schedule: ArmingSchedule | null,
+  timeZone: string | null | undefined,
+  now: Date,
+  postponements: ArmPostponement[] = []
+): ArmingScheduleStatus => {
+  const zone = resolveTimeZone(timeZone);
+  const nextArm = schedule ? getNextTransition(schedule, zone, now, 'arm', postponements) : null;
+  const nextDisarm = schedule ? getNextTransition(schedule, zone, now, 'disarm', postponements) : null;
+  return {
+    scheduleId,
+    timeZone: zone,
+    schedule,
+    nextArm,
+    nextDisarm,
+    isWarning: !!schedule && schedule.warningMinutes > 0 && isInWarningWindow(schedule, nextArm, now)
+  };
+};
+
+// Returns what is wrong with a schedule from the settings editor, or null if it is usable
+export const validateArmingSchedule = (schedule: Pick<ArmingSchedule, 'windows' | 'exceptions' | 'warningMinutes'>): string | null => {
+  for (const window of schedule.windows) {
+    if (window.days.length === 0 || window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Each schedule window needs at least one day';
+    }
+    if (!isValidTime(window.armAt) || (window.disarmAt !== null && !isValidTime(window.disarmAt))) {
+      return 'Times must be in HH:mm format';
+    }
+    if (window.disarmAt === window.armAt) {
+      return 'Arm and disarm times must differ';
+    }
+  }
+  if (schedule.exceptions.some(exception => !/^\d{4}-\d{2}-\d{2}$/.test(exception.date))) {
+    return 'Holiday dates must be in YYYY-MM-DD format';
+  }
+  if (!Number.isInteger(schedule.warningMinutes) || schedule.warningMinutes < 0 || schedule.warningMinutes > 60) {
+    return 'Warning must be between 0 and 60 minutes';
+  }
+  return null;
+};
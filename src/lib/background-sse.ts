@@ -1,4 +1,23 @@
+// Background ingestion (server-side only).
+// One worker per organization holds that organization's bridge stream open with its
+// own API key and saves every event to the database. Keypads start the worker for
+// their organization; /background-service lists and controls them all.
+
 import { insertEvent } from './db';
+import { fusionServerFetch, FUSION_SERVER_BASE_URL } from './fusion-server';
+import { loadCheckpoint, saveCheckpoint } from './ingestion-checkpoint';
+import {
+  IngestionCheckpoint,
+  IngestionWorkerStatus,
+  EMPTY_CHECKPOINT,
+  BACKFILL_LIMIT,
+  advanceCheckpoint,
+  getBackfillSinceHours,
+  getEventIdentity,
+  getReconnectDelay,
+  selectBackfillEvents,
+  toTimestampMs
+} from './eventIngestion';
 
 interface BackgroundSSEConfig {
   apiKey: string;
@@ -6,13 +25,35 @@ interface BackgroundSSEConfig {
   endpoint: string;
 }
 
+const STREAM_ENDPOINT = process.env.FUSION_ENDPOINT || `${FUSION_SERVER_BASE_URL}/api/events/stream`;
+
+// Live events are broadcast to keypads; backfilled ones only go to the database
+type EventSourceKind = 'live' | 'backfill';
+
+// Checkpoint writes are batched rather than made for every event
+const CHECKPOINT_SAVE_DELAY_MS = 5000;
+
 class BackgroundSSEService {
   private eventSource: any = null;
   private config: BackgroundSSEConfig | null = null;
   private isRunning = false;
+  private isConnected = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 5000; // 5 seconds
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private abortController: AbortController | null = null;
+  // Bumped on stop so a connection from before a restart doesn't reconnect itself
+  private connectionGeneration = 0;
+
+  // Where the stream was last read up to, saved so a restart resumes from there
+  private checkpoint: IngestionCheckpoint = EMPTY_CHECKPOINT;
+  private checkpointSaveTimer: NodeJS.Timeout | null = null;
+  private lastBackfill: { at: string; count: number } | null = null;
+
+  private startedAt: string | null = null;
+  private lastError: string | null = null;
+  private eventsSaved = 0;
+  private eventsBackfilled = 0;
+  private duplicatesSkipped = 0;
   
   // 🔥 ADD: Event deduplication cache
   private processedEvents = new Set<string>();
@@ -20,23 +61,21 @@ class BackgroundSSEService {
   private readonly EVENT_CACHE_TTL = 30000; // 30 seconds
   private eventCacheCleanupTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
-    console.log('🔧 Background SSE Service initialized');
-    
-    // Start cleanup timer for event cache
+  constructor(private readonly organizationId: string) {
+    console.log('🔧 Background SSE Service initialized for', organizationId);
+    this.startCacheCleanup();
+  }
+
+  private startCacheCleanup() {
+    if (this.eventCacheCleanupTimer) return;
     this.eventCacheCleanupTimer = setInterval(() => {
       this.cleanupEventCache();
     }, this.EVENT_CACHE_TTL);
   }
 
-  // 🔥 ADD: Create unique event identifier
+  // Same identity the database dedupes on, so the cache only saves round trips
   private createEventId(rawEvent: any): string {
-    const deviceId = rawEvent.deviceId || rawEvent.deviceName || 'unknown';
-    const timestamp = rawEvent.timestamp || new Date().toISOString();
-    const eventType = rawEvent.event?.type || rawEvent.eventType || rawEvent.type || 'unknown';
-    const eventUuid = rawEvent.eventUuid || '';
-    
-    return `${deviceId}:${timestamp}:${eventType}:${eventUuid}`;
+    return getEventIdentity(rawEvent);
   }
 
   // 🔥 ADD: Cleanup old events from cache
@@ -57,12 +96,22 @@ class BackgroundSSEService {
     }
 
     this.config = config;
+    this.isRunning = true;
+    this.startedAt = new Date().toISOString();
+    this.lastError = null;
+    this.startCacheCleanup();
     console.log('🔧 Starting Background SSE Service...', {
       endpoint: config.endpoint,
       organizationId: config.organizationId
     });
 
-    await this.connect();
+    this.checkpoint = await loadCheckpoint(config.organizationId);
+    if (this.checkpoint.lastEventTimestamp) {
+      console.log('🔧 Background SSE: Resuming from checkpoint', this.checkpoint);
+    }
+
+    // Runs until stopped; the stream is read in the background
+    this.connect();
   }
 
   private async connect() {
@@ -70,6 +119,9 @@ class BackgroundSSEService {
       console.error('❌ Background SSE: No configuration provided');
       return;
     }
+    if (!this.isRunning) return;
+    const generation = this.connectionGeneration;
+    const isCurrent = () => this.isRunning && generation === this.connectionGeneration;
 
     try {
       console.log('🔧 Background SSE: Starting native streaming connection...');
@@ -77,6 +129,8 @@ class BackgroundSSEService {
       const url = `${this.config.endpoint}?organizationId=${this.config.organizationId}&includeThumbnails=true`;
       console.log('🔧 Background SSE: Connecting to', url);
 
+      this.abortController = new AbortController();
+
       // Use native fetch with streaming for better server-side compatibility
       const response = await fetch(url, {
         method: 'GET',
@@ -84,8 +138,11 @@ class BackgroundSSEService {
           'x-api-key': this.config.apiKey,
           'Accept': 'text/event-stream',
           'Cache-Control': 'no-cache',
-          'User-Agent': 'FusionAlarmKeypad/1.0'
-        }
+          'User-Agent': 'FusionAlarmKeypad/1.0',
+          // Lets a bridge that supports it replay what we missed
+          ...(this.checkpoint.lastEventId ? { 'Last-Event-ID': this.checkpoint.lastEventId } : {})
+        },
+        signal: this.abortController.signal
       });
 
       if (!response.ok) {
@@ -97,21 +154,28 @@ class BackgroundSSEService {
       }
 
       console.log('✅ Background SSE: Connected successfully');
-      this.isRunning = true;
+      this.isConnected = true;
       this.reconnectAttempts = 0;
-      this.reconnectDelay = 5000;
+      this.lastError = null;
 
       // Store the response for cleanup
       this.eventSource = response;
 
+      // Fill the gap before reading the stream; anything sent meanwhile waits in
+      // the stream and duplicates are skipped by the event cache
+      await this.backfill();
+
       // Process the streaming response
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let buffer = '';
+      // An event can span chunks, so its fields outlive each read
+      let eventData = '';
+      let eventId = '';
 
       const processStream = async () => {
         try {
-          while (this.isRunning) {
+          while (isCurrent()) {
             const { done, value } = await reader.read();
             
             if (done) {
@@ -127,54 +191,116 @@ class BackgroundSSEService {
             const lines = buffer.split('\n');
             buffer = lines.pop() || ''; // Keep incomplete line in buffer
 
-            let eventData = '';
-            let eventType = '';
-
             for (const line of lines) {
               if (line.startsWith('data: ')) {
                 eventData = line.substring(6);
-              } else if (line.startsWith('event: ')) {
-                eventType = line.substring(7);
-              } else if (line === '') {
+              } else if (line.startsWith('id:')) {
+                eventId = line.substring(3).trim();
+              } else if (line === '' || line === '\r') {
                 // Empty line indicates end of event
                 if (eventData) {
                   try {
                     console.log('🔧 Background SSE: Processing event data...');
                     const parsedData = JSON.parse(eventData);
-                    await this.processEvent(parsedData);
+                    await this.processEvent(parsedData, 'live', eventId || null);
                   } catch (parseError) {
                     console.error('❌ Background SSE: Error parsing event data:', parseError);
                   }
-                  eventData = '';
-                  eventType = '';
                 }
+                eventData = '';
+                eventId = '';
               }
             }
           }
         } catch (error) {
-          console.error('❌ Background SSE: Stream processing error:', error);
+          if (isCurrent()) {
+            console.error('❌ Background SSE: Stream processing error:', error);
+          }
         } finally {
           reader.releaseLock();
         }
       };
 
       await processStream();
+      if (isCurrent()) {
+        this.isConnected = false;
+        this.scheduleReconnect();
+      }
     } catch (error) {
-      console.error('❌ Background SSE: Connection error:', error);
-      if (this.isRunning && this.reconnectAttempts < this.maxReconnectAttempts) {
-        this.reconnectAttempts++;
-        console.log(`🔧 Background SSE: Reconnecting (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
-        setTimeout(() => this.connect(), this.reconnectDelay);
-        this.reconnectDelay = Math.min(this.reconnectDelay * 2, 30000); // Exponential backoff
-      } else {
-        console.error('❌ Background SSE: Max reconnection attempts reached');
-        this.isRunning = false;
+      if (isCurrent()) {
+        this.isConnected = false;
+        console.error('❌ Background SSE: Connection error:', error);
+        this.lastError = error instanceof Error ? error.message : String(error);
+        this.scheduleReconnect();
       }
     }
   }
 
-  private async processEvent(rawEvent: any) {
+  // Keep trying for as long as the service is running
+  private scheduleReconnect() {
+    if (!this.isRunning || this.reconnectTimer) return;
+
+    this.reconnectAttempts++;
+    const delay = getReconnectDelay(this.reconnectAttempts);
+    console.log(`🔧 Background SSE: Reconnecting in ${Math.round(delay / 1000)}s (attempt ${this.reconnectAttempts})...`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Fetch what the bridge recorded since the checkpoint and process it in order
+  private async backfill() {
+    if (!this.config) return;
+    const sinceHours = getBackfillSinceHours(this.checkpoint);
+    if (sinceHours === null) return;
+
+    const response = await fusionServerFetch<{ success?: boolean; data?: any[] }>(
+      `/api/events?limit=${BACKFILL_LIMIT}&sinceHours=${sinceHours}`,
+      this.config.apiKey
+    );
+    if (response.error) {
+      console.error('❌ Background SSE: Backfill failed:', response.error);
+      return;
+    }
+
+    const fetched = response.data?.data || [];
+    if (fetched.length >= BACKFILL_LIMIT) {
+      console.warn(`⚠️ Background SSE: Backfill hit the ${BACKFILL_LIMIT} event limit; older events in the gap may be missing`);
+    }
+
+    const missed = selectBackfillEvents(fetched, this.checkpoint, event => this.processedEvents.has(this.createEventId(event)));
+    for (const event of missed) {
+      const ms = toTimestampMs(event.timestamp);
+      await this.processEvent({ ...event, timestamp: ms !== null ? new Date(ms).toISOString() : event.timestamp }, 'backfill', null);
+    }
+
+    this.lastBackfill = { at: new Date().toISOString(), count: missed.length };
+    this.eventsBackfilled += missed.length;
+    console.log(`✅ Background SSE: Backfilled ${missed.length} missed events`);
+  }
+
+  private recordProcessed(eventId: string | null, timestamp: unknown) {
+    this.checkpoint = advanceCheckpoint(this.checkpoint, eventId, timestamp);
+    if (this.checkpointSaveTimer) return;
+    this.checkpointSaveTimer = setTimeout(() => {
+      this.checkpointSaveTimer = null;
+      this.flushCheckpoint();
+    }, CHECKPOINT_SAVE_DELAY_MS);
+  }
+
+  private flushCheckpoint() {
+    if (!this.config || !this.checkpoint.lastEventTimestamp) return;
+    saveCheckpoint(this.config.organizationId, this.checkpoint).catch(error => {
+      console.error('❌ Background SSE: Failed to save checkpoint:', error);
+    });
+  }
+
+  private async processEvent(incomingEvent: any, source: EventSourceKind, streamEventId: string | null) {
     try {
+      // An event without a time gets one now; its identity depends on it
+      const rawEvent = incomingEvent.timestamp ? incomingEvent : { ...incomingEvent, timestamp: new Date().toISOString() };
+
       // 🔥 ADD: Check for duplicate events
       const eventId = this.createEventId(rawEvent);
       
@@ -239,7 +365,8 @@ class BackgroundSSEService {
       }
 
       const eventData = {
-        organizationId: rawEvent.organizationId || 'unknown',
+        eventUuid: eventId,
+        organizationId: rawEvent.organizationId || this.config?.organizationId || 'unknown',
         locationId: rawEvent.locationId,
         spaceId: rawEvent.spaceId,
         deviceId: rawEvent.deviceId,
@@ -250,7 +377,7 @@ class BackgroundSSEService {
         connectorCategory: rawEvent.connectorCategory,
         type: rawEvent.event?.type || rawEvent.eventType || rawEvent.type || 'unknown',
         category: rawEvent.event?.category || rawEvent.eventCategory,
-        timestamp: rawEvent.timestamp || new Date().toISOString(),
+        timestamp: rawEvent.timestamp,
         displayState: rawEvent.displayState,
         eventSubtype: rawEvent.event?.subType || rawEvent.eventSubtype,
         rawEventType: rawEvent.rawEvent?.eventType || rawEvent.rawEventType,
@@ -264,7 +391,17 @@ class BackgroundSSEService {
 
       // Store in database with raw event data
       insertEvent(eventData, rawEvent)
-        .then(() => {
+        .then(({ inserted, error }) => {
+          this.recordProcessed(streamEventId || rawEvent.eventUuid || null, eventData.timestamp);
+
+          // Already saved by an earlier delivery, backfill or run of the service
+          if (!inserted && !error) {
+            this.duplicatesSkipped++;
+            console.log('🔄 Background SSE: Event already stored:', eventId);
+            return;
+          }
+          if (inserted) this.eventsSaved++;
+
           console.log('✅ Background SSE: Event saved to database:', {
             device: eventData.deviceName,
             type: eventData.type,
@@ -289,14 +426,21 @@ class BackgroundSSEService {
 
           // Broadcast to connected frontend clients for real-time updates
           try {
-            // Only broadcast if running in Next.js server context
-            if (typeof window === 'undefined') {
+            // Only broadcast if running in Next.js server context. Backfilled events
+            // are history; keypads pick them up from the database instead.
+            if (typeof window === 'undefined' && source === 'live') {
               // Dynamic import to avoid issues with client-side rendering
                           import('@/lib/event-broadcast').then(({ broadcastEvent }) => {
-              broadcastEvent({
+              const liveEvent = {
                   id: eventData.timestamp,
                   type: eventData.type,
+                  deviceId: eventData.deviceId,
                   deviceName: eventData.deviceName,
+                  spaceId: eventData.spaceId,
+                  locationId: eventData.locationId,
+                  // Zone arm changes carry the zone and its new state
+                  alarmZoneId: eventData.payload?.alarmZoneId || rawEvent.alarmZoneId,
+                  armedState: eventData.payload?.armedState || rawEvent.armedState,
                   timestamp: eventData.timestamp,
                   imageUrl: eventData.imageUrl,
                   displayState: eventData.displayState,
@@ -304,7 +448,17 @@ class BackgroundSSEService {
                   category: eventData.category,
                   eventSource: 'live-sse',
                   isAlarmZoneEvent: isAlarmZoneEvent
-                });
+                };
+              // Everything on this stream belongs to the organization it was opened for,
+              // and only that organization's keypads receive it
+              const streamOrganizationId = this.config?.organizationId;
+              if (!streamOrganizationId) return;
+              broadcastEvent(streamOrganizationId, liveEvent);
+
+              // Mark off keypad commands waiting on this change
+              import('@/lib/command-queue').then(({ confirmCommands }) => confirmCommands(streamOrganizationId, liveEvent)).catch(error => {
+                console.error('❌ Background SSE: Command confirmation failed:', error);
+              });
               }).catch(error => {
                 // Silently ignore broadcast errors - not critical
                 console.log('📡 Background SSE: Live broadcast unavailable:', error.message);
@@ -323,12 +477,29 @@ class BackgroundSSEService {
     }
   }
 
+  getConfig(): BackgroundSSEConfig | null {
+    return this.config;
+  }
+
+  getApiKey(): string | null {
+    return this.config?.apiKey || null;
+  }
+
   stop() {
     console.log('🔧 Background SSE: Stopping service...');
     this.isRunning = false;
+    this.isConnected = false;
+    this.connectionGeneration++;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     
     if (this.eventSource) {
       try {
+        this.abortController?.abort();
+        this.abortController = null;
         this.eventSource = null;
       } catch (error) {
         console.error('❌ Background SSE: Error stopping event source:', error);
@@ -342,45 +513,99 @@ class BackgroundSSEService {
       this.eventCacheCleanupTimer = null;
     }
     
+    // Save how far we got so the next start backfills from there
+    if (this.checkpointSaveTimer) {
+      clearTimeout(this.checkpointSaveTimer);
+      this.checkpointSaveTimer = null;
+    }
+    this.flushCheckpoint();
+    
     this.reconnectAttempts = 0;
     console.log('✅ Background SSE: Service stopped');
   }
 
-  getStatus() {
+  getStatus(): IngestionWorkerStatus {
     return {
+      organizationId: this.organizationId,
       isRunning: this.isRunning,
+      isConnected: this.isConnected,
       reconnectAttempts: this.reconnectAttempts,
-      processedEventsCount: this.processedEvents.size
+      startedAt: this.startedAt,
+      lastError: this.lastError,
+      eventsSaved: this.eventsSaved,
+      eventsBackfilled: this.eventsBackfilled,
+      duplicatesSkipped: this.duplicatesSkipped,
+      processedEventsCount: this.processedEvents.size,
+      checkpoint: this.checkpoint,
+      lastBackfill: this.lastBackfill
     };
   }
 }
 
-// Singleton instance
-let backgroundSSEService: BackgroundSSEService | null = null;
+// One worker per organization, kept after it stops so it can be restarted
+const workers = new Map<string, BackgroundSSEService>();
 
-export async function startBackgroundSSE() {
-  if (!backgroundSSEService) {
-    backgroundSSEService = new BackgroundSSEService();
+// Start an organization's worker. A new API key replaces the stored one; without
+// one, only a worker that has run before can be started again.
+export async function startBackgroundSSE(organizationId: string, apiKey?: string): Promise<IngestionWorkerStatus | null> {
+  let worker = workers.get(organizationId);
+  if (!worker && !apiKey) {
+    return null;
+  }
+  if (!worker) {
+    worker = new BackgroundSSEService(organizationId);
+    workers.set(organizationId, worker);
   }
 
-  const config = {
-    apiKey: process.env.FUSION_API_KEY || 'vjInQXtpHBJWdFUWpCXlPLxkHtMBePTZstbbqgZolRhuDsHDMBbIeWRRhemnZerU',
-    organizationId: process.env.FUSION_ORGANIZATION_ID || 'GF1qXccUcdNJbIkUAbYR9SKAEwVonZZK',
-    endpoint: process.env.FUSION_ENDPOINT || 'https://fusion-bridge-production.up.railway.app/api/events/stream'
-  };
+  const status = worker.getStatus();
+  if (status.isRunning && apiKey && apiKey !== worker.getApiKey()) {
+    // Reconnect with the new credentials
+    worker.stop();
+  }
 
-  await backgroundSSEService.start(config);
+  const config = apiKey
+    ? { apiKey, organizationId, endpoint: STREAM_ENDPOINT }
+    : worker.getConfig();
+  if (!config) {
+    return null;
+  }
+
+  await worker.start(config);
+  return worker.getStatus();
 }
 
-export function stopBackgroundSSE() {
-  if (backgroundSSEService) {
-    backgroundSSEService.stop();
+export function stopBackgroundSSE(organizationId: string): IngestionWorkerStatus | null {
+  const worker = workers.get(organizationId);
+  if (!worker) {
+    return null;
   }
+  worker.stop();
+  return worker.getStatus();
 }
 
-export function getBackgroundSSEStatus() {
-  if (!backgroundSSEService) {
-    return { isRunning: false, reconnectAttempts: 0, processedEventsCount: 0 };
+export function getBackgroundSSEStatus(organizationId: string): IngestionWorkerStatus {
+  const worker = workers.get(organizationId);
+  if (!worker) {
+    return {
+      organizationId,
+      isRunning: false,
+      isConnected: false,
+      reconnectAttempts: 0,
+      startedAt: null,
+      lastError: null,
+      eventsSaved: 0,
+      eventsBackfilled: 0,
+      duplicatesSkipped: 0,
+      processedEventsCount: 0,
+      checkpoint: EMPTY_CHECKPOINT,
+      lastBackfill: null
+    };
   }
-  return backgroundSSEService.getStatus();
-} 
\ No newline at end of file
+  return worker.getStatus();
+}
+
+export function listBackgroundSSEWorkers(): IngestionWorkerStatus[] {
+  return Array.from(workers.values())
+    .map(worker => worker.getStatus())
+    .sort((a, b) => a.organizationId.localeCompare(b.organizationId));
+}
@@ -0,0 +1,117 @@
+// Chime mode: the keypad chimes when a door or window in one of the chosen spaces
+// opens while its zone is disarmed. Settings are per keypad and live in
+// localStorage, like the session settings.
+
+import type { AlarmZone, Device } from './api';
+import type { LiveEvent } from './liveState';
+
+const SETTINGS_KEY = 'fusion_chime_settings';
+
+export type ChimeSound = 'ding_dong' | 'triple' | 'soft';
+
+export interface ChimeQuietHours {
+  enabled: boolean;
+  // HH:mm in the keypad's local time; a start after the end runs overnight
+  start: string;
+  end: string;
+}
+
+export interface ChimeSettings {
+  enabled: boolean;
+  sound: ChimeSound;
+  // Spaces to chime for; empty means every space
+  spaceIds: string[];
+  quietHours: ChimeQuietHours;
+}
+
+export const CHIME_SOUNDS: ChimeSound[] = ['ding_dong', 'triple', 'soft'];
+
+export const CHIME_SOUND_LABELS: Record<ChimeSound, string> = {
+  ding_dong: 'Ding-dong',
+  triple: 'Triple beep',
+  soft: 'Soft tone'
+};
+
+export const DEFAULT_CHIME_SETTINGS: ChimeSettings = {
+  enabled: false,
+  sound: 'ding_dong',
+  spaceIds: [],
+  quietHours: { enabled: false, start: '22:00', end: '07:00' }
+};
+
+// How long the "door opened" notice stays on screen
+export const CHIME_NOTICE_MS = 5000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const getChimeSettings = (): ChimeSettings => {
+  if (typeof window === 'undefined') return DEFAULT_CHIME_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const quietHours = stored.quietHours || {};
+    return {
+      enabled: stored.enabled === true,
+      sound: CHIME_SOUNDS.includes(stored.sound) ? stored.sound : DEFAULT_CHIME_SETTINGS.sound,
+      spaceIds: Array.isArray(stored.spaceIds) ? stored.spaceIds.filter((id: unknown) => typeof id === 'string') : [],
+      quietHours: {
+        enabled: quietHours.enabled === true,
+        start: TIME_PATTERN.test(quietHours.start) ? quietHours.start : DEFAULT_CHIME_SETTINGS.quietHours.start,
+        end: TIME_PATTERN.test(quietHours.end) ? quietHours.end : DEFAULT_CHIME_SETTINGS.quietHours.end
+      }
+    };
+  } catch (error) {
+    console.error('Failed to parse chime settings:', error);
+    return DEFAULT_CHIME_SETTINGS;
+  }
+};
+
+export const saveChimeSettings = (settings: Partial<ChimeSettings>): ChimeSettings => {
+  const next = { ...getChimeSettings(), ...settings };
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  }
+  return getChimeSettings();
+};
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isInQuietHours = (quietHours: ChimeQuietHours, now: Date = new Date()): boolean => {
+  if (!quietHours.enabled) return false;
+  const current = now.getHours() * 60 + now.getMinutes();
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+const isContactSensor = (device: Device) => {
+  const type = `${device.type} ${device.deviceTypeInfo?.type || ''} ${device.deviceTypeInfo?.subtype || ''}`.toLowerCase();
+  return /\b(door|window|contact)\b/.test(type);
+};
+
+const isOpening = (displayState: string | undefined) => {
+  const state = (displayState || '').toLowerCase();
+  return state === 'open' || state === 'opened';
+};
+
+// The device to chime for, or null when the event shouldn't chime
+export const getChimeDevice = (
+  event: LiveEvent,
+  devices: Device[],
+  alarmZones: AlarmZone[],
+  settings: ChimeSettings,
+  now: Date = new Date()
+): Device | null => {
+  if (!settings.enabled || !isOpening(event.displayState) || isInQuietHours(settings.quietHours, now)) return null;
+
+  const device = devices.find(d => d.id === event.deviceId) || devices.find(d => !!event.deviceName && d.name === event.deviceName);
+  if (!device || !isContactSensor(device)) return null;
+  if (settings.spaceIds.length > 0 && (!device.spaceId || !settings.spaceIds.includes(device.spaceId))) return null;
+
+  // Armed zones handle openings themselves with the entry delay
+  const zones = alarmZones.filter(zone => zone.deviceIds?.includes(device.id));
+  return zones.every(zone => zone.armedState === 'DISARMED') ? device : null;
+};
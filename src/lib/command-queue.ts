@@ -0,0 +1,311 @@
+// Keypad command queue (server-side only).
+// Commands are recorded in keypad_commands before they go to Fusion, retried a
+// bounded number of times when the failure may pass, then held as 'sent' until live events show every
+// target in the requested state or the confirmation window runs out. Every status
+// change is pushed to keypads as a live event.
+
+import { supabase } from './db';
+import { broadcastEvent } from './event-broadcast';
+import { fusionServerFetch } from './fusion-server';
+import type { LiveEvent } from './liveState';
+import {
+  KeypadCommand,
+  KeypadCommandRequest,
+  KeypadCommandStatus,
+  KeypadCommandType,
+  KEYPAD_COMMAND_EVENT_TYPE,
+  MAX_COMMAND_ATTEMPTS,
+  COMMAND_CONFIRM_TIMEOUT_MS,
+  getConfirmedTargets,
+  getFusionRequest,
+  getRetryDelay,
+  isRetryableCommandError
+} from './keypadCommands';
+
+interface CommandContext {
+  organizationId: string;
+  locationId: string | null;
+  keypadId: string | null;
+  requestedBy: string | null;
+}
+
+export interface CommandSubmission {
+  command: KeypadCommand;
+  // Fusion's response to the command, once it has been sent
+  result: unknown;
+}
+
+// How far back keypads are shown commands
+const RECENT_COMMAND_MINUTES = 30;
+
+// Sent commands waiting for a live event, with the timer that gives up on them
+const awaitingConfirmation = new Map<string, KeypadCommand>();
+const timeoutTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+interface CommandRow {
+  id: string;
+  organization_id: string;
+  location_id: string | null;
+  keypad_id: string | null;
+  requested_by: string | null;
+  idempotency_key: string;
+  command_type: KeypadCommandType;
+  target_ids: string[] | null;
+  state: string | null;
+  label: string;
+  status: KeypadCommandStatus;
+  attempts: number;
+  last_error: string | null;
+  confirmed_target_ids: string[] | null;
+  created_at: string;
+  sent_at: string | null;
+  confirmed_at: string | null;
+  expires_at: string;
+}
+
+const toKeypadCommand = (row: CommandRow): KeypadCommand => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  locationId: row.location_id,
+  keypadId: row.keypad_id,
+  requestedBy: row.requested_by,
+  idempotencyKey: row.idempotency_key,
+  type: row.command_type,
+  targetIds: row.target_ids || [],
+  state: row.state,
+  label: row.label,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  confirmedTargetIds: row.confirmed_target_ids || [],
+  createdAt: row.created_at,
+  sentAt: row.sent_at,
+  confirmedAt: row.confirmed_at,
+  expiresAt: row.expires_at
+});
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const expiryFrom = (from: number) => new Date(from + COMMAND_CONFIRM_TIMEOUT_MS).toISOString();
+
+async function findCommand(organizationId: string, idempotencyKey: string): Promise<CommandSubmission | null> {
+  const { data, error } = await supabase
+    .from('keypad_commands')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[command-queue] findCommand error:', error);
+    return null;
+  }
+  return data ? { command: toKeypadCommand(data), result: data.result ?? null } : null;
+}
+
+// Persist a status change and tell the keypads about it
+async function saveCommand(command: KeypadCommand, result?: unknown) {
+  const { error } = await supabase
+    .from('keypad_commands')
+    .update({
+      status: command.status,
+      attempts: command.attempts,
+      last_error: command.lastError,
+      confirmed_target_ids: command.confirmedTargetIds,
+      sent_at: command.sentAt,
+      confirmed_at: command.confirmedAt,
+      expires_at: command.expiresAt,
+      ...(result !== undefined ? { result } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', command.id);
+
+  if (error) {
+    console.error('[command-queue] saveCommand error:', error);
+  }
+
+  broadcastEvent(command.organizationId, {
+    id: `${command.id}-${command.status}-${command.confirmedTargetIds.length}`,
+    type: KEYPAD_COMMAND_EVENT_TYPE,
+    locationId: command.locationId,
+    timestamp: new Date().toISOString(),
+    eventSource: 'command-queue',
+    command
+  });
+}
+
+function awaitConfirmation(command: KeypadCommand) {
+  awaitingConfirmation.set(command.id, command);
+  const timer = setTimeout(() => {
+    expireCommand(command.id).catch(error => {
+      console.error('[command-queue] Expiry failed:', error);
+    });
+  }, Math.max(0, new Date(command.expiresAt).getTime() - Date.now()));
+  timeoutTimers.set(command.id, timer);
+}
+
+function stopAwaiting(commandId: string) {
+  awaitingConfirmation.delete(commandId);
+  const timer = timeoutTimers.get(commandId);
+  if (timer) clearTimeout(timer);
+  timeoutTimers.delete(commandId);
+}
+
+async function expireCommand(commandId: string) {
+  const command = awaitingConfirmation.get(commandId);
+  stopAwaiting(commandId);
+  if (!command) return;
+
+  await saveCommand({
+    ...command,
+    status: 'timed_out',
+    lastError: 'No live event confirmed the change'
+  });
+}
+
+async function dispatchCommand(command: KeypadCommand, apiKey: string): Promise<CommandSubmission> {
+  const request = getFusionRequest(command);
+  let current = command;
+
+  for (let attempt = command.attempts + 1; attempt <= MAX_COMMAND_ATTEMPTS; attempt++) {
+    const response = await fusionServerFetch<{ success?: boolean; data?: unknown }>(request.path, apiKey, {
+      method: request.method,
+      body: JSON.stringify({ ...request.body, timestamp: new Date().toISOString() })
+    });
+
+    if (!response.error) {
+      const now = Date.now();
+      const result = response.data?.data ?? null;
+      current = {
+        ...current,
+        status: 'sent',
+        attempts: attempt,
+        lastError: null,
+        sentAt: new Date(now).toISOString(),
+        expiresAt: expiryFrom(now)
+      };
+      await saveCommand(current, result);
+      awaitConfirmation(current);
+      return { command: current, result };
+    }
+
+    current = { ...current, attempts: attempt, lastError: response.error };
+    if (!isRetryableCommandError(response.status)) {
+      break;
+    }
+    if (attempt < MAX_COMMAND_ATTEMPTS) {
+      await saveCommand(current);
+      await delay(getRetryDelay(attempt));
+    }
+  }
+
+  current = { ...current, status: 'failed' };
+  await saveCommand(current);
+  return { command: current, result: null };
+}
+
+// Queue a command and send it. A request whose idempotency key was seen before
+// returns the original command and result without sending anything again.
+export async function submitCommand(
+  request: KeypadCommandRequest,
+  context: CommandContext,
+  apiKey: string
+): Promise<CommandSubmission | null> {
+  const existing = await findCommand(context.organizationId, request.idempotencyKey);
+  if (existing) {
+    return existing;
+  }
+
+  const { data, error } = await supabase
+    .from('keypad_commands')
+    .insert({
+      organization_id: context.organizationId,
+      location_id: context.locationId,
+      keypad_id: context.keypadId,
+      requested_by: context.requestedBy,
+      idempotency_key: request.idempotencyKey,
+      command_type: request.type,
+      target_ids: request.targetIds,
+      state: request.state,
+      label: request.label,
+      expires_at: expiryFrom(Date.now())
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    // 23505 is a unique violation: the same command arrived twice at once
+    if (error.code === '23505') {
+      return findCommand(context.organizationId, request.idempotencyKey);
+    }
+    console.error('[command-queue] submitCommand error:', error);
+    return null;
+  }
+
+  return dispatchCommand(toKeypadCommand(data), apiKey);
+}
+
+// Mark off any command targets this live event shows in their requested state
+export async function confirmCommands(organizationId: string, event: LiveEvent & { locationId?: string | null }) {
+  const updates: KeypadCommand[] = [];
+  awaitingConfirmation.forEach(command => {
+    if (command.organizationId !== organizationId) return;
+    if (event.locationId && command.locationId && event.locationId !== command.locationId) return;
+    const confirmed = getConfirmedTargets(command, event);
+    if (confirmed.length === 0) return;
+
+    const confirmedTargetIds = [...command.confirmedTargetIds, ...confirmed];
+    const isComplete = command.targetIds.every(id => confirmedTargetIds.includes(id));
+    updates.push({
+      ...command,
+      confirmedTargetIds,
+      ...(isComplete ? { status: 'confirmed' as const, confirmedAt: new Date().toISOString() } : {})
+    });
+  });
+
+  await Promise.all(updates.map(command => {
+    if (command.status === 'confirmed') {
+      stopAwaiting(command.id);
+    } else {
+      awaitingConfirmation.set(command.id, command);
+    }
+    return saveCommand(command);
+  }));
+}
+
+// Commands still open past their deadline, e.g. from before a restart, have timed out
+async function expireStaleCommands(organizationId: string) {
+  const { error } = await supabase
+    .from('keypad_commands')
+    .update({ status: 'timed_out', last_error: 'No live event confirmed the change', updated_at: new Date().toISOString() })
+    .eq('organization_id', organizationId)
+    .in('status', ['pending', 'sent'])
+    .lt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('[command-queue] expireStaleCommands error:', error);
+  }
+}
+
+export async function listRecentCommands(organizationId: string, locationId: string | null): Promise<KeypadCommand[]> {
+  await expireStaleCommands(organizationId);
+
+  let query = supabase
+    .from('keypad_commands')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .gte('created_at', new Date(Date.now() - RECENT_COMMAND_MINUTES * 60 * 1000).toISOString());
+  if (locationId) {
+    query = query.eq('location_id', locationId);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error('[command-queue] listRecentCommands error:', error);
+    return [];
+  }
+  return (data || []).map(toKeypadCommand);
+}
@@ -1,5 +1,16 @@
 import { createClient } from '@supabase/supabase-js';
 import { Event } from './api';
+import { getEventIdentity } from './eventIngestion';
+import {
+  DeadLetter,
+  DeadLetterEvent,
+  DeadLetterReplayResult,
+  EventBatchWriteResult,
+  EventWriteResult,
+  EventWriter,
+  EventWriterStats,
+  EVENT_BATCH_SIZE
+} from './eventWriter';
 
 // Supabase client for events database
 export const supabase = createClient(
@@ -15,6 +26,7 @@ console.log('🔍 Supabase configuration:', {
 interface StoredEvent {
   id: string;
   organization_id: string;
+  event_uuid: string | null;
   location_id: string | null;
   space_id: string | null;
   device_id: string | null;
@@ -32,7 +44,7 @@ interface StoredEvent {
 function mapStoredEventToApiEvent(event: StoredEvent): Event {
   return {
     id: parseInt(event.id) || 0,
-    eventUuid: `local-${event.id}`,
+    eventUuid: event.event_uuid || `local-${event.id}`,
     deviceId: event.device_id || '',
     deviceName: event.device_name || '',
     connectorId: '',
@@ -64,6 +76,7 @@ function mapStoredEventToApiEvent(event: StoredEvent): Event {
 export interface EventData {
   id?: string;
   organization_id: string;
+  event_uuid: string;
   location_id?: string;
   space_id?: string;
   device_id?: string;
@@ -78,11 +91,59 @@ export interface EventData {
   caption?: string;
 }
 
-export async function insertEvent(event: any, rawEvent?: any) {
+// Events in this category (e.g. duress alarms) are never shown on keypads
+export const SILENT_EVENT_CATEGORY = 'silent_alarm';
+
+export type InsertEventResult = EventWriteResult;
+
+const getEventRowKey = (row: EventData) => `${row.organization_id}:${row.event_uuid}`;
+
+// Events are upserted on (organization_id, event_uuid), so a redelivered or
+// backfilled copy of an event already saved is skipped instead of stored twice.
+async function writeEventRows(rows: EventData[]): Promise<EventBatchWriteResult> {
+  const { data, error } = await supabase
+    .from('fusion_events')
+    .upsert(rows, { onConflict: 'organization_id,event_uuid', ignoreDuplicates: true })
+    .select('organization_id, event_uuid');
+
+  if (error) {
+    return { insertedKeys: [], error: { message: error.message, code: error.code } };
+  }
+  return { insertedKeys: (data || []).map(row => getEventRowKey(row as EventData)) };
+}
+
+async function saveDeadLetters(entries: DeadLetter<EventData>[]) {
+  const { error } = await supabase
+    .from('event_dead_letters')
+    .insert(entries.map(entry => ({
+      organization_id: entry.row.organization_id,
+      event_uuid: entry.row.event_uuid,
+      event_row: entry.row,
+      error: entry.error,
+      attempts: entry.attempts
+    })));
+
+  if (error) throw new Error(error.message);
+}
+
+const eventWriter = new EventWriter<EventData>({
+  getKey: getEventRowKey,
+  write: writeEventRows,
+  deadLetter: saveDeadLetters
+});
+
+// Events are written in batches and retried while the database is unavailable;
+// ones that still fail end up in event_dead_letters. Bridge events keep their
+// identity; events raised here get a fresh one.
+export async function insertEvent(event: any, rawEvent?: any): Promise<InsertEventResult> {
   try {
+    const eventUuid: string = event.eventUuid
+      || (rawEvent ? getEventIdentity(rawEvent) : globalThis.crypto.randomUUID());
+
     // 🔥 Multi-tenant structure with organization + location
     const eventData: EventData = {
       organization_id: event.organizationId || 'unknown',
+      event_uuid: eventUuid,
       location_id: event.locationId,
       space_id: event.spaceId,
       device_id: event.deviceId,
@@ -101,17 +162,147 @@ export async function insertEvent(event: any, rawEvent?: any) {
       caption: event.caption // Store caption for detection type display
     };
 
-    const { error } = await supabase
-      .from('fusion_events')
-      .insert([eventData]);
-
-    if (error) {
-      console.error('[db] insertEvent error:', error);
-    } else {
+    const result = await eventWriter.write(eventData);
+    if (result.error) {
+      console.error('[db] insertEvent error:', result.error);
+    } else if (result.inserted) {
       console.log('[db] Successfully inserted event:', event.deviceName);
+    } else {
+      console.log('[db] Skipped duplicate event:', eventUuid);
     }
+    return result;
   } catch (err) {
     console.error('[db] insertEvent exception:', err);
+    return { inserted: false, error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
+
+export function getEventWriterStats(): EventWriterStats {
+  return eventWriter.getStats();
+}
+
+interface DeadLetterRow {
+  id: string;
+  organization_id: string;
+  event_uuid: string;
+  event_row: EventData;
+  error: string | null;
+  attempts: number;
+  replay_count: number;
+  created_at: string;
+  last_replayed_at: string | null;
+}
+
+const mapDeadLetter = (row: DeadLetterRow): DeadLetterEvent => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  eventUuid: row.event_uuid,
+  eventType: row.event_row.event_type ?? null,
+  deviceName: row.event_row.device_name ?? null,
+  error: row.error,
+  attempts: row.attempts,
+  replayCount: row.replay_count,
+  createdAt: row.created_at,
+  lastReplayedAt: row.last_replayed_at
+});
+
+export async function listDeadLetters(organizationId?: string, limit: number = 100): Promise<DeadLetterEvent[]> {
+  try {
+    let query = supabase
+      .from('event_dead_letters')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[db] listDeadLetters error:', error);
+      return [];
+    }
+    return (data || []).map(mapDeadLetter);
+  } catch (err) {
+    console.error('[db] listDeadLetters exception:', err);
+    return [];
+  }
+}
+
+// Writes dead-lettered events straight to fusion_events, oldest first. Entries
+// that make it (or were stored meanwhile) are removed; the rest stay with the new
+// error. Replays skip the writer so a failed replay isn't dead-lettered again.
+export async function replayDeadLetters(
+  opts: { ids?: string[]; organizationId?: string; limit?: number } = {}
+): Promise<DeadLetterReplayResult> {
+  const empty: DeadLetterReplayResult = { replayed: 0, inserted: 0, duplicates: 0, failed: 0 };
+
+  try {
+    let query = supabase
+      .from('event_dead_letters')
+      .select('*')
+      .order('created_at', { ascending: true })
+      .limit(opts.limit ?? EVENT_BATCH_SIZE);
+
+    if (opts.ids?.length) {
+      query = query.in('id', opts.ids);
+    }
+    if (opts.organizationId) {
+      query = query.eq('organization_id', opts.organizationId);
+    }
+
+    const { data: entries, error: loadError } = await query;
+    if (loadError) {
+      console.error('[db] replayDeadLetters error:', loadError);
+      return { ...empty, error: loadError.message };
+    }
+    if (!entries?.length) return empty;
+
+    // The same event can have been dead-lettered more than once
+    const rows = new Map<string, EventData>();
+    entries.forEach(entry => rows.set(getEventRowKey(entry.event_row), entry.event_row));
+
+    const ids = entries.map(entry => entry.id);
+    const { insertedKeys, error } = await writeEventRows(Array.from(rows.values()));
+
+    if (error) {
+      const now = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from('event_dead_letters')
+        .upsert(entries.map(entry => ({
+          ...entry,
+          error: error.message,
+          replay_count: (entry.replay_count || 0) + 1,
+          last_replayed_at: now,
+          updated_at: now
+        })), { onConflict: 'id' });
+
+      if (updateError) {
+        console.error('[db] replayDeadLetters update error:', updateError);
+      }
+      return { ...empty, replayed: entries.length, failed: entries.length, error: error.message };
+    }
+
+    const { error: deleteError } = await supabase
+      .from('event_dead_letters')
+      .delete()
+      .in('id', ids);
+
+    if (deleteError) {
+      console.error('[db] replayDeadLetters delete error:', deleteError);
+    }
+
+    return {
+      replayed: entries.length,
+      inserted: insertedKeys.length,
+      // Events that were already stored, counting repeated dead letters once
+      duplicates: rows.size - insertedKeys.length,
+      failed: 0
+    };
+  } catch (err) {
+    console.error('[db] replayDeadLetters exception:', err);
+    return { ...empty, error: err instanceof Error ? err.message : 'Unknown error' };
   }
 }
 
@@ -124,6 +315,7 @@ interface ListOpts {
   device?: string;
   limit?: number;
   offset?: number;
+  includeSilent?: boolean; // Include silent alarm events (hidden by default)
 }
 
 export async function listEvents(opts: ListOpts) {
@@ -136,6 +328,7 @@ export async function listEvents(opts: ListOpts) {
     device,
     limit = 50, // 🔥 Smaller default limit
     offset = 0,
+    includeSilent = false,
   } = opts;
 
   try {
@@ -159,6 +352,9 @@ export async function listEvents(opts: ListOpts) {
     if (device) {
       query = query.eq('device_name', device);
     }
+    if (!includeSilent) {
+      query = query.or(`category.is.null,category.neq.${SILENT_EVENT_CATEGORY}`);
+    }
 
     // Apply pagination
     query = query.range(offset, offset + limit - 1);
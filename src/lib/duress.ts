@@ -0,0 +1,136 @@
+// Duress PIN support (server-side only).
+// A duress PIN completes the normal keypad flow but silently raises a critical alarm.
+
+import { createHmac } from 'crypto';
+import { supabase, insertEvent, SILENT_EVENT_CATEGORY } from './db';
+import { sendAlarmNotification } from './notifications';
+
+export interface DuressCode {
+  organizationId: string;
+  userId: string;
+  userName: string | null;
+}
+
+interface DuressContext {
+  organizationId: string;
+  locationId?: string | null;
+  locationName?: string | null;
+  keypadId?: string | null;
+}
+
+export const isDuressPinConfigured = () => !!process.env.KEYPAD_PIN_SECRET;
+
+// Keyed hash so stored values can't be reversed with a lookup table of 6-digit PINs.
+// Null without KEYPAD_PIN_SECRET: with a known key the hashes could be guessed offline.
+export function hashDuressPin(organizationId: string, pin: string): string | null {
+  const secret = process.env.KEYPAD_PIN_SECRET;
+  if (!secret) return null;
+  return createHmac('sha256', secret)
+    .update(`${organizationId}:${pin}`)
+    .digest('hex');
+}
+
+export async function findDuressCode(organizationId: string, pin: string): Promise<DuressCode | null> {
+  const pinHash = hashDuressPin(organizationId, pin);
+  if (!pinHash) return null;
+
+  const { data, error } = await supabase
+    .from('keypad_duress_codes')
+    .select('organization_id, user_id, user_name')
+    .eq('organization_id', organizationId)
+    .eq('pin_hash', pinHash)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[duress] findDuressCode error:', error);
+    return null;
+  }
+
+  return data ? {
+    organizationId: data.organization_id,
+    userId: data.user_id,
+    userName: data.user_name
+  } : null;
+}
+
+export async function saveDuressCode(code: DuressCode, pin: string): Promise<boolean> {
+  const pinHash = hashDuressPin(code.organizationId, pin);
+  if (!pinHash) {
+    console.error('[duress] KEYPAD_PIN_SECRET is not set; refusing to store a duress PIN');
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('keypad_duress_codes')
+    .upsert({
+      organization_id: code.organizationId,
+      user_id: code.userId,
+      user_name: code.userName,
+      pin_hash: pinHash,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'organization_id,user_id'
+    });
+
+  if (error) {
+    console.error('[duress] saveDuressCode error:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function deleteDuressCode(organizationId: string, userId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('keypad_duress_codes')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[duress] deleteDuressCode error:', error);
+    return false;
+  }
+  return true;
+}
+
+// Record the duress event and notify responders. Nothing is broadcast to keypads.
+export async function raiseDuressAlarm(code: DuressCode, context: DuressContext) {
+  const timestamp = new Date().toISOString();
+  const userLabel = code.userName || code.userId;
+
+  const results = await Promise.allSettled([
+    insertEvent({
+      organizationId: code.organizationId,
+      locationId: context.locationId || undefined,
+      type: 'Duress Alarm',
+      category: SILENT_EVENT_CATEGORY,
+      deviceName: 'Keypad',
+      timestamp,
+      displayState: 'Duress',
+      priority: 'critical',
+      userId: code.userId,
+      userName: code.userName,
+      keypadId: context.keypadId || null
+    }),
+    sendAlarmNotification({
+      kind: 'duress',
+      priority: 'critical',
+      title: 'Duress code entered',
+      message: `${userLabel} entered a duress PIN${context.locationName ? ` at ${context.locationName}` : ''}. The keypad was disarmed under duress.`,
+      organizationId: code.organizationId,
+      locationId: context.locationId,
+      timestamp,
+      data: {
+        userId: code.userId,
+        userName: code.userName,
+        keypadId: context.keypadId || null
+      }
+    })
+  ]);
+
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error('[duress] Failed to raise duress alarm:', result.reason);
+    }
+  });
+}
@@ -0,0 +1,41 @@
+// Entry delays: which live events start one and whether the zone should trigger
+// when it runs out. Pure so the keypad hook and its tests share the same rules.
+
+import type { AlarmZone } from './api';
+
+export interface EntryEvent {
+  id: string;
+  deviceId?: string;
+  displayState?: string;
+  timestamp?: string;
+}
+
+// Events older than this are history loaded from the database, not an entry
+export const MAX_ENTRY_EVENT_AGE_MS = 60 * 1000;
+
+// Events that arrived since the last one seen, newest first. Only the newest
+// counts the first time round, so history isn't replayed on load.
+export const getNewEntryEvents = <T extends EntryEvent>(events: T[], lastSeenId: string | null): T[] => {
+  const lastSeenIndex = events.findIndex(e => e.id === lastSeenId);
+  return lastSeenIndex === -1 ? events.slice(0, 1) : events.slice(0, lastSeenIndex);
+};
+
+// The armed-away zone a door or contact just opened in, if any
+export const getEntryZone = (event: EntryEvent, alarmZones: AlarmZone[], now: number = Date.now()): AlarmZone | null => {
+  const displayState = event.displayState?.toLowerCase() || '';
+  if (displayState !== 'open' && displayState !== 'opened') return null;
+
+  const eventTime = event.timestamp ? new Date(event.timestamp).getTime() : 0;
+  if (now - eventTime > MAX_ENTRY_EVENT_AGE_MS) return null;
+
+  return (event.deviceId && alarmZones.find(z =>
+    z.armedState === 'ARMED_AWAY' && z.deviceIds?.includes(event.deviceId!)
+  )) || null;
+};
+
+// The zone to trigger once its entry delay runs out, or null if it was disarmed
+// some other way during the countdown
+export const getZoneToTrigger = (zoneId: string, alarmZones: AlarmZone[]): AlarmZone | null => {
+  const current = alarmZones.find(z => z.id === zoneId);
+  return current?.armedState === 'ARMED_AWAY' ? current : null;
+};
@@ -1,14 +1,21 @@
+// Each live connection is bound to the organization its token was issued for
+interface LiveConnection {
+  organizationId: string;
+}
+
 // Store active connections
-const activeConnections = new Set<ReadableStreamDefaultController>();
+const activeConnections = new Map<ReadableStreamDefaultController, LiveConnection>();
+
+// Function to broadcast an organization's event to that organization's clients.
+// Events without an organization go nowhere rather than to everyone.
+export function broadcastEvent(organizationId: string | null | undefined, event: any) {
+  if (!organizationId) return;
+  const eventData = new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`);
 
-// Function to broadcast events to all connected clients
-export function broadcastEvent(event: any) {
-  const eventData = `data: ${JSON.stringify(event)}\n\n`;
-  
-  // Send to all active connections
-  activeConnections.forEach(controller => {
+  activeConnections.forEach((connection, controller) => {
+    if (connection.organizationId !== organizationId) return;
     try {
-      controller.enqueue(new TextEncoder().encode(eventData));
+      controller.enqueue(eventData);
     } catch (error) {
       // Connection closed, remove it
       activeConnections.delete(controller);
@@ -17,8 +24,8 @@ export function broadcastEvent(event: any) {
 }
 
 // Function to add a connection to the active set
-export function addConnection(controller: ReadableStreamDefaultController) {
-  activeConnections.add(controller);
+export function addConnection(controller: ReadableStreamDefaultController, connection: LiveConnection) {
+  activeConnections.set(controller, connection);
 }
 
 // Function to remove a connection from the active set
@@ -26,7 +33,12 @@ export function removeConnection(controller: ReadableStreamDefaultController) {
   activeConnections.delete(controller);
 }
 
-// Function to get the count of active connections
-export function getActiveConnectionCount(): number {
-  return activeConnections.size;
-} 
\ No newline at end of file
+// Function to get the count of active connections, optionally for one organization
+export function getActiveConnectionCount(organizationId?: string): number {
+  if (!organizationId) return activeConnections.size;
+  let count = 0;
+  activeConnections.forEach(connection => {
+    if (connection.organizationId === organizationId) count++;
+  });
+  return count;
+}
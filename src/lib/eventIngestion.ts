@@ -0,0 +1,116 @@
+// Background ingestion bookkeeping: how far the bridge's event stream has been
+// read, how long to wait before reconnecting, and which backfilled events fill
+// the gap a dropped connection left behind.
+
+export interface IngestionCheckpoint {
+  // Sent back as Last-Event-ID when the stream reconnects
+  lastEventId: string | null;
+  lastEventTimestamp: string | null;
+}
+
+export const EMPTY_CHECKPOINT: IngestionCheckpoint = { lastEventId: null, lastEventTimestamp: null };
+
+// One organization's background ingestion worker, as shown on /background-service
+export interface IngestionWorkerStatus {
+  organizationId: string;
+  isRunning: boolean;
+  // Running but not connected means it's waiting to reconnect
+  isConnected: boolean;
+  reconnectAttempts: number;
+  startedAt: string | null;
+  lastError: string | null;
+  eventsSaved: number;
+  eventsBackfilled: number;
+  // Deliveries of events that were already stored
+  duplicatesSkipped: number;
+  processedEventsCount: number;
+  checkpoint: IngestionCheckpoint;
+  lastBackfill: { at: string; count: number } | null;
+}
+
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+
+// Outages longer than this are only partly backfilled
+export const MAX_BACKFILL_HOURS = 24;
+export const BACKFILL_LIMIT = 500;
+
+// Exponential backoff with jitter: somewhere between half and all of the capped
+// delay, so a bridge restart doesn't bring every service back at the same moment
+export const getReconnectDelay = (attempt: number, random: () => number = Math.random) => {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
+
+// Stream events carry ISO timestamps, /api/events results carry epoch milliseconds
+export const toTimestampMs = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value) {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : ms;
+  }
+  return null;
+};
+
+// The parts of a raw bridge event its identity is built from
+export interface EventIdentityFields {
+  eventUuid?: string | null;
+  deviceId?: string | null;
+  deviceName?: string | null;
+  timestamp?: unknown;
+  event?: { type?: string | null } | null;
+  eventType?: string | null;
+  type?: string | null;
+}
+
+// Stable identity for a bridge event, stored as fusion_events.event_uuid. The
+// bridge's eventUuid when it sent one, otherwise built from the device, time and
+// type, with the time normalized so stream and backfilled copies agree.
+export const getEventIdentity = (event: EventIdentityFields | null | undefined): string => {
+  if (event?.eventUuid) return String(event.eventUuid);
+  const device = event?.deviceId || event?.deviceName || 'unknown';
+  const ms = toTimestampMs(event?.timestamp);
+  const type = event?.event?.type || event?.eventType || event?.type || 'unknown';
+  return `derived:${device}:${ms ?? 'unknown'}:${type}`;
+};
+
+// Move the checkpoint up to an event that has been processed; it never moves back
+export const advanceCheckpoint = (
+  checkpoint: IngestionCheckpoint,
+  eventId: string | null | undefined,
+  timestamp: unknown
+): IngestionCheckpoint => {
+  const ms = toTimestampMs(timestamp);
+  if (ms === null) return checkpoint;
+  const current = toTimestampMs(checkpoint.lastEventTimestamp);
+  if (current !== null && ms < current) return checkpoint;
+  return { lastEventId: eventId || checkpoint.lastEventId, lastEventTimestamp: new Date(ms).toISOString() };
+};
+
+// Hours of history to ask the bridge for, or null if nothing was processed yet
+export const getBackfillSinceHours = (checkpoint: IngestionCheckpoint, now = Date.now()): number | null => {
+  const since = toTimestampMs(checkpoint.lastEventTimestamp);
+  if (since === null) return null;
+  return Math.min(MAX_BACKFILL_HOURS, Math.max(1, Math.ceil((now - since) / (60 * 60 * 1000))));
+};
+
+// Backfilled events from the checkpoint on, oldest first. Several events can share
+// a timestamp, so ones at the checkpoint's exact time are kept unless they're the
+// checkpointed event itself or were already processed.
+export const selectBackfillEvents = <T extends { eventUuid?: string | null; timestamp?: unknown }>(
+  events: T[],
+  checkpoint: IngestionCheckpoint,
+  isProcessed: (event: T) => boolean = () => false
+): T[] => {
+  const since = toTimestampMs(checkpoint.lastEventTimestamp);
+  if (since === null) return [];
+
+  return events
+    .filter(event => {
+      const ms = toTimestampMs(event.timestamp);
+      if (ms === null || ms < since) return false;
+      if (event.eventUuid && event.eventUuid === checkpoint.lastEventId) return false;
+      return !isProcessed(event);
+    })
+    .sort((a, b) => (toTimestampMs(a.timestamp) ?? 0) - (toTimestampMs(b.timestamp) ?? 0));
+};
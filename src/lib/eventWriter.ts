@@ -0,0 +1,226 @@
+// Event write pipeline: events are queued, written in batches once enough have
+// arrived or a short interval has passed, and retried with backoff while the
+// database is unavailable. Events that still can't be written are handed to a
+// dead-letter store so they can be replayed instead of being lost.
+
+export const EVENT_BATCH_SIZE = 50;
+export const EVENT_FLUSH_INTERVAL_MS = 200;
+export const EVENT_WRITE_MAX_ATTEMPTS = 5;
+export const EVENT_WRITE_RETRY_BASE_DELAY_MS = 500;
+export const EVENT_WRITE_RETRY_MAX_DELAY_MS = 10 * 1000;
+// Past this, new events go straight to the dead-letter store
+export const EVENT_QUEUE_MAX_SIZE = 5000;
+
+export interface EventWriteResult {
+  // False when the event was already stored or couldn't be written
+  inserted: boolean;
+  error?: string;
+}
+
+export interface EventWriteError {
+  message: string;
+  // Postgres SQLSTATE or PostgREST code; absent when the database was never reached
+  code?: string;
+}
+
+export interface EventBatchWriteResult {
+  // Keys of the rows that were new; the rest were already stored
+  insertedKeys: string[];
+  error?: EventWriteError | null;
+}
+
+export interface DeadLetter<T> {
+  row: T;
+  error: string;
+  attempts: number;
+}
+
+// A dead-lettered event as listed by /api/events/dead-letters
+export interface DeadLetterEvent {
+  id: string;
+  organizationId: string;
+  eventUuid: string;
+  eventType: string | null;
+  deviceName: string | null;
+  error: string | null;
+  attempts: number;
+  replayCount: number;
+  createdAt: string;
+  lastReplayedAt: string | null;
+}
+
+export interface DeadLetterReplayResult {
+  replayed: number;
+  inserted: number;
+  duplicates: number;
+  failed: number;
+  error?: string;
+}
+
+export interface EventWriterStats {
+  queued: number;
+  written: number;
+  duplicates: number;
+  retries: number;
+  deadLettered: number;
+  // Turned away because the queue was full
+  rejected: number;
+}
+
+export interface EventWriterOptions<T> {
+  getKey: (row: T) => string;
+  write: (rows: T[]) => Promise<EventBatchWriteResult>;
+  deadLetter: (entries: DeadLetter<T>[]) => Promise<void>;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  maxAttempts?: number;
+  maxQueueSize?: number;
+}
+
+export const getWriteRetryDelay = (attempt: number) =>
+  Math.min(EVENT_WRITE_RETRY_MAX_DELAY_MS, EVENT_WRITE_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+
+// Connection problems, timeouts, deadlocks and resource limits clear up on their
+// own; constraint and data errors fail the same way however often they're retried
+const TRANSIENT_CODE_PREFIXES = ['08', '40', '53', '57', 'PGRST0'];
+
+export const isTransientWriteError = (error: EventWriteError) =>
+  !error.code || TRANSIENT_CODE_PREFIXES.some(prefix => error.code!.startsWith(prefix));
+
+interface QueuedRow<T> {
+  key: string;
+  row: T;
+  attempts: number;
+  // Set once the row failed as part of a batch, so it's retried on its own
+  isolated: boolean;
+  // Everyone who queued this row; only the first is told it was inserted
+  waiters: Array<(result: EventWriteResult) => void>;
+}
+
+export class EventWriter<T> {
+  private queue: QueuedRow<T>[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private stats: Omit<EventWriterStats, 'queued'> = {
+    written: 0,
+    duplicates: 0,
+    retries: 0,
+    deadLettered: 0,
+    rejected: 0
+  };
+
+  private readonly batchSize: number;
+  private readonly flushIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly maxQueueSize: number;
+
+  constructor(private readonly options: EventWriterOptions<T>) {
+    this.batchSize = options.batchSize ?? EVENT_BATCH_SIZE;
+    this.flushIntervalMs = options.flushIntervalMs ?? EVENT_FLUSH_INTERVAL_MS;
+    this.maxAttempts = options.maxAttempts ?? EVENT_WRITE_MAX_ATTEMPTS;
+    this.maxQueueSize = options.maxQueueSize ?? EVENT_QUEUE_MAX_SIZE;
+  }
+
+  write(row: T): Promise<EventWriteResult> {
+    return new Promise(resolve => {
+      const key = this.options.getKey(row);
+
+      // A second copy of a row that's still waiting is answered along with it
+      const queued = this.queue.find(item => item.key === key);
+      if (queued) {
+        queued.waiters.push(resolve);
+        return;
+      }
+
+      if (this.queue.length >= this.maxQueueSize) {
+        const error = 'Event write queue is full';
+        this.stats.rejected++;
+        void this.deadLetter([{ row, error, attempts: 0 }]);
+        resolve({ inserted: false, error });
+        return;
+      }
+
+      this.queue.push({ key, row, attempts: 0, isolated: false, waiters: [resolve] });
+      if (this.queue.length >= this.batchSize) {
+        void this.flush();
+      } else if (!this.flushTimer && !this.flushing) {
+        this.flushTimer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+      }
+    });
+  }
+
+  // Writes everything queued so far; resolves once the queue is empty
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  getStats(): EventWriterStats {
+    return { queued: this.queue.length, ...this.stats };
+  }
+
+  private async drain() {
+    while (this.queue.length > 0) {
+      const size = this.queue[0].isolated ? 1 : Math.min(this.batchSize, this.queue.length);
+      const batch = this.queue.slice(0, size);
+
+      let result: EventBatchWriteResult;
+      try {
+        result = await this.options.write(batch.map(item => item.row));
+      } catch (err) {
+        result = { insertedKeys: [], error: { message: err instanceof Error ? err.message : 'Unknown error' } };
+      }
+
+      if (!result.error) {
+        this.queue.splice(0, size);
+        const inserted = new Set(result.insertedKeys);
+        for (const item of batch) {
+          const isNew = inserted.has(item.key);
+          if (isNew) this.stats.written++;
+          else this.stats.duplicates++;
+          item.waiters.forEach((resolve, index) => resolve({ inserted: isNew && index === 0 }));
+        }
+        continue;
+      }
+
+      const error = result.error;
+      batch.forEach(item => item.attempts++);
+
+      // One bad row fails the whole batch, so its rows are retried one at a time
+      if (!isTransientWriteError(error) && size > 1) {
+        batch.forEach(item => { item.isolated = true; });
+        continue;
+      }
+
+      if (!isTransientWriteError(error) || batch[0].attempts >= this.maxAttempts) {
+        this.queue.splice(0, size);
+        console.error(`[eventWriter] Giving up on ${size} event(s) after ${batch[0].attempts} attempt(s):`, error);
+        await this.deadLetter(batch.map(item => ({ row: item.row, error: error.message, attempts: item.attempts })));
+        batch.forEach(item => item.waiters.forEach(resolve => resolve({ inserted: false, error: error.message })));
+        continue;
+      }
+
+      this.stats.retries++;
+      console.warn(`[eventWriter] Write failed (attempt ${batch[0].attempts}), retrying:`, error.message);
+      await new Promise(resolve => setTimeout(resolve, getWriteRetryDelay(batch[0].attempts)));
+    }
+  }
+
+  private async deadLetter(entries: DeadLetter<T>[]) {
+    this.stats.deadLettered += entries.length;
+    try {
+      await this.options.deadLetter(entries);
+    } catch (err) {
+      // Nowhere left to put them, so the full rows go to the log
+      console.error('[eventWriter] Failed to store dead letters:', err, JSON.stringify(entries));
+    }
+  }
+}
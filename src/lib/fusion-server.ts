@@ -0,0 +1,44 @@
+// Server-side calls to the Fusion API (route handlers and background services).
+// Unlike apiFetch, the API key is passed in explicitly instead of read from localStorage.
+
+import { API_BASE_URL, ApiResponse } from './api';
+
+export const FUSION_SERVER_BASE_URL = process.env.FUSION_API_BASE_URL || API_BASE_URL;
+
+export async function fusionServerFetch<T>(
+  path: string,
+  apiKey: string,
+  options: RequestInit = {}
+): Promise<ApiResponse<T>> {
+  try {
+    const response = await fetch(`${FUSION_SERVER_BASE_URL}${path}`, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        ...(options.headers || {}),
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+      try {
+        const errorData = JSON.parse(errorText);
+        errorMessage = errorData.error || errorData.message || errorMessage;
+      } catch {
+        if (errorText) {
+          errorMessage = errorText;
+        }
+      }
+      return { data: null as T, error: errorMessage, status: response.status };
+    }
+
+    return { data: await response.json() };
+  } catch (error) {
+    return {
+      data: null as T,
+      error: error instanceof Error ? error.message : 'An unknown error occurred',
+    };
+  }
+}
@@ -0,0 +1,36 @@
+// Ingestion checkpoints (server-side only).
+// Stored per organization so the background service picks up where it left off
+// after a restart, not just after a dropped connection.
+
+import { supabase } from './db';
+import { EMPTY_CHECKPOINT, IngestionCheckpoint } from './eventIngestion';
+
+export async function loadCheckpoint(organizationId: string): Promise<IngestionCheckpoint> {
+  const { data, error } = await supabase
+    .from('ingestion_checkpoints')
+    .select('last_event_id, last_event_timestamp')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[ingestion-checkpoint] loadCheckpoint error:', error);
+    return EMPTY_CHECKPOINT;
+  }
+  if (!data) return EMPTY_CHECKPOINT;
+  return { lastEventId: data.last_event_id, lastEventTimestamp: data.last_event_timestamp };
+}
+
+export async function saveCheckpoint(organizationId: string, checkpoint: IngestionCheckpoint) {
+  const { error } = await supabase
+    .from('ingestion_checkpoints')
+    .upsert({
+      organization_id: organizationId,
+      last_event_id: checkpoint.lastEventId,
+      last_event_timestamp: checkpoint.lastEventTimestamp,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'organization_id' });
+
+  if (error) {
+    console.error('[ingestion-checkpoint] saveCheckpoint error:', error);
+  }
+}
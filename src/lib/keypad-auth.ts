@@ -0,0 +1,95 @@
+// PIN re-authentication for keypad management routes (server-side only).
+// Wrong PINs count towards the lockout just like on the PIN screen, and the API
+// key has to belong to the organization the route acts on.
+
+import { NextResponse } from 'next/server';
+import { fusionServerFetch } from './fusion-server';
+import { isTokenSigningConfigured, resolveOrganization, verifyKeypadUserToken } from './server-auth';
+import {
+  getRequestClientAddress,
+  getRequestKeypadId,
+  getActiveLockout,
+  registerPinFailure,
+  registerPinSuccess
+} from './pin-attempts';
+
+export interface PinValidation {
+  valid: boolean;
+  userId: string;
+  userName: string;
+}
+
+export async function validateUserPin(apiKey: string, pin: string): Promise<PinValidation | null> {
+  const response = await fusionServerFetch<{ success: boolean; data: PinValidation }>('/api/alarm/keypad/validate-pin', apiKey, {
+    method: 'POST',
+    body: JSON.stringify({ pin })
+  });
+  if (response.error || !response.data?.data?.valid) {
+    return null;
+  }
+  return response.data.data;
+}
+
+// Resolves to the user, or to the error response the route should return
+export async function authenticateKeypadUser(
+  req: Request,
+  apiKey: string,
+  organizationId: string,
+  pin: string
+): Promise<{ user: PinValidation; response?: undefined } | { user?: undefined; response: NextResponse }> {
+  const keyOrganizationId = await resolveOrganization(apiKey);
+  if (!keyOrganizationId) {
+    return { response: NextResponse.json({ error: 'A valid API key is required' }, { status: 401 }) };
+  }
+  if (organizationId !== keyOrganizationId) {
+    return { response: NextResponse.json({ error: 'API key does not belong to this organization' }, { status: 403 }) };
+  }
+
+  const attemptContext = {
+    organizationId: keyOrganizationId,
+    clientAddress: getRequestClientAddress(req),
+    keypadId: getRequestKeypadId(req)
+  };
+
+  const lockedUntil = await getActiveLockout(attemptContext);
+  if (lockedUntil) {
+    return { response: NextResponse.json({ error: 'Too many failed attempts', lockedUntil }, { status: 423 }) };
+  }
+
+  const user = await validateUserPin(apiKey, pin);
+  if (!user) {
+    const outcome = await registerPinFailure(attemptContext);
+    return outcome.lockedOut
+      ? { response: NextResponse.json({ error: 'Too many failed attempts', lockedUntil: outcome.state.lockedUntil }, { status: 423 }) }
+      : { response: NextResponse.json({ error: 'Invalid PIN', attemptsRemaining: outcome.attemptsRemaining }, { status: 401 }) };
+  }
+
+  await registerPinSuccess(attemptContext);
+  return { user };
+}
+
+export interface KeypadSessionUser {
+  organizationId: string;
+  userId: string;
+}
+
+// The user signed in at the keypad, from the token validate-pin issued, checked
+// against the organization of the keypad's API key. Resolves to the user, or to
+// the error response the route should return.
+export async function authenticateKeypadSession(
+  req: Request
+): Promise<{ user: KeypadSessionUser; response?: undefined } | { user?: undefined; response: NextResponse }> {
+  const organizationId = await resolveOrganization(req.headers.get('x-api-key') || '');
+  if (!organizationId) {
+    return { response: NextResponse.json({ error: 'A valid API key is required' }, { status: 401 }) };
+  }
+  if (!isTokenSigningConfigured()) {
+    return { response: NextResponse.json({ error: 'Keypad sign-in is not configured on this server' }, { status: 503 }) };
+  }
+
+  const user = verifyKeypadUserToken(req.headers.get('x-keypad-user'));
+  if (!user || user.organizationId !== organizationId) {
+    return { response: NextResponse.json({ error: 'Enter your PIN to continue' }, { status: 401 }) };
+  }
+  return { user };
+}
@@ -0,0 +1,170 @@
+// Keypad commands: shared types and rules for the server-side command queue in
+// command-queue.ts and the keypad UI that shows commands until they take effect.
+
+import { parseArmedState } from './liveState';
+import type { LiveEvent } from './liveState';
+
+export type KeypadCommandType = 'arm_devices' | 'disarm_devices' | 'device_state' | 'zone_arm_state';
+export type KeypadCommandStatus = 'pending' | 'sent' | 'confirmed' | 'failed' | 'timed_out';
+
+// What the keypad asks for; the idempotency key is generated once per user action
+// so a resubmitted request returns the original command instead of sending twice
+export interface KeypadCommandRequest {
+  idempotencyKey: string;
+  type: KeypadCommandType;
+  // Devices, or the zone for zone_arm_state
+  targetIds: string[];
+  // ARMED_AWAY / ARMED_STAY for arm_devices, the device state for device_state,
+  // ARMED / DISARMED / TRIGGERED for zone_arm_state
+  state: string | null;
+  label: string;
+}
+
+export interface KeypadCommand extends KeypadCommandRequest {
+  id: string;
+  organizationId: string;
+  locationId: string | null;
+  keypadId: string | null;
+  requestedBy: string | null;
+  status: KeypadCommandStatus;
+  attempts: number;
+  lastError: string | null;
+  // Targets a live event has shown in the requested state
+  confirmedTargetIds: string[];
+  createdAt: string;
+  sentAt: string | null;
+  confirmedAt: string | null;
+  // When a pending or sent command is given up on
+  expiresAt: string;
+}
+
+export const KEYPAD_COMMAND_TYPES: KeypadCommandType[] = ['arm_devices', 'disarm_devices', 'device_state', 'zone_arm_state'];
+
+// Live event type used to push command updates to keypads
+export const KEYPAD_COMMAND_EVENT_TYPE = 'keypad_command';
+
+// Window event the keypad raises for each command it submits
+export const KEYPAD_COMMAND_SUBMITTED_EVENT = 'keypadCommandSubmitted';
+
+// Sends to Fusion, including the first; retries wait out the delays in turn
+export const MAX_COMMAND_ATTEMPTS = 3;
+export const COMMAND_RETRY_DELAYS_MS = [500, 2000];
+
+// How long a sent command waits for a live event before it's reported as never taking effect
+export const COMMAND_CONFIRM_TIMEOUT_MS = 30 * 1000;
+
+export const COMMAND_STATUS_LABELS: Record<KeypadCommandStatus, string> = {
+  pending: 'Sending',
+  sent: 'Waiting for confirmation',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  timed_out: 'Not confirmed'
+};
+
+const ZONE_ARM_STATES = ['ARMED', 'DISARMED', 'TRIGGERED'];
+const DEVICE_ARM_STATES = ['ARMED_AWAY', 'ARMED_STAY'];
+
+export const isCommandActive = (command: Pick<KeypadCommand, 'status'>) =>
+  command.status === 'pending' || command.status === 'sent';
+
+export const getRetryDelay = (attempt: number) =>
+  COMMAND_RETRY_DELAYS_MS[Math.min(attempt, COMMAND_RETRY_DELAYS_MS.length) - 1] ?? 0;
+
+export const createIdempotencyKey = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+// A command as it arrives in a request body, before anything is known about its fields
+export type UntrustedCommandRequest = { [K in keyof KeypadCommandRequest]?: unknown };
+
+// Why a submitted command can't be queued, or null if it can
+export const validateCommandRequest = (request: UntrustedCommandRequest | null | undefined): string | null => {
+  if (!request || typeof request.idempotencyKey !== 'string' || request.idempotencyKey.length < 8 || request.idempotencyKey.length > 100) {
+    return 'A command needs an idempotency key of 8 to 100 characters';
+  }
+  if (typeof request.type !== 'string' || !(KEYPAD_COMMAND_TYPES as string[]).includes(request.type)) {
+    return 'Unknown command type';
+  }
+  if (!Array.isArray(request.targetIds) || request.targetIds.length === 0 || request.targetIds.some(id => typeof id !== 'string' || !id)) {
+    return 'A command needs at least one target';
+  }
+  const state = typeof request.state === 'string' ? request.state : '';
+  if (request.type === 'arm_devices' && !DEVICE_ARM_STATES.includes(state)) {
+    return 'Devices can only be armed away or stay';
+  }
+  if (request.type === 'zone_arm_state' && (request.targetIds.length !== 1 || !ZONE_ARM_STATES.includes(state))) {
+    return 'A zone command needs one zone and an armed state';
+  }
+  if (request.type === 'device_state' && (request.targetIds.length !== 1 || !state)) {
+    return 'A device state command needs one device and a state';
+  }
+  return null;
+};
+
+// Which way a command moves the alarm, for the permission check. Only disarm
+// commands and DISARMED states need the disarm permission, and triggering a zone
+// has a rule of its own.
+export const getCommandArmState = (request: Pick<KeypadCommandRequest, 'type' | 'state'>): 'ARMED' | 'DISARMED' | 'TRIGGERED' => {
+  const state = (request.state || '').toUpperCase();
+  if (request.type === 'disarm_devices' || state === 'DISARMED') return 'DISARMED';
+  if (request.type === 'zone_arm_state' && state === 'TRIGGERED') return 'TRIGGERED';
+  return 'ARMED';
+};
+
+// Only failures that may pass are worth sending again: no response at all, a
+// timeout, rate limiting or a server error. Fusion refusing the command won't change.
+export const isRetryableCommandError = (status: number | undefined) =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
+
+// The Fusion call that carries out a command
+export const getFusionRequest = (command: KeypadCommandRequest): { path: string; method: 'POST' | 'PUT'; body: Record<string, unknown> } => {
+  const [targetId] = command.targetIds;
+  switch (command.type) {
+    case 'arm_devices':
+      return { path: '/api/devices/arm', method: 'POST', body: { deviceIds: command.targetIds, armState: command.state } };
+    case 'disarm_devices':
+      return { path: '/api/devices/disarm', method: 'POST', body: { deviceIds: command.targetIds } };
+    case 'device_state':
+      return { path: `/api/devices/${encodeURIComponent(targetId)}/state`, method: 'PUT', body: { state: command.state } };
+    case 'zone_arm_state':
+      return { path: `/api/alarm-zones/${encodeURIComponent(targetId)}/arm-state`, method: 'PUT', body: { armedState: command.state } };
+  }
+};
+
+const normalize = (value: string | null | undefined) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// "lock" is confirmed by "Locked", "ARMED" by either arm mode
+const stateMatches = (expected: string, event: LiveEvent) => {
+  const armedState = parseArmedState(event.armedState) || parseArmedState(event.type) || parseArmedState(event.displayState);
+  const wanted = parseArmedState(expected);
+  if (wanted) {
+    if (!armedState) return false;
+    return expected.toUpperCase() === 'ARMED' ? armedState === 'ARMED_AWAY' || armedState === 'ARMED_STAY' : armedState === wanted;
+  }
+  const state = normalize(expected);
+  const display = normalize(event.displayState);
+  return !!state && [state, `${state}ed`, `${state}d`].includes(display);
+};
+
+// Targets of the command that this live event shows in the requested state
+export const getConfirmedTargets = (command: KeypadCommand, event: LiveEvent): string[] => {
+  const unconfirmed = command.targetIds.filter(id => !command.confirmedTargetIds.includes(id));
+  const targetId = command.type === 'zone_arm_state' ? event.alarmZoneId : event.deviceId;
+  if (!targetId || !unconfirmed.includes(targetId)) return [];
+
+  const expected = command.type === 'disarm_devices' ? 'DISARMED' : command.state || '';
+  return stateMatches(expected, event) ? [targetId] : [];
+};
+
+const STATUS_ORDER: Record<KeypadCommandStatus, number> = { pending: 0, sent: 1, confirmed: 2, failed: 2, timed_out: 2 };
+
+// Merge an update into the keypad's list, newest first. Updates arrive from the
+// submit response, live events and polling in any order, so a command never moves
+// back to an earlier status.
+export const mergeCommand = (commands: KeypadCommand[], update: KeypadCommand): KeypadCommand[] => {
+  const existing = commands.find(command => command.id === update.id);
+  if (!existing) return [update, ...commands];
+  if (STATUS_ORDER[update.status] < STATUS_ORDER[existing.status]) return commands;
+  return commands.map(command => (command.id === update.id ? update : command));
+};
@@ -0,0 +1,121 @@
+// Authenticated keypad sessions: idle timeout, warning period and an optional
+// absolute lifetime. Settings and the active session live in localStorage so
+// every page (home, /pin, /dashboard, /devices) shares the same session.
+
+const SETTINGS_KEY = 'fusion_session_settings';
+const SESSION_KEY = 'fusion_keypad_session';
+// Signed by the server when a PIN is accepted; sent with keypad requests
+export const USER_TOKEN_KEY = 'fusion_keypad_user_token';
+
+export const DEFAULT_IDLE_TIMEOUT_SECONDS = 120;
+export const DEFAULT_WARNING_SECONDS = 20;
+export const MAX_IDLE_TIMEOUT_SECONDS = 3600;
+
+export type SessionEndReason = 'idle' | 'lifetime';
+
+export interface SessionSettings {
+  idleTimeoutSeconds: number;
+  // How long before logout the warning overlay is shown
+  warningSeconds: number;
+  // Hard cap on a session regardless of activity; 0 disables it
+  maxSessionMinutes: number;
+}
+
+export interface KeypadSession {
+  startedAt: number;
+  lastActivityAt: number;
+}
+
+export interface SessionDeadline {
+  expiresAt: number;
+  reason: SessionEndReason;
+}
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  idleTimeoutSeconds: DEFAULT_IDLE_TIMEOUT_SECONDS,
+  warningSeconds: DEFAULT_WARNING_SECONDS,
+  maxSessionMinutes: 0
+};
+
+const clampNumber = (value: unknown, fallback: number, min: number, max: number): number => {
+  const number = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+};
+
+export const getSessionSettings = (): SessionSettings => {
+  if (typeof window === 'undefined') return DEFAULT_SESSION_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const idleTimeoutSeconds = clampNumber(stored.idleTimeoutSeconds, DEFAULT_IDLE_TIMEOUT_SECONDS, 15, MAX_IDLE_TIMEOUT_SECONDS);
+    return {
+      idleTimeoutSeconds,
+      warningSeconds: clampNumber(stored.warningSeconds, DEFAULT_WARNING_SECONDS, 0, idleTimeoutSeconds - 5),
+      maxSessionMinutes: clampNumber(stored.maxSessionMinutes, 0, 0, 24 * 60)
+    };
+  } catch (error) {
+    console.error('Failed to parse session settings:', error);
+    return DEFAULT_SESSION_SETTINGS;
+  }
+};
+
+export const saveSessionSettings = (settings: Partial<SessionSettings>): SessionSettings => {
+  const next = { ...getSessionSettings(), ...settings };
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  }
+  // Read back so the stored values are always the clamped ones
+  return getSessionSettings();
+};
+
+export const getSession = (): KeypadSession | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const startSession = (now = Date.now()): KeypadSession => {
+  const session = { startedAt: now, lastActivityAt: now };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+};
+
+export const touchSession = (now = Date.now()) => {
+  const session = getSession();
+  if (!session) return;
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, lastActivityAt: now }));
+};
+
+// The signed-in user's token, for commands sent after they may have been signed out
+export const getKeypadUserToken = (): string | null =>
+  typeof window === 'undefined' ? null : localStorage.getItem(USER_TOKEN_KEY);
+
+// Ends the session and forgets the signed-in user used by /pin, /dashboard and /devices
+export const endSession = () => {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem('user_id');
+  localStorage.removeItem('user_name');
+  localStorage.removeItem(USER_TOKEN_KEY);
+};
+
+// Whichever of the idle timeout or the absolute lifetime runs out first
+export const getSessionDeadline = (session: KeypadSession, settings: SessionSettings): SessionDeadline => {
+  const idleDeadline = session.lastActivityAt + settings.idleTimeoutSeconds * 1000;
+  if (settings.maxSessionMinutes > 0) {
+    const lifetimeDeadline = session.startedAt + settings.maxSessionMinutes * 60 * 1000;
+    if (lifetimeDeadline < idleDeadline) {
+      return { expiresAt: lifetimeDeadline, reason: 'lifetime' };
+    }
+  }
+  return { expiresAt: idleDeadline, reason: 'idle' };
+};
+
+export const isSessionActive = (now = Date.now()): boolean => {
+  const session = getSession();
+  return !!session && getSessionDeadline(session, getSessionSettings()).expiresAt > now;
+};
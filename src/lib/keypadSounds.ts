@@ -0,0 +1,95 @@
+// Keypad audio cues generated with the Web Audio API (no audio assets needed)
+
+let audioContext: AudioContext | null = null;
+
+// Older Safari only has the prefixed constructor
+interface WebkitAudioWindow extends Window {
+  webkitAudioContext?: typeof AudioContext;
+}
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof window === 'undefined') return null;
+  if (audioContext) return audioContext;
+
+  const AudioContextCtor = window.AudioContext || (window as WebkitAudioWindow).webkitAudioContext;
+  if (!AudioContextCtor) return null;
+
+  try {
+    audioContext = new AudioContextCtor();
+  } catch (error) {
+    console.error('Failed to create audio context:', error);
+    audioContext = null;
+  }
+  return audioContext;
+};
+
+interface ToneOptions {
+  frequency: number;
+  durationMs: number;
+  volume?: number;
+  type?: OscillatorType;
+  delayMs?: number;
+}
+
+// Play a single tone
+export const playTone = ({ frequency, durationMs, volume = 0.2, type = 'square', delayMs = 0 }: ToneOptions) => {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  // Browsers suspend audio until a user gesture; resume opportunistically
+  if (ctx.state === 'suspended') {
+    ctx.resume().catch(() => {});
+  }
+
+  const start = ctx.currentTime + delayMs / 1000;
+  const end = start + durationMs / 1000;
+
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(frequency, start);
+  gain.gain.setValueAtTime(volume, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, end);
+
+  oscillator.connect(gain);
+  gain.connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(end);
+};
+
+// Beep pattern for one second of an exit/entry countdown.
+// The pattern escalates (more beeps, higher pitch) as time runs out.
+export const playDelayBeep = (secondsRemaining: number, kind: 'exit' | 'entry') => {
+  const baseFrequency = kind === 'entry' ? 1400 : 1000;
+
+  if (secondsRemaining <= 5) {
+    [0, 250, 500].forEach(delayMs => playTone({ frequency: baseFrequency + 600, durationMs: 150, delayMs }));
+  } else if (secondsRemaining <= 10) {
+    [0, 400].forEach(delayMs => playTone({ frequency: baseFrequency + 300, durationMs: 150, delayMs }));
+  } else if (kind === 'entry' || secondsRemaining % 2 === 0) {
+    playTone({ frequency: baseFrequency, durationMs: 120 });
+  }
+};
+
+// Door chime for chime mode
+export const playChime = (sound: 'ding_dong' | 'triple' | 'soft') => {
+  if (sound === 'triple') {
+    [0, 180, 360].forEach(delayMs => playTone({ frequency: 1320, durationMs: 120, volume: 0.15, type: 'sine', delayMs }));
+  } else if (sound === 'soft') {
+    playTone({ frequency: 660, durationMs: 700, volume: 0.1, type: 'sine' });
+  } else {
+    playTone({ frequency: 880, durationMs: 500, volume: 0.2, type: 'sine' });
+    playTone({ frequency: 700, durationMs: 700, volume: 0.2, type: 'sine', delayMs: 450 });
+  }
+};
+
+// Two-tone siren for a triggered alarm. Returns a function that stops it.
+export const startSiren = (): (() => void) => {
+  const sound = () => {
+    playTone({ frequency: 960, durationMs: 450, volume: 0.3, type: 'sawtooth' });
+    playTone({ frequency: 770, durationMs: 450, volume: 0.3, type: 'sawtooth', delayMs: 500 });
+  };
+  sound();
+  const interval = setInterval(sound, 1000);
+  return () => clearInterval(interval);
+};
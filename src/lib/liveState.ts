@@ -0,0 +1,155 @@
+// Applies live events from /api/events/live to the keypad's device and alarm
+// zone state. Each field remembers the time of the event that last set it, so an
+// event that arrives late never overwrites newer state.
+
+import type { AlarmZone, Device } from './api';
+
+type ArmedState = AlarmZone['armedState'];
+
+// The fields of a live event that say anything about state
+export interface LiveEvent {
+  type?: string;
+  deviceId?: string;
+  deviceName?: string;
+  alarmZoneId?: string;
+  armedState?: string;
+  displayState?: string;
+  timestamp?: string;
+}
+
+export type LiveStateChange =
+  | { kind: 'zone_armed'; zoneId: string; armedState: ArmedState }
+  | { kind: 'device_armed'; deviceId: string; armedState: ArmedState }
+  | { kind: 'device_connectivity'; deviceId: string; online: boolean }
+  | { kind: 'device_state'; deviceId: string; displayState: string };
+
+export interface LiveState {
+  devices: Device[];
+  alarmZones: AlarmZone[];
+}
+
+// Event time that last set each field, keyed by liveStateKey
+export type LiveStateVersions = Record<string, number>;
+
+export const liveStateKey = (kind: LiveStateChange['kind'], id: string) => `${kind}:${id}`;
+
+const changeKey = (change: LiveStateChange) =>
+  liveStateKey(change.kind, change.kind === 'zone_armed' ? change.zoneId : change.deviceId);
+
+// "Armed Stay", "ARMED_AWAY", "disarmed" and the like; null if it isn't an arm state
+export const parseArmedState = (value: string | null | undefined): ArmedState | null => {
+  const text = (value || '').toLowerCase().replace(/[_-]/g, ' ');
+  if (/\btrigger(ed)?\b/.test(text)) return 'TRIGGERED';
+  if (/\bdisarm(ed)?\b/.test(text)) return 'DISARMED';
+  if (/\barm(ed)?\b/.test(text)) return /\b(stay|home)\b/.test(text) ? 'ARMED_STAY' : 'ARMED_AWAY';
+  return null;
+};
+
+const parseConnectivity = (value: string | null | undefined): boolean | null => {
+  const text = (value || '').toLowerCase();
+  if (/\boffline\b/.test(text)) return false;
+  if (/\bonline\b/.test(text)) return true;
+  return null;
+};
+
+// What a live event changes, given the devices and zones the keypad knows about
+export const getLiveStateChanges = (event: LiveEvent, devices: Device[], alarmZones: AlarmZone[]): LiveStateChange[] => {
+  const changes: LiveStateChange[] = [];
+  const armedState = parseArmedState(event.armedState) || parseArmedState(event.type) || parseArmedState(event.displayState);
+
+  if (event.alarmZoneId && armedState && alarmZones.some(zone => zone.id === event.alarmZoneId)) {
+    changes.push({ kind: 'zone_armed', zoneId: event.alarmZoneId, armedState });
+  }
+
+  const device = devices.find(d => d.id === event.deviceId) || devices.find(d => !!event.deviceName && d.name === event.deviceName);
+  if (!device) return changes;
+
+  const online = parseConnectivity(event.type) ?? parseConnectivity(event.displayState);
+  if (online !== null) {
+    changes.push({ kind: 'device_connectivity', deviceId: device.id, online });
+  } else if (armedState) {
+    changes.push({ kind: 'device_armed', deviceId: device.id, armedState });
+  } else if (event.displayState) {
+    changes.push({ kind: 'device_state', deviceId: device.id, displayState: event.displayState });
+  }
+  return changes;
+};
+
+const applyDeviceChange = (device: Device, change: LiveStateChange, timestamp: string): Device => {
+  switch (change.kind) {
+    case 'device_armed':
+      return { ...device, armedState: change.armedState };
+    case 'device_connectivity':
+      return {
+        ...device,
+        online: change.online,
+        status: change.online ? 'online' : 'offline',
+        ...(change.online ? { lastSeen: timestamp } : {})
+      };
+    case 'device_state':
+      return { ...device, displayState: change.displayState, lastStateUpdate: timestamp, lastSeen: timestamp };
+    default:
+      return device;
+  }
+};
+
+// A zone's state once one of its devices changes: triggered if an armed zone's
+// device triggers, disarmed when no device is armed any more, otherwise armed the
+// way the device was
+const deriveZoneState = (zone: AlarmZone, devices: Device[], armedState: ArmedState): ArmedState => {
+  if (armedState === 'TRIGGERED') return zone.armedState === 'DISARMED' ? 'DISARMED' : 'TRIGGERED';
+  const zoneDevices = devices.filter(device => zone.deviceIds?.includes(device.id));
+  if (zoneDevices.every(device => !device.armedState || device.armedState === 'DISARMED')) return 'DISARMED';
+  return zone.armedState === 'DISARMED' ? armedState : zone.armedState;
+};
+
+// Apply one live event. Changes older than what last set the same field are dropped.
+export const reconcileLiveEvent = (
+  state: LiveState,
+  event: LiveEvent,
+  versions: LiveStateVersions,
+  now: number = Date.now()
+): { state: LiveState; versions: LiveStateVersions; changed: boolean } => {
+  const parsed = Date.parse(event.timestamp || '');
+  const at = Number.isFinite(parsed) ? parsed : now;
+  const timestamp = new Date(at).toISOString();
+
+  const isCurrent = (key: string) => at >= (versions[key] ?? -Infinity);
+  const changes = getLiveStateChanges(event, state.devices, state.alarmZones).filter(change => isCurrent(changeKey(change)));
+  if (changes.length === 0) {
+    return { state, versions, changed: false };
+  }
+
+  const nextVersions = { ...versions };
+  changes.forEach(change => {
+    nextVersions[changeKey(change)] = at;
+  });
+
+  const devices = state.devices.map(device =>
+    changes.reduce((current, change) =>
+      change.kind !== 'zone_armed' && change.deviceId === device.id ? applyDeviceChange(current, change, timestamp) : current,
+    device)
+  );
+
+  const alarmZones = state.alarmZones.map(zone => {
+    const zoneChange = changes.find(change => change.kind === 'zone_armed' && change.zoneId === zone.id);
+    if (zoneChange?.kind === 'zone_armed') {
+      return { ...zone, armedState: zoneChange.armedState };
+    }
+
+    // Without a zone-level event, follow the zone's devices
+    const deviceChange = changes.find(change => change.kind === 'device_armed' && zone.deviceIds?.includes(change.deviceId));
+    const zoneKey = liveStateKey('zone_armed', zone.id);
+    if (deviceChange?.kind !== 'device_armed' || !isCurrent(zoneKey)) {
+      return zone;
+    }
+    const armedState = deriveZoneState(zone, devices, deviceChange.armedState);
+    if (armedState === zone.armedState) {
+      return zone;
+    }
+    nextVersions[zoneKey] = at;
+    return { ...zone, armedState };
+  });
+
+  return { state: { devices, alarmZones }, versions: nextVersions, changed: true };
+};
@@ -0,0 +1,137 @@
+// Rolls every location's zones, devices and recent events up into the summary
+// shown on the multi-location overview.
+
+import type { AlarmZone, Device, Location } from './api';
+import { isDeviceOffline } from './readiness';
+import { getSubtreeIds } from './locationTree';
+
+export type LocationOverviewStatus = 'triggered' | 'armed' | 'partial' | 'disarmed' | 'no_zones';
+
+export interface OverviewEvent {
+  id: string;
+  type: string;
+  deviceName: string;
+  timestamp: number;
+  locationId: string | null;
+  locationName: string | null;
+}
+
+export interface LocationOverview {
+  location: Location;
+  zones: AlarmZone[];
+  status: LocationOverviewStatus;
+  armedZoneCount: number;
+  triggeredZones: AlarmZone[];
+  deviceCount: number;
+  offlineDevices: Device[];
+  latestEvents: OverviewEvent[];
+}
+
+export const LOCATION_STATUS_LABELS: Record<LocationOverviewStatus, string> = {
+  triggered: 'Alarm',
+  armed: 'Armed',
+  partial: 'Partly armed',
+  disarmed: 'Disarmed',
+  no_zones: 'No zones'
+};
+
+export const OVERVIEW_EVENTS_PER_LOCATION = 3;
+
+// A location's status together with everything below it in the hierarchy
+export interface LocationRollup {
+  status: LocationOverviewStatus;
+  zoneCount: number;
+  armedZoneCount: number;
+  triggeredZoneCount: number;
+  deviceCount: number;
+  offlineDeviceCount: number;
+}
+
+// Events come both from the events API and the live stream, which name things differently
+export const toOverviewEvent = (event: {
+  id?: string | number;
+  type?: string;
+  eventType?: string;
+  deviceName?: string;
+  timestamp?: string | number;
+  locationId?: string | null;
+  locationName?: string | null;
+}): OverviewEvent => {
+  const parsed = typeof event.timestamp === 'number' ? event.timestamp : Date.parse(event.timestamp || '');
+  const timestamp = Number.isFinite(parsed) ? parsed : Date.now();
+  return {
+    id: event.id !== undefined ? String(event.id) : `${event.deviceName || 'event'}-${timestamp}`,
+    type: event.type || event.eventType || 'Event',
+    deviceName: event.deviceName || 'Unknown device',
+    timestamp,
+    locationId: event.locationId || null,
+    locationName: event.locationName || null
+  };
+};
+
+const isArmed = (zone: AlarmZone) => zone.armedState === 'ARMED_AWAY' || zone.armedState === 'ARMED_STAY';
+
+export const getLocationStatus = (zones: AlarmZone[]): LocationOverviewStatus => {
+  if (zones.length === 0) return 'no_zones';
+  if (zones.some(zone => zone.armedState === 'TRIGGERED')) return 'triggered';
+  const armed = zones.filter(isArmed).length;
+  if (armed === zones.length) return 'armed';
+  return armed > 0 ? 'partial' : 'disarmed';
+};
+
+// One summary per location, locations with an alarm first. A device belongs to a
+// location through its locationId or through one of the location's zones; events
+// without a locationId are matched on the location's name.
+export const summarizeLocations = (
+  locations: Location[],
+  alarmZones: AlarmZone[],
+  devices: Device[],
+  events: OverviewEvent[],
+  eventsPerLocation: number = OVERVIEW_EVENTS_PER_LOCATION
+): LocationOverview[] => {
+  const summaries = locations.map(location => {
+    const zones = alarmZones.filter(zone => zone.locationId === location.id);
+    const zoneDeviceIds = new Set(zones.flatMap(zone => zone.deviceIds || []));
+    const locationDevices = devices.filter(device =>
+      device.locationId ? device.locationId === location.id : zoneDeviceIds.has(device.id)
+    );
+    const latestEvents = events
+      .filter(event => event.locationId ? event.locationId === location.id : event.locationName === location.name)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, eventsPerLocation);
+
+    return {
+      location,
+      zones,
+      status: getLocationStatus(zones),
+      armedZoneCount: zones.filter(isArmed).length,
+      triggeredZones: zones.filter(zone => zone.armedState === 'TRIGGERED'),
+      deviceCount: locationDevices.length,
+      offlineDevices: locationDevices.filter(isDeviceOffline),
+      latestEvents
+    };
+  });
+
+  return summaries.sort((a, b) =>
+    Number(b.status === 'triggered') - Number(a.status === 'triggered') || a.location.name.localeCompare(b.location.name)
+  );
+};
+
+// Roll each location's summary up through its descendants, keyed by location id
+export const rollUpLocations = (locations: Location[], overviews: LocationOverview[]): Record<string, LocationRollup> => {
+  const byId = new Map(overviews.map(overview => [overview.location.id, overview]));
+  return Object.fromEntries(locations.map(location => {
+    const subtree = getSubtreeIds(locations, location.id)
+      .map(id => byId.get(id))
+      .filter((overview): overview is LocationOverview => !!overview);
+    const zones = subtree.flatMap(overview => overview.zones);
+    return [location.id, {
+      status: getLocationStatus(zones),
+      zoneCount: zones.length,
+      armedZoneCount: zones.filter(isArmed).length,
+      triggeredZoneCount: zones.filter(zone => zone.armedState === 'TRIGGERED').length,
+      deviceCount: subtree.reduce((count, overview) => count + overview.deviceCount, 0),
+      offlineDeviceCount: subtree.reduce((count, overview) => count + overview.offlineDevices.length, 0)
+    }];
+  }));
+};
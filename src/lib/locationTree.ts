@@ -0,0 +1,113 @@
+// Locations form a hierarchy through parentId (a campus containing buildings,
+// say). Helpers for walking it.
+
+import type { AlarmZone, Location } from './api';
+
+export interface LocationTreeEntry<T extends Location = Location> {
+  location: T;
+  depth: number;
+}
+
+// parentId when it's set; otherwise the nearest known ancestor in path, which
+// lists location ids from the root down ("campus.building-a.floor-1")
+const parentOf = (location: Location, knownIds: Set<string>): string | null => {
+  if (location.parentId) return location.parentId;
+  const ancestors = (location.path || '').split(/[./]/).filter(id => id && id !== location.id && knownIds.has(id));
+  return ancestors.length > 0 ? ancestors[ancestors.length - 1] : null;
+};
+
+const childrenOf = <T extends Location>(locations: T[], parentId: string | null) => {
+  const knownIds = new Set(locations.map(location => location.id));
+  return locations
+    .filter(location => parentOf(location, knownIds) === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Every location under locationId, at any depth
+export const getDescendantIds = (locations: Location[], locationId: string): string[] => {
+  const ids: string[] = [];
+  const visit = (parentId: string) => {
+    childrenOf(locations, parentId).forEach(child => {
+      if (ids.includes(child.id) || child.id === locationId) return;
+      ids.push(child.id);
+      visit(child.id);
+    });
+  };
+  visit(locationId);
+  return ids;
+};
+
+// Locations in display order, each after its parent. Locations whose parent
+// isn't in the list are shown at the top level.
+export const flattenLocationTree = <T extends Location>(locations: T[]): LocationTreeEntry<T>[] => {
+  const known = new Set(locations.map(location => location.id));
+  const roots = locations
+    .filter(location => {
+      const parentId = parentOf(location, known);
+      return !parentId || !known.has(parentId);
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const entries: LocationTreeEntry<T>[] = [];
+  const seen = new Set<string>();
+  const visit = (location: T, depth: number) => {
+    if (seen.has(location.id)) return;
+    seen.add(location.id);
+    entries.push({ location, depth });
+    childrenOf(locations, location.id).forEach(child => visit(child, depth + 1));
+  };
+  roots.forEach(root => visit(root, 0));
+  return entries;
+};
+
+// Locations that can be the parent of locationId without creating a cycle
+export const getValidParents = <T extends Location>(locations: T[], locationId: string | null): T[] => {
+  if (!locationId) return locations;
+  const excluded = new Set([locationId, ...getDescendantIds(locations, locationId)]);
+  return locations.filter(location => !excluded.has(location.id));
+};
+
+// locationId followed by everything under it
+export const getSubtreeIds = (locations: Location[], locationId: string): string[] =>
+  [locationId, ...getDescendantIds(locations, locationId)];
+
+// Locations whose name or city contains the query, along with their ancestors so
+// the tree around each match stays intact
+export const searchLocationTree = <T extends Location>(locations: T[], query: string): T[] => {
+  const text = query.trim().toLowerCase();
+  if (!text) return locations;
+
+  const knownIds = new Set(locations.map(location => location.id));
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const visible = new Set<string>();
+  locations
+    .filter(location => `${location.name} ${location.addressCity || ''}`.toLowerCase().includes(text))
+    .forEach(match => {
+      let current: T | undefined = match;
+      while (current && !visible.has(current.id)) {
+        visible.add(current.id);
+        const parentId = parentOf(current, knownIds);
+        current = parentId ? byId.get(parentId) : undefined;
+      }
+    });
+  return locations.filter(location => visible.has(location.id));
+};
+
+export type CascadeAction = 'arm' | 'disarm';
+
+// Zones at locationId and every location below it that the action would change:
+// disarmed zones when arming, anything not disarmed when disarming. Zones are
+// listed in tree order.
+export const getCascadeZones = <Z extends AlarmZone>(
+  locations: Location[],
+  alarmZones: Z[],
+  locationId: string,
+  action: CascadeAction
+): Z[] => {
+  const subtree = new Set(getSubtreeIds(locations, locationId));
+  const order = flattenLocationTree(locations.filter(location => subtree.has(location.id))).map(entry => entry.location.id);
+  return alarmZones
+    .filter(zone => subtree.has(zone.locationId))
+    .filter(zone => (action === 'arm' ? zone.armedState === 'DISARMED' : zone.armedState !== 'DISARMED'))
+    .sort((a, b) => order.indexOf(a.locationId) - order.indexOf(b.locationId) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,56 @@
+// Outbound alarm notifications (server-side only).
+// Alerts are POSTed as JSON to ALARM_NOTIFICATION_WEBHOOK_URL when it is configured,
+// so monitoring services or chat integrations can pick them up.
+
+export type AlarmNotificationPriority = 'low' | 'normal' | 'high' | 'critical';
+
+export interface AlarmNotification {
+  kind: string;
+  priority: AlarmNotificationPriority;
+  title: string;
+  message: string;
+  organizationId: string;
+  locationId?: string | null;
+  timestamp?: string;
+  data?: Record<string, unknown>;
+}
+
+export async function sendAlarmNotification(notification: AlarmNotification): Promise<boolean> {
+  const payload = {
+    ...notification,
+    timestamp: notification.timestamp || new Date().toISOString()
+  };
+
+  console.log(`🚨 [notifications] ${payload.priority.toUpperCase()} ${payload.kind}: ${payload.title}`, {
+    organizationId: payload.organizationId,
+    locationId: payload.locationId
+  });
+
+  const webhookUrl = process.env.ALARM_NOTIFICATION_WEBHOOK_URL;
+  if (!webhookUrl) {
+    console.warn('⚠️ [notifications] ALARM_NOTIFICATION_WEBHOOK_URL not set, notification only logged');
+    return false;
+  }
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.ALARM_NOTIFICATION_WEBHOOK_TOKEN
+          ? { Authorization: `Bearer ${process.env.ALARM_NOTIFICATION_WEBHOOK_TOKEN}` }
+          : {})
+      },
+      body: JSON.stringify(payload)
+    });
+
+    if (!response.ok) {
+      console.error('❌ [notifications] Webhook rejected notification:', response.status, response.statusText);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('❌ [notifications] Failed to send notification:', error);
+    return false;
+  }
+}
@@ -0,0 +1,346 @@
+// Panic alarms raised from the keypad (server-side only).
+// A panic is recorded, pushed to live keypads and sent to responders straight away,
+// then re-sent on the escalation schedule until someone acknowledges it. Escalation
+// runs on in-process timers, so the server picks up every open alarm again when it
+// starts (see src/instrumentation.ts).
+
+import { supabase, insertEvent } from './db';
+import { broadcastEvent } from './event-broadcast';
+import { sendAlarmNotification } from './notifications';
+import {
+  PanicAlarm,
+  PanicAlarmStatus,
+  PanicType,
+  PANIC_DEDUPE_MS,
+  PANIC_ESCALATION_MINUTES,
+  PANIC_EVENT_CATEGORY,
+  PANIC_EVENT_TYPES,
+  PANIC_LABELS
+} from './panic';
+
+interface PanicContext {
+  organizationId: string;
+  locationId: string;
+  locationName?: string | null;
+  keypadId: string | null;
+}
+
+export interface PanicAcknowledgement {
+  userId: string;
+  userName: string | null;
+}
+
+// Pending escalation per alarm; cleared when the alarm is acknowledged
+const escalationTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+interface PanicAlarmRow {
+  id: string;
+  organization_id: string;
+  location_id: string;
+  location_name: string | null;
+  panic_type: PanicType;
+  keypad_id: string | null;
+  status: PanicAlarmStatus;
+  escalation_level: number;
+  created_at: string;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+}
+
+const toPanicAlarm = (row: PanicAlarmRow): PanicAlarm => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  locationId: row.location_id,
+  type: row.panic_type,
+  keypadId: row.keypad_id,
+  status: row.status,
+  escalationLevel: row.escalation_level,
+  createdAt: row.created_at,
+  acknowledgedAt: row.acknowledged_at,
+  acknowledgedBy: row.acknowledged_by
+});
+
+export async function getPanicAlarm(alarmId: string): Promise<PanicAlarm | null> {
+  const { data, error } = await supabase
+    .from('panic_alarms')
+    .select('*')
+    .eq('id', alarmId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[panic] getPanicAlarm error:', error);
+    return null;
+  }
+  return data ? toPanicAlarm(data) : null;
+}
+
+export async function getActivePanicAlarms(organizationId: string, locationId: string): Promise<PanicAlarm[]> {
+  const { data, error } = await supabase
+    .from('panic_alarms')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('location_id', locationId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[panic] getActivePanicAlarms error:', error);
+    return [];
+  }
+  return (data || []).map(toPanicAlarm);
+}
+
+// An open alarm of the same type from the same keypad, so a second press doesn't page twice
+async function findRecentPanicAlarm(context: PanicContext, type: PanicType): Promise<PanicAlarm | null> {
+  let query = supabase
+    .from('panic_alarms')
+    .select('*')
+    .eq('organization_id', context.organizationId)
+    .eq('location_id', context.locationId)
+    .eq('panic_type', type)
+    .eq('status', 'active')
+    .gte('created_at', new Date(Date.now() - PANIC_DEDUPE_MS).toISOString());
+  query = context.keypadId ? query.eq('keypad_id', context.keypadId) : query.is('keypad_id', null);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[panic] findRecentPanicAlarm error:', error);
+    return null;
+  }
+  return data ? toPanicAlarm(data) : null;
+}
+
+const logRejections = (results: PromiseSettledResult<unknown>[], action: string) => {
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error(`[panic] Failed to ${action}:`, result.reason);
+    }
+  });
+};
+
+function scheduleEscalation(alarm: PanicAlarm, context: PanicContext) {
+  const nextLevel = alarm.escalationLevel + 1;
+  const minutes = PANIC_ESCALATION_MINUTES[nextLevel - 1];
+  if (minutes === undefined) {
+    escalationTimers.delete(alarm.id);
+    return;
+  }
+
+  const dueAt = new Date(alarm.createdAt).getTime() + minutes * 60 * 1000;
+  const timer = setTimeout(() => {
+    escalatePanicAlarm(alarm.id, nextLevel, context).catch(error => {
+      console.error('[panic] Escalation failed:', error);
+    });
+  }, Math.max(0, dueAt - Date.now()));
+  escalationTimers.set(alarm.id, timer);
+}
+
+async function escalatePanicAlarm(alarmId: string, level: number, context: PanicContext) {
+  escalationTimers.delete(alarmId);
+
+  // Only escalate if the alarm is still open at this level
+  const { data, error } = await supabase
+    .from('panic_alarms')
+    .update({ escalation_level: level, updated_at: new Date().toISOString() })
+    .eq('id', alarmId)
+    .eq('status', 'active')
+    .eq('escalation_level', level - 1)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[panic] escalatePanicAlarm error:', error);
+    return;
+  }
+  if (!data) return;
+
+  const alarm = toPanicAlarm(data);
+  const label = PANIC_LABELS[alarm.type];
+  const timestamp = new Date().toISOString();
+  const minutes = PANIC_ESCALATION_MINUTES[level - 1];
+
+  const results = await Promise.allSettled([
+    insertEvent({
+      organizationId: alarm.organizationId,
+      locationId: alarm.locationId,
+      type: 'Panic Escalated',
+      category: PANIC_EVENT_CATEGORY,
+      deviceName: 'Keypad',
+      timestamp,
+      displayState: `Escalation ${level}`,
+      priority: 'critical',
+      panicAlarmId: alarm.id,
+      panicType: alarm.type,
+      escalationLevel: level,
+      keypadId: alarm.keypadId
+    }),
+    sendAlarmNotification({
+      kind: `panic_${alarm.type}`,
+      priority: 'critical',
+      title: `${label} panic still unacknowledged`,
+      message: `A ${label.toLowerCase()} panic${context.locationName ? ` at ${context.locationName}` : ''} has not been acknowledged after ${minutes} minutes.`,
+      organizationId: alarm.organizationId,
+      locationId: alarm.locationId,
+      timestamp,
+      data: {
+        panicAlarmId: alarm.id,
+        panicType: alarm.type,
+        escalationLevel: level,
+        keypadId: alarm.keypadId
+      }
+    })
+  ]);
+  logRejections(results, 'escalate panic alarm');
+
+  scheduleEscalation(alarm, context);
+}
+
+// Record a panic and start the notification flow. Returns null if it couldn't be stored.
+export async function raisePanicAlarm(type: PanicType, context: PanicContext): Promise<{ alarm: PanicAlarm; duplicate: boolean } | null> {
+  const recent = await findRecentPanicAlarm(context, type);
+  if (recent) {
+    return { alarm: recent, duplicate: true };
+  }
+
+  const { data, error } = await supabase
+    .from('panic_alarms')
+    .insert({
+      organization_id: context.organizationId,
+      location_id: context.locationId,
+      location_name: context.locationName || null,
+      panic_type: type,
+      keypad_id: context.keypadId
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    console.error('[panic] raisePanicAlarm error:', error);
+    return null;
+  }
+
+  const alarm = toPanicAlarm(data);
+  const label = PANIC_LABELS[type];
+  const eventType = PANIC_EVENT_TYPES[type];
+
+  const results = await Promise.allSettled([
+    insertEvent({
+      organizationId: alarm.organizationId,
+      locationId: alarm.locationId,
+      type: eventType,
+      category: PANIC_EVENT_CATEGORY,
+      deviceName: 'Keypad',
+      timestamp: alarm.createdAt,
+      displayState: 'Panic',
+      priority: 'critical',
+      panicAlarmId: alarm.id,
+      panicType: type,
+      keypadId: alarm.keypadId
+    }),
+    Promise.resolve().then(() => broadcastEvent(alarm.organizationId, {
+      id: alarm.id,
+      type: eventType,
+      deviceName: 'Keypad',
+      timestamp: alarm.createdAt,
+      displayState: 'Panic',
+      category: PANIC_EVENT_CATEGORY,
+      eventSource: 'keypad',
+      panicType: type
+    })),
+    sendAlarmNotification({
+      kind: `panic_${type}`,
+      priority: 'critical',
+      title: `${label} panic`,
+      message: `A ${label.toLowerCase()} panic button was pressed${context.locationName ? ` at ${context.locationName}` : ''}.`,
+      organizationId: alarm.organizationId,
+      locationId: alarm.locationId,
+      timestamp: alarm.createdAt,
+      data: {
+        panicAlarmId: alarm.id,
+        panicType: type,
+        keypadId: alarm.keypadId
+      }
+    })
+  ]);
+  logRejections(results, 'raise panic alarm');
+
+  scheduleEscalation(alarm, context);
+  return { alarm, duplicate: false };
+}
+
+// Schedule escalation again for every open alarm, e.g. after a restart lost the
+// timers. Steps that fell due while the server was down are sent straight away.
+export async function resumePanicEscalations() {
+  const { data, error } = await supabase
+    .from('panic_alarms')
+    .select('*')
+    .eq('status', 'active')
+    .lt('escalation_level', PANIC_ESCALATION_MINUTES.length);
+
+  if (error) {
+    console.error('[panic] resumePanicEscalations error:', error);
+    return;
+  }
+
+  const rows: PanicAlarmRow[] = data || [];
+  rows.forEach(row => {
+    if (escalationTimers.has(row.id)) return;
+    scheduleEscalation(toPanicAlarm(row), {
+      organizationId: row.organization_id,
+      locationId: row.location_id,
+      locationName: row.location_name,
+      keypadId: row.keypad_id
+    });
+  });
+  if (rows.length > 0) {
+    console.log(`🚨 Resumed escalation for ${rows.length} open panic alarm${rows.length !== 1 ? 's' : ''}`);
+  }
+}
+
+// Stop escalating an alarm once someone on site has dealt with it
+export async function acknowledgePanicAlarm(alarmId: string, user: PanicAcknowledgement): Promise<PanicAlarm | null> {
+  const timestamp = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('panic_alarms')
+    .update({
+      status: 'acknowledged',
+      acknowledged_at: timestamp,
+      acknowledged_by: user.userId,
+      updated_at: timestamp
+    })
+    .eq('id', alarmId)
+    .eq('status', 'active')
+    .select('*')
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.error('[panic] acknowledgePanicAlarm error:', error);
+    return null;
+  }
+
+  const timer = escalationTimers.get(alarmId);
+  if (timer) {
+    clearTimeout(timer);
+    escalationTimers.delete(alarmId);
+  }
+
+  const alarm = toPanicAlarm(data);
+  await insertEvent({
+    organizationId: alarm.organizationId,
+    locationId: alarm.locationId,
+    type: 'Panic Acknowledged',
+    category: PANIC_EVENT_CATEGORY,
+    deviceName: 'Keypad',
+    timestamp,
+    displayState: 'Acknowledged',
+    panicAlarmId: alarm.id,
+    panicType: alarm.type,
+    userId: user.userId,
+    userName: user.userName
+  });
+  return alarm;
+}
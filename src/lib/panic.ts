@@ -0,0 +1,48 @@
+// Keypad panic buttons: shared types and timings used by the keypad UI and the
+// server-side alarm flow in panic-alarm.ts.
+
+export type PanicType = 'police' | 'fire' | 'medical';
+export type PanicAlarmStatus = 'active' | 'acknowledged';
+
+export interface PanicAlarm {
+  id: string;
+  organizationId: string;
+  locationId: string;
+  type: PanicType;
+  keypadId: string | null;
+  status: PanicAlarmStatus;
+  escalationLevel: number;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+export const PANIC_TYPES: PanicType[] = ['police', 'fire', 'medical'];
+
+export const PANIC_LABELS: Record<PanicType, string> = {
+  police: 'Police',
+  fire: 'Fire',
+  medical: 'Medical'
+};
+
+// Event type written to the event store for each panic
+export const PANIC_EVENT_TYPES: Record<PanicType, string> = {
+  police: 'Police Panic',
+  fire: 'Fire Panic',
+  medical: 'Medical Panic'
+};
+
+export const PANIC_EVENT_CATEGORY = 'panic';
+
+// How long a button has to be held before the panic is sent
+export const PANIC_HOLD_MS = 2000;
+
+// Repeated presses from one keypad inside this window reuse the open alarm
+export const PANIC_DEDUPE_MS = 60 * 1000;
+
+// Minutes after the panic at which responders are notified again while nobody
+// has acknowledged it; escalation stops after the last step
+export const PANIC_ESCALATION_MINUTES = [2, 5, 10];
+
+export const isPanicType = (value: unknown): value is PanicType =>
+  typeof value === 'string' && (PANIC_TYPES as string[]).includes(value);
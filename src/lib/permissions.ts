@@ -0,0 +1,79 @@
+// Keypad user roles and what each one is allowed to do.
+// Shared by the keypad UI and the server routes that assign roles.
+
+export type KeypadRole = 'viewer' | 'arm_only' | 'operator' | 'admin';
+
+export type KeypadPermission =
+  | 'zones.arm'
+  | 'zones.disarm'
+  | 'zones.configure'
+  | 'locations.manage'
+  | 'settings.display'
+  | 'settings.location'
+  | 'settings.events'
+  | 'settings.security'
+  | 'settings.api_key'
+  | 'users.manage';
+
+export const KEYPAD_ROLES: KeypadRole[] = ['viewer', 'arm_only', 'operator', 'admin'];
+
+export const ROLE_LABELS: Record<KeypadRole, string> = {
+  viewer: 'Viewer',
+  arm_only: 'Arm Only',
+  operator: 'Operator',
+  admin: 'Admin',
+};
+
+export interface KeypadUserRole {
+  userId: string;
+  // null applies the role at every location
+  locationId: string | null;
+  role: KeypadRole;
+}
+
+// Someone who has signed in at a keypad, with their role assignments
+export interface KeypadUser {
+  userId: string;
+  userName: string | null;
+  lastSeenAt: string | null;
+  roles: KeypadUserRole[];
+}
+
+// Users without an assignment once an organization has started assigning roles
+export const DEFAULT_KEYPAD_ROLE: KeypadRole = 'viewer';
+
+const VIEWER_PERMISSIONS: KeypadPermission[] = ['settings.display'];
+const ARM_ONLY_PERMISSIONS: KeypadPermission[] = [...VIEWER_PERMISSIONS, 'zones.arm'];
+const OPERATOR_PERMISSIONS: KeypadPermission[] = [
+  ...ARM_ONLY_PERMISSIONS,
+  'zones.disarm',
+  'settings.location',
+  'settings.events',
+];
+
+const ROLE_PERMISSIONS: Record<KeypadRole, KeypadPermission[]> = {
+  viewer: VIEWER_PERMISSIONS,
+  arm_only: ARM_ONLY_PERMISSIONS,
+  operator: OPERATOR_PERMISSIONS,
+  admin: [
+    ...OPERATOR_PERMISSIONS,
+    'zones.configure',
+    'locations.manage',
+    'settings.security',
+    'settings.api_key',
+    'users.manage',
+  ],
+};
+
+export const isKeypadRole = (value: unknown): value is KeypadRole =>
+  typeof value === 'string' && (KEYPAD_ROLES as string[]).includes(value);
+
+// Nobody signed in (null) only gets the display settings
+export const hasPermission = (role: KeypadRole | null | undefined, permission: KeypadPermission): boolean =>
+  (role ? ROLE_PERMISSIONS[role] : VIEWER_PERMISSIONS).includes(permission);
+
+// Arming and disarming are separate permissions, so check the direction of the change.
+// Raising an alarm needs neither: an entry delay that runs out triggers the zone
+// whoever is, or isn't, signed in.
+export const canSetZoneState = (role: KeypadRole | null | undefined, targetState: string): boolean =>
+  targetState === 'TRIGGERED' || hasPermission(role, targetState === 'DISARMED' ? 'zones.disarm' : 'zones.arm');
@@ -0,0 +1,224 @@
+// Server-side PIN attempt tracking (route handlers only).
+// Applies the lockout policy from pin-lockout.ts to the keypad_pin_attempts table
+// and records each lockout in the event store so admins can review it. Failures
+// are written compare-and-set, so concurrent wrong PINs can't count from the same
+// total or slip in while the client is locked out.
+
+import { supabase, insertEvent } from './db';
+import { sendAlarmNotification } from './notifications';
+import {
+  PinAttemptState,
+  PinFailureOutcome,
+  EMPTY_PIN_ATTEMPT_STATE,
+  getLockoutRemainingSeconds,
+  recordPinFailure,
+  recordPinSuccess
+} from './pin-lockout';
+
+export interface PinAttemptContext {
+  // Both come from the server: the API key's organization and the client address
+  organizationId: string;
+  clientAddress: string;
+  // Whatever the keypad calls itself; shown in lockout events, never used for counting
+  keypadId?: string | null;
+  locationId?: string | null;
+  locationName?: string | null;
+}
+
+export const KEYPAD_LOCKOUT_EVENT_TYPE = 'Keypad Lockout';
+
+// Times a failure is counted again after losing a race with another attempt
+const MAX_FAILURE_WRITES = 5;
+
+interface PinAttemptRow {
+  failed_attempts: number;
+  lockout_count: number;
+  locked_until: string | null;
+  last_failed_at: string | null;
+}
+
+const toPinAttemptState = (row: PinAttemptRow): PinAttemptState => ({
+  failedAttempts: row.failed_attempts,
+  lockoutCount: row.lockout_count,
+  lockedUntil: row.locked_until,
+  lastFailedAt: row.last_failed_at
+});
+
+// The address the request came from. x-real-ip and the last x-forwarded-for entry
+// are set by our proxy; earlier x-forwarded-for entries come from the client.
+export function getRequestClientAddress(req: Request): string {
+  const realIp = req.headers.get('x-real-ip')?.trim();
+  if (realIp) return `ip:${realIp}`;
+  const forwardedFor = req.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return `ip:${forwardedFor || 'unknown'}`;
+}
+
+// The keypad's own ID for labelling commands, panics and lockouts. It's chosen by
+// the client, so nothing is keyed or enforced on it.
+export function getRequestKeypadId(req: Request, bodyKeypadId?: string | null): string | null {
+  const keypadId = req.headers.get('x-keypad-id') || bodyKeypadId;
+  return typeof keypadId === 'string' && keypadId ? keypadId.slice(0, 100) : null;
+}
+
+// The stored row, null when the client has never failed, or undefined on error
+async function getPinAttemptRow(context: PinAttemptContext): Promise<PinAttemptRow | null | undefined> {
+  const { data, error } = await supabase
+    .from('keypad_pin_attempts')
+    .select('failed_attempts, lockout_count, locked_until, last_failed_at')
+    .eq('organization_id', context.organizationId)
+    .eq('client_address', context.clientAddress)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[pin-attempts] getPinAttemptRow error:', error);
+    return undefined;
+  }
+  return data;
+}
+
+export async function getPinAttemptState(context: PinAttemptContext): Promise<PinAttemptState> {
+  const row = await getPinAttemptRow(context);
+  return row ? toPinAttemptState(row) : EMPTY_PIN_ATTEMPT_STATE;
+}
+
+async function savePinAttemptState(context: PinAttemptContext, state: PinAttemptState) {
+  const { error } = await supabase
+    .from('keypad_pin_attempts')
+    .upsert({
+      organization_id: context.organizationId,
+      client_address: context.clientAddress,
+      failed_attempts: state.failedAttempts,
+      lockout_count: state.lockoutCount,
+      locked_until: state.lockedUntil,
+      last_failed_at: state.lastFailedAt,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'organization_id,client_address'
+    });
+
+  if (error) {
+    console.error('[pin-attempts] savePinAttemptState error:', error);
+  }
+}
+
+// Returns the lockout end time if the client is currently locked out
+export async function getActiveLockout(context: PinAttemptContext): Promise<string | null> {
+  const state = await getPinAttemptState(context);
+  return getLockoutRemainingSeconds(state) > 0 ? state.lockedUntil : null;
+}
+
+// Write a counted failure only if the row still holds the state it was counted
+// from and the client isn't locked out, all in the one UPDATE. False when another
+// attempt got there first.
+async function saveFailure(context: PinAttemptContext, previous: PinAttemptRow | null, next: PinAttemptState): Promise<boolean> {
+  const values = {
+    failed_attempts: next.failedAttempts,
+    lockout_count: next.lockoutCount,
+    locked_until: next.lockedUntil,
+    last_failed_at: next.lastFailedAt,
+    updated_at: new Date().toISOString()
+  };
+
+  if (!previous) {
+    const { error } = await supabase
+      .from('keypad_pin_attempts')
+      .insert({ organization_id: context.organizationId, client_address: context.clientAddress, ...values });
+    // 23505 is a unique violation: another attempt created the row first
+    if (error && error.code !== '23505') {
+      console.error('[pin-attempts] saveFailure error:', error);
+    }
+    return !error;
+  }
+
+  let query = supabase
+    .from('keypad_pin_attempts')
+    .update(values)
+    .eq('organization_id', context.organizationId)
+    .eq('client_address', context.clientAddress)
+    .eq('failed_attempts', previous.failed_attempts)
+    .eq('lockout_count', previous.lockout_count)
+    .or(`locked_until.is.null,locked_until.lte.${new Date().toISOString()}`);
+  query = previous.last_failed_at ? query.eq('last_failed_at', previous.last_failed_at) : query.is('last_failed_at', null);
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error('[pin-attempts] saveFailure error:', error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+export async function registerPinFailure(context: PinAttemptContext): Promise<PinFailureOutcome> {
+  let outcome = recordPinFailure(EMPTY_PIN_ATTEMPT_STATE);
+  for (let write = 0; write < MAX_FAILURE_WRITES; write++) {
+    const row = await getPinAttemptRow(context);
+    const state = row ? toPinAttemptState(row) : EMPTY_PIN_ATTEMPT_STATE;
+
+    // A concurrent attempt has already locked the client out
+    const remainingSeconds = getLockoutRemainingSeconds(state);
+    if (remainingSeconds > 0) {
+      return { state, lockedOut: true, lockoutSeconds: remainingSeconds, attemptsRemaining: 0 };
+    }
+
+    outcome = recordPinFailure(state);
+    if (row !== undefined && await saveFailure(context, row, outcome.state)) {
+      if (outcome.lockedOut) {
+        await recordLockout(context, outcome);
+      }
+      return outcome;
+    }
+  }
+
+  console.error('[pin-attempts] registerPinFailure gave up after repeated conflicting writes');
+  return outcome;
+}
+
+export async function registerPinSuccess(context: PinAttemptContext) {
+  const state = await getPinAttemptState(context);
+  if (state.failedAttempts > 0 || state.lockoutCount > 0) {
+    await savePinAttemptState(context, recordPinSuccess());
+  }
+}
+
+async function recordLockout(context: PinAttemptContext, outcome: PinFailureOutcome) {
+  const timestamp = new Date().toISOString();
+  const minutes = Math.max(1, Math.round(outcome.lockoutSeconds / 60));
+
+  const results = await Promise.allSettled([
+    insertEvent({
+      organizationId: context.organizationId,
+      locationId: context.locationId || undefined,
+      type: KEYPAD_LOCKOUT_EVENT_TYPE,
+      category: 'security',
+      deviceName: 'Keypad',
+      timestamp,
+      displayState: 'Locked Out',
+      priority: 'high',
+      keypadId: context.keypadId,
+      clientAddress: context.clientAddress,
+      lockoutCount: outcome.state.lockoutCount,
+      lockoutSeconds: outcome.lockoutSeconds,
+      lockedUntil: outcome.state.lockedUntil
+    }),
+    sendAlarmNotification({
+      kind: 'keypad_lockout',
+      priority: 'high',
+      title: 'Keypad locked after failed PIN attempts',
+      message: `A keypad${context.locationName ? ` at ${context.locationName}` : ''} was locked for ${minutes} minute${minutes !== 1 ? 's' : ''} after repeated wrong PINs (lockout ${outcome.state.lockoutCount}).`,
+      organizationId: context.organizationId,
+      locationId: context.locationId,
+      timestamp,
+      data: {
+        keypadId: context.keypadId,
+        clientAddress: context.clientAddress,
+        lockedUntil: outcome.state.lockedUntil
+      }
+    })
+  ]);
+
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error('[pin-attempts] Failed to record lockout:', result.reason);
+    }
+  });
+}
@@ -0,0 +1,80 @@
+// PIN brute-force lockout policy.
+// After PIN_LOCKOUT_THRESHOLD failures a keypad is locked out, and each further
+// lockout doubles the cooldown up to PIN_LOCKOUT_MAX_SECONDS. The escalation
+// resets once the keypad has gone PIN_LOCKOUT_RESET_HOURS without a failure.
+// Pure functions only; storage lives in pin-attempts.ts.
+
+export const PIN_LOCKOUT_THRESHOLD = 5;
+export const PIN_LOCKOUT_BASE_SECONDS = 30;
+export const PIN_LOCKOUT_MAX_SECONDS = 60 * 60;
+export const PIN_LOCKOUT_RESET_HOURS = 24;
+
+export interface PinAttemptState {
+  failedAttempts: number;
+  lockoutCount: number;
+  lockedUntil: string | null;
+  lastFailedAt: string | null;
+}
+
+export interface PinFailureOutcome {
+  state: PinAttemptState;
+  // True when this failure started a new lockout, or when registerPinFailure finds a
+  // concurrent attempt already did
+  lockedOut: boolean;
+  lockoutSeconds: number;
+  attemptsRemaining: number;
+}
+
+export const EMPTY_PIN_ATTEMPT_STATE: PinAttemptState = {
+  failedAttempts: 0,
+  lockoutCount: 0,
+  lockedUntil: null,
+  lastFailedAt: null
+};
+
+// Cooldown for the nth lockout (1-based): 30s, 60s, 2m, 4m ... capped at an hour
+export function getLockoutSeconds(lockoutCount: number): number {
+  if (lockoutCount <= 0) return 0;
+  return Math.min(PIN_LOCKOUT_MAX_SECONDS, PIN_LOCKOUT_BASE_SECONDS * 2 ** (lockoutCount - 1));
+}
+
+// Seconds left on the current lockout, or 0 when the keypad may try again
+export function getLockoutRemainingSeconds(state: PinAttemptState, now: Date = new Date()): number {
+  if (!state.lockedUntil) return 0;
+  const remainingMs = new Date(state.lockedUntil).getTime() - now.getTime();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+}
+
+export function recordPinFailure(state: PinAttemptState, now: Date = new Date()): PinFailureOutcome {
+  const quietFor = state.lastFailedAt ? now.getTime() - new Date(state.lastFailedAt).getTime() : Infinity;
+  const base = quietFor > PIN_LOCKOUT_RESET_HOURS * 60 * 60 * 1000 ? EMPTY_PIN_ATTEMPT_STATE : state;
+
+  const failedAttempts = base.failedAttempts + 1;
+  if (failedAttempts < PIN_LOCKOUT_THRESHOLD) {
+    return {
+      state: { ...base, failedAttempts, lastFailedAt: now.toISOString() },
+      lockedOut: false,
+      lockoutSeconds: 0,
+      attemptsRemaining: PIN_LOCKOUT_THRESHOLD - failedAttempts
+    };
+  }
+
+  const lockoutCount = base.lockoutCount + 1;
+  const lockoutSeconds = getLockoutSeconds(lockoutCount);
+  return {
+    state: {
+      failedAttempts: 0,
+      lockoutCount,
+      lockedUntil: new Date(now.getTime() + lockoutSeconds * 1000).toISOString(),
+      lastFailedAt: now.toISOString()
+    },
+    lockedOut: true,
+    lockoutSeconds,
+    attemptsRemaining: 0
+  };
+}
+
+// A correct PIN clears the failure count and the escalation
+export function recordPinSuccess(): PinAttemptState {
+  return { ...EMPTY_PIN_ATTEMPT_STATE };
+}
@@ -0,0 +1,167 @@
+// Pre-arm readiness: inspects each device in the zones being armed and reports
+// typed findings, then applies each zone's rules to decide whether the zone can
+// arm, arm with a warning, or is blocked until the device is fixed or bypassed.
+
+import type { Device } from './api';
+
+export type ReadinessFindingKind = 'open_contact' | 'offline' | 'low_battery' | 'tamper' | 'stale' | 'device_error';
+export type ReadinessSeverity = 'info' | 'warning' | 'critical';
+// What a zone does about a finding: refuse to arm, ask first, or ignore it
+export type ReadinessRule = 'block' | 'warn' | 'ignore';
+export type ReadinessVerdict = 'ready' | 'warn' | 'blocked';
+
+export type ZoneReadinessRules = Record<ReadinessFindingKind, ReadinessRule>;
+
+// Anything with devices that can be armed: alarm zones, or spaces on older layouts
+export interface ReadinessTarget {
+  id: string;
+  name: string;
+  deviceIds: string[];
+}
+
+export interface ReadinessFinding {
+  zoneId: string;
+  zoneName: string;
+  deviceId: string;
+  deviceName: string;
+  kind: ReadinessFindingKind;
+  severity: ReadinessSeverity;
+  message: string;
+  rule: ReadinessRule;
+}
+
+// A device ignored by its zone for one arming cycle
+export interface ReadinessBypass {
+  zoneId: string;
+  deviceId: string;
+}
+
+export interface ReadinessReport {
+  verdict: ReadinessVerdict;
+  // Findings the zone rules did not ignore, blocking ones first
+  findings: ReadinessFinding[];
+}
+
+export const READINESS_FINDING_KINDS: ReadinessFindingKind[] = [
+  'open_contact',
+  'offline',
+  'tamper',
+  'low_battery',
+  'stale',
+  'device_error'
+];
+
+export const FINDING_LABELS: Record<ReadinessFindingKind, string> = {
+  open_contact: 'Open door or window',
+  offline: 'Device offline',
+  low_battery: 'Low battery',
+  tamper: 'Tamper detected',
+  stale: 'Not heard from recently',
+  device_error: 'Device error'
+};
+
+const FINDING_SEVERITY: Record<ReadinessFindingKind, ReadinessSeverity> = {
+  open_contact: 'warning',
+  offline: 'critical',
+  low_battery: 'info',
+  tamper: 'critical',
+  stale: 'warning',
+  device_error: 'critical'
+};
+
+// Everything asks before arming unless a zone says otherwise, matching the
+// keypad's behaviour before rules existed
+export const DEFAULT_READINESS_RULES: ZoneReadinessRules = {
+  open_contact: 'warn',
+  offline: 'warn',
+  low_battery: 'warn',
+  tamper: 'warn',
+  stale: 'warn',
+  device_error: 'warn'
+};
+
+export const LOW_BATTERY_PERCENTAGE = 15;
+export const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_ORDER: Record<ReadinessSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+export const isDeviceOffline = (device: Device) => {
+  const status = device.status?.toLowerCase() || '';
+  const displayState = device.displayState?.toLowerCase() || '';
+  return status === 'offline' || displayState === 'offline' || device.online === false;
+};
+
+// Raw findings for one device, before any zone rules are applied
+export const getDeviceFindings = (device: Device, now: number = Date.now()): Pick<ReadinessFinding, 'kind' | 'severity' | 'message'>[] => {
+  const status = device.status?.toLowerCase() || '';
+  const displayState = device.displayState?.toLowerCase() || '';
+  const kinds: ReadinessFindingKind[] = [];
+
+  if (displayState === 'open' || displayState === 'opened') {
+    kinds.push('open_contact');
+  }
+  if (isDeviceOffline(device)) {
+    kinds.push('offline');
+  }
+  if (status === 'error') {
+    kinds.push('device_error');
+  }
+  if (displayState === 'tamper' || displayState === 'tampered') {
+    kinds.push('tamper');
+  }
+  if (displayState === 'low battery' || (typeof device.batteryPercentage === 'number' && device.batteryPercentage <= LOW_BATTERY_PERCENTAGE)) {
+    kinds.push('low_battery');
+  }
+  // An offline device is already reported; stale only matters for ones that look online
+  const lastSeen = Date.parse(device.lastSeen || device.lastStateUpdate || '');
+  if (!isDeviceOffline(device) && Number.isFinite(lastSeen) && now - lastSeen > STALE_AFTER_MS) {
+    kinds.push('stale');
+  }
+
+  return kinds.map(kind => ({
+    kind,
+    severity: FINDING_SEVERITY[kind],
+    message: kind === 'low_battery' && typeof device.batteryPercentage === 'number'
+      ? `${FINDING_LABELS[kind]} (${device.batteryPercentage}%)`
+      : FINDING_LABELS[kind]
+  }));
+};
+
+const verdictFor = (findings: ReadinessFinding[]): ReadinessVerdict => {
+  if (findings.some(finding => finding.rule === 'block')) return 'blocked';
+  return findings.length > 0 ? 'warn' : 'ready';
+};
+
+// Readiness of the given zones, using each zone's rules on top of the defaults
+export const evaluateReadiness = (
+  targets: ReadinessTarget[],
+  devices: Device[],
+  getRules: (zoneId: string) => Partial<ZoneReadinessRules> = () => ({}),
+  now: number = Date.now()
+): ReadinessReport => {
+  const findings = targets.flatMap(target => {
+    const rules = { ...DEFAULT_READINESS_RULES, ...getRules(target.id) };
+    return devices
+      .filter(device => target.deviceIds.includes(device.id))
+      .flatMap(device => getDeviceFindings(device, now).map(finding => ({
+        ...finding,
+        zoneId: target.id,
+        zoneName: target.name,
+        deviceId: device.id,
+        deviceName: device.name,
+        rule: rules[finding.kind]
+      })))
+      .filter(finding => finding.rule !== 'ignore');
+  });
+
+  findings.sort((a, b) =>
+    Number(b.rule === 'block') - Number(a.rule === 'block') || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  );
+  return { verdict: verdictFor(findings), findings };
+};
+
+// The verdict once the given devices are bypassed for this arming cycle
+export const verdictWithBypasses = (report: ReadinessReport, bypassed: ReadinessBypass[]): ReadinessVerdict =>
+  verdictFor(report.findings.filter(finding =>
+    !bypassed.some(b => b.zoneId === finding.zoneId && b.deviceId === finding.deviceId)
+  ));
@@ -0,0 +1,169 @@
+// Keypad user role storage (server-side only).
+// Until an organization assigns its first role every keypad user is treated as an
+// admin, so existing installs keep working; after that unassigned users get
+// DEFAULT_KEYPAD_ROLE.
+
+import { supabase } from './db';
+import { KeypadRole, KeypadUser, KeypadUserRole, DEFAULT_KEYPAD_ROLE, isKeypadRole } from './permissions';
+
+export const ALL_LOCATIONS = '*';
+
+const toLocationKey = (locationId?: string | null) => locationId || ALL_LOCATIONS;
+
+const fromRoleRow = (row: { user_id: string; location_id: string; role: string }): KeypadUserRole | null =>
+  isKeypadRole(row.role) ? {
+    userId: row.user_id,
+    locationId: row.location_id === ALL_LOCATIONS ? null : row.location_id,
+    role: row.role
+  } : null;
+
+// Remember who has signed in so admins have someone to assign roles to
+export async function recordKeypadUser(organizationId: string, userId: string, userName?: string | null) {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('keypad_users')
+    .upsert({
+      organization_id: organizationId,
+      user_id: userId,
+      user_name: userName || null,
+      last_seen_at: now,
+      updated_at: now
+    }, {
+      onConflict: 'organization_id,user_id'
+    });
+
+  if (error) {
+    console.error('[roles] recordKeypadUser error:', error);
+  }
+}
+
+// The name the user last signed in with, for records made from their session
+export async function getKeypadUserName(organizationId: string, userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('keypad_users')
+    .select('user_name')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[roles] getKeypadUserName error:', error);
+    return null;
+  }
+  return data?.user_name || null;
+}
+
+export async function hasAnyRoles(organizationId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('keypad_user_roles')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    console.error('[roles] hasAnyRoles error:', error);
+    // Fail closed rather than handing out admin
+    return true;
+  }
+  return (count || 0) > 0;
+}
+
+// The user's role at a location; a location-specific assignment beats an org-wide one
+export async function getUserRole(organizationId: string, userId: string, locationId?: string | null): Promise<KeypadRole> {
+  const { data, error } = await supabase
+    .from('keypad_user_roles')
+    .select('user_id, location_id, role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .in('location_id', [toLocationKey(locationId), ALL_LOCATIONS]);
+
+  if (error) {
+    console.error('[roles] getUserRole error:', error);
+    return DEFAULT_KEYPAD_ROLE;
+  }
+
+  const roles = (data || []).map(fromRoleRow).filter((role): role is KeypadUserRole => !!role);
+  const match = roles.find(role => role.locationId !== null) || roles[0];
+  if (match) return match.role;
+
+  return (await hasAnyRoles(organizationId)) ? DEFAULT_KEYPAD_ROLE : 'admin';
+}
+
+export async function listKeypadUsers(organizationId: string): Promise<KeypadUser[] | null> {
+  const [usersResult, rolesResult] = await Promise.all([
+    supabase
+      .from('keypad_users')
+      .select('user_id, user_name, last_seen_at')
+      .eq('organization_id', organizationId)
+      .order('user_name', { ascending: true }),
+    supabase
+      .from('keypad_user_roles')
+      .select('user_id, location_id, role')
+      .eq('organization_id', organizationId)
+  ]);
+
+  if (usersResult.error || rolesResult.error) {
+    console.error('[roles] listKeypadUsers error:', usersResult.error || rolesResult.error);
+    return null;
+  }
+
+  const roles = (rolesResult.data || []).map(fromRoleRow).filter((role): role is KeypadUserRole => !!role);
+  return (usersResult.data || []).map(user => ({
+    userId: user.user_id,
+    userName: user.user_name,
+    lastSeenAt: user.last_seen_at,
+    roles: roles.filter(role => role.userId === user.user_id)
+  }));
+}
+
+export async function saveUserRole(organizationId: string, assignment: KeypadUserRole, assignedBy: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('keypad_user_roles')
+    .upsert({
+      organization_id: organizationId,
+      user_id: assignment.userId,
+      location_id: toLocationKey(assignment.locationId),
+      role: assignment.role,
+      assigned_by: assignedBy,
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'organization_id,user_id,location_id'
+    });
+
+  if (error) {
+    console.error('[roles] saveUserRole error:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function deleteUserRole(organizationId: string, userId: string, locationId?: string | null): Promise<boolean> {
+  const { error } = await supabase
+    .from('keypad_user_roles')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .eq('location_id', toLocationKey(locationId));
+
+  if (error) {
+    console.error('[roles] deleteUserRole error:', error);
+    return false;
+  }
+  return true;
+}
+
+// Organization-wide admins other than the given user; used so nobody removes the last admin
+export async function countOtherAdmins(organizationId: string, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('keypad_user_roles')
+    .select('id', { count: 'exact', head: true })
+    .eq('organization_id', organizationId)
+    .eq('location_id', ALL_LOCATIONS)
+    .eq('role', 'admin')
+    .neq('user_id', userId);
+
+  if (error) {
+    console.error('[roles] countOtherAdmins error:', error);
+    return 0;
+  }
+  return count || 0;
+}
@@ -0,0 +1,165 @@
+// Request authentication (server-side only).
+// Keypads send their Fusion API key with every request. The organization it
+// belongs to is the only one a route acts on, whatever the request body says.
+// A valid PIN earns a signed user token, so later requests can prove who entered it.
+// EventSource can't send headers, so for /api/events/live a keypad trades its API
+// key for a short-lived signed live token instead. The token names the API key's
+// organization, and the stream only carries that organization's events.
+// Operators are recognized by a separate admin token.
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { fusionServerFetch } from './fusion-server';
+
+export interface LiveToken {
+  token: string;
+  organizationId: string;
+  expiresAt: string;
+}
+
+// Proof that someone entered a valid PIN at a keypad of this organization
+export interface KeypadUserToken {
+  token: string;
+  organizationId: string;
+  userId: string;
+  expiresAt: string;
+}
+
+// Only checked when a stream opens; the keypad fetches a new one to reconnect
+export const LIVE_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+// Long enough for a shift; signing out on the keypad forgets it sooner
+export const KEYPAD_USER_TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+
+// How long an API key's organization is remembered before asking Fusion again
+const ORGANIZATION_CACHE_MS = 5 * 60 * 1000;
+const organizationCache = new Map<string, { organizationId: string; expiresAt: number }>();
+
+// typ keeps a live token from being passed off as a user token and vice versa
+interface TokenClaims {
+  typ: 'live' | 'user';
+  org: string;
+  sub?: string;
+  exp: number;
+}
+
+// Fusion's answer to /api/admin/api-keys/test, which has come both with and
+// without a data wrapper
+interface ApiKeyDetails {
+  organizationInfo?: { id?: string };
+}
+
+interface ApiKeyTestResponse extends ApiKeyDetails {
+  data?: ApiKeyDetails;
+}
+
+// Without a configured secret no tokens are issued or accepted; a built-in one
+// would let anyone sign tokens for any organization
+const getSecret = (): string | null => process.env.LIVE_EVENTS_SECRET || process.env.KEYPAD_PIN_SECRET || null;
+
+export const isTokenSigningConfigured = () => getSecret() !== null;
+
+const sign = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+const encodeToken = (claims: TokenClaims): string | null => {
+  const secret = getSecret();
+  if (!secret) {
+    console.error('[server-auth] LIVE_EVENTS_SECRET is not set; refusing to issue a token');
+    return null;
+  }
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+// The token's claims, or null if it's forged, malformed, expired or of another type
+const decodeToken = (token: string | null | undefined, typ: TokenClaims['typ'], now: number): TokenClaims | null => {
+  const secret = getSecret();
+  const [payload, signature, ...rest] = (token || '').split('.');
+  if (!secret || !payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims: Partial<TokenClaims> = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (claims.typ !== typ || typeof claims.org !== 'string' || !claims.org) return null;
+    if (typeof claims.exp !== 'number' || claims.exp <= now) return null;
+    return claims as TokenClaims;
+  } catch {
+    return null;
+  }
+};
+
+// Null when no signing secret is configured
+export function createLiveToken(organizationId: string, now = Date.now()): LiveToken | null {
+  const expiresAt = now + LIVE_TOKEN_TTL_MS;
+  const token = encodeToken({ typ: 'live', org: organizationId, exp: expiresAt });
+  if (!token) return null;
+  return {
+    token,
+    organizationId,
+    expiresAt: new Date(expiresAt).toISOString()
+  };
+}
+
+// The organization a token was issued for, or null if it's forged, malformed or expired
+export function verifyLiveToken(token: string | null | undefined, now = Date.now()): string | null {
+  return decodeToken(token, 'live', now)?.org ?? null;
+}
+
+// Null when no signing secret is configured
+export function createKeypadUserToken(organizationId: string, userId: string, now = Date.now()): KeypadUserToken | null {
+  const expiresAt = now + KEYPAD_USER_TOKEN_TTL_MS;
+  const token = encodeToken({ typ: 'user', org: organizationId, sub: userId, exp: expiresAt });
+  if (!token) return null;
+  return {
+    token,
+    organizationId,
+    userId,
+    expiresAt: new Date(expiresAt).toISOString()
+  };
+}
+
+export function verifyKeypadUserToken(
+  token: string | null | undefined,
+  now = Date.now()
+): { organizationId: string; userId: string } | null {
+  const claims = decodeToken(token, 'user', now);
+  if (!claims || typeof claims.sub !== 'string' || !claims.sub) return null;
+  return { organizationId: claims.org, userId: claims.sub };
+}
+
+// The organization an API key belongs to, as reported by Fusion
+export async function resolveOrganization(apiKey: string): Promise<string | null> {
+  if (!apiKey) return null;
+
+  const cacheKey = createHash('sha256').update(apiKey).digest('hex');
+  const cached = organizationCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.organizationId;
+  }
+
+  const response = await fusionServerFetch<ApiKeyTestResponse>('/api/admin/api-keys/test', apiKey, { method: 'GET' });
+  if (response.error) {
+    console.error('[server-auth] resolveOrganization error:', response.error);
+    return null;
+  }
+
+  const details = response.data?.data ?? response.data;
+  const organizationId = details?.organizationInfo?.id;
+  if (!organizationId) return null;
+
+  organizationCache.set(cacheKey, { organizationId, expiresAt: Date.now() + ORGANIZATION_CACHE_MS });
+  return organizationId;
+}
+
+// Operators holding BACKGROUND_SERVICE_ADMIN_TOKEN can see and manage every
+// organization's ingestion, not just their own API key's
+export function isOperatorRequest(req: Request): boolean {
+  const expected = process.env.BACKGROUND_SERVICE_ADMIN_TOKEN;
+  const provided = req.headers.get('x-admin-token');
+  if (!expected || !provided) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
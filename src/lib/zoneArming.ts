@@ -0,0 +1,187 @@
+// Zone arming service: arms/disarms a whole alarm zone through the zone-level
+// arm-state endpoint, then checks that each of the zone's devices reports the
+// new state so the keypad can say exactly which ones failed or never confirmed.
+
+import {
+  AlarmZone,
+  Device,
+  ApiZoneArmedState,
+  setAlarmZoneArmState,
+  getAlarmZoneDevices
+} from './api';
+import { bypassZoneDevices, clearZoneBypasses } from './zoneBypass';
+import { saveZoneActiveArmMode } from './zoneSettings';
+
+export type ZoneArmingState = AlarmZone['armedState'];
+
+export interface ZoneDeviceIssue {
+  deviceId: string;
+  deviceName: string;
+  status: 'failed' | 'unconfirmed';
+  reason: string;
+}
+
+export interface ZoneArmingResult {
+  zoneId: string;
+  zoneName: string;
+  requestedState: ZoneArmingState;
+  // True only when the zone accepted the change and every device confirmed
+  success: boolean;
+  // Zone as returned by the API, with armedState mapped back to the keypad state
+  zone: AlarmZone | null;
+  confirmedDeviceIds: string[];
+  deviceIssues: ZoneDeviceIssue[];
+  // Devices bypassed for this arming cycle (empty once the zone is disarmed)
+  bypassedDeviceIds: string[];
+  error?: string;
+}
+
+export const toApiArmedState = (state: ZoneArmingState): ApiZoneArmedState => {
+  if (state === 'ARMED_AWAY' || state === 'ARMED_STAY') return 'ARMED';
+  return state;
+};
+
+// The API reports a plain ARMED state; map it back to the mode the keypad knows about
+export const fromApiArmedState = (state: string | null | undefined, armedMode: 'ARMED_AWAY' | 'ARMED_STAY' = 'ARMED_AWAY'): ZoneArmingState => {
+  const normalized = (state || '').toUpperCase();
+  if (normalized === 'DISARMED' || normalized === 'TRIGGERED' || normalized === 'ARMED_AWAY' || normalized === 'ARMED_STAY') {
+    return normalized;
+  }
+  if (normalized === 'ARMED') return armedMode;
+  return 'DISARMED';
+};
+
+const isDeviceOffline = (device: Device) => {
+  const status = device.status?.toLowerCase() || '';
+  const displayState = device.displayState?.toLowerCase() || '';
+  return status === 'offline' || displayState === 'offline' || device.online === false;
+};
+
+export async function setZoneArmState(
+  zone: AlarmZone,
+  state: ZoneArmingState,
+  knownDevices: Device[] = [],
+  // Faulted devices to ignore until the zone is next disarmed
+  bypassDeviceIds: string[] = [],
+  // The user to send the change as, when it isn't whoever is signed in now
+  userToken?: string | null
+): Promise<ZoneArmingResult> {
+  const expectedDeviceIds = zone.deviceIds || [];
+  const deviceName = (deviceId: string, fallback?: Device) =>
+    fallback?.name || knownDevices.find(d => d.id === deviceId)?.name || deviceId;
+  const armedMode = state === 'ARMED_STAY' ? 'ARMED_STAY' : 'ARMED_AWAY';
+
+  const result: ZoneArmingResult = {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    requestedState: state,
+    success: false,
+    zone: null,
+    confirmedDeviceIds: [],
+    deviceIssues: [],
+    bypassedDeviceIds: zone.bypassedDeviceIds || []
+  };
+
+  const isArming = state === 'ARMED_AWAY' || state === 'ARMED_STAY';
+  if (isArming && bypassDeviceIds.length > 0) {
+    result.bypassedDeviceIds = bypassZoneDevices(zone.id, bypassDeviceIds);
+  }
+
+  const armLabel = isArming ? `Arm ${zone.name}${state === 'ARMED_STAY' ? ' (stay)' : ''}` : `Disarm ${zone.name}`;
+  const armResponse = await setAlarmZoneArmState(zone.id, toApiArmedState(state), armLabel, userToken);
+  if (armResponse.error || !armResponse.data) {
+    result.error = armResponse.error || 'No response from alarm zone';
+    // The zone never armed, so don't leave its bypasses behind for the next cycle
+    if (isArming && result.bypassedDeviceIds.length > 0) {
+      result.bypassedDeviceIds = clearZoneBypasses(zone.id);
+    }
+    result.deviceIssues = expectedDeviceIds.map(deviceId => ({
+      deviceId,
+      deviceName: deviceName(deviceId),
+      status: 'failed',
+      reason: 'Zone rejected the request'
+    }));
+    return result;
+  }
+
+  const reportedState = fromApiArmedState(armResponse.data.armedState, armedMode);
+  result.zone = { ...armResponse.data, armedState: reportedState };
+  if (reportedState !== state) {
+    result.error = `${zone.name} reported ${reportedState} instead of ${state}`;
+  }
+
+  if (reportedState === 'ARMED_AWAY' || reportedState === 'ARMED_STAY') {
+    saveZoneActiveArmMode(zone.id, reportedState);
+  }
+
+  if (reportedState === 'DISARMED') {
+    result.bypassedDeviceIds = clearZoneBypasses(zone.id);
+  }
+
+  // Verify the devices the zone now reports against the ones we expected
+  const zoneDeviceIds = (armResponse.data.deviceIds?.length ? armResponse.data.deviceIds : expectedDeviceIds)
+    .filter(deviceId => !result.bypassedDeviceIds.includes(deviceId) && !bypassDeviceIds.includes(deviceId));
+  const devicesResponse = await getAlarmZoneDevices(zone.id);
+
+  if (devicesResponse.error) {
+    result.deviceIssues.push(...zoneDeviceIds.map(deviceId => ({
+      deviceId,
+      deviceName: deviceName(deviceId),
+      status: 'unconfirmed' as const,
+      reason: 'Could not verify device state'
+    })));
+    result.error = result.error || `Could not verify devices in ${zone.name}`;
+    return result;
+  }
+
+  zoneDeviceIds.forEach(deviceId => {
+    const device = devicesResponse.data.find(d => d.id === deviceId);
+
+    if (!device) {
+      result.deviceIssues.push({
+        deviceId,
+        deviceName: deviceName(deviceId),
+        status: 'failed',
+        reason: 'Device is no longer reported in this zone'
+      });
+    } else if (device.status?.toLowerCase() === 'error') {
+      result.deviceIssues.push({
+        deviceId,
+        deviceName: deviceName(deviceId, device),
+        status: 'failed',
+        reason: 'Device reported an error'
+      });
+    } else if (isDeviceOffline(device)) {
+      result.deviceIssues.push({
+        deviceId,
+        deviceName: deviceName(deviceId, device),
+        status: 'unconfirmed',
+        reason: 'Device offline, state not confirmed'
+      });
+    } else if (!device.armedState) {
+      result.deviceIssues.push({
+        deviceId,
+        deviceName: deviceName(deviceId, device),
+        status: 'unconfirmed',
+        reason: 'Device did not report an arm state'
+      });
+    } else if (fromApiArmedState(device.armedState, armedMode) !== state) {
+      result.deviceIssues.push({
+        deviceId,
+        deviceName: deviceName(deviceId, device),
+        status: 'unconfirmed',
+        reason: `Device still reports ${fromApiArmedState(device.armedState, armedMode)}`
+      });
+    } else {
+      result.confirmedDeviceIds.push(deviceId);
+    }
+  });
+
+  result.success = !result.error && result.deviceIssues.length === 0;
+  if (!result.error && result.deviceIssues.length > 0) {
+    const count = result.deviceIssues.length;
+    result.error = `${count} device${count !== 1 ? 's' : ''} in ${zone.name} did not confirm`;
+  }
+
+  return result;
+}
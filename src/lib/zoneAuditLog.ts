@@ -0,0 +1,109 @@
+// Filtering and CSV export for a zone's audit log (GET /api/alarm-zones/{id}/audit-log)
+
+import type { AuditLogEntry } from './api';
+
+export type AuditLogAction = AuditLogEntry['action'];
+
+// Where a change came from: someone at a keypad or the app, a device event, or the system
+export type AuditLogSource = 'user' | 'event' | 'system';
+
+export interface AuditLogFilters {
+  action: AuditLogAction | 'all';
+  source: AuditLogSource | 'all';
+  // Matches the actor, reason and states
+  search: string;
+  // YYYY-MM-DD, inclusive; empty for no limit
+  from: string;
+  to: string;
+}
+
+export const AUDIT_LOG_ACTIONS: AuditLogAction[] = ['armed', 'disarmed', 'triggered', 'acknowledged'];
+
+export const AUDIT_LOG_ACTION_LABELS: Record<AuditLogAction, string> = {
+  armed: 'Armed',
+  disarmed: 'Disarmed',
+  triggered: 'Triggered',
+  acknowledged: 'Acknowledged'
+};
+
+export const AUDIT_LOG_SOURCES: AuditLogSource[] = ['user', 'event', 'system'];
+
+export const AUDIT_LOG_SOURCE_LABELS: Record<AuditLogSource, string> = {
+  user: 'User',
+  event: 'Device event',
+  system: 'System'
+};
+
+export const DEFAULT_AUDIT_LOG_FILTERS: AuditLogFilters = {
+  action: 'all',
+  source: 'all',
+  search: '',
+  from: '',
+  to: ''
+};
+
+export const AUDIT_LOG_PAGE_SIZE = 25;
+
+// Largest page the Fusion API returns, used when exporting the whole log
+export const AUDIT_LOG_MAX_LIMIT = 1000;
+
+export const getAuditLogSource = (entry: AuditLogEntry): AuditLogSource => {
+  if (entry.triggerEventId) return 'event';
+  if (entry.userId) return 'user';
+  return 'system';
+};
+
+// Display name for whoever made the change; userNames maps user ids to names
+export const getAuditLogActor = (entry: AuditLogEntry, userNames: Record<string, string> = {}): string => {
+  if (entry.userId) return userNames[entry.userId] || entry.userId;
+  return AUDIT_LOG_SOURCE_LABELS[getAuditLogSource(entry)];
+};
+
+const localDate = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const filterAuditLog = (
+  entries: AuditLogEntry[],
+  filters: AuditLogFilters,
+  userNames: Record<string, string> = {}
+): AuditLogEntry[] => {
+  const search = filters.search.trim().toLowerCase();
+  return entries.filter(entry => {
+    if (filters.action !== 'all' && entry.action !== filters.action) return false;
+    if (filters.source !== 'all' && getAuditLogSource(entry) !== filters.source) return false;
+
+    const day = localDate(entry.createdAt);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+
+    if (!search) return true;
+    return [getAuditLogActor(entry, userNames), entry.reason, entry.previousState, entry.newState]
+      .some(value => (value || '').toLowerCase().includes(search));
+  });
+};
+
+const csvCell = (value: string | null) => {
+  // Spreadsheets run cells starting with these as formulas, so they're kept as text
+  const raw = value ?? '';
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditLogToCsv = (entries: AuditLogEntry[], userNames: Record<string, string> = {}): string => {
+  const header = ['Timestamp', 'Action', 'Previous State', 'New State', 'Actor', 'Source', 'Reason', 'Trigger Event'];
+  const rows = entries.map(entry => [
+    entry.createdAt,
+    AUDIT_LOG_ACTION_LABELS[entry.action] || entry.action,
+    entry.previousState,
+    entry.newState,
+    getAuditLogActor(entry, userNames),
+    AUDIT_LOG_SOURCE_LABELS[getAuditLogSource(entry)],
+    entry.reason,
+    entry.triggerEventId
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
@@ -0,0 +1,25 @@
+// Device bypass: lets a zone arm while specific faulted devices are set aside.
+// A bypass only clears the keypad's readiness check for that device; the device
+// stays monitored and can still trigger the alarm, which the keypad tells the user.
+// Bypasses last for one arming cycle and are forgotten when the zone is disarmed.
+// Silencing a bypassed device through Fusion's trigger overrides is blocked until
+// Fusion can override a single device: overrides apply to an event type across the
+// whole zone, so one would silence every other device reporting that event too.
+
+import { getZoneBypasses, saveZoneBypasses } from './zoneSettings';
+
+export const BYPASS_LIMITATION_NOTICE =
+  'Fusion cannot exclude single devices from a zone, so bypassed devices stay monitored and can still trigger the alarm.';
+
+// Record the devices bypassed for this arming cycle. Returns the zone's bypasses.
+export function bypassZoneDevices(zoneId: string, deviceIds: string[]): string[] {
+  const bypassed = Array.from(new Set([...getZoneBypasses(zoneId), ...deviceIds]));
+  saveZoneBypasses(zoneId, bypassed);
+  return bypassed;
+}
+
+// Forget the zone's bypasses. Returns the zone's (now empty) bypasses.
+export function clearZoneBypasses(zoneId: string): string[] {
+  saveZoneBypasses(zoneId, []);
+  return [];
+}
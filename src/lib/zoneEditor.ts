@@ -0,0 +1,71 @@
+// Drafts and validation for the admin zone editor. The Fusion API stores a zone's
+// name, description, trigger behaviour and devices; the colour is keypad-side.
+
+import type { AlarmZone, Device, ZoneTriggerBehavior } from './api';
+
+export interface ZoneDraft {
+  // null while the zone hasn't been created yet
+  id: string | null;
+  name: string;
+  description: string;
+  triggerBehavior: ZoneTriggerBehavior;
+  color: string;
+  deviceIds: string[];
+}
+
+// A device the draft would share with another zone
+export interface ZoneConflict {
+  deviceId: string;
+  deviceName: string;
+  zoneId: string;
+  zoneName: string;
+}
+
+export const ZONE_TRIGGER_BEHAVIORS: ZoneTriggerBehavior[] = ['standard', 'custom'];
+
+export const ZONE_TRIGGER_BEHAVIOR_LABELS: Record<ZoneTriggerBehavior, string> = {
+  standard: 'Standard (any security event triggers)',
+  custom: 'Custom (uses trigger overrides)'
+};
+
+export const ZONE_COLORS = ['#ef4444', '#f59e0b', '#3b82f6', '#10b981', '#8b5cf6', '#f97316'];
+
+export const createZoneDraft = (zone: AlarmZone | null, zoneCount: number = 0): ZoneDraft => ({
+  id: zone?.id ?? null,
+  name: zone?.name ?? '',
+  description: zone?.description ?? '',
+  triggerBehavior: zone?.triggerBehavior === 'custom' ? 'custom' : 'standard',
+  color: zone?.color && /^#[0-9a-f]{6}$/i.test(zone.color) ? zone.color : ZONE_COLORS[zoneCount % ZONE_COLORS.length],
+  deviceIds: zone?.deviceIds ?? []
+});
+
+// A device belongs to one zone at a time, otherwise arming or disarming one zone
+// would change the other zone's device too
+export const findZoneConflicts = (draft: ZoneDraft, alarmZones: AlarmZone[], devices: Device[]): ZoneConflict[] =>
+  draft.deviceIds.flatMap(deviceId => {
+    const zone = alarmZones.find(z => z.id !== draft.id && z.deviceIds?.includes(deviceId));
+    if (!zone) return [];
+    const device = devices.find(d => d.id === deviceId);
+    return [{ deviceId, deviceName: device?.name || deviceId, zoneId: zone.id, zoneName: zone.name }];
+  });
+
+// Problems that stop the draft from being saved
+export const validateZoneDraft = (draft: ZoneDraft, alarmZones: AlarmZone[], devices: Device[]): string[] => {
+  const errors: string[] = [];
+  const name = draft.name.trim();
+  if (!name) {
+    errors.push('Enter a zone name');
+  } else if (alarmZones.some(zone => zone.id !== draft.id && zone.name.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push(`There is already a zone called "${name}"`);
+  }
+  findZoneConflicts(draft, alarmZones, devices).forEach(conflict => {
+    errors.push(`${conflict.deviceName} is already in ${conflict.zoneName}`);
+  });
+  return errors;
+};
+
+// Devices to assign to and remove from a zone to go from current to next
+export const getZoneDeviceChanges = (current: string[], next: string[]) => ({
+  added: next.filter(id => !current.includes(id)),
+  removed: current.filter(id => !next.includes(id))
+});
@@ -0,0 +1,182 @@
+// Keypad-side settings for alarm zones that the Fusion API doesn't store.
+// Persisted per device in localStorage, keyed by alarm zone ID.
+
+import type { AlarmZone } from './api';
+import { READINESS_FINDING_KINDS, ReadinessRule, ZoneReadinessRules } from './readiness';
+
+const STORAGE_KEY = 'alarm_zone_settings';
+
+export const DEFAULT_EXIT_DELAY_SECONDS = 60;
+export const DEFAULT_ENTRY_DELAY_SECONDS = 30;
+export const MAX_DELAY_SECONDS = 300;
+
+// The Fusion API only knows ARMED; stay vs away is tracked on the keypad
+export type ZoneArmMode = 'ARMED_AWAY' | 'ARMED_STAY';
+export const DEFAULT_ARM_MODE: ZoneArmMode = 'ARMED_AWAY';
+
+export interface ZoneDelaySettings {
+  exitDelaySeconds: number;
+  entryDelaySeconds: number;
+}
+
+export interface ZoneKeypadSettings extends ZoneDelaySettings {
+  // Devices bypassed for the current arming cycle, cleared on disarm
+  bypassedDeviceIds: string[];
+  // Mode used when the zone is armed without picking one
+  defaultArmMode: ZoneArmMode;
+  // Mode the zone was last armed in from this keypad
+  activeArmMode: ZoneArmMode;
+  // Overrides of the default pre-arm readiness rules
+  readinessRules: Partial<ZoneReadinessRules>;
+  // Colour picked in the zone editor (#rrggbb)
+  color: string;
+}
+
+const isArmMode = (value: unknown): value is ZoneArmMode =>
+  value === 'ARMED_AWAY' || value === 'ARMED_STAY';
+
+const clampDelay = (value: unknown, fallback: number): number => {
+  const seconds = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isFinite(seconds)) return fallback;
+  return Math.min(MAX_DELAY_SECONDS, Math.max(0, Math.round(seconds)));
+};
+
+// Load all stored zone settings
+export const loadZoneSettings = (): Record<string, Partial<ZoneKeypadSettings>> => {
+  if (typeof window === 'undefined') return {};
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Failed to parse alarm zone settings:', error);
+    return {};
+  }
+};
+
+const saveZoneSettings = (settings: Record<string, Partial<ZoneKeypadSettings>>) => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Get the exit/entry delays for a zone, falling back to defaults
+export const getZoneDelays = (zoneId: string): ZoneDelaySettings => {
+  const stored = loadZoneSettings()[zoneId] || {};
+  return {
+    exitDelaySeconds: clampDelay(stored.exitDelaySeconds, DEFAULT_EXIT_DELAY_SECONDS),
+    entryDelaySeconds: clampDelay(stored.entryDelaySeconds, DEFAULT_ENTRY_DELAY_SECONDS)
+  };
+};
+
+// Persist the exit/entry delays for a zone
+export const saveZoneDelays = (zoneId: string, delays: Partial<ZoneDelaySettings>): ZoneDelaySettings => {
+  const all = loadZoneSettings();
+  const current = getZoneDelays(zoneId);
+  const next: ZoneDelaySettings = {
+    exitDelaySeconds: clampDelay(delays.exitDelaySeconds ?? current.exitDelaySeconds, DEFAULT_EXIT_DELAY_SECONDS),
+    entryDelaySeconds: clampDelay(delays.entryDelaySeconds ?? current.entryDelaySeconds, DEFAULT_ENTRY_DELAY_SECONDS)
+  };
+  all[zoneId] = { ...all[zoneId], ...next };
+  saveZoneSettings(all);
+  return next;
+};
+
+// Get the devices bypassed for a zone's current arming cycle
+export const getZoneBypasses = (zoneId: string): string[] => {
+  const stored = loadZoneSettings()[zoneId]?.bypassedDeviceIds;
+  return Array.isArray(stored) ? stored.filter(id => typeof id === 'string') : [];
+};
+
+// Persist the bypassed devices for a zone (an empty list clears them)
+export const saveZoneBypasses = (zoneId: string, deviceIds: string[]) => {
+  const all = loadZoneSettings();
+  all[zoneId] = { ...all[zoneId], bypassedDeviceIds: Array.from(new Set(deviceIds)) };
+  saveZoneSettings(all);
+};
+
+// Get the mode a zone arms in by default
+export const getZoneDefaultArmMode = (zoneId: string): ZoneArmMode => {
+  const stored = loadZoneSettings()[zoneId]?.defaultArmMode;
+  return isArmMode(stored) ? stored : DEFAULT_ARM_MODE;
+};
+
+// Spaces have no arm mode of their own, so a space arms in the default mode of the
+// zones its devices belong to. Stay needs every one of them to default to stay;
+// otherwise, or when no zone covers the space, it arms away.
+export const getSpaceArmMode = (deviceIds: string[], zones: Pick<AlarmZone, 'id' | 'deviceIds' | 'defaultArmMode'>[]): ZoneArmMode => {
+  const spaceZones = zones.filter(zone => zone.deviceIds?.some(id => deviceIds.includes(id)));
+  if (spaceZones.length === 0) return DEFAULT_ARM_MODE;
+  return spaceZones.every(zone => (zone.defaultArmMode ?? getZoneDefaultArmMode(zone.id)) === 'ARMED_STAY')
+    ? 'ARMED_STAY'
+    : 'ARMED_AWAY';
+};
+
+export const saveZoneDefaultArmMode = (zoneId: string, mode: ZoneArmMode) => {
+  const all = loadZoneSettings();
+  all[zoneId] = { ...all[zoneId], defaultArmMode: mode };
+  saveZoneSettings(all);
+};
+
+// Get the mode an armed zone is in, falling back to its default
+export const getZoneActiveArmMode = (zoneId: string): ZoneArmMode => {
+  const stored = loadZoneSettings()[zoneId]?.activeArmMode;
+  return isArmMode(stored) ? stored : getZoneDefaultArmMode(zoneId);
+};
+
+export const saveZoneActiveArmMode = (zoneId: string, mode: ZoneArmMode) => {
+  const all = loadZoneSettings();
+  all[zoneId] = { ...all[zoneId], activeArmMode: mode };
+  saveZoneSettings(all);
+};
+
+const isReadinessRule = (value: unknown): value is ReadinessRule =>
+  value === 'block' || value === 'warn' || value === 'ignore';
+
+// Get the readiness rules a zone overrides; the rest use DEFAULT_READINESS_RULES
+export const getZoneReadinessRules = (zoneId: string): Partial<ZoneReadinessRules> => {
+  const stored = loadZoneSettings()[zoneId]?.readinessRules || {};
+  return Object.fromEntries(
+    READINESS_FINDING_KINDS.filter(kind => isReadinessRule(stored[kind])).map(kind => [kind, stored[kind]])
+  );
+};
+
+export const saveZoneReadinessRules = (zoneId: string, rules: Partial<ZoneReadinessRules>): Partial<ZoneReadinessRules> => {
+  const all = loadZoneSettings();
+  const next = { ...getZoneReadinessRules(zoneId), ...rules };
+  all[zoneId] = { ...all[zoneId], readinessRules: next };
+  saveZoneSettings(all);
+  return next;
+};
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Get the colour picked for a zone, or null to use the one derived from its name
+export const getZoneColorSetting = (zoneId: string): string | null => {
+  const stored = loadZoneSettings()[zoneId]?.color;
+  return typeof stored === 'string' && COLOR_PATTERN.test(stored) ? stored : null;
+};
+
+export const saveZoneColor = (zoneId: string, color: string) => {
+  if (!COLOR_PATTERN.test(color)) return;
+  const all = loadZoneSettings();
+  all[zoneId] = { ...all[zoneId], color };
+  saveZoneSettings(all);
+};
+
+// Forget everything stored for a zone once it has been deleted
+export const removeZoneSettings = (zoneId: string) => {
+  const all = loadZoneSettings();
+  delete all[zoneId];
+  saveZoneSettings(all);
+};
+
+// Merge stored keypad settings into zones loaded from the API
+export const applyZoneSettings = <T extends AlarmZone>(zones: T[]): T[] => {
+  return zones.map(zone => ({
+    ...zone,
+    ...getZoneDelays(zone.id),
+    bypassedDeviceIds: getZoneBypasses(zone.id),
+    defaultArmMode: getZoneDefaultArmMode(zone.id),
+    readinessRules: getZoneReadinessRules(zone.id),
+    color: getZoneColorSetting(zone.id) || zone.color
+  }));
+};